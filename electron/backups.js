@@ -0,0 +1,183 @@
+// Rolling on-disk snapshots of the inventory database.
+// The renderer owns the data (IndexedDB), so the main process asks it for a
+// snapshot over IPC and writes the returned backup JSON into a user-chosen
+// folder. Old snapshots are pruned according to the retention policy.
+const { app, dialog, ipcMain, shell } = require('electron');
+const fs = require('fs');
+const path = require('path');
+
+const SNAPSHOT_PREFIX = 'rxinventory-snapshot-';
+const SNAPSHOT_EXTENSION = '.forradsbackup.json';
+const SNAPSHOT_REQUEST_TIMEOUT_MS = 10000;
+const DAILY_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+const DEFAULT_SETTINGS = {
+  folder: null,
+  enabled: true,
+  maxSnapshots: 30,
+  maxAgeDays: 90,
+  lastDailySnapshotAt: null,
+};
+
+const settingsPath = () => path.join(app.getPath('userData'), 'backup-settings.json');
+
+function readSettings() {
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(fs.readFileSync(settingsPath(), 'utf8')) };
+  } catch (error) {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+function writeSettings(settings) {
+  fs.mkdirSync(path.dirname(settingsPath()), { recursive: true });
+  fs.writeFileSync(settingsPath(), JSON.stringify(settings, null, 2));
+}
+
+// Keeps only characters that are safe in a file name, e.g. "before-reset"
+const sanitizeReason = (reason) => String(reason || 'manual').replace(/[^a-z0-9-]/gi, '-').toLowerCase();
+
+function listSnapshots(folder) {
+  if (!folder || !fs.existsSync(folder)) return [];
+  return fs.readdirSync(folder)
+    .filter(name => name.startsWith(SNAPSHOT_PREFIX) && name.endsWith(SNAPSHOT_EXTENSION))
+    .map(name => {
+      const stat = fs.statSync(path.join(folder, name));
+      // File name format: rxinventory-snapshot-<yyyyMMdd-HHmmss>-<reason>.forradsbackup.json
+      const stem = name.slice(SNAPSHOT_PREFIX.length, -SNAPSHOT_EXTENSION.length);
+      const reason = stem.split('-').slice(2).join('-') || 'manual';
+      return { fileName: name, reason, createdAt: stat.mtime.toISOString(), sizeBytes: stat.size };
+    })
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// Deletes snapshots beyond maxSnapshots or older than maxAgeDays. The newest snapshot is always kept.
+function pruneSnapshots(settings) {
+  const snapshots = listSnapshots(settings.folder);
+  const cutoff = Date.now() - settings.maxAgeDays * 24 * 60 * 60 * 1000;
+  const pruned = [];
+  snapshots.forEach((snapshot, index) => {
+    if (index === 0) return;
+    const tooMany = settings.maxSnapshots > 0 && index >= settings.maxSnapshots;
+    const tooOld = settings.maxAgeDays > 0 && new Date(snapshot.createdAt).getTime() < cutoff;
+    if (tooMany || tooOld) {
+      fs.unlinkSync(path.join(settings.folder, snapshot.fileName));
+      pruned.push(snapshot.fileName);
+    }
+  });
+  return pruned;
+}
+
+function writeSnapshot(content, reason) {
+  const settings = readSettings();
+  if (!settings.enabled || !settings.folder) {
+    return { success: false, message: 'Automatic backups are not configured. Choose a backup folder first.' };
+  }
+  try {
+    fs.mkdirSync(settings.folder, { recursive: true });
+    const now = new Date();
+    const pad = (n) => String(n).padStart(2, '0');
+    const stamp = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}-${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`;
+    const fileName = `${SNAPSHOT_PREFIX}${stamp}-${sanitizeReason(reason)}${SNAPSHOT_EXTENSION}`;
+    // Write to a temp file first so a crash never leaves a half-written snapshot
+    const tempPath = path.join(settings.folder, `${fileName}.tmp`);
+    fs.writeFileSync(tempPath, content);
+    fs.renameSync(tempPath, path.join(settings.folder, fileName));
+    const pruned = pruneSnapshots(settings);
+    return { success: true, fileName, pruned };
+  } catch (error) {
+    console.error('Failed to write snapshot:', error);
+    return { success: false, message: error.message };
+  }
+}
+
+/**
+ * Asks the renderer for a serialized backup and writes it to disk.
+ * Resolves with the write result, or a failure after SNAPSHOT_REQUEST_TIMEOUT_MS.
+ */
+function requestSnapshot(window, reason) {
+  return new Promise((resolve) => {
+    if (!window || window.isDestroyed()) {
+      resolve({ success: false, message: 'No window available.' });
+      return;
+    }
+    const requestId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+    const channel = `backups:snapshot-response:${requestId}`;
+    const timer = setTimeout(() => {
+      ipcMain.removeAllListeners(channel);
+      resolve({ success: false, message: 'Timed out waiting for snapshot data.' });
+    }, SNAPSHOT_REQUEST_TIMEOUT_MS);
+
+    ipcMain.once(channel, (_event, content) => {
+      clearTimeout(timer);
+      resolve(content ? writeSnapshot(content, reason) : { success: false, message: 'Renderer returned no data.' });
+    });
+    window.webContents.send('backups:snapshot-request', { requestId, reason });
+  });
+}
+
+function registerBackupHandlers(getMainWindow) {
+  ipcMain.handle('backups:get-settings', () => readSettings());
+
+  ipcMain.handle('backups:update-settings', (_event, partial) => {
+    const settings = { ...readSettings(), ...partial };
+    settings.maxSnapshots = Math.max(1, parseInt(settings.maxSnapshots, 10) || DEFAULT_SETTINGS.maxSnapshots);
+    settings.maxAgeDays = Math.max(0, parseInt(settings.maxAgeDays, 10) || 0);
+    writeSettings(settings);
+    if (settings.folder) pruneSnapshots(settings);
+    return settings;
+  });
+
+  ipcMain.handle('backups:choose-folder', async () => {
+    const result = await dialog.showOpenDialog(getMainWindow(), {
+      title: 'Choose Backup Folder',
+      properties: ['openDirectory', 'createDirectory'],
+    });
+    if (result.canceled || result.filePaths.length === 0) return readSettings();
+    const settings = { ...readSettings(), folder: result.filePaths[0] };
+    writeSettings(settings);
+    return settings;
+  });
+
+  ipcMain.handle('backups:write', (_event, content, reason) => writeSnapshot(content, reason));
+
+  ipcMain.handle('backups:list', () => listSnapshots(readSettings().folder));
+
+  ipcMain.handle('backups:read', (_event, fileName) => {
+    const settings = readSettings();
+    // Only allow reading snapshot files from the configured folder
+    if (!settings.folder || path.basename(fileName) !== fileName || !fileName.startsWith(SNAPSHOT_PREFIX)) {
+      throw new Error('Invalid snapshot file name.');
+    }
+    return fs.readFileSync(path.join(settings.folder, fileName), 'utf8');
+  });
+
+  ipcMain.handle('backups:open-folder', () => {
+    const { folder } = readSettings();
+    if (folder) shell.openPath(folder);
+  });
+}
+
+// Takes one snapshot per calendar day while the app is running.
+function startDailySnapshots(getMainWindow) {
+  const check = async () => {
+    const settings = readSettings();
+    if (!settings.enabled || !settings.folder) return;
+    const today = new Date().toDateString();
+    if (settings.lastDailySnapshotAt && new Date(settings.lastDailySnapshotAt).toDateString() === today) return;
+    const result = await requestSnapshot(getMainWindow(), 'daily');
+    if (result.success) {
+      writeSettings({ ...readSettings(), lastDailySnapshotAt: new Date().toISOString() });
+    }
+  };
+  // Give the renderer time to load its data before the first check
+  setTimeout(check, 30 * 1000);
+  return setInterval(check, DAILY_CHECK_INTERVAL_MS);
+}
+
+module.exports = {
+  registerBackupHandlers,
+  startDailySnapshots,
+  requestSnapshot,
+  readSettings,
+};
@@ -1,10 +1,14 @@
 const { app, BrowserWindow } = require('electron');
 const path = require('path');
+const { registerBackupHandlers, startDailySnapshots, requestSnapshot, readSettings } = require('./backups');
+const { registerPrintHandlers } = require('./printing');
+
+let mainWindow = null;
 
 function createWindow() {
   const isDev = !app.isPackaged;
 
-  const mainWindow = new BrowserWindow({
+  mainWindow = new BrowserWindow({
     width: 1200,
     height: 800,
     webPreferences: {
@@ -23,9 +27,31 @@ function createWindow() {
   if (isDev) {
     mainWindow.webContents.openDevTools();
   }
+
+  // Take a snapshot before the window goes away, then close for real
+  let snapshotTakenOnClose = false;
+  mainWindow.on('close', (event) => {
+    const settings = readSettings();
+    if (snapshotTakenOnClose || !settings.enabled || !settings.folder) return;
+    event.preventDefault();
+    snapshotTakenOnClose = true;
+    const closingWindow = mainWindow;
+    requestSnapshot(closingWindow, 'app-close').finally(() => {
+      if (!closingWindow.isDestroyed()) closingWindow.close();
+    });
+  });
+
+  mainWindow.on('closed', () => {
+    mainWindow = null;
+  });
 }
 
-app.whenReady().then(createWindow);
+app.whenReady().then(() => {
+  registerBackupHandlers(() => mainWindow);
+  registerPrintHandlers(() => mainWindow);
+  createWindow();
+  startDailySnapshots(() => mainWindow);
+});
 
 app.on('window-all-closed', () => {
   if (process.platform !== 'darwin') {
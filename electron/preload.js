@@ -1,10 +1,39 @@
 // See the Electron documentation for details on how to use preload scripts:
 // https://www.electronjs.org/docs/latest/tutorial/process-model#preload-scripts
-const { contextBridge } = require('electron');
+const { contextBridge, ipcRenderer } = require('electron');
 
 // Preload scripts run in a sandboxed environment with access to Node.js APIs.
 // The contextBridge is used to securely expose specific functions to the
 // renderer process (your web app) without leaking Node.js globals.
 contextBridge.exposeInMainWorld('electron', {
   isElectron: true,
+  backups: {
+    getSettings: () => ipcRenderer.invoke('backups:get-settings'),
+    updateSettings: (settings) => ipcRenderer.invoke('backups:update-settings', settings),
+    chooseFolder: () => ipcRenderer.invoke('backups:choose-folder'),
+    openFolder: () => ipcRenderer.invoke('backups:open-folder'),
+    write: (content, reason) => ipcRenderer.invoke('backups:write', content, reason),
+    list: () => ipcRenderer.invoke('backups:list'),
+    read: (fileName) => ipcRenderer.invoke('backups:read', fileName),
+    // The main process asks for a snapshot (on close, daily); the handler returns the backup JSON
+    onSnapshotRequest: (handler) => {
+      const listener = async (_event, { requestId, reason }) => {
+        let content = null;
+        try {
+          content = await handler(reason);
+        } catch (error) {
+          console.error('Snapshot handler failed:', error);
+        }
+        ipcRenderer.send(`backups:snapshot-response:${requestId}`, content);
+      };
+      ipcRenderer.on('backups:snapshot-request', listener);
+      return () => ipcRenderer.removeListener('backups:snapshot-request', listener);
+    },
+  },
+  printing: {
+    getSettings: () => ipcRenderer.invoke('printing:get-settings'),
+    updateSettings: (settings) => ipcRenderer.invoke('printing:update-settings', settings),
+    listPrinters: () => ipcRenderer.invoke('printing:list-printers'),
+    printHtml: (html, paperSize) => ipcRenderer.invoke('printing:print-html', html, paperSize),
+  },
 });
@@ -0,0 +1,92 @@
+// Silent printing of dispensing slips.
+// The renderer builds the slip as a standalone HTML page; it is loaded into a
+// hidden window and sent straight to the chosen printer without a dialog.
+const { app, BrowserWindow, ipcMain } = require('electron');
+const fs = require('fs');
+const path = require('path');
+
+// Page sizes in microns. Thermal rolls are 80mm wide and cut after the content.
+const PAGE_SIZES = {
+  thermal: { width: 80000, height: 200000 },
+  A5: 'A5',
+};
+const PRINT_LOAD_TIMEOUT_MS = 10000;
+
+const DEFAULT_SETTINGS = {
+  printerName: null, // null = system default printer
+  paperSize: 'thermal',
+};
+
+const settingsPath = () => path.join(app.getPath('userData'), 'print-settings.json');
+
+function readSettings() {
+  try {
+    return { ...DEFAULT_SETTINGS, ...JSON.parse(fs.readFileSync(settingsPath(), 'utf8')) };
+  } catch (error) {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+function writeSettings(settings) {
+  fs.mkdirSync(path.dirname(settingsPath()), { recursive: true });
+  fs.writeFileSync(settingsPath(), JSON.stringify(settings, null, 2));
+}
+
+/**
+ * Prints an HTML document on the configured printer without showing a dialog.
+ * Resolves with { success } or { success: false, message }; never rejects.
+ */
+function printHtml(html, paperSize) {
+  return new Promise((resolve) => {
+    const settings = readSettings();
+    const printWindow = new BrowserWindow({
+      show: false,
+      webPreferences: { javascript: false, nodeIntegration: false, contextIsolation: true },
+    });
+    const finish = (result) => {
+      clearTimeout(timer);
+      if (!printWindow.isDestroyed()) printWindow.destroy();
+      resolve(result);
+    };
+    const timer = setTimeout(() => finish({ success: false, message: 'Timed out preparing the slip for printing.' }), PRINT_LOAD_TIMEOUT_MS);
+
+    printWindow.webContents.once('did-finish-load', () => {
+      printWindow.webContents.print({
+        silent: true,
+        printBackground: true,
+        deviceName: settings.printerName || undefined,
+        pageSize: PAGE_SIZES[paperSize] || PAGE_SIZES[settings.paperSize] || PAGE_SIZES.thermal,
+        margins: { marginType: 'none' },
+      }, (success, failureReason) => {
+        finish(success ? { success: true } : { success: false, message: failureReason || 'Printing failed.' });
+      });
+    });
+    printWindow.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(html)}`).catch((error) => {
+      finish({ success: false, message: error.message });
+    });
+  });
+}
+
+function registerPrintHandlers(getMainWindow) {
+  ipcMain.handle('printing:get-settings', () => readSettings());
+
+  ipcMain.handle('printing:update-settings', (_event, partial) => {
+    const settings = { ...readSettings(), ...partial };
+    if (!PAGE_SIZES[settings.paperSize]) settings.paperSize = DEFAULT_SETTINGS.paperSize;
+    writeSettings(settings);
+    return settings;
+  });
+
+  ipcMain.handle('printing:list-printers', async () => {
+    const window = getMainWindow();
+    if (!window || window.isDestroyed()) return [];
+    const printers = await window.webContents.getPrintersAsync();
+    return printers.map(printer => ({ name: printer.name, displayName: printer.displayName || printer.name, isDefault: !!printer.isDefault }));
+  });
+
+  ipcMain.handle('printing:print-html', (_event, html, paperSize) => printHtml(html, paperSize));
+}
+
+module.exports = {
+  registerPrintHandlers,
+};
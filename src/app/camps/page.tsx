@@ -1,11 +1,12 @@
-
 "use client";
 
+import CampSessions from '@/components/camps/CampSessions';
 import ManageVillagesForm from '@/components/camps/ManageVillagesForm';
 
 export default function CampsPage() {
   return (
-    <div className="container mx-auto py-8">
+    <div className="container mx-auto py-8 space-y-6">
+      <CampSessions />
       <ManageVillagesForm />
     </div>
   );
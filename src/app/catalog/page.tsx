@@ -0,0 +1,11 @@
+"use client";
+
+import ProductCatalog from '@/components/inventory/ProductCatalog';
+
+export default function CatalogPage() {
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <ProductCatalog />
+    </div>
+  );
+}
@@ -1,11 +1,14 @@
 "use client";
 
 import DispenseForm from '@/components/inventory/DispenseForm';
+import RequirePermission from '@/components/auth/RequirePermission';
 
 export default function DispensePage() {
   return (
     <div className="container mx-auto py-8">
-      <DispenseForm />
+      <RequirePermission permission="dispense">
+        <DispenseForm />
+      </RequirePermission>
     </div>
   );
 }
@@ -1,8 +1,12 @@
 
 import type { Metadata } from 'next';
 import './globals.css';
+import { AuthProvider } from '@/contexts/AuthContext';
+import { LanguageProvider } from '@/contexts/LanguageContext';
 import { InventoryProvider } from '@/contexts/InventoryContext';
 import Header from '@/components/layout/Header';
+import DataIntegrityNotice from '@/components/layout/DataIntegrityNotice';
+import AuthGate from '@/components/auth/AuthGate';
 import { Toaster } from "@/components/ui/toaster";
 
 export const metadata: Metadata = {
@@ -20,16 +24,23 @@ export default function RootLayout({
       <head>
         <link rel="preconnect" href="https://fonts.googleapis.com" />
         <link rel="preconnect" href="https://fonts.gstatic.com" crossOrigin="anonymous" />
-        <link href="https://fonts.googleapis.com/css2?family=PT+Sans:ital,wght@0,400;0,700;1,400;1,700&display=swap" rel="stylesheet" />
+        <link href="https://fonts.googleapis.com/css2?family=PT+Sans:ital,wght@0,400;0,700;1,400;1,700&family=Noto+Sans+Devanagari:wght@400;700&display=swap" rel="stylesheet" />
       </head>
       <body className="font-body antialiased bg-background text-foreground min-h-screen flex flex-col">
-        <InventoryProvider>
-          <Header />
-          <main className="flex-grow container mx-auto px-4 py-8">
-            {children}
-          </main>
-          <Toaster />
-        </InventoryProvider>
+        <AuthProvider>
+          <LanguageProvider>
+            <InventoryProvider>
+              <Header />
+              <DataIntegrityNotice />
+              <main className="flex-grow container mx-auto px-4 py-8">
+                <AuthGate>
+                  {children}
+                </AuthGate>
+              </main>
+              <Toaster />
+            </InventoryProvider>
+          </LanguageProvider>
+        </AuthProvider>
       </body>
     </html>
   );
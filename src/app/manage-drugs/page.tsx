@@ -3,6 +3,7 @@
 
 import React, { useState } from 'react';
 import { useInventory } from '@/contexts/InventoryContext';
+import { useAuth } from '@/contexts/AuthContext';
 import type { Drug } from '@/types'; // Drug is a specific batch here
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -17,6 +18,10 @@ import {
 import { Edit, Pill, Info, Trash2, AlertTriangle, Replace } from 'lucide-react';
 import EditDrugForm from '@/components/inventory/EditDrugForm';
 import AdjustStockDialog from '@/components/inventory/AdjustStockDialog';
+import ExpiryPolicyCard from '@/components/inventory/ExpiryPolicyCard';
+import { isBatchExpired } from '@/lib/fefo';
+import { BASE_UNITS, DOSAGE_FORMS, formatQuantity } from '@/lib/units';
+import { formatInPacks, getPackLevels } from '@/lib/packs';
 import {
   Dialog,
   DialogContent,
@@ -48,6 +53,7 @@ const formatDateSafe = (dateString?: string) => {
 
 export default function ManageDrugsPage() {
   const { drugs, deleteDrugBatch } = useInventory(); 
+  const { hasPermission } = useAuth();
   const [selectedDrugBatch, setSelectedDrugBatch] = useState<Drug | null>(null);
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
   const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
@@ -117,7 +123,7 @@ export default function ManageDrugsPage() {
             <Pill className="h-6 w-6 text-primary" />
             Manage Drug Batches
           </CardTitle>
-          <CardDescription>View, edit, or delete details of individual drug batches in your inventory.</CardDescription>
+          <CardDescription>View, edit, or delete details of individual drug batches in your inventory. Names, forms, pack sizes and stock levels are edited in the Drug Catalog.</CardDescription>
         </CardHeader>
         <CardContent>
           {sortedDrugBatches.length === 0 ? (
@@ -134,9 +140,9 @@ export default function ManageDrugsPage() {
                     <TableHead>Mfg. Date</TableHead>
                     <TableHead>Exp. Date</TableHead>
                     <TableHead>Source</TableHead>
-                    <TableHead className="text-right">Stock (Tablets)</TableHead>
-                    <TableHead className="text-right">Price/Tablet (INR)</TableHead>
-                    <TableHead className="text-right">Low Stock Threshold</TableHead>
+                    <TableHead>Form</TableHead>
+                    <TableHead className="text-right">Stock</TableHead>
+                    <TableHead className="text-right">Price/Unit (INR)</TableHead>
                     <TableHead className="text-center">Actions</TableHead>
                   </TableRow>
                 </TableHeader>
@@ -148,19 +154,26 @@ export default function ManageDrugsPage() {
                       <TableCell>{batch.dosage || 'N/A'}</TableCell>
                       <TableCell>{batch.batchNumber || 'N/A'}</TableCell>
                       <TableCell>{formatDateSafe(batch.dateOfManufacture)}</TableCell>
-                      <TableCell>{formatDateSafe(batch.dateOfExpiry)}</TableCell>
+                      <TableCell className={isBatchExpired(batch) ? 'text-destructive font-medium' : undefined}>
+                        {formatDateSafe(batch.dateOfExpiry)}{isBatchExpired(batch) && ' (Expired)'}
+                      </TableCell>
                       <TableCell>{batch.initialSource || 'N/A'}</TableCell>
-                      <TableCell className="text-right">{batch.stock}</TableCell>
-                      <TableCell className="text-right">INR {(batch.purchasePricePerTablet ?? 0).toFixed(2)}</TableCell>
-                      <TableCell className="text-right">{batch.lowStockThreshold}</TableCell>
+                      <TableCell>{DOSAGE_FORMS[batch.dosageForm].label}</TableCell>
+                      <TableCell className="text-right">
+                        {formatQuantity(batch.stock, batch.unit)}
+                        {getPackLevels(batch.packSizes).length > 0 && batch.stock > 0 && (
+                          <div className="text-xs text-muted-foreground">{formatInPacks(batch.stock, batch.unit, batch.packSizes)}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">INR {(batch.purchasePricePerUnit ?? 0).toFixed(2)} / {BASE_UNITS[batch.unit].one}</TableCell>
                       <TableCell className="text-center space-x-1">
-                        <Button variant="outline" size="sm" onClick={() => handleAdjustStock(batch)} className="h-8 px-2">
+                        <Button variant="outline" size="sm" onClick={() => handleAdjustStock(batch)} className="h-8 px-2" disabled={!hasPermission('adjust')}>
                           <Replace className="mr-1 h-4 w-4" /> Adjust Stock
                         </Button>
-                        <Button variant="outline" size="sm" onClick={() => handleEdit(batch)} className="h-8 px-2">
+                        <Button variant="outline" size="sm" onClick={() => handleEdit(batch)} className="h-8 px-2" disabled={!hasPermission('adjust')}>
                           <Edit className="mr-1 h-4 w-4" /> Edit
                         </Button>
-                        <Button variant="destructive" size="sm" onClick={() => openDeleteDialog(batch)} className="h-8 px-2">
+                        <Button variant="destructive" size="sm" onClick={() => openDeleteDialog(batch)} className="h-8 px-2" disabled={!hasPermission('deleteBatch')}>
                           <Trash2 className="mr-1 h-4 w-4" /> Delete
                         </Button>
                       </TableCell>
@@ -173,6 +186,8 @@ export default function ManageDrugsPage() {
         </CardContent>
       </Card>
 
+      <ExpiryPolicyCard />
+
       {selectedDrugBatch && isEditDialogOpen && (
         <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
           <DialogContent className="sm:max-w-md md:max-w-lg lg:max-w-xl">
@@ -2,9 +2,11 @@
 "use client";
 
 import { useInventory } from '@/contexts/InventoryContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/contexts/LanguageContext';
 import DrugStockCard from '@/components/inventory/DrugStockCard';
 import { Button } from '@/components/ui/button';
-import { PlusCircle, Loader2, RotateCcw, AlertTriangle, KeyRound, FileSpreadsheet } from 'lucide-react';
+import { PlusCircle, Loader2, RotateCcw, AlertTriangle, KeyRound, FileSpreadsheet, DatabaseBackup, ArchiveRestore, HardDrive } from 'lucide-react';
 import React, { useState } from 'react';
 import type { Drug } from '@/types';
 import {
@@ -20,20 +22,36 @@ import {
 } from "@/components/ui/alert-dialog";
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import ExportDataDialog from '@/components/dashboard/ExportDataDialog';
+import RestoreBackupDialog from '@/components/dashboard/RestoreBackupDialog';
+import AutoBackupDialog from '@/components/dashboard/AutoBackupDialog';
+import { isElectron } from '@/lib/electron';
+import { getStockLevelStatus, type StockLevelStatus } from '@/lib/products';
+import { createBackup, downloadTextFile, BACKUP_FILE_EXTENSION } from '@/lib/backup';
+import { format } from 'date-fns';
 import Link from 'next/link';
 
-const RESET_PASSWORD = "12345"; 
+const ALL_LOCATIONS_VALUE = '--all--';
+const ALL_STOCK_LEVELS_VALUE = '--all--';
+
+const STOCK_LEVEL_FILTERS: Array<Exclude<StockLevelStatus, 'withinLevels'>> = ['belowMinimum', 'belowReorder', 'overstocked'];
 
 export default function DashboardPage() {
-  const { drugs, transactions, loading, getDrugGroupsForDisplay, resetInventoryData } = useInventory();
+  const { products, drugs, transactions, villages, patients, camps, locations, stockTakes, loading, getDrugGroupsForDisplay, resetInventoryData } = useInventory();
   const [isClient, setIsClient] = React.useState(false);
   const [isResetDialogOpen, setIsResetDialogOpen] = useState(false);
   const [isExportDialogOpen, setIsExportDialogOpen] = useState(false);
-  const [passwordInput, setPasswordInput] = useState('');
-  const [passwordError, setPasswordError] = useState('');
+  const [isRestoreDialogOpen, setIsRestoreDialogOpen] = useState(false);
+  const [isAutoBackupDialogOpen, setIsAutoBackupDialogOpen] = useState(false);
+  const [locationFilter, setLocationFilter] = useState(ALL_LOCATIONS_VALUE);
+  const [stockLevelFilter, setStockLevelFilter] = useState<string>(ALL_STOCK_LEVELS_VALUE);
+  const [pinInput, setPinInput] = useState('');
+  const [pinError, setPinError] = useState('');
+  const { hasPermission, verifyCurrentUserPin } = useAuth();
   const { toast } = useToast();
+  const { t } = useTranslation();
 
   React.useEffect(() => {
     setIsClient(true);
@@ -41,34 +59,77 @@ export default function DashboardPage() {
 
   const groupedDrugsForDashboard = React.useMemo(() => {
     if (loading || !isClient) return [];
-    return getDrugGroupsForDisplay();
-  }, [loading, isClient, getDrugGroupsForDisplay]);
+    return getDrugGroupsForDisplay(locationFilter === ALL_LOCATIONS_VALUE ? undefined : locationFilter);
+  }, [loading, isClient, getDrugGroupsForDisplay, locationFilter]);
+
+  const stockLevelStatuses = React.useMemo(
+    () => new Map(groupedDrugsForDashboard.map(group => [group.groupKey, getStockLevelStatus(group)])),
+    [groupedDrugsForDashboard]
+  );
 
-  const handleResetDataAttempt = () => {
-    if (passwordInput === RESET_PASSWORD) {
-      resetInventoryData();
+  const countWithStatus = (status: StockLevelStatus) =>
+    Array.from(stockLevelStatuses.values()).filter(groupStatus => groupStatus === status).length;
+
+  const visibleGroups = stockLevelFilter === ALL_STOCK_LEVELS_VALUE
+    ? groupedDrugsForDashboard
+    : groupedDrugsForDashboard.filter(group => stockLevelStatuses.get(group.groupKey) === stockLevelFilter);
+
+  const handleResetDataAttempt = async () => {
+    if (!hasPermission('reset')) {
+      setPinError("Only an admin can reset all data.");
+      return;
+    }
+    if (await verifyCurrentUserPin(pinInput)) {
+      const result = await resetInventoryData();
+      if (!result.success) {
+        toast({
+          variant: "destructive",
+          title: "Data Reset Cancelled",
+          description: result.message || "Could not reset data.",
+        });
+        return;
+      }
       toast({
         title: "Data Reset Successful",
-        description: "All inventory, transactions, and villages have been reset to their default state.",
+        description: "All inventory, transactions, villages, patients and camps have been reset to their default state.",
       });
       setIsResetDialogOpen(false); 
-      setPasswordInput(''); 
-      setPasswordError(''); 
+      setPinInput(''); 
+      setPinError(''); 
     } else {
-      setPasswordError("Incorrect password. Please try again.");
+      setPinError("Incorrect PIN. Please try again.");
+    }
+  };
+
+  const handleExportBackup = async () => {
+    try {
+      const backup = await createBackup({ products, drugs, transactions, villages, patients, camps, locations, stockTakes });
+      const fileName = `FORRADS_MMU_Backup_${format(new Date(), 'yyyyMMdd_HHmmss')}${BACKUP_FILE_EXTENSION}`;
+      downloadTextFile(JSON.stringify(backup), fileName);
+      toast({
+        title: "Backup Exported",
+        description: `${backup.summary.productCount} products, ${backup.summary.drugCount} batches, ${backup.summary.transactionCount} transactions, ${backup.summary.villageCount} villages, ${backup.summary.patientCount} patients, ${backup.summary.campCount} camps, ${backup.summary.locationCount} locations and ${backup.summary.stockTakeCount ?? 0} stock takes saved to ${fileName}.`,
+      });
+    } catch (error) {
+      console.error("Backup export failed:", error);
+      toast({
+        variant: "destructive",
+        title: "Backup Failed",
+        description: error instanceof Error ? error.message : "Could not create the backup file.",
+      });
     }
   };
 
   const openResetDialog = () => {
-    setPasswordInput('');
-    setPasswordError('');
+    setPinInput('');
+    setPinError('');
     setIsResetDialogOpen(true);
   };
 
   const closeResetDialog = () => {
     setIsResetDialogOpen(false);
-    setPasswordInput('');
-    setPasswordError('');
+    setPinInput('');
+    setPinError('');
   };
 
 
@@ -86,12 +147,19 @@ export default function DashboardPage() {
       <div className="text-center py-10">
         <p className="text-xl text-muted-foreground mb-4">No drugs in inventory.</p>
         <p className="text-sm text-muted-foreground mb-6">Your inventory is currently empty. Add some stock to get started!</p>
-        <Button asChild>
-          <a href="./restock.html">
-            <PlusCircle className="mr-2 h-4 w-4" /> Add Initial Stock
-          </a>
-        </Button>
+        <div className="flex flex-col sm:flex-row gap-4 justify-center">
+          <Button asChild>
+            <a href="./restock.html">
+              <PlusCircle className="mr-2 h-4 w-4" /> Add Initial Stock
+            </a>
+          </Button>
+          <Button variant="outline" onClick={() => setIsRestoreDialogOpen(true)}>
+            <ArchiveRestore className="mr-2 h-4 w-4" /> Restore from Backup
+          </Button>
+        </div>
+        <RestoreBackupDialog isOpen={isRestoreDialogOpen} onClose={() => setIsRestoreDialogOpen(false)} />
 
+        {hasPermission('reset') && (
         <div className="mt-12 pt-8 border-t border-border">
           <AlertDialog open={isResetDialogOpen} onOpenChange={setIsResetDialogOpen}>
             <AlertDialogTrigger asChild>
@@ -109,36 +177,38 @@ export default function DashboardPage() {
                   This action cannot be undone. This will permanently delete all your current
                   inventory, transaction, and village data, and reset it to the application defaults.
                   <br />
-                  <strong className="text-destructive">Please enter the password to confirm.</strong>
+                  <strong className="text-destructive">Please enter your PIN to confirm.</strong>
                 </AlertDialogDescription>
               </AlertDialogHeader>
               <div className="space-y-2 py-2">
-                <Label htmlFor="resetPassword">Password</Label>
+                <Label htmlFor="resetPin">Your PIN</Label>
                 <div className="flex items-center gap-2">
                   <KeyRound className="h-4 w-4 text-muted-foreground" />
                   <Input
-                    id="resetPassword"
+                    id="resetPin"
                     type="password"
-                    value={passwordInput}
-                    onChange={(e) => setPasswordInput(e.target.value)}
-                    placeholder="Enter password"
-                    className={passwordError ? "border-destructive ring-destructive" : ""}
+                    value={pinInput}
+                    onChange={(e) => setPinInput(e.target.value)}
+                    inputMode="numeric"
+                    placeholder="Enter PIN"
+                    className={pinError ? "border-destructive ring-destructive" : ""}
                   />
                 </div>
-                {passwordError && <p className="text-sm text-destructive">{passwordError}</p>}
+                {pinError && <p className="text-sm text-destructive">{pinError}</p>}
               </div>
               <AlertDialogFooter>
                 <AlertDialogCancel onClick={closeResetDialog}>Cancel</AlertDialogCancel>
-                <AlertDialogAction onClick={handleResetDataAttempt} className="bg-destructive hover:bg-destructive/90 text-destructive-foreground">
+                <AlertDialogAction onClick={(e) => { e.preventDefault(); handleResetDataAttempt(); }} className="bg-destructive hover:bg-destructive/90 text-destructive-foreground">
                   Yes, Reset Data
                 </AlertDialogAction>
               </AlertDialogFooter>
             </AlertDialogContent>
           </AlertDialog>
           <p className="text-xs text-muted-foreground mt-2">
-            Use this to clear all data and start fresh. This action is password protected.
+            Use this to clear all data and start fresh. Only admins can do this, and it requires their PIN.
           </p>
         </div>
+        )}
       </div>
     );
   }
@@ -147,16 +217,66 @@ export default function DashboardPage() {
     <div className="space-y-8">
       <div className="flex justify-between items-center">
         <h1 className="text-3xl font-bold font-headline text-foreground">Inventory Dashboard</h1>
-        <Button variant="outline" onClick={() => setIsExportDialogOpen(true)} className="shadow-md hover:shadow-lg transition-shadow">
-          <FileSpreadsheet className="mr-2 h-4 w-4" /> Export Data
-        </Button>
+        <div className="flex flex-wrap gap-2 justify-end">
+          <Button variant="outline" onClick={() => setIsExportDialogOpen(true)} className="shadow-md hover:shadow-lg transition-shadow">
+            <FileSpreadsheet className="mr-2 h-4 w-4" /> Export Data
+          </Button>
+          <Button variant="outline" onClick={handleExportBackup} className="shadow-md hover:shadow-lg transition-shadow">
+            <DatabaseBackup className="mr-2 h-4 w-4" /> Export Backup
+          </Button>
+          <Button variant="outline" onClick={() => setIsRestoreDialogOpen(true)} className="shadow-md hover:shadow-lg transition-shadow">
+            <ArchiveRestore className="mr-2 h-4 w-4" /> Restore from Backup
+          </Button>
+          {isElectron() && (
+            <Button variant="outline" onClick={() => setIsAutoBackupDialogOpen(true)} className="shadow-md hover:shadow-lg transition-shadow">
+              <HardDrive className="mr-2 h-4 w-4" /> Automatic Backups
+            </Button>
+          )}
+        </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-        {groupedDrugsForDashboard.map((group) => (
-          <DrugStockCard key={group.groupKey} drugGroup={group} />
-        ))}
+      <div className="flex flex-col sm:flex-row sm:flex-wrap gap-4">
+        {locations.length > 1 && (
+          <div className="flex items-center gap-2">
+            <Label htmlFor="location-filter" className="shrink-0">Showing stock at</Label>
+            <Select value={locationFilter} onValueChange={setLocationFilter}>
+              <SelectTrigger id="location-filter" className="w-full sm:w-64">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_LOCATIONS_VALUE}>All locations</SelectItem>
+                {locations.map(location => (
+                  <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <div className="flex items-center gap-2">
+          <Label htmlFor="stock-level-filter" className="shrink-0">{t('dashboard.stockLevels')}</Label>
+          <Select value={stockLevelFilter} onValueChange={setStockLevelFilter}>
+            <SelectTrigger id="stock-level-filter" className="w-full sm:w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STOCK_LEVELS_VALUE}>{t('dashboard.allProducts')}</SelectItem>
+              {STOCK_LEVEL_FILTERS.map(status => (
+                <SelectItem key={status} value={status}>{t(`dashboard.stockLevelFilters.${status}`)} ({countWithStatus(status)})</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
       </div>
+
+      {visibleGroups.length === 0 ? (
+        <p className="text-center text-muted-foreground py-10">No products match this stock level.</p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {visibleGroups.map((group) => (
+            <DrugStockCard key={group.groupKey} drugGroup={group} locations={locations} />
+          ))}
+        </div>
+      )}
       
       <div className="mt-8 flex flex-col sm:flex-row gap-4 justify-center">
         <Button size="lg" asChild className="shadow-md hover:shadow-lg transition-shadow">
@@ -167,6 +287,7 @@ export default function DashboardPage() {
         </Button>
       </div>
 
+      {hasPermission('reset') && (
       <div className="mt-12 pt-8 border-t border-border text-center">
         <AlertDialog open={isResetDialogOpen} onOpenChange={(open) => {
             if (!open) {
@@ -190,45 +311,49 @@ export default function DashboardPage() {
                 This action cannot be undone. This will permanently delete all your current
                 inventory, transaction, and village data, and reset it to the application defaults.
                 <br />
-                <strong className="text-destructive">Please enter the password to confirm.</strong>
+                <strong className="text-destructive">Please enter your PIN to confirm.</strong>
               </AlertDialogDescription>
             </AlertDialogHeader>
              <div className="space-y-2 py-2">
-                <Label htmlFor="resetPasswordConfirm">Password</Label>
+                <Label htmlFor="resetPinConfirm">Your PIN</Label>
                  <div className="flex items-center gap-2">
                     <KeyRound className="h-4 w-4 text-muted-foreground" />
                     <Input
-                        id="resetPasswordConfirm"
+                        id="resetPinConfirm"
                         type="password"
-                        value={passwordInput}
+                        value={pinInput}
                         onChange={(e) => {
-                            setPasswordInput(e.target.value);
-                            if (passwordError) setPasswordError(''); 
+                            setPinInput(e.target.value);
+                            if (pinError) setPinError(''); 
                         }}
-                        placeholder="Enter password"
-                        className={passwordError ? "border-destructive ring-destructive focus-visible:ring-destructive" : ""}
+                        inputMode="numeric"
+                    placeholder="Enter PIN"
+                        className={pinError ? "border-destructive ring-destructive focus-visible:ring-destructive" : ""}
                     />
                  </div>
-                {passwordError && <p className="text-sm text-destructive">{passwordError}</p>}
+                {pinError && <p className="text-sm text-destructive">{pinError}</p>}
               </div>
             <AlertDialogFooter>
               <AlertDialogCancel onClick={closeResetDialog}>Cancel</AlertDialogCancel>
-              <AlertDialogAction onClick={handleResetDataAttempt} className="bg-destructive hover:bg-destructive/90 text-destructive-foreground">
+              <AlertDialogAction onClick={(e) => { e.preventDefault(); handleResetDataAttempt(); }} className="bg-destructive hover:bg-destructive/90 text-destructive-foreground">
                 Yes, Reset Data
               </AlertDialogAction>
             </AlertDialogFooter>
           </AlertDialogContent>
         </AlertDialog>
         <p className="text-xs text-muted-foreground mt-2">
-          Use this to clear all data and start fresh. This action is password protected.
+          Use this to clear all data and start fresh. Only admins can do this, and it requires their PIN.
         </p>
       </div>
+      )}
       <ExportDataDialog
         isOpen={isExportDialogOpen}
         onClose={() => setIsExportDialogOpen(false)}
         allDrugs={drugs}
         allTransactions={transactions}
       />
+      <RestoreBackupDialog isOpen={isRestoreDialogOpen} onClose={() => setIsRestoreDialogOpen(false)} />
+      <AutoBackupDialog isOpen={isAutoBackupDialogOpen} onClose={() => setIsAutoBackupDialogOpen(false)} />
     </div>
   );
 }
@@ -0,0 +1,36 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { useInventory } from '@/contexts/InventoryContext';
+import PatientHistory from '@/components/patients/PatientHistory';
+
+// Static export has no dynamic routes, so the patient comes from `?id=`
+export default function PatientHistoryPage() {
+  const { loading } = useInventory();
+  const [patientId, setPatientId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setPatientId(new URLSearchParams(window.location.search).get('id') || '');
+  }, []);
+
+  if (loading || patientId === null) {
+    return (
+      <div className="flex items-center justify-center py-20 text-muted-foreground">
+        <Loader2 className="h-6 w-6 animate-spin mr-2" /> Loading patient...
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8">
+      {patientId ? (
+        <PatientHistory patientId={patientId} />
+      ) : (
+        <p className="text-center text-muted-foreground py-10">
+          No patient selected. Open a patient from the <a href="./patients.html" className="text-primary underline">Patients</a> page.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+"use client";
+
+import PatientRegistry from '@/components/patients/PatientRegistry';
+import DuplicatePatientsReview from '@/components/patients/DuplicatePatientsReview';
+
+export default function PatientsPage() {
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <PatientRegistry />
+      <DuplicatePatientsReview />
+    </div>
+  );
+}
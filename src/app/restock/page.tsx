@@ -1,11 +1,14 @@
 "use client";
 
 import RestockForm from '@/components/inventory/RestockForm';
+import RequirePermission from '@/components/auth/RequirePermission';
 
 export default function RestockPage() {
   return (
     <div className="container mx-auto py-8">
-      <RestockForm />
+      <RequirePermission permission="restock">
+        <RestockForm />
+      </RequirePermission>
     </div>
   );
 }
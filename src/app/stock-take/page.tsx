@@ -0,0 +1,11 @@
+"use client";
+
+import StockTakeSessions from '@/components/stockTakes/StockTakeSessions';
+
+export default function StockTakePage() {
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <StockTakeSessions />
+    </div>
+  );
+}
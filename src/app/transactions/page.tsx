@@ -3,6 +3,8 @@
 
 import React, { useState } from 'react';
 import { useInventory } from '@/contexts/InventoryContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/contexts/LanguageContext';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import {
   Table,
@@ -15,20 +17,17 @@ import {
 } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { format, parseISO } from 'date-fns';
-import { ListChecks, ArrowDownCircle, ArrowUpCircle, Edit3, MapPin, Replace, Trash2, AlertTriangle, ArrowRight } from 'lucide-react';
-import type { Transaction, TransactionDrugDetail, Drug } from '@/types';
+import { ListChecks, ArrowDownCircle, ArrowUpCircle, Edit3, MapPin, Replace, AlertTriangle, ShieldCheck, Ban, Link2, Tent, Truck, Warehouse, ClipboardCheck } from 'lucide-react';
+import type { Transaction, TransactionDrugDetail, LedgerVerificationResult } from '@/types';
 import { Button } from '@/components/ui/button';
-import {
-  AlertDialog,
-  AlertDialogAction,
-  AlertDialogCancel,
-  AlertDialogContent,
-  AlertDialogDescription,
-  AlertDialogFooter,
-  AlertDialogHeader,
-  AlertDialogTitle,
-} from "@/components/ui/alert-dialog";
-import { useToast } from '@/hooks/use-toast';
+import LedgerVerificationDialog from '@/components/transactions/LedgerVerificationDialog';
+import VoidTransactionDialog from '@/components/transactions/VoidTransactionDialog';
+import { getVoidStatusMap, isVoidable } from '@/lib/voids';
+import { buildTransactionPatientIndex } from '@/lib/patients';
+import { translateRegimen } from '@/lib/regimen';
+import { BASE_UNITS, DOSAGE_FORMS, getBaseUnit, getUnitLabel } from '@/lib/units';
+import { describePackSizes } from '@/lib/packs';
+import { getLocationName } from '@/lib/locations';
 
 
 const formatDateSafe = (dateString?: string) => {
@@ -40,88 +39,77 @@ const formatDateSafe = (dateString?: string) => {
   }
 };
 
-interface CorrectedStockInfo {
-  drugName: string;
-  batchNumber?: string;
-  currentStock: number;
-  correctedStock: number;
-}
+const ledgerLabel = (transaction?: Transaction) =>
+  transaction && typeof transaction.sequence === 'number' ? `#${transaction.sequence}` : 'entry';
 
 export default function TransactionsPage() {
-  const { transactions, deleteTransaction, getDrugById } = useInventory();
-  const [transactionToDelete, setTransactionToDelete] = useState<Transaction | null>(null);
-  const [correctedStockPreview, setCorrectedStockPreview] = useState<CorrectedStockInfo[]>([]);
-  const { toast } = useToast();
+  const { transactions, patients, camps, villages, locations, drugs, stockTakes } = useInventory();
+  const { hasPermission } = useAuth();
+  const { t } = useTranslation();
+  const [transactionToVoid, setTransactionToVoid] = useState<Transaction | null>(null);
+  const [isVerifyDialogOpen, setIsVerifyDialogOpen] = useState(false);
+  const [flaggedTransactionIds, setFlaggedTransactionIds] = useState<Set<string>>(new Set());
 
   const sortedTransactions = React.useMemo(() => 
     [...transactions].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()),
     [transactions]
   );
   
-  const handleOpenDeleteDialog = (transaction: Transaction) => {
-    const stockPreview: CorrectedStockInfo[] = [];
-
-    transaction.drugs.forEach(detail => {
-      const currentBatch = getDrugById(detail.drugId);
-      if (currentBatch) {
-        // To reverse the transaction, we subtract the quantity.
-        // Dispense is negative, so -- becomes +. Restock is positive, so - becomes -.
-        const correctedStock = currentBatch.stock - detail.quantity;
-        stockPreview.push({
-          drugName: `${currentBatch.brandName || currentBatch.name} ${currentBatch.dosage || ''}`,
-          batchNumber: currentBatch.batchNumber,
-          currentStock: currentBatch.stock,
-          correctedStock: correctedStock,
-        });
-      }
-    });
-
-    setCorrectedStockPreview(stockPreview);
-    setTransactionToDelete(transaction);
-  };
-
-  const handleConfirmDelete = async () => {
-    if (!transactionToDelete) return;
-
-    const result = await deleteTransaction(transactionToDelete.id);
-
-    if (result.success) {
-      toast({
-        title: "Transaction Deleted",
-        description: `The transaction from ${format(parseISO(transactionToDelete.timestamp), 'PPpp')} has been deleted and inventory updated.`,
-      });
-    } else {
-      toast({
-        variant: "destructive",
-        title: "Deletion Failed",
-        description: result.message || "Could not delete the transaction.",
-      });
-    }
-
-    setTransactionToDelete(null);
-    setCorrectedStockPreview([]);
-  };
+  const voidStatusMap = React.useMemo(() => getVoidStatusMap(transactions), [transactions]);
+  const transactionsById = React.useMemo(() => new Map(transactions.map(txn => [txn.id, txn])), [transactions]);
+  const transactionPatientIndex = React.useMemo(() => buildTransactionPatientIndex(patients, transactions), [patients, transactions]);
+  const campLabels = React.useMemo(() => new Map(camps.map(camp => [
+    camp.id,
+    `${villages.find(v => v.id === camp.villageId)?.name || 'Unknown village'}, ${formatDateSafe(camp.date)}`,
+  ])), [camps, villages]);
+  const stockTakeNames = React.useMemo(() => new Map(stockTakes.map(stockTake => [stockTake.id, stockTake.name])), [stockTakes]);
 
-
-  const renderDrugDetails = (drugDetails: TransactionDrugDetail[]) => {
+  const renderDrugDetails = (drugDetails: TransactionDrugDetail[], voidedLineIndexes?: Set<number>) => {
     if (!drugDetails || drugDetails.length === 0) return <span className="text-muted-foreground">N/A</span>;
     return (
       <ul className="list-disc list-inside space-y-1 text-sm">
         {drugDetails.map((detail, index) => (
-          <li key={`${detail.drugId}-${detail.batchNumber || 'nobatch'}-${index}`}> {/* Ensure unique key with index */}
+          <li key={`${detail.drugId}-${detail.batchNumber || 'nobatch'}-${index}`} className={voidedLineIndexes?.has(index) ? 'line-through text-muted-foreground' : undefined}> {/* Ensure unique key with index */}
             {detail.drugName} {detail.dosage ? `(${detail.dosage})` : ''} {detail.brandName ? `[${detail.brandName}]` : ''}
             {detail.batchNumber && ` (Batch: ${detail.batchNumber})`}: 
             <span className={detail.quantity > 0 ? "text-green-600 font-semibold" : "text-red-600 font-semibold"}>
               {detail.quantity > 0 ? ` +${detail.quantity}` : ` ${detail.quantity}`}
-            </span> tablets (Prev: {detail.previousStock}, New: {detail.newStock})
+            </span> {getUnitLabel(getBaseUnit(detail), Math.abs(detail.quantity))} (Prev: {detail.previousStock}, New: {detail.newStock})
+            {detail.regimen && <span className="text-muted-foreground"> | {translateRegimen(t, detail.regimen, getBaseUnit(detail))}</span>}
           </li>
         ))}
       </ul>
     );
   };
   
-  const renderAdjustmentDetails = (transaction: Transaction) => {
+  // Transfer lines record the stock left behind at the source location
+  const renderTransferDetails = (transaction: Transaction) => {
+    if (transaction.type !== 'transfer' || !transaction.transfer) return null;
+    const fromName = getLocationName(locations, transaction.transfer.fromLocationId);
+    return (
+      <ul className="list-disc list-inside space-y-1 text-sm">
+        {transaction.drugs.map((detail, index) => (
+          <li key={`${detail.drugId}-${index}`}>
+            {detail.drugName} {detail.dosage ? `(${detail.dosage})` : ''} {detail.brandName ? `[${detail.brandName}]` : ''}
+            {detail.batchNumber && ` (Batch: ${detail.batchNumber})`}: <span className="font-semibold">{detail.quantity}</span> {getUnitLabel(getBaseUnit(detail), detail.quantity)}
+            <span className="text-muted-foreground"> ({fromName}: {detail.previousStock} to {detail.newStock})</span>
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  const renderAdjustmentDetails = (transaction: Transaction, voidedLineIndexes?: Set<number>) => {
     if (transaction.type !== 'adjustment' || !transaction.drugs.length) return null;
+    // A stock take posts every batch it adjusted in one entry
+    if (transaction.drugs.length > 1 || transaction.stockTakeId) {
+      return (
+        <div className="text-sm space-y-1">
+          {renderDrugDetails(transaction.drugs, voidedLineIndexes)}
+          {transaction.notes && <p className="italic text-muted-foreground">{transaction.notes}</p>}
+        </div>
+      );
+    }
     const detail = transaction.drugs[0];
     const change = detail.newStock - detail.previousStock;
 
@@ -132,7 +120,7 @@ export default function TransactionsPage() {
             {detail.batchNumber && ` (Batch: ${detail.batchNumber})`}
         </p>
         <p className="font-semibold">
-          Stock changed from {detail.previousStock} to {detail.newStock} 
+          Stock changed from {detail.previousStock} to {detail.newStock} {getUnitLabel(getBaseUnit(detail), detail.newStock)}
           <span className={change > 0 ? "text-green-600" : "text-red-600"}> ({change > 0 ? `+${change}`: change})</span>.
         </p>
         {transaction.notes && <p className="italic text-muted-foreground">Reason: {transaction.notes}</p>}
@@ -157,13 +145,19 @@ export default function TransactionsPage() {
     if (ud.newName && ud.previousName !== undefined && ud.newName !== ud.previousName) changes.push(`Generic Name: "${ud.previousName}" -> "${ud.newName}"`);
     if (ud.newBrandName !== undefined && ud.newBrandName !== ud.previousBrandName) changes.push(`Brand Name: "${ud.previousBrandName || 'N/A'}" -> "${ud.newBrandName || 'N/A'}"`);
     if (ud.newDosage !== undefined && ud.newDosage !== ud.previousDosage) changes.push(`Dosage: "${ud.previousDosage || 'N/A'}" -> "${ud.newDosage || 'N/A'}"`);
+    if (ud.newDosageForm && ud.previousDosageForm && ud.newDosageForm !== ud.previousDosageForm) changes.push(`Dosage Form: ${DOSAGE_FORMS[ud.previousDosageForm].label} -> ${DOSAGE_FORMS[ud.newDosageForm].label}`);
+    if (ud.newUnit && ud.previousUnit && ud.newUnit !== ud.previousUnit) changes.push(`Counted In: ${BASE_UNITS[ud.previousUnit].other} -> ${BASE_UNITS[ud.newUnit].other}`);
+    if (ud.newPackSizes && ud.previousPackSizes) {
+      const packUnit = ud.newUnit || getBaseUnit(drugs.find(d => d.id === ud.drugId));
+      changes.push(`Pack Sizes: ${describePackSizes(ud.previousPackSizes, packUnit) || 'None'} -> ${describePackSizes(ud.newPackSizes, packUnit) || 'None'}`);
+    }
     if (ud.newBatchNumber !== undefined && ud.newBatchNumber !== ud.previousBatchNumber) changes.push(`Batch No: "${ud.previousBatchNumber || 'N/A'}" -> "${ud.newBatchNumber || 'N/A'}"`);
     
     if (ud.newDateOfManufacture !== undefined && ud.newDateOfManufacture !== ud.previousDateOfManufacture) changes.push(`Mfg. Date: ${formatDateSafe(ud.previousDateOfManufacture)} -> ${formatDateSafe(ud.newDateOfManufacture)}`);
     if (ud.newDateOfExpiry !== undefined && ud.newDateOfExpiry !== ud.previousDateOfExpiry) changes.push(`Exp. Date: ${formatDateSafe(ud.previousDateOfExpiry)} -> ${formatDateSafe(ud.newDateOfExpiry)}`);
     
     if (ud.newPrice !== undefined && ud.previousPrice !== undefined && ud.newPrice !== ud.previousPrice) changes.push(`Price: INR ${ud.previousPrice.toFixed(2)} -> INR ${ud.newPrice.toFixed(2)}`);
-    if (ud.newThreshold !== undefined && ud.previousThreshold !== undefined && ud.newThreshold !== ud.previousThreshold) changes.push(`Threshold: ${ud.previousThreshold} -> ${ud.newThreshold} tablets`);
+    if (ud.newThreshold !== undefined && ud.previousThreshold !== undefined && ud.newThreshold !== ud.previousThreshold) changes.push(`Threshold: ${ud.previousThreshold} -> ${ud.newThreshold}`);
     if (ud.newSource !== undefined && ud.newSource !== ud.previousSource) changes.push(`Source: "${ud.previousSource || 'N/A'}" -> "${ud.newSource || 'N/A'}"`);
 
     if (changes.length === 0 && !transaction.notes?.includes('details updated')) { 
@@ -183,11 +177,18 @@ export default function TransactionsPage() {
     <div className="container mx-auto py-8 space-y-8">
       <Card className="shadow-xl">
         <CardHeader>
-          <CardTitle className="font-headline flex items-center gap-2 text-2xl">
-            <ListChecks className="h-6 w-6 text-primary" />
-            Transaction Log
-          </CardTitle>
-          <CardDescription>A record of all inventory movements, batch updates, and camp details.</CardDescription>
+          <div className="flex flex-wrap items-start justify-between gap-2">
+            <div className="space-y-1.5">
+              <CardTitle className="font-headline flex items-center gap-2 text-2xl">
+                <ListChecks className="h-6 w-6 text-primary" />
+                Transaction Log
+              </CardTitle>
+              <CardDescription>A record of all inventory movements, batch updates, and camp details.</CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => setIsVerifyDialogOpen(true)} className="shadow-md hover:shadow-lg transition-shadow">
+              <ShieldCheck className="mr-2 h-4 w-4" /> Verify Ledger Integrity
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           {sortedTransactions.length === 0 ? (
@@ -206,31 +207,61 @@ export default function TransactionsPage() {
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {sortedTransactions.map((transaction: Transaction) => (
-                    <TableRow key={transaction.id}>
-                      <TableCell>{format(new Date(transaction.timestamp), "PPpp")}</TableCell>
+                  {sortedTransactions.map((transaction: Transaction) => {
+                    const voidStatus = voidStatusMap.get(transaction.id);
+                    const voidedOriginal = transaction.voidOf ? transactionsById.get(transaction.voidOf.transactionId) : undefined;
+                    const struckThrough = voidStatus?.fullyVoided ? 'line-through text-muted-foreground' : undefined;
+                    return (
+                    <TableRow key={transaction.id} id={`txn-${transaction.id}`} className={flaggedTransactionIds.has(transaction.id) ? 'bg-destructive/10 hover:bg-destructive/20' : undefined}>
+                      <TableCell>
+                        {format(new Date(transaction.timestamp), "PPpp")}
+                        {typeof transaction.sequence === 'number' && (
+                          <p className="text-xs text-muted-foreground font-mono" title={transaction.hash}>#{transaction.sequence}</p>
+                        )}
+                        {flaggedTransactionIds.has(transaction.id) && (
+                          <p className="text-xs text-destructive flex items-center gap-1"><AlertTriangle className="h-3 w-3" /> Failed ledger check</p>
+                        )}
+                      </TableCell>
                       <TableCell>
                         <Badge 
                            variant={transaction.type === 'dispense' ? 'destructive' : 
                            transaction.type === 'adjustment' ? 'secondary' : 
-                           transaction.type === 'update' ? 'secondary' : 'default'}
+                           transaction.type === 'update' ? 'secondary' :
+                           transaction.type === 'void' || transaction.type === 'transfer' ? 'outline' : 'default'}
                            className="capitalize flex items-center gap-1"
                         >
                           {transaction.type === 'dispense' && <ArrowDownCircle className="h-3 w-3" />}
                           {transaction.type === 'restock' && <ArrowUpCircle className="h-3 w-3" />}
                           {transaction.type === 'update' && <Edit3 className="h-3 w-3" />}
                           {transaction.type === 'adjustment' && <Replace className="h-3 w-3" />}
+                          {transaction.type === 'void' && <Ban className="h-3 w-3" />}
+                          {transaction.type === 'transfer' && <Truck className="h-3 w-3" />}
                           {transaction.type}
                         </Badge>
+                        {transaction.performedBy && (
+                          <p className="text-xs text-muted-foreground mt-1">by {transaction.performedBy.userName}</p>
+                        )}
                       </TableCell>
-                      <TableCell>
+                      <TableCell className={struckThrough}>
                         {transaction.type === 'dispense' && (
                           <div className="text-sm space-y-0.5">
-                            {transaction.patientName && <p><strong>Patient:</strong> {transaction.patientName}</p>}
+                            {transaction.patientName && (
+                              <p>
+                                <strong>Patient:</strong>{' '}
+                                {transactionPatientIndex.has(transaction.id) ? (
+                                  <a href={`./patient-history.html?id=${encodeURIComponent(transactionPatientIndex.get(transaction.id)!)}`} className="text-primary underline">
+                                    {transaction.patientName}
+                                  </a>
+                                ) : transaction.patientName}
+                              </p>
+                            )}
                             {transaction.aadharLastFour && <p><strong>Aadhar (Last 4):</strong> {transaction.aadharLastFour}</p>}
                             {transaction.age && <p><strong>Age:</strong> {transaction.age}</p>}
                             {transaction.sex && <p><strong>Sex:</strong> {transaction.sex}</p>}
                             {transaction.villageName && <p className="flex items-center"><MapPin className="inline h-3.5 w-3.5 mr-1 text-muted-foreground"/><strong>Village:</strong> {transaction.villageName}</p>}
+                            {transaction.nearExpiryOverride && (
+                              <p className="text-orange-600"><strong>Near-expiry override:</strong> {transaction.nearExpiryOverride.reason}</p>
+                            )}
                           </div>
                         )}
                         {transaction.type === 'restock' && transaction.source && (
@@ -242,23 +273,62 @@ export default function TransactionsPage() {
                          {transaction.type === 'adjustment' && (
                             <p className="text-sm"><strong>By:</strong> {transaction.source || 'Admin'}</p>
                          )}
+                         {transaction.stockTakeId && (
+                            <p className="text-sm flex items-center"><ClipboardCheck className="inline h-3.5 w-3.5 mr-1 text-muted-foreground"/><strong>Stock take:</strong>&nbsp;{stockTakeNames.get(transaction.stockTakeId) || transaction.stockTakeId}</p>
+                         )}
+                         {transaction.type === 'transfer' && transaction.transfer && (
+                            <p className="text-sm"><strong>From:</strong> {getLocationName(locations, transaction.transfer.fromLocationId)} <strong>To:</strong> {getLocationName(locations, transaction.transfer.toLocationId)}</p>
+                         )}
+                         {transaction.type === 'transfer' && transaction.notes && (
+                            <p className="text-sm italic">{transaction.notes}</p>
+                         )}
+                         {transaction.locationId && locations.length > 1 && (
+                            <p className="text-sm flex items-center"><Warehouse className="inline h-3.5 w-3.5 mr-1 text-muted-foreground"/><strong>Location:</strong>&nbsp;{getLocationName(locations, transaction.locationId)}</p>
+                         )}
+                         {transaction.campId && (
+                            <p className="text-sm flex items-center"><Tent className="inline h-3.5 w-3.5 mr-1 text-muted-foreground"/><strong>Camp:</strong>&nbsp;{campLabels.get(transaction.campId) || transaction.campId}</p>
+                         )}
+                         {transaction.type === 'void' && transaction.voidOf && (
+                            <div className="text-sm space-y-0.5">
+                              <p className="flex items-center gap-1">
+                                <Link2 className="h-3.5 w-3.5 text-muted-foreground" />
+                                <strong>Reversal of</strong>
+                                <a href={`#txn-${transaction.voidOf.transactionId}`} className="text-primary underline">
+                                  {voidedOriginal ? `${voidedOriginal.type} ${ledgerLabel(voidedOriginal)}` : `#${transaction.voidOf.sequence ?? '?'}`}
+                                </a>
+                              </p>
+                              {transaction.voidReason && <p><strong>Reason:</strong> {transaction.voidReason}</p>}
+                            </div>
+                         )}
                       </TableCell>
-                      <TableCell>
+                      <TableCell className={struckThrough}>
                         {transaction.type === 'update' ? renderUpdateDetails(transaction) :
-                         transaction.type === 'adjustment' ? renderAdjustmentDetails(transaction) :
-                         renderDrugDetails(transaction.drugs)}
+                         transaction.type === 'adjustment' ? renderAdjustmentDetails(transaction, voidStatus?.voidedLineIndexes) :
+                         transaction.type === 'transfer' ? renderTransferDetails(transaction) :
+                         renderDrugDetails(transaction.drugs, voidStatus?.voidedLineIndexes)}
                       </TableCell>
                       <TableCell className="text-center">
-                        {['dispense', 'restock', 'adjustment'].includes(transaction.type) ? (
-                            <Button variant="destructive" size="sm" onClick={() => handleOpenDeleteDialog(transaction)} className="h-8 px-2">
-                                <Trash2 className="mr-1 h-4 w-4" /> Delete
+                        {voidStatus && (
+                          <div className="text-xs mb-1 space-y-0.5">
+                            <p className="font-semibold text-destructive">{voidStatus.fullyVoided ? 'Voided' : 'Partially voided'}</p>
+                            {voidStatus.reversals.map(reversal => (
+                              <a key={reversal.id} href={`#txn-${reversal.id}`} className="block text-primary underline">
+                                by {ledgerLabel(reversal)}
+                              </a>
+                            ))}
+                          </div>
+                        )}
+                        {isVoidable(transaction) && !voidStatus?.fullyVoided ? (
+                            <Button variant="destructive" size="sm" onClick={() => setTransactionToVoid(transaction)} className="h-8 px-2" disabled={!hasPermission('voidTransaction')}>
+                                <Ban className="mr-1 h-4 w-4" /> Void
                             </Button>
-                        ) : (
+                        ) : !voidStatus && (
                             <span className="text-xs text-muted-foreground">N/A</span>
                         )}
                       </TableCell>
                     </TableRow>
-                  ))}
+                    );
+                  })}
                 </TableBody>
               </Table>
             </div>
@@ -266,52 +336,18 @@ export default function TransactionsPage() {
         </CardContent>
       </Card>
 
-      {transactionToDelete && (
-        <AlertDialog open={!!transactionToDelete} onOpenChange={(isOpen) => !isOpen && setTransactionToDelete(null)}>
-            <AlertDialogContent>
-                <AlertDialogHeader>
-                    <AlertDialogTitle className="flex items-center gap-2">
-                        <AlertTriangle className="h-5 w-5 text-destructive" />
-                        Confirm Transaction Deletion
-                    </AlertDialogTitle>
-                    <AlertDialogDescription>
-                        Are you sure you want to delete this transaction from <strong>{format(parseISO(transactionToDelete.timestamp), 'PPpp')}</strong>?
-                        This action cannot be undone. It will reverse the stock changes and remove this entry from the log.
-                    </AlertDialogDescription>
-                </AlertDialogHeader>
-                
-                <div className="my-4 space-y-3 rounded-md border p-4">
-                    <h4 className="font-semibold text-foreground">Stock Changes Preview:</h4>
-                    {correctedStockPreview.length > 0 ? (
-                        <ul className="space-y-2 text-sm">
-                            {correctedStockPreview.map((item, index) => (
-                                <li key={index} className="flex flex-col sm:flex-row sm:items-center sm:justify-between">
-                                    <div>
-                                        <p className="font-medium">{item.drugName}</p>
-                                        <p className="text-xs text-muted-foreground">Batch: {item.batchNumber || 'N/A'}</p>
-                                    </div>
-                                    <div className="flex items-center gap-2 font-mono mt-1 sm:mt-0">
-                                        <span className="text-muted-foreground">{item.currentStock}</span>
-                                        <ArrowRight className="h-4 w-4 text-primary" />
-                                        <span className="font-bold text-lg text-primary">{item.correctedStock}</span>
-                                    </div>
-                                </li>
-                            ))}
-                        </ul>
-                    ) : (
-                        <p className="text-sm text-muted-foreground">Could not preview stock changes. The associated drug may no longer exist.</p>
-                    )}
-                </div>
-
-                <AlertDialogFooter>
-                    <AlertDialogCancel onClick={() => setTransactionToDelete(null)}>Cancel</AlertDialogCancel>
-                    <AlertDialogAction onClick={handleConfirmDelete} className="bg-destructive hover:bg-destructive/90 text-destructive-foreground">
-                        Yes, Delete Transaction
-                    </AlertDialogAction>
-                </AlertDialogFooter>
-            </AlertDialogContent>
-        </AlertDialog>
-      )}
+      <VoidTransactionDialog
+        transaction={transactionToVoid}
+        voidStatus={transactionToVoid ? voidStatusMap.get(transactionToVoid.id) : undefined}
+        onClose={() => setTransactionToVoid(null)}
+      />
+      <LedgerVerificationDialog
+        isOpen={isVerifyDialogOpen}
+        onClose={() => setIsVerifyDialogOpen(false)}
+        onVerified={(result: LedgerVerificationResult) =>
+          setFlaggedTransactionIds(new Set(result.issues.map(issue => issue.transactionId).filter((id): id is string => !!id)))
+        }
+      />
     </div>
   );
 }
@@ -0,0 +1,13 @@
+"use client";
+
+import StockTransferForm from '@/components/locations/StockTransferForm';
+import ManageLocationsCard from '@/components/locations/ManageLocationsCard';
+
+export default function TransfersPage() {
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <StockTransferForm />
+      <ManageLocationsCard />
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+"use client";
+
+import ManageUsersForm from '@/components/users/ManageUsersForm';
+import RequirePermission from '@/components/auth/RequirePermission';
+
+export default function UsersPage() {
+  return (
+    <div className="container mx-auto py-8">
+      <RequirePermission permission="manageUsers">
+        <ManageUsersForm />
+      </RequirePermission>
+    </div>
+  );
+}
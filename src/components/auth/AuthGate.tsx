@@ -0,0 +1,41 @@
+"use client";
+
+import type { ReactNode } from 'react';
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import LoginForm from '@/components/auth/LoginForm';
+import FirstAdminSetupForm from '@/components/auth/FirstAdminSetupForm';
+import LockScreen from '@/components/auth/LockScreen';
+
+// Nothing in the app is usable without a logged-in user
+export default function AuthGate({ children }: { children: ReactNode }) {
+  const { users, currentUser, loading, isLocked } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-[calc(100vh-200px)]">
+        <Loader2 className="h-12 w-12 animate-spin text-primary" />
+        <p className="ml-4 text-xl text-muted-foreground">Loading users...</p>
+      </div>
+    );
+  }
+
+  if (users.length === 0) {
+    return <div className="py-8"><FirstAdminSetupForm /></div>;
+  }
+
+  if (!currentUser) {
+    return <div className="py-8"><LoginForm /></div>;
+  }
+
+  // Hidden rather than unmounted while locked, so in-progress forms keep their state
+  return (
+    <>
+      <div className={isLocked ? 'hidden' : undefined} aria-hidden={isLocked}>
+        {children}
+      </div>
+      {isLocked && <LockScreen />}
+    </>
+  );
+}
@@ -0,0 +1,122 @@
+"use client";
+
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+  FormDescription,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { MIN_PIN_LENGTH } from '@/lib/auth';
+import { CheckCircle, ShieldCheck } from 'lucide-react';
+
+const setupFormSchema = z.object({
+  name: z.string().min(2, { message: "Name must be at least 2 characters." }),
+  pin: z.string().regex(/^\d+$/, { message: "PIN must contain digits only." }).min(MIN_PIN_LENGTH, { message: `PIN must be at least ${MIN_PIN_LENGTH} digits.` }),
+  confirmPin: z.string(),
+}).refine(data => data.pin === data.confirmPin, { message: "PINs do not match.", path: ["confirmPin"] });
+
+type SetupFormData = z.infer<typeof setupFormSchema>;
+
+// Shown once, when no user accounts exist yet
+export default function FirstAdminSetupForm() {
+  const { createUser, login } = useAuth();
+  const { toast } = useToast();
+
+  const form = useForm<SetupFormData>({
+    resolver: zodResolver(setupFormSchema),
+    defaultValues: { name: '', pin: '', confirmPin: '' },
+  });
+
+  async function onSubmit(data: SetupFormData) {
+    const result = await createUser(data.name, 'admin', data.pin);
+    if (result.success && result.user) {
+      toast({
+        title: "Admin Account Created",
+        description: result.message,
+        action: <CheckCircle className="text-green-500" />,
+      });
+      await login(result.user.id, data.pin);
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Setup Failed",
+        description: result.message,
+      });
+    }
+  }
+
+  return (
+    <Card className="w-full max-w-md mx-auto shadow-xl">
+      <CardHeader>
+        <CardTitle className="font-headline flex items-center gap-2 text-2xl">
+          <ShieldCheck className="h-6 w-6 text-primary" />
+          Create Admin Account
+        </CardTitle>
+        <CardDescription>
+          No user accounts exist yet. Create the first admin, who can then add pharmacists, doctors and volunteers.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Dr. Sharma" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="pin"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>PIN</FormLabel>
+                  <FormControl>
+                    <Input type="password" inputMode="numeric" autoComplete="new-password" {...field} />
+                  </FormControl>
+                  <FormDescription>At least {MIN_PIN_LENGTH} digits. Used to log in and to confirm destructive actions.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="confirmPin"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Confirm PIN</FormLabel>
+                  <FormControl>
+                    <Input type="password" inputMode="numeric" autoComplete="new-password" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <Button type="submit" className="w-full" disabled={form.formState.isSubmitting}>
+              <ShieldCheck className="mr-2 h-4 w-4" /> Create Admin & Log In
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { useAuth } from '@/contexts/AuthContext';
+import { ROLE_LABELS } from '@/types';
+import { Lock, LogOut, Unlock } from 'lucide-react';
+
+// Covers the whole window, header included. The page underneath stays mounted so unsaved form input is kept.
+export default function LockScreen() {
+  const { users, currentUser, unlock, logout } = useAuth();
+  const activeUsers = users.filter(u => u.active);
+  const [userId, setUserId] = useState(currentUser?.id || '');
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const isSwitching = !!currentUser && userId !== currentUser.id;
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    const result = await unlock(userId, pin);
+    setIsSubmitting(false);
+    if (!result.success) {
+      setError(result.message || 'Could not unlock.');
+      setPin('');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-background/95 backdrop-blur-sm flex items-center justify-center p-4">
+      <Card className="w-full max-w-md shadow-xl">
+        <CardHeader>
+          <CardTitle className="font-headline flex items-center gap-2 text-2xl">
+            <Lock className="h-6 w-6 text-primary" />
+            FORRADS MMU is Locked
+          </CardTitle>
+          <CardDescription>
+            Enter your PIN to continue where you left off, or pick another user to switch over. Unsaved form entries are kept.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-6">
+            <div className="grid gap-2">
+              <Label htmlFor="lockUser">User</Label>
+              <Select value={userId} onValueChange={(value) => { setUserId(value); setPin(''); setError(''); }}>
+                <SelectTrigger id="lockUser">
+                  <SelectValue placeholder="Select your name" />
+                </SelectTrigger>
+                <SelectContent>
+                  {activeUsers.map(user => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {user.name} ({ROLE_LABELS[user.role]})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-2">
+              <Label htmlFor="lockPin">PIN</Label>
+              <Input
+                id="lockPin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="current-password"
+                autoFocus
+                value={pin}
+                onChange={(e) => { setPin(e.target.value); setError(''); }}
+              />
+              {error && <p className="text-sm text-destructive">{error}</p>}
+            </div>
+            <Button type="submit" className="w-full" disabled={isSubmitting || !pin || !userId}>
+              <Unlock className="mr-2 h-4 w-4" /> {isSwitching ? 'Switch User' : 'Unlock'}
+            </Button>
+            <Button type="button" variant="ghost" className="w-full text-muted-foreground" onClick={logout}>
+              <LogOut className="mr-2 h-4 w-4" /> Log Out (discards unsaved entries)
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { useAuth } from '@/contexts/AuthContext';
+import { ROLE_LABELS } from '@/types';
+import { LogIn } from 'lucide-react';
+
+export default function LoginForm() {
+  const { users, login } = useAuth();
+  const activeUsers = users.filter(u => u.active);
+  const [userId, setUserId] = useState(activeUsers.length === 1 ? activeUsers[0].id : '');
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!userId) {
+      setError('Please select your name.');
+      return;
+    }
+    setIsSubmitting(true);
+    const result = await login(userId, pin);
+    setIsSubmitting(false);
+    if (!result.success) {
+      setError(result.message || 'Login failed.');
+      setPin('');
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md mx-auto shadow-xl">
+      <CardHeader>
+        <CardTitle className="font-headline flex items-center gap-2 text-2xl">
+          <LogIn className="h-6 w-6 text-primary" />
+          Log In
+        </CardTitle>
+        <CardDescription>Select your name and enter your PIN. Every transaction is recorded against the logged-in user.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="grid gap-2">
+            <Label htmlFor="loginUser">User</Label>
+            <Select value={userId} onValueChange={(value) => { setUserId(value); setError(''); }}>
+              <SelectTrigger id="loginUser">
+                <SelectValue placeholder="Select your name" />
+              </SelectTrigger>
+              <SelectContent>
+                {activeUsers.map(user => (
+                  <SelectItem key={user.id} value={user.id}>
+                    {user.name} ({ROLE_LABELS[user.role]})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="loginPin">PIN</Label>
+            <Input
+              id="loginPin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="current-password"
+              value={pin}
+              onChange={(e) => { setPin(e.target.value); setError(''); }}
+            />
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+          <Button type="submit" className="w-full" disabled={isSubmitting || !pin}>
+            <LogIn className="mr-2 h-4 w-4" /> Log In
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
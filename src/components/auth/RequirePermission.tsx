@@ -0,0 +1,31 @@
+"use client";
+
+import type { ReactNode } from 'react';
+import React from 'react';
+import { ShieldAlert } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { ROLE_LABELS } from '@/types';
+import type { Permission } from '@/types';
+
+interface RequirePermissionProps {
+  permission: Permission;
+  children: ReactNode;
+}
+
+export default function RequirePermission({ permission, children }: RequirePermissionProps) {
+  const { currentUser, hasPermission } = useAuth();
+
+  if (!hasPermission(permission)) {
+    return (
+      <div className="flex flex-col items-center justify-center text-center py-16 gap-2">
+        <ShieldAlert className="h-10 w-10 text-destructive" />
+        <p className="text-xl text-foreground">You do not have access to this page.</p>
+        <p className="text-sm text-muted-foreground">
+          Logged in as {currentUser?.name} ({currentUser ? ROLE_LABELS[currentUser.role] : 'unknown role'}). Ask an admin if you need access.
+        </p>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,160 @@
+"use client";
+
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { CalendarPlus, CheckCircle, Pencil } from 'lucide-react';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useToast } from '@/hooks/use-toast';
+import type { Camp } from '@/types';
+
+const campFormSchema = z.object({
+  date: z.string().min(1, { message: "Camp date is required." }),
+  villageId: z.string().min(1, { message: "Select the village." }),
+  startTime: z.string().optional(),
+  endTime: z.string().optional(),
+  teamMembers: z.string(),
+  notes: z.string().optional(),
+}).refine(data => !data.startTime || !data.endTime || data.endTime > data.startTime, {
+  message: "End time must be after the start time.",
+  path: ['endTime'],
+});
+
+type CampFormData = z.infer<typeof campFormSchema>;
+
+// Team members are typed one per line or comma separated
+const parseTeamMembers = (value: string) =>
+  value.split(/[\n,]/).map(member => member.trim()).filter(Boolean);
+
+interface CampFormDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Editing when given, planning a new camp otherwise
+  camp?: Camp | null;
+}
+
+export default function CampFormDialog({ isOpen, onClose, camp }: CampFormDialogProps) {
+  const { villages, addCamp, updateCamp } = useInventory();
+  const { toast } = useToast();
+
+  const form = useForm<CampFormData>({
+    resolver: zodResolver(campFormSchema),
+    defaultValues: { date: '', villageId: '', startTime: '', endTime: '', teamMembers: '', notes: '' },
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    form.reset({
+      date: camp?.date || format(new Date(), 'yyyy-MM-dd'),
+      villageId: camp?.villageId || '',
+      startTime: camp?.startTime || '',
+      endTime: camp?.endTime || '',
+      teamMembers: (camp?.teamMembers || []).join('\n'),
+      notes: camp?.notes || '',
+    });
+  }, [isOpen, camp, form]);
+
+  async function onSubmit(data: CampFormData) {
+    const campData = {
+      date: data.date,
+      villageId: data.villageId,
+      startTime: data.startTime || undefined,
+      endTime: data.endTime || undefined,
+      teamMembers: parseTeamMembers(data.teamMembers),
+      notes: data.notes,
+    };
+    const result = camp ? await updateCamp(camp.id, campData) : await addCamp(campData);
+    if (result.success) {
+      toast({
+        title: camp ? "Camp Updated" : "Camp Planned",
+        description: result.message,
+        action: <CheckCircle className="text-green-500" />,
+      });
+      onClose();
+    } else {
+      toast({
+        variant: "destructive",
+        title: camp ? "Failed to Update Camp" : "Failed to Plan Camp",
+        description: result.message,
+      });
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {camp ? <Pencil className="h-5 w-5 text-primary" /> : <CalendarPlus className="h-5 w-5 text-primary" />}
+            {camp ? 'Edit Camp' : 'Plan a Camp'}
+          </DialogTitle>
+          <DialogDescription>
+            Start the camp on the day; until it is closed, every dispense and stock adjustment is recorded against it.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField control={form.control} name="date" render={({ field }) => (<FormItem><FormLabel>Date</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>)} />
+            <FormField
+              control={form.control}
+              name="villageId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Village</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value} disabled={camp?.status === 'active'}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select village" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {villages.length === 0 && <p className="p-2 text-sm text-muted-foreground">No villages added yet.</p>}
+                      {villages.map(village => (
+                        <SelectItem key={village.id} value={village.id}>{village.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField control={form.control} name="startTime" render={({ field }) => (<FormItem><FormLabel>Start Time</FormLabel><FormControl><Input type="time" {...field} /></FormControl><FormMessage /></FormItem>)} />
+            <FormField control={form.control} name="endTime" render={({ field }) => (<FormItem><FormLabel>End Time</FormLabel><FormControl><Input type="time" {...field} /></FormControl><FormMessage /></FormItem>)} />
+            <FormField control={form.control} name="teamMembers" render={({ field }) => (<FormItem className="md:col-span-2"><FormLabel>Team Members</FormLabel><FormControl><Textarea rows={3} placeholder={"Dr. Patil\nSunita (volunteer)"} {...field} /></FormControl><FormDescription>One name per line, or separated by commas.</FormDescription><FormMessage /></FormItem>)} />
+            <FormField control={form.control} name="notes" render={({ field }) => (<FormItem className="md:col-span-2"><FormLabel>Notes (Optional)</FormLabel><FormControl><Input placeholder="e.g., Held at the gram panchayat hall" {...field} /></FormControl><FormMessage /></FormItem>)} />
+            <DialogFooter className="md:col-span-2">
+              <DialogClose asChild>
+                <Button type="button" variant="outline">Cancel</Button>
+              </DialogClose>
+              <Button type="submit">{camp ? 'Save Changes' : 'Plan Camp'}</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
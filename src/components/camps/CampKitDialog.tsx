@@ -0,0 +1,356 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableHead,
+  TableCell,
+} from '@/components/ui/table';
+import { CheckCircle, PackageCheck, PackageOpen, Printer, RotateCcw, Trash2, Wand2 } from 'lucide-react';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import {
+  proposeCampKit,
+  describeKitBasis,
+  getKitItemShortfall,
+  getCampBatchUsage,
+  reconcileKitBatch,
+  renderPackingChecklistHtml,
+} from '@/lib/campKits';
+import type { CampKitProposal } from '@/lib/campKits';
+import { printHtml } from '@/lib/printing';
+import type { CampKit, CampKitItem } from '@/types';
+
+// Select value shown before a drug is picked to add (Radix Select cannot use an empty string)
+const ADD_ITEM_PLACEHOLDER = '--add--';
+
+type PlanRow = Omit<CampKitItem, 'batches'>;
+
+const toPlanRows = (proposal: CampKitProposal): PlanRow[] =>
+  proposal.items.map(item => ({
+    groupKey: item.groupKey,
+    displayName: item.displayName,
+    averagePerVisit: item.averagePerVisit,
+    quantity: item.proposedQuantity,
+  }));
+
+const formatExpiry = (dateOfExpiry?: string) => (dateOfExpiry ? format(parseISO(dateOfExpiry), 'MM/yy') : 'N/A');
+
+interface CampKitDialogProps {
+  campId: string | null;
+  onClose: () => void;
+}
+
+export default function CampKitDialog({ campId, onClose }: CampKitDialogProps) {
+  const { camps, villages, patients, transactions, products: catalogProducts, drugs, getProductsForDispenseDisplay, planCampKit, markCampKitPacked, reconcileCampKit } = useInventory();
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const camp = camps.find(c => c.id === campId);
+  const kit = camp?.kit;
+  const [rows, setRows] = useState<PlanRow[]>([]);
+  const [returned, setReturned] = useState<Record<string, string>>({});
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const villageName = camp ? villages.find(v => v.id === camp.villageId)?.name || 'Unknown village' : '';
+  const proposal = useMemo(
+    () => (camp ? proposeCampKit(camp, { villages, camps, patients, transactions, products: catalogProducts, drugs }) : null),
+    [camp, villages, camps, patients, transactions, catalogProducts, drugs]
+  );
+  const usage = useMemo(() => (camp ? getCampBatchUsage(camp, transactions) : new Map<string, number>()), [camp, transactions]);
+  const products = useMemo(() => getProductsForDispenseDisplay(), [getProductsForDispenseDisplay]);
+
+  // Rows are reset when the dialog opens or the kit is replanned, not on every inventory change
+  useEffect(() => {
+    if (!campId) return;
+    const current = camps.find(c => c.id === campId);
+    setRows(current?.kit ? current.kit.items.map(({ batches, ...row }) => row) : proposal ? toPlanRows(proposal) : []);
+    setReturned(Object.fromEntries((current?.kit?.items || []).flatMap(item => item.batches.map(batch => [
+      batch.drugId,
+      String(batch.returned ?? Math.max(0, batch.quantity - (usage.get(batch.drugId) || 0))),
+    ]))));
+  }, [campId, kit?.plannedAt, kit?.packedAt]);
+
+  if (!camp) return null;
+
+  const canPlan = hasPermission('manageCamps');
+  const canReconcile = hasPermission('adjust');
+  const isPacked = !!kit?.packedAt;
+  const isReconciled = !!kit?.reconciledAt;
+
+  const showResult = (result: { success: boolean; message?: string }, successTitle: string, failureTitle: string) => {
+    if (result.success) {
+      toast({
+        title: successTitle,
+        description: result.message,
+        action: <CheckCircle className="text-green-500" />,
+      });
+    } else {
+      toast({
+        variant: "destructive",
+        title: failureTitle,
+        description: result.message,
+      });
+    }
+  };
+
+  const updateRowQuantity = (groupKey: string, value: string) => {
+    const quantity = value === '' ? 0 : Math.max(0, Math.floor(Number(value)) || 0);
+    setRows(prev => prev.map(row => (row.groupKey === groupKey ? { ...row, quantity } : row)));
+  };
+
+  const addRow = (groupKey: string) => {
+    const product = products.find(p => p.groupKey === groupKey);
+    if (!product || rows.some(row => row.groupKey === groupKey)) return;
+    setRows(prev => [...prev, { groupKey, displayName: product.displayName, averagePerVisit: 0, quantity: 0 }]);
+  };
+
+  const handleReserve = async () => {
+    setIsSubmitting(true);
+    const basis = kit || proposal || { basis: 'none' as const, basisVillageIds: [], basisVisitCount: 0 };
+    const result = await planCampKit(camp.id, { basis: basis.basis, basisVillageIds: basis.basisVillageIds, basisVisitCount: basis.basisVisitCount }, rows);
+    setIsSubmitting(false);
+    showResult(result, "Kit Planned", "Failed to Plan Kit");
+  };
+
+  const handlePacked = async () => {
+    setIsSubmitting(true);
+    const result = await markCampKitPacked(camp.id);
+    setIsSubmitting(false);
+    showResult(result, "Kit Packed", "Failed to Mark Kit as Packed");
+  };
+
+  const handleReconcile = async () => {
+    setIsSubmitting(true);
+    const counts = Object.fromEntries(Object.entries(returned).map(([drugId, value]) => [drugId, value === '' ? NaN : Number(value)]));
+    const result = await reconcileCampKit(camp.id, counts);
+    setIsSubmitting(false);
+    showResult(result, "Kit Reconciled", "Reconciliation Failed");
+  };
+
+  const handlePrint = async (plannedKit: CampKit) => {
+    const result = await printHtml(renderPackingChecklistHtml(camp, villageName, plannedKit), 'A5');
+    if (!result.success) {
+      toast({
+        variant: "destructive",
+        title: "Printing Failed",
+        description: result.message,
+      });
+    }
+  };
+
+  const renderPlanner = () => (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">{describeKitBasis(kit || proposal!, villages)}</p>
+        {proposal && proposal.items.length > 0 && (
+          <Button type="button" variant="outline" size="sm" onClick={() => setRows(toPlanRows(proposal))} disabled={!canPlan}>
+            <Wand2 className="mr-1 h-4 w-4" /> Use Proposal
+          </Button>
+        )}
+      </div>
+      <div className="max-h-72 overflow-y-auto rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Drug</TableHead>
+              <TableHead className="text-right">Avg / Visit</TableHead>
+              <TableHead className="w-28 text-right">To Pack</TableHead>
+              <TableHead className="w-10" />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.length === 0 && (
+              <TableRow><TableCell colSpan={4} className="text-center text-muted-foreground">No drugs in the kit yet.</TableCell></TableRow>
+            )}
+            {rows.map(row => (
+              <TableRow key={row.groupKey}>
+                <TableCell>{row.displayName}</TableCell>
+                <TableCell className="text-right">{row.averagePerVisit || '-'}</TableCell>
+                <TableCell>
+                  <Input type="number" min="0" value={row.quantity} onChange={(e) => updateRowQuantity(row.groupKey, e.target.value)} className="h-8 text-right" disabled={!canPlan} />
+                </TableCell>
+                <TableCell>
+                  <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => setRows(prev => prev.filter(r => r.groupKey !== row.groupKey))} disabled={!canPlan}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+      <Select value={ADD_ITEM_PLACEHOLDER} onValueChange={addRow} disabled={!canPlan}>
+        <SelectTrigger className="w-full sm:w-80">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ADD_ITEM_PLACEHOLDER} disabled>Add a drug to the kit...</SelectItem>
+          {products.filter(p => !rows.some(row => row.groupKey === p.groupKey)).map(product => (
+            <SelectItem key={product.groupKey} value={product.groupKey}>{product.displayName} (Stock: {product.availableStock})</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const renderReservation = (plannedKit: CampKit) => (
+    <div className="max-h-72 overflow-y-auto rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Drug</TableHead>
+            <TableHead>Batch</TableHead>
+            <TableHead>Exp</TableHead>
+            <TableHead className="text-right">{isPacked ? 'Packed' : 'Reserved'}</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {plannedKit.items.map(item => {
+            const shortfall = getKitItemShortfall(item);
+            return (
+              <React.Fragment key={item.groupKey}>
+                {item.batches.map((batch, index) => (
+                  <TableRow key={batch.drugId}>
+                    <TableCell>{index === 0 ? item.displayName : ''}</TableCell>
+                    <TableCell>{batch.batchNumber || 'N/A'}</TableCell>
+                    <TableCell>{formatExpiry(batch.dateOfExpiry)}</TableCell>
+                    <TableCell className="text-right">{batch.quantity}</TableCell>
+                  </TableRow>
+                ))}
+                {shortfall > 0 && (
+                  <TableRow>
+                    <TableCell>{item.batches.length === 0 ? item.displayName : ''}</TableCell>
+                    <TableCell colSpan={3} className="text-orange-600">Short by {shortfall} of {item.quantity}</TableCell>
+                  </TableRow>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  const renderReconciliation = (packedKit: CampKit) => (
+    <div className="max-h-80 overflow-y-auto rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Drug / Batch</TableHead>
+            <TableHead className="text-right">Packed</TableHead>
+            <TableHead className="text-right">Used</TableHead>
+            <TableHead className="w-24 text-right">Returned</TableHead>
+            <TableHead className="text-right">Missing</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {packedKit.items.flatMap(item => item.batches.map(batch => {
+            const count = isReconciled ? batch.returned ?? 0 : Number(returned[batch.drugId]);
+            const line = reconcileKitBatch(batch.quantity, usage.get(batch.drugId) || 0, Number.isFinite(count) ? count : 0);
+            return (
+              <TableRow key={batch.drugId}>
+                <TableCell>
+                  {item.displayName}
+                  <span className="block text-xs text-muted-foreground">Batch {batch.batchNumber || 'N/A'}, Exp {formatExpiry(batch.dateOfExpiry)}</span>
+                </TableCell>
+                <TableCell className="text-right">{line.packed}</TableCell>
+                <TableCell className="text-right">{line.used}</TableCell>
+                <TableCell className="text-right">
+                  {isReconciled ? line.returned : (
+                    <Input
+                      type="number"
+                      min="0"
+                      value={returned[batch.drugId] ?? ''}
+                      onChange={(e) => setReturned(prev => ({ ...prev, [batch.drugId]: e.target.value }))}
+                      className="h-8 text-right"
+                      disabled={!canReconcile}
+                    />
+                  )}
+                </TableCell>
+                <TableCell className={`text-right ${line.missing !== 0 ? 'text-orange-600 font-semibold' : ''}`}>{line.missing}</TableCell>
+              </TableRow>
+            );
+          }))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+
+  return (
+    <Dialog open={!!campId} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <PackageOpen className="h-5 w-5 text-primary" />
+            Camp Kit - {villageName}, {format(parseISO(camp.date), 'PP')}
+          </DialogTitle>
+          <DialogDescription>
+            {isReconciled
+              ? 'This kit has been reconciled. Missing stock was written off as stock adjustments.'
+              : isPacked
+                ? 'Once the camp is closed, count what came back. Anything neither dispensed nor returned is written off from stock.'
+                : 'Set the quantities to take, then reserve batches. Batches expiring first are reserved first, skipping stock held by other camp kits.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {!isPacked && renderPlanner()}
+          {kit && !isPacked && (
+            <>
+              <h4 className="font-semibold">Reserved Batches</h4>
+              {renderReservation(kit)}
+            </>
+          )}
+          {isPacked && camp.status !== 'closed' && renderReservation(kit!)}
+          {isPacked && camp.status !== 'closed' && (
+            <p className="text-sm text-muted-foreground">Reconcile the kit after the camp is closed.</p>
+          )}
+          {isPacked && camp.status === 'closed' && renderReconciliation(kit!)}
+        </div>
+
+        <DialogFooter className="flex-wrap gap-2">
+          <DialogClose asChild>
+            <Button type="button" variant="outline">Close</Button>
+          </DialogClose>
+          {kit && (
+            <Button type="button" variant="outline" onClick={() => handlePrint(kit)}>
+              <Printer className="mr-2 h-4 w-4" /> Print Packing List
+            </Button>
+          )}
+          {!isPacked && (
+            <Button type="button" variant={kit ? 'outline' : 'default'} onClick={handleReserve} disabled={!canPlan || isSubmitting || rows.length === 0 || camp.status === 'closed'}>
+              <RotateCcw className="mr-2 h-4 w-4" /> {kit ? 'Re-reserve Batches' : 'Reserve Batches'}
+            </Button>
+          )}
+          {kit && !isPacked && (
+            <Button type="button" onClick={handlePacked} disabled={!canPlan || isSubmitting}>
+              <PackageCheck className="mr-2 h-4 w-4" /> Mark as Packed
+            </Button>
+          )}
+          {isPacked && !isReconciled && camp.status === 'closed' && (
+            <Button type="button" onClick={handleReconcile} disabled={!canReconcile || isSubmitting}>
+              <CheckCircle className="mr-2 h-4 w-4" /> Reconcile and Update Stock
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,241 @@
+"use client";
+
+import React, { useState, useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { CalendarDays, CalendarPlus, CheckCircle, PackageOpen, Pencil, Play, Square, Trash2, Users } from 'lucide-react';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { splitCampsByStatus, summarizeCamp, formatCampTimes } from '@/lib/camps';
+import type { CampSummary } from '@/lib/camps';
+import type { Camp, CampStatus } from '@/types';
+import CampFormDialog from '@/components/camps/CampFormDialog';
+import CampKitDialog from '@/components/camps/CampKitDialog';
+import { formatQuantity, formatQuantityTotals } from '@/lib/units';
+
+// Drugs listed on a camp card before the rest are summarised as "+N more"
+const MAX_DRUGS_SHOWN = 6;
+
+const STATUS_BADGE_VARIANT: Record<CampStatus, 'default' | 'secondary' | 'outline'> = {
+  active: 'default',
+  planned: 'outline',
+  closed: 'secondary',
+};
+
+type PendingAction = { kind: 'start' | 'close' | 'delete'; camp: Camp };
+
+export default function CampSessions() {
+  const { camps, villages, patients, transactions, activeCamp, startCamp, closeCamp, deleteCamp } = useInventory();
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const [dialogState, setDialogState] = useState<{ camp: Camp | null } | null>(null);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [kitCampId, setKitCampId] = useState<string | null>(null);
+
+  const canManage = hasPermission('manageCamps');
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const groups = useMemo(() => splitCampsByStatus(camps, today), [camps, today]);
+  const summaries = useMemo(() => {
+    const byCamp = new Map<string, CampSummary>();
+    camps.forEach(camp => byCamp.set(camp.id, summarizeCamp(camp, transactions, patients)));
+    return byCamp;
+  }, [camps, transactions, patients]);
+
+  const describeKitStatus = (camp: Camp) => {
+    if (!camp.kit) return undefined;
+    if (camp.kit.reconciledAt) return 'Kit reconciled';
+    if (camp.kit.packedAt) return camp.status === 'closed' ? 'Kit to reconcile' : 'Kit packed';
+    return 'Kit reserved';
+  };
+
+  const getVillageName = (camp: Camp) => villages.find(v => v.id === camp.villageId)?.name || 'Unknown village';
+
+  const handleConfirmAction = async () => {
+    if (!pendingAction) return;
+    const { kind, camp } = pendingAction;
+    const result = kind === 'start' ? await startCamp(camp.id) : kind === 'close' ? await closeCamp(camp.id) : await deleteCamp(camp.id);
+    const titles = {
+      start: ["Camp Started", "Failed to Start Camp"],
+      close: ["Camp Closed", "Failed to Close Camp"],
+      delete: ["Camp Deleted", "Failed to Delete Camp"],
+    }[kind];
+    if (result.success) {
+      toast({
+        title: titles[0],
+        description: result.message,
+        action: <CheckCircle className="text-green-500" />,
+      });
+    } else {
+      toast({
+        variant: "destructive",
+        title: titles[1],
+        description: result.message,
+      });
+    }
+    setPendingAction(null);
+  };
+
+  const renderCamp = (camp: Camp) => {
+    const summary = summaries.get(camp.id);
+    const times = formatCampTimes(camp);
+    const hiddenDrugCount = Math.max(0, (summary?.drugsUsed.length || 0) - MAX_DRUGS_SHOWN);
+    return (
+      <li key={camp.id} className="rounded-md border p-4 space-y-3">
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+          <div>
+            <p className="font-semibold flex items-center gap-2">
+              {getVillageName(camp)}
+              <Badge variant={STATUS_BADGE_VARIANT[camp.status]} className="capitalize">{camp.status}</Badge>
+              {camp.kit && <Badge variant="outline">{describeKitStatus(camp)}</Badge>}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {format(parseISO(camp.date), 'EEE, PP')}{times ? `, ${times}` : ''}
+            </p>
+            {camp.teamMembers.length > 0 && (
+              <p className="text-sm text-muted-foreground flex items-center gap-1">
+                <Users className="h-3 w-3" /> {camp.teamMembers.join(', ')}
+              </p>
+            )}
+            {camp.notes && <p className="text-sm">{camp.notes}</p>}
+          </div>
+          <div className="flex flex-wrap gap-1 shrink-0">
+            {(camp.status !== 'closed' || camp.kit) && (
+              <Button variant="outline" size="sm" className="h-8 px-2" onClick={() => setKitCampId(camp.id)}>
+                <PackageOpen className="mr-1 h-4 w-4" /> Kit
+              </Button>
+            )}
+            {camp.status === 'planned' && (
+              <Button size="sm" className="h-8 px-2" onClick={() => setPendingAction({ kind: 'start', camp })} disabled={!canManage || !!activeCamp}>
+                <Play className="mr-1 h-4 w-4" /> Start
+              </Button>
+            )}
+            {camp.status === 'active' && (
+              <Button size="sm" className="h-8 px-2" onClick={() => setPendingAction({ kind: 'close', camp })} disabled={!canManage}>
+                <Square className="mr-1 h-4 w-4" /> Close
+              </Button>
+            )}
+            {camp.status !== 'closed' && (
+              <Button variant="outline" size="sm" className="h-8 px-2" onClick={() => setDialogState({ camp })} disabled={!canManage}>
+                <Pencil className="mr-1 h-4 w-4" /> Edit
+              </Button>
+            )}
+            {camp.status === 'planned' && (
+              <Button variant="outline" size="sm" className="h-8 px-2" onClick={() => setPendingAction({ kind: 'delete', camp })} disabled={!canManage}>
+                <Trash2 className="mr-1 h-4 w-4" /> Delete
+              </Button>
+            )}
+          </div>
+        </div>
+        {summary && camp.status !== 'planned' && (
+          <div className="text-sm space-y-1">
+            <p>
+              <span className="font-medium">{summary.patientCount}</span> patient(s),{' '}
+              <span className="font-medium">{summary.dispenseCount}</span> dispense(s)
+              {summary.drugsUsed.length > 0 && <>, <span className="font-medium">{formatQuantityTotals(summary.drugsUsed)}</span></>}
+              {summary.adjustmentCount > 0 && <>, <span className="font-medium">{summary.adjustmentCount}</span> adjustment(s)</>}
+            </p>
+            {summary.drugsUsed.length > 0 && (
+              <p className="text-muted-foreground">
+                Drugs used: {summary.drugsUsed.slice(0, MAX_DRUGS_SHOWN).map(drug => `${drug.displayName} (${formatQuantity(drug.quantity, drug.unit)})`).join(', ')}
+                {hiddenDrugCount > 0 && `, +${hiddenDrugCount} more`}
+              </p>
+            )}
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  const renderSection = (title: string, list: Camp[], emptyText?: string) => {
+    if (list.length === 0 && !emptyText) return null;
+    return (
+      <section className="space-y-2">
+        <h3 className="font-semibold text-lg">{title}</h3>
+        {list.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{emptyText}</p>
+        ) : (
+          <ul className="space-y-3">{list.map(renderCamp)}</ul>
+        )}
+      </section>
+    );
+  };
+
+  const confirmText = pendingAction && {
+    start: {
+      title: 'Start this camp?',
+      description: `From now until the camp is closed, every dispense and stock adjustment is recorded against the camp at ${getVillageName(pendingAction.camp)}.`,
+    },
+    close: {
+      title: 'Close this camp?',
+      description: 'Dispenses and adjustments will no longer be tagged with this camp. A closed camp cannot be reopened.',
+    },
+    delete: {
+      title: 'Delete this planned camp?',
+      description: `The plan for ${getVillageName(pendingAction.camp)} on ${format(parseISO(pendingAction.camp.date), 'PP')} will be removed.`,
+    },
+  }[pendingAction.kind];
+
+  return (
+    <Card className="shadow-xl">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+          <div>
+            <CardTitle className="font-headline flex items-center gap-2 text-2xl">
+              <CalendarDays className="h-6 w-6 text-primary" />
+              Camps
+            </CardTitle>
+            <CardDescription>
+              Plan camps, start one on the day and close it when the team packs up. Patient counts and drugs used come from the dispenses recorded while the camp was active.
+            </CardDescription>
+          </div>
+          <Button type="button" onClick={() => setDialogState({ camp: null })} disabled={!canManage || villages.length === 0} className="shrink-0">
+            <CalendarPlus className="mr-2 h-4 w-4" /> Plan Camp
+          </Button>
+        </div>
+        {villages.length === 0 && (
+          <p className="text-sm text-orange-600">Add a village below before planning a camp.</p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {renderSection('Active', groups.active, 'No camp is active. Dispenses are not tagged with a camp.')}
+        {renderSection('Upcoming', groups.upcoming, 'No upcoming camps planned.')}
+        {renderSection('Planned but Not Started', groups.overdue)}
+        {renderSection('Past', groups.past, 'No camps have been closed yet.')}
+      </CardContent>
+
+      <CampFormDialog
+        isOpen={!!dialogState}
+        camp={dialogState?.camp}
+        onClose={() => setDialogState(null)}
+      />
+
+      <CampKitDialog campId={kitCampId} onClose={() => setKitCampId(null)} />
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => { if (!open) setPendingAction(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{confirmText?.title}</AlertDialogTitle>
+            <AlertDialogDescription>{confirmText?.description}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmAction}>Confirm</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
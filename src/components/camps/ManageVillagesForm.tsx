@@ -1,7 +1,7 @@
 
 "use client";
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
@@ -15,12 +15,34 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { useInventory } from '@/contexts/InventoryContext';
+import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
-import { CheckCircle, PlusCircle, Tent, List } from 'lucide-react';
+import { CheckCircle, PlusCircle, Tent, List, Pencil, Trash2, Upload, Users, Phone, MapPin } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Separator } from '@/components/ui/separator';
+import VillageFormDialog from '@/components/camps/VillageFormDialog';
+import {
+  VISIT_FREQUENCY_LABELS,
+  formatVillageLocality,
+  getVillageReferences,
+  hasVillageReferences,
+  parseVillageCsv,
+} from '@/lib/villages';
+import type { VillageCsvParseResult } from '@/lib/villages';
+import type { Village } from '@/types';
 
 const addVillageFormSchema = z.object({
   villageName: z.string().min(2, { message: "Village name must be at least 2 characters." }).max(100, { message: "Village name cannot exceed 100 characters."}),
@@ -29,8 +51,40 @@ const addVillageFormSchema = z.object({
 type AddVillageFormData = z.infer<typeof addVillageFormSchema>;
 
 export default function ManageVillagesForm() {
-  const { villages, addVillage } = useInventory();
+  const { villages, transactions, patients, camps, addVillage, deleteVillage, mergeVillages, importVillages } = useInventory();
+  const { hasPermission } = useAuth();
   const { toast } = useToast();
+  const [editingVillage, setEditingVillage] = useState<Village | null>(null);
+  const [deletingVillage, setDeletingVillage] = useState<Village | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+  // The CSV picked for import, parsed but not yet saved
+  const [pendingImport, setPendingImport] = useState<(VillageCsvParseResult & { fileName: string }) | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const canManage = hasPermission('manageCamps');
+
+  const deletingReferences = useMemo(
+    () => (deletingVillage ? getVillageReferences(deletingVillage, { transactions, patients, camps }) : null),
+    [deletingVillage, transactions, patients, camps]
+  );
+  const mustMerge = !!deletingReferences && hasVillageReferences(deletingReferences);
+
+  const showResult = (result: { success: boolean; message?: string }, successTitle: string, failureTitle: string) => {
+    if (result.success) {
+      toast({
+        title: successTitle,
+        description: result.message,
+        action: <CheckCircle className="text-green-500" />,
+      });
+    } else {
+      toast({
+        variant: "destructive",
+        title: failureTitle,
+        description: result.message,
+      });
+    }
+    return result.success;
+  };
 
   const form = useForm<AddVillageFormData>({
     resolver: zodResolver(addVillageFormSchema),
@@ -57,6 +111,45 @@ export default function ManageVillagesForm() {
     }
   }
 
+  const openDeleteDialog = (village: Village) => {
+    setMergeTargetId('');
+    setDeletingVillage(village);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deletingVillage) return;
+    if (mustMerge) {
+      showResult(await mergeVillages(deletingVillage.id, mergeTargetId), "Villages Merged", "Failed to Merge Villages");
+    } else {
+      showResult(await deleteVillage(deletingVillage.id), "Village Deleted", "Failed to Delete Village");
+    }
+    setDeletingVillage(null);
+  };
+
+  const handleCsvChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    setPendingImport({ fileName: file.name, ...parseVillageCsv(await file.text()) });
+  };
+
+  const handleImport = async () => {
+    if (!pendingImport) return;
+    setIsImporting(true);
+    const result = await importVillages(pendingImport.villages);
+    setIsImporting(false);
+    if (showResult(result, "Villages Imported", "Import Failed")) {
+      setPendingImport(null);
+    }
+  };
+
+  const describeReferences = (references: NonNullable<typeof deletingReferences>) =>
+    [
+      references.transactionCount > 0 && `${references.transactionCount} transaction(s)`,
+      references.patientCount > 0 && `${references.patientCount} patient(s)`,
+      references.campCount > 0 && `${references.campCount} camp(s)`,
+    ].filter(Boolean).join(', ');
+
   return (
     <div className="space-y-8">
       <Card className="w-full max-w-lg mx-auto shadow-xl">
@@ -65,7 +158,7 @@ export default function ManageVillagesForm() {
             <Tent className="h-6 w-6 text-primary" />
             Manage Camp Villages
           </CardTitle>
-          <CardDescription>Add new village names that you will be visiting for camps.</CardDescription>
+          <CardDescription>Add the villages you visit for camps, one at a time or from a government village list.</CardDescription>
         </CardHeader>
         <CardContent>
           <Form {...form}>
@@ -80,7 +173,7 @@ export default function ManageVillagesForm() {
                       <FormControl>
                         <Input placeholder="Enter village name" {...field} />
                       </FormControl>
-                      <Button type="submit" className="shrink-0">
+                      <Button type="submit" className="shrink-0" disabled={!canManage}>
                         <PlusCircle className="mr-2 h-4 w-4" /> Add
                       </Button>
                     </div>
@@ -90,6 +183,39 @@ export default function ManageVillagesForm() {
               />
             </form>
           </Form>
+
+          {canManage && (
+            <div className="mt-6 space-y-3 border-t pt-6">
+              <Label htmlFor="villageCsv" className="flex items-center gap-2">
+                <Upload className="h-4 w-4" /> Import Village List (CSV)
+              </Label>
+              <Input id="villageCsv" type="file" accept=".csv,text/csv" onChange={handleCsvChange} />
+              <p className="text-xs text-muted-foreground">
+                A census or Local Government Directory export works as is. Only a village name column is required; district, block, taluka, PIN code, latitude, longitude, population, contact and visit frequency columns are used when present. Villages already on the list only have their blank details filled in.
+              </p>
+              {pendingImport && (
+                <div className="rounded-md border p-3 text-sm space-y-2">
+                  <p>
+                    <span className="font-medium">{pendingImport.fileName}</span>: {pendingImport.villages.length} village(s) ready to import
+                    {pendingImport.errors.length > 0 && <span className="text-orange-600">, {pendingImport.errors.length} row(s) skipped</span>}.
+                  </p>
+                  {pendingImport.errors.length > 0 && (
+                    <ScrollArea className="max-h-32">
+                      <ul className="text-xs text-orange-600 space-y-1">
+                        {pendingImport.errors.map((error, index) => <li key={index}>{error}</li>)}
+                      </ul>
+                    </ScrollArea>
+                  )}
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={handleImport} disabled={isImporting || pendingImport.villages.length === 0}>
+                      Import {pendingImport.villages.length} Village(s)
+                    </Button>
+                    <Button size="sm" variant="outline" onClick={() => setPendingImport(null)}>Cancel</Button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
 
@@ -107,16 +233,91 @@ export default function ManageVillagesForm() {
           ) : (
             <ScrollArea className="h-60 w-full rounded-md border p-4">
               <ul className="space-y-2">
-                {villages.map((village) => (
-                  <li key={village.id} className="text-sm p-2 bg-muted/50 rounded-md">
-                    {village.name}
-                  </li>
-                ))}
+                {villages.map((village) => {
+                  const locality = formatVillageLocality(village);
+                  return (
+                    <li key={village.id} className="text-sm p-2 bg-muted/50 rounded-md flex items-start justify-between gap-2">
+                      <div className="space-y-0.5">
+                        <p className="font-medium">{village.name}</p>
+                        {(locality || village.pinCode) && (
+                          <p className="text-xs text-muted-foreground flex items-center gap-1">
+                            <MapPin className="h-3 w-3" />
+                            {[locality, village.pinCode].filter(Boolean).join(' - ')}
+                          </p>
+                        )}
+                        {(village.population !== undefined || village.visitFrequency) && (
+                          <p className="text-xs text-muted-foreground flex items-center gap-1">
+                            <Users className="h-3 w-3" />
+                            {[
+                              village.population !== undefined && `Population ${village.population.toLocaleString('en-IN')}`,
+                              village.visitFrequency && `Visited ${VISIT_FREQUENCY_LABELS[village.visitFrequency].toLowerCase()}`,
+                            ].filter(Boolean).join(' · ')}
+                          </p>
+                        )}
+                        {(village.contactName || village.contactPhone) && (
+                          <p className="text-xs text-muted-foreground flex items-center gap-1">
+                            <Phone className="h-3 w-3" />
+                            {[village.contactName, village.contactPhone].filter(Boolean).join(', ')}
+                          </p>
+                        )}
+                        {village.aliases && village.aliases.length > 0 && (
+                          <p className="text-xs text-muted-foreground">Also known as: {village.aliases.join(', ')}</p>
+                        )}
+                      </div>
+                      <div className="flex gap-1 shrink-0">
+                        <Button variant="outline" size="sm" className="h-8 px-2" disabled={!canManage} onClick={() => setEditingVillage(village)}>
+                          <Pencil className="h-4 w-4" />
+                          <span className="sr-only">Edit {village.name}</span>
+                        </Button>
+                        <Button variant="outline" size="sm" className="h-8 px-2" disabled={!canManage} onClick={() => openDeleteDialog(village)}>
+                          <Trash2 className="h-4 w-4" />
+                          <span className="sr-only">Delete {village.name}</span>
+                        </Button>
+                      </div>
+                    </li>
+                  );
+                })}
               </ul>
             </ScrollArea>
           )}
         </CardContent>
       </Card>
+
+      <VillageFormDialog village={editingVillage} onClose={() => setEditingVillage(null)} />
+
+      <AlertDialog open={!!deletingVillage} onOpenChange={(open) => { if (!open) setDeletingVillage(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{mustMerge ? `Merge ${deletingVillage?.name}?` : `Delete ${deletingVillage?.name}?`}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {mustMerge && deletingReferences
+                ? `This village is used by ${describeReferences(deletingReferences)}, so it cannot simply be deleted. Merge it into the village it duplicates: its patients and camps move there and its name is kept as another name for that village.`
+                : 'This village is not used by any transaction, patient or camp and will be removed from the list.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {mustMerge && (
+            <div className="space-y-2">
+              <Label htmlFor="mergeTarget">Merge into</Label>
+              <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+                <SelectTrigger id="mergeTarget">
+                  <SelectValue placeholder="Select village" />
+                </SelectTrigger>
+                <SelectContent>
+                  {villages.filter(v => v.id !== deletingVillage?.id).map(v => (
+                    <SelectItem key={v.id} value={v.id}>{v.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete} disabled={mustMerge && !mergeTargetId}>
+              {mustMerge ? 'Merge' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,208 @@
+"use client";
+
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { CheckCircle, Pencil } from 'lucide-react';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useToast } from '@/hooks/use-toast';
+import { VISIT_FREQUENCY_LABELS, isValidPinCode } from '@/lib/villages';
+import type { Village, VisitFrequency } from '@/types';
+
+const NO_FREQUENCY_VALUE = '--none--';
+
+const optionalNumber = (check: (value: number) => boolean, message: string) =>
+  z.string().optional().refine(value => !value?.trim() || (!isNaN(Number(value)) && check(Number(value))), { message });
+
+const villageFormSchema = z.object({
+  name: z.string().trim().min(2, { message: "Village name must be at least 2 characters." }).max(100, { message: "Village name cannot exceed 100 characters." }),
+  district: z.string().optional(),
+  block: z.string().optional(),
+  taluka: z.string().optional(),
+  pinCode: z.string().optional().refine(value => !value?.trim() || isValidPinCode(value.trim()), { message: "PIN code must be 6 digits." }),
+  latitude: optionalNumber(value => Math.abs(value) <= 90, "Latitude must be between -90 and 90."),
+  longitude: optionalNumber(value => Math.abs(value) <= 180, "Longitude must be between -180 and 180."),
+  population: optionalNumber(value => Number.isInteger(value) && value >= 0, "Population must be a whole number."),
+  contactName: z.string().optional(),
+  contactPhone: z.string().optional(),
+  visitFrequency: z.string(),
+}).refine(data => !data.latitude?.trim() === !data.longitude?.trim(), {
+  message: "Enter both latitude and longitude, or neither.",
+  path: ['longitude'],
+});
+
+type VillageFormData = z.infer<typeof villageFormSchema>;
+
+const toNumber = (value?: string) => (value?.trim() ? Number(value) : undefined);
+
+interface VillageFormDialogProps {
+  village: Village | null;
+  onClose: () => void;
+}
+
+export default function VillageFormDialog({ village, onClose }: VillageFormDialogProps) {
+  const { updateVillage } = useInventory();
+  const { toast } = useToast();
+
+  const form = useForm<VillageFormData>({
+    resolver: zodResolver(villageFormSchema),
+    defaultValues: {
+      name: '', district: '', block: '', taluka: '', pinCode: '', latitude: '', longitude: '',
+      population: '', contactName: '', contactPhone: '', visitFrequency: NO_FREQUENCY_VALUE,
+    },
+  });
+
+  useEffect(() => {
+    if (!village) return;
+    form.reset({
+      name: village.name,
+      district: village.district || '',
+      block: village.block || '',
+      taluka: village.taluka || '',
+      pinCode: village.pinCode || '',
+      latitude: village.latitude?.toString() || '',
+      longitude: village.longitude?.toString() || '',
+      population: village.population?.toString() || '',
+      contactName: village.contactName || '',
+      contactPhone: village.contactPhone || '',
+      visitFrequency: village.visitFrequency || NO_FREQUENCY_VALUE,
+    });
+  }, [village, form]);
+
+  async function onSubmit(data: VillageFormData) {
+    if (!village) return;
+    const result = await updateVillage(village.id, {
+      name: data.name,
+      district: data.district,
+      block: data.block,
+      taluka: data.taluka,
+      pinCode: data.pinCode,
+      latitude: toNumber(data.latitude),
+      longitude: toNumber(data.longitude),
+      population: toNumber(data.population),
+      contactName: data.contactName,
+      contactPhone: data.contactPhone,
+      visitFrequency: data.visitFrequency === NO_FREQUENCY_VALUE ? undefined : data.visitFrequency as VisitFrequency,
+    });
+    if (result.success) {
+      toast({
+        title: "Village Updated",
+        description: result.message,
+        action: <CheckCircle className="text-green-500" />,
+      });
+      onClose();
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Failed to Update Village",
+        description: result.message,
+      });
+    }
+  }
+
+  const textField = (name: keyof VillageFormData, label: string, placeholder?: string, className?: string) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem className={className}>
+          <FormLabel>{label}</FormLabel>
+          <FormControl><Input placeholder={placeholder} {...field} /></FormControl>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={!!village} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Pencil className="h-5 w-5 text-primary" />
+            Edit Village
+          </DialogTitle>
+          <DialogDescription>
+            Renaming keeps the old name on record, so dispenses entered under it still count for this village.
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {textField('name', 'Village Name', undefined, 'md:col-span-2')}
+            {textField('taluka', 'Taluka / Tehsil (Optional)')}
+            {textField('block', 'Block (Optional)')}
+            {textField('district', 'District (Optional)')}
+            {textField('pinCode', 'PIN Code (Optional)', 'e.g., 413512')}
+            {textField('latitude', 'Latitude (Optional)', 'e.g., 18.4088')}
+            {textField('longitude', 'Longitude (Optional)', 'e.g., 76.5604')}
+            <FormField
+              control={form.control}
+              name="population"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Approximate Population (Optional)</FormLabel>
+                  <FormControl><Input type="number" min={0} {...field} /></FormControl>
+                  <FormDescription>Used to find similar villages when planning a first camp kit.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="visitFrequency"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Visit Frequency</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_FREQUENCY_VALUE}>Not set</SelectItem>
+                      {Object.entries(VISIT_FREQUENCY_LABELS).map(([code, label]) => (
+                        <SelectItem key={code} value={code}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            {textField('contactName', 'Contact Person (Optional)', 'e.g., Sarpanch or ASHA worker')}
+            {textField('contactPhone', 'Contact Phone (Optional)', 'e.g., 9876543210')}
+            <DialogFooter className="md:col-span-2">
+              <DialogClose asChild>
+                <Button type="button" variant="outline">Cancel</Button>
+              </DialogClose>
+              <Button type="submit">Save Changes</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
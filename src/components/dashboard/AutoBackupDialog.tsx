@@ -0,0 +1,192 @@
+"use client";
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { ArchiveRestore, Camera, FolderOpen, HardDrive } from 'lucide-react';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useToast } from '@/hooks/use-toast';
+import { getElectronBridge } from '@/lib/electron';
+import type { SnapshotSettings, SnapshotInfo } from '@/lib/electron';
+import RestoreBackupDialog from '@/components/dashboard/RestoreBackupDialog';
+
+interface AutoBackupDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// Desktop-only: configure rolling snapshots written by the Electron main process and restore from them.
+export default function AutoBackupDialog({ isOpen, onClose }: AutoBackupDialogProps) {
+  const { takeSnapshot } = useInventory();
+  const { toast } = useToast();
+  const [settings, setSettings] = useState<SnapshotSettings | null>(null);
+  const [snapshots, setSnapshots] = useState<SnapshotInfo[]>([]);
+  const [snapshotToRestore, setSnapshotToRestore] = useState<{ fileName: string; text: string } | null>(null);
+
+  const refresh = useCallback(async () => {
+    const bridge = getElectronBridge();
+    if (!bridge) return;
+    setSettings(await bridge.backups.getSettings());
+    setSnapshots(await bridge.backups.list());
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) refresh();
+  }, [isOpen, refresh]);
+
+  const bridge = getElectronBridge();
+  if (!bridge) return null;
+
+  const handleChooseFolder = async () => {
+    setSettings(await bridge.backups.chooseFolder());
+    setSnapshots(await bridge.backups.list());
+  };
+
+  const handleSettingChange = async (partial: Partial<SnapshotSettings>) => {
+    setSettings(await bridge.backups.updateSettings(partial));
+    setSnapshots(await bridge.backups.list());
+  };
+
+  const handleSnapshotNow = async () => {
+    const result = await takeSnapshot('manual');
+    if (result.success) {
+      toast({ title: "Snapshot Saved", description: result.fileName });
+    } else {
+      toast({ variant: "destructive", title: "Snapshot Failed", description: result.message });
+    }
+    await refresh();
+  };
+
+  const handleRestore = async (snapshot: SnapshotInfo) => {
+    try {
+      const text = await bridge.backups.read(snapshot.fileName);
+      setSnapshotToRestore({ fileName: snapshot.fileName, text });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Could Not Read Snapshot",
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  return (
+    <>
+      <Dialog open={isOpen && !snapshotToRestore} onOpenChange={(open) => { if (!open) onClose(); }}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <HardDrive className="h-5 w-5 text-primary" />
+              Automatic Backups
+            </DialogTitle>
+            <DialogDescription>
+              Snapshots are saved on every app close, once a day, and before resets, deletions and restores.
+            </DialogDescription>
+          </DialogHeader>
+
+          {settings && (
+            <div className="grid gap-4 py-2">
+              <div className="grid gap-2">
+                <Label>Backup Folder</Label>
+                <div className="flex gap-2">
+                  <Input readOnly value={settings.folder || 'Not set'} className="font-mono text-xs" />
+                  <Button type="button" variant="outline" onClick={handleChooseFolder} className="shrink-0">
+                    <FolderOpen className="mr-1 h-4 w-4" /> Choose
+                  </Button>
+                </div>
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="snapshotsEnabled">Automatic snapshots enabled</Label>
+                <Switch id="snapshotsEnabled" checked={settings.enabled} onCheckedChange={(checked) => handleSettingChange({ enabled: checked })} />
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="grid gap-2">
+                  <Label htmlFor="maxSnapshots">Keep at most (snapshots)</Label>
+                  <Input
+                    id="maxSnapshots"
+                    type="number"
+                    min="1"
+                    defaultValue={settings.maxSnapshots}
+                    onBlur={(e) => handleSettingChange({ maxSnapshots: parseInt(e.target.value, 10) })}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="maxAgeDays">Delete after (days, 0 = never)</Label>
+                  <Input
+                    id="maxAgeDays"
+                    type="number"
+                    min="0"
+                    defaultValue={settings.maxAgeDays}
+                    onBlur={(e) => handleSettingChange({ maxAgeDays: parseInt(e.target.value, 10) })}
+                  />
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <h4 className="font-semibold text-foreground">Snapshots ({snapshots.length})</h4>
+                <div className="flex gap-2">
+                  <Button type="button" variant="ghost" size="sm" onClick={() => bridge.backups.openFolder()} disabled={!settings.folder}>
+                    <FolderOpen className="mr-1 h-4 w-4" /> Open Folder
+                  </Button>
+                  <Button type="button" variant="outline" size="sm" onClick={handleSnapshotNow} disabled={!settings.folder || !settings.enabled}>
+                    <Camera className="mr-1 h-4 w-4" /> Snapshot Now
+                  </Button>
+                </div>
+              </div>
+              {snapshots.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">No snapshots yet.</p>
+              ) : (
+                <ScrollArea className="h-60 rounded-md border">
+                  <ul className="divide-y">
+                    {snapshots.map(snapshot => (
+                      <li key={snapshot.fileName} className="flex items-center justify-between p-2 text-sm">
+                        <div>
+                          <p>{format(parseISO(snapshot.createdAt), 'PPpp')}</p>
+                          <p className="text-xs text-muted-foreground">
+                            <Badge variant="secondary" className="mr-1">{snapshot.reason}</Badge>
+                            {formatSize(snapshot.sizeBytes)}
+                          </p>
+                        </div>
+                        <Button type="button" variant="outline" size="sm" onClick={() => handleRestore(snapshot)} className="h-8 px-2">
+                          <ArchiveRestore className="mr-1 h-4 w-4" /> Restore
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                </ScrollArea>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button" variant="outline">Close</Button>
+            </DialogClose>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      <RestoreBackupDialog
+        isOpen={!!snapshotToRestore}
+        onClose={() => setSnapshotToRestore(null)}
+        preloadedBackup={snapshotToRestore}
+      />
+    </>
+  );
+}
@@ -27,6 +27,11 @@ import { cn } from '@/lib/utils';
 import type { Drug, Transaction, TransactionDrugDetail } from '@/types';
 import { useToast } from '@/hooks/use-toast';
 import { useInventory } from '@/contexts/InventoryContext';
+import { getVoidStatusMap, strikeThroughText } from '@/lib/voids';
+import { formatRegimen } from '@/lib/regimen';
+import { DOSAGE_FORMS, getBaseUnit, getUnitLabel } from '@/lib/units';
+import { describePackSizes } from '@/lib/packs';
+import { getLocationName, getLocationStock } from '@/lib/locations';
 
 
 interface ExportDataDialogProps {
@@ -71,7 +76,7 @@ export default function ExportDataDialog({
   const [endDate, setEndDate] = useState<Date | undefined>();
   const [fileName, setFileName] = useState('');
   const { toast } = useToast();
-  const { getDrugById } = useInventory();
+  const { getDrugById, locations, products } = useInventory();
 
   useEffect(() => {
     if (isOpen) {
@@ -122,6 +127,27 @@ export default function ExportDataDialog({
         return isValid(txnDate) && txnDate >= sDate && txnDate <= eDate;
       });
 
+      // Voided lines are struck through and linked to the reversal that voided them
+      const voidStatusMap = getVoidStatusMap(allTransactions);
+      const transactionsById = new Map(allTransactions.map(txn => [txn.id, txn]));
+      const ledgerLabel = (txn?: Transaction) => (txn && typeof txn.sequence === 'number' ? `#${txn.sequence}` : 'entry');
+      const findReversal = (txn: Transaction, lineIndex: number) =>
+        voidStatusMap.get(txn.id)?.reversals.find(reversal => reversal.voidOf!.lineIndexes.includes(lineIndex));
+      const strikeIf = (voided: boolean, text: string) => (voided && text ? strikeThroughText(text) : text);
+      const getVoidColumns = (txn: Transaction, lineIndex: number) => {
+        const reversal = findReversal(txn, lineIndex);
+        if (reversal) {
+          return { status: 'VOIDED', link: `Voided by ${ledgerLabel(reversal)}: ${reversal.voidReason || ''}`, targetId: reversal.id };
+        }
+        if (txn.type === 'void' && txn.voidOf) {
+          return { status: 'REVERSAL', link: `Reversal of ${ledgerLabel(transactionsById.get(txn.voidOf.transactionId))}: ${txn.voidReason || ''}`, targetId: txn.voidOf.transactionId };
+        }
+        return { status: '', link: '', targetId: undefined };
+      };
+      // Transaction each Master Log row belongs to, and the row its void link should jump to
+      const masterLogRowTransactionIds: string[] = [];
+      const masterLogLinkTargets: Array<string | undefined> = [];
+
       // --- Data Preparation for each sheet ---
 
       // 1. Master Log
@@ -129,7 +155,10 @@ export default function ExportDataDialog({
         if (txn.drugs.length === 0) {
             // For transactions like 'update' that might not have drugs array populated
             const drugDetails = txn.updateDetails ? getDrugById(txn.updateDetails.drugId) : null;
+            masterLogRowTransactionIds.push(txn.id);
+            masterLogLinkTargets.push(undefined);
             return [{
+                'Ledger #': txn.sequence ?? '',
                 'Date': formatDateForExcel(txn.timestamp),
                 'Type': txn.type,
                 'Patient Name': txn.patientName || '',
@@ -142,25 +171,38 @@ export default function ExportDataDialog({
                 'Mfg. Date': drugDetails ? formatDateOnlyForExcel(drugDetails.dateOfManufacture) : 'N/A',
                 'Expiry Date': drugDetails ? formatDateOnlyForExcel(drugDetails.dateOfExpiry) : 'N/A',
                 'Source': txn.source || (drugDetails?.initialSource || ''),
+                'Performed By': txn.performedBy?.userName || '',
+                'Status': '',
+                'Void Link': '',
                 'Notes': txn.notes || ''
             }];
         }
-        return txn.drugs.map(drugDetail => {
+        return txn.drugs.map((drugDetail, lineIndex) => {
             const drugBatch = getDrugById(drugDetail.drugId);
+            const voidColumns = getVoidColumns(txn, lineIndex);
+            const voided = voidColumns.status === 'VOIDED';
+            masterLogRowTransactionIds.push(txn.id);
+            masterLogLinkTargets.push(voidColumns.targetId);
             return {
+                'Ledger #': txn.sequence ?? '',
                 'Date': formatDateForExcel(txn.timestamp),
                 'Type': txn.type,
-                'Patient Name': txn.patientName || '',
+                'Patient Name': strikeIf(voided, txn.patientName || ''),
                 'Aadhar': txn.aadharLastFour || '',
                 'Age/Sex': `${txn.age || ''} / ${txn.sex || ''}`,
                 'Village': txn.villageName || '',
-                'Drug Involved': `${drugDetail.brandName || drugDetail.drugName}`,
+                'Drug Involved': strikeIf(voided, `${drugDetail.brandName || drugDetail.drugName}`),
                 'Dosage': drugDetail.dosage || '',
                 'Batch Number': drugDetail.batchNumber || '',
+                'Unit': getUnitLabel(getBaseUnit(drugDetail), 2),
                 'Mfg. Date': drugBatch ? formatDateOnlyForExcel(drugBatch.dateOfManufacture) : '',
                 'Expiry Date': drugBatch ? formatDateOnlyForExcel(drugBatch.dateOfExpiry) : '',
                 'Source': txn.source || (drugBatch?.initialSource || ''),
-                'Notes': txn.notes || `Qty: ${drugDetail.quantity}, Stock: ${drugDetail.previousStock} -> ${drugDetail.newStock}`
+                'Performed By': txn.performedBy?.userName || '',
+                'Status': voidColumns.status,
+                'Void Link': voidColumns.link,
+                'Notes': (txn.notes || `Qty: ${drugDetail.quantity}, Stock: ${drugDetail.previousStock} -> ${drugDetail.newStock}`)
+                  + (txn.nearExpiryOverride ? ` | Near-expiry override: ${txn.nearExpiryOverride.reason}` : '')
             };
         });
       });
@@ -168,24 +210,28 @@ export default function ExportDataDialog({
       // 2. Patient Dispensing
       const patientDispensingData = filteredTransactions
         .filter(txn => txn.type === 'dispense')
-        .flatMap(txn => txn.drugs.map(drugDetail => {
+        .flatMap(txn => txn.drugs.map((drugDetail, lineIndex) => {
             const drugBatch = getDrugById(drugDetail.drugId);
+            const reversal = findReversal(txn, lineIndex);
             return {
                 'Date': formatDateForExcel(txn.timestamp),
-                'Patient Name': txn.patientName || '',
+                'Patient Name': strikeIf(!!reversal, txn.patientName || ''),
                 'Age/Sex': `${txn.age || ''} / ${txn.sex || ''}`,
                 'Aadhar': txn.aadharLastFour || '',
                 'Village': txn.villageName || '',
-                'Drug Involved': `${drugDetail.brandName || drugDetail.drugName}`,
+                'Drug Involved': strikeIf(!!reversal, `${drugDetail.brandName || drugDetail.drugName}`),
                 'Dosage': drugDetail.dosage || '',
                 'Batch and Expiry': `Batch: ${drugDetail.batchNumber || 'N/A'}, Exp: ${drugBatch ? formatDateOnlyForExcel(drugBatch.dateOfExpiry) : 'N/A'}`,
-                'Quantity Dispensed': -drugDetail.quantity
+                'Quantity Dispensed': -drugDetail.quantity,
+                'Unit': getUnitLabel(getBaseUnit(drugDetail), -drugDetail.quantity),
+                'Regimen': drugDetail.regimen ? formatRegimen(drugDetail.regimen, getBaseUnit(drugDetail)) : '',
+                'Status': reversal ? `VOIDED by ${ledgerLabel(reversal)}` : '',
             };
         }));
       
       // 3. Drug Inventory Log
       const drugInventoryLogData = filteredTransactions
-        .filter(txn => ['restock', 'update', 'adjustment'].includes(txn.type))
+        .filter(txn => ['restock', 'update', 'adjustment', 'void', 'transfer'].includes(txn.type))
         .flatMap(txn => {
             if (txn.drugs.length === 0 && txn.updateDetails) { // Handle pure updates
                 const drugBatch = getDrugById(txn.updateDetails.drugId);
@@ -199,44 +245,71 @@ export default function ExportDataDialog({
                     'Mfg. Date': drugBatch ? formatDateOnlyForExcel(drugBatch.dateOfManufacture) : '',
                     'Exp. Date': drugBatch ? formatDateOnlyForExcel(drugBatch.dateOfExpiry) : '',
                     'Stock After Change': drugBatch?.stock ?? 'N/A',
+                    'Unit': drugBatch ? getUnitLabel(drugBatch.unit, 2) : '',
                     'Notes': txn.notes
                 }];
             }
-            return txn.drugs.map(drugDetail => {
+            return txn.drugs.map((drugDetail, lineIndex) => {
                 const drugBatch = getDrugById(drugDetail.drugId);
+                const voidColumns = getVoidColumns(txn, lineIndex);
                 return {
                     'Date': formatDateForExcel(txn.timestamp),
                     'Source': txn.source || drugBatch?.initialSource || '',
                     'Type': txn.type,
-                    'Drug': `${drugDetail.brandName || drugDetail.drugName}`,
+                    'Drug': strikeIf(voidColumns.status === 'VOIDED', `${drugDetail.brandName || drugDetail.drugName}`),
                     'Dose': drugDetail.dosage || '',
                     'Batch': drugDetail.batchNumber || '',
                     'Mfg. Date': drugBatch ? formatDateOnlyForExcel(drugBatch.dateOfManufacture) : '',
                     'Exp. Date': drugBatch ? formatDateOnlyForExcel(drugBatch.dateOfExpiry) : '',
+                    'Location': txn.transfer
+                      ? `${getLocationName(locations, txn.transfer.fromLocationId)} -> ${getLocationName(locations, txn.transfer.toLocationId)}`
+                      : getLocationName(locations, txn.locationId),
                     'Stock After Change': drugDetail.newStock,
+                    'Unit': getUnitLabel(getBaseUnit(drugDetail), 2),
+                    'Status': voidColumns.link,
                     'Notes': txn.notes || `Qty changed by ${drugDetail.quantity}`
                 };
             });
       });
 
       // 4. Current Inventory
-      const currentInventoryData = allDrugs.map(drug => ({
+      const currentInventoryData = allDrugs.map(drug => {
+        const product = products.find(p => p.id === drug.productId);
+        return {
         'Generic Name': drug.name,
         'Brand Name': drug.brandName || '',
         'Dosage': drug.dosage || '',
+        'Dosage Form': DOSAGE_FORMS[drug.dosageForm].label,
+        'Category': product?.category || '',
         'Batch No.': drug.batchNumber || '',
         'Mfg. Date': formatDateOnlyForExcel(drug.dateOfManufacture),
         'Exp. Date': formatDateOnlyForExcel(drug.dateOfExpiry),
-        'Current Stock (Tablets)': drug.stock,
-        'Purchase Price/Tablet (INR)': drug.purchasePricePerTablet,
-        'Low Stock Threshold': drug.lowStockThreshold,
+        'Unit': getUnitLabel(drug.unit, 2),
+        'Pack Sizes': describePackSizes(drug.packSizes, drug.unit),
+        'Current Stock': drug.stock,
+        ...Object.fromEntries(locations.map(location => [`Stock at ${location.name}`, getLocationStock(drug, location.id)])),
+        'Purchase Price per Unit (INR)': drug.purchasePricePerUnit,
+        'Product Minimum Stock': product?.lowStockThreshold ?? '',
+        'Product Reorder Level': product?.reorderLevel ?? '',
+        'Product Maximum Stock': product?.maxStockLevel ?? '',
         'Initial Source': drug.initialSource || '',
-      }));
+        };
+      });
 
 
       // --- Create Workbook and Sheets ---
       const wb = XLSX.utils.book_new();
       const wsMaster = XLSX.utils.json_to_sheet(masterLogData);
+      if (masterLogData.length > 0) {
+        const linkColumn = Object.keys(masterLogData[0]).indexOf('Void Link');
+        masterLogLinkTargets.forEach((targetId, rowIndex) => {
+          const targetRow = targetId ? masterLogRowTransactionIds.indexOf(targetId) : -1;
+          const cell = wsMaster[XLSX.utils.encode_cell({ r: rowIndex + 1, c: linkColumn })];
+          if (cell && targetRow !== -1) {
+            cell.l = { Target: `#'Master Log'!A${targetRow + 2}` };
+          }
+        });
+      }
       const wsDispensing = XLSX.utils.json_to_sheet(patientDispensingData);
       const wsInventoryLog = XLSX.utils.json_to_sheet(drugInventoryLogData);
       const wsCurrentInventory = XLSX.utils.json_to_sheet(currentInventoryData);
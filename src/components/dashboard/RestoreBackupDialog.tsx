@@ -0,0 +1,207 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { format, parseISO, isValid } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { AlertTriangle, ArchiveRestore, CheckCircle } from 'lucide-react';
+import type { BackupFile, RestoreMode } from '@/types';
+import type { DataSet, PendingQuarantine } from '@/lib/migrations';
+import { readBackup, summarizeDataSet, BACKUP_FILE_EXTENSION } from '@/lib/backup';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+interface RestoreBackupDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // A backup already read from elsewhere (e.g. an automatic snapshot) instead of a picked file
+  preloadedBackup?: { fileName: string; text: string } | null;
+}
+
+interface LoadedBackup {
+  fileName: string;
+  backup: BackupFile;
+  data: DataSet;
+  invalidRecords: PendingQuarantine[];
+}
+
+const formatDateSafe = (dateString?: string, dateFormat: string = 'PP') => {
+  if (!dateString) return 'N/A';
+  const date = parseISO(dateString);
+  return isValid(date) ? format(date, dateFormat) : dateString;
+};
+
+export default function RestoreBackupDialog({ isOpen, onClose, preloadedBackup }: RestoreBackupDialogProps) {
+  const { restoreFromBackup, products, drugs, transactions, villages, patients, camps, locations, stockTakes } = useInventory();
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const [loadedBackup, setLoadedBackup] = useState<LoadedBackup | null>(null);
+  const [readError, setReadError] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const handleClose = () => {
+    setLoadedBackup(null);
+    setReadError('');
+    setMode('merge');
+    onClose();
+  };
+
+  const loadBackupText = async (fileName: string, text: string) => {
+    setLoadedBackup(null);
+    setReadError('');
+    const result = await readBackup(text);
+    if (result.success) {
+      setLoadedBackup({ fileName, backup: result.backup, data: result.data, invalidRecords: result.invalidRecords });
+    } else {
+      setReadError(result.message);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen && preloadedBackup) {
+      loadBackupText(preloadedBackup.fileName, preloadedBackup.text);
+    }
+  }, [isOpen, preloadedBackup]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) {
+      setLoadedBackup(null);
+      return;
+    }
+    await loadBackupText(file.name, await file.text());
+  };
+
+  const handleRestore = async () => {
+    if (!loadedBackup) return;
+    setIsRestoring(true);
+    const result = await restoreFromBackup(loadedBackup.data, mode, loadedBackup.backup.createdAt);
+    setIsRestoring(false);
+    if (result.success) {
+      toast({
+        title: "Backup Restored",
+        description: result.message,
+        action: <CheckCircle className="text-green-500" />,
+      });
+      handleClose();
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Restore Failed",
+        description: result.message || "Could not restore the backup.",
+      });
+    }
+  };
+
+  const preview = loadedBackup ? summarizeDataSet(loadedBackup.data) : null;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) { handleClose(); } }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ArchiveRestore className="h-5 w-5 text-primary" />
+            Restore from Backup
+          </DialogTitle>
+          <DialogDescription>
+            Select a backup file ({BACKUP_FILE_EXTENSION}). Its checksum is verified before anything is changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          {preloadedBackup ? (
+            <div className="grid gap-2">
+              <Label>Backup File</Label>
+              <p className="text-sm font-mono break-all">{preloadedBackup.fileName}</p>
+              {readError && <p className="text-sm text-destructive">{readError}</p>}
+            </div>
+          ) : (
+            <div className="grid gap-2">
+              <Label htmlFor="backupFile">Backup File</Label>
+              <Input id="backupFile" type="file" accept=".json,application/json" onChange={handleFileChange} />
+              {readError && <p className="text-sm text-destructive">{readError}</p>}
+            </div>
+          )}
+
+          {loadedBackup && preview && (
+            <div className="rounded-md border p-4 space-y-1 text-sm">
+              <h4 className="font-semibold text-foreground mb-1">Backup Preview</h4>
+              <p><strong>Created:</strong> {formatDateSafe(loadedBackup.backup.createdAt, 'PPpp')}</p>
+              <p><strong>Products:</strong> {preview.productCount ?? 0} <span className="text-muted-foreground">(currently {products.length})</span></p>
+              <p><strong>Drug batches:</strong> {preview.drugCount} <span className="text-muted-foreground">(currently {drugs.length})</span></p>
+              <p><strong>Transactions:</strong> {preview.transactionCount} <span className="text-muted-foreground">(currently {transactions.length})</span></p>
+              <p><strong>Villages:</strong> {preview.villageCount} <span className="text-muted-foreground">(currently {villages.length})</span></p>
+              <p><strong>Patients:</strong> {preview.patientCount ?? 0} <span className="text-muted-foreground">(currently {patients.length})</span></p>
+              <p><strong>Camps:</strong> {preview.campCount ?? 0} <span className="text-muted-foreground">(currently {camps.length})</span></p>
+              <p><strong>Stock locations:</strong> {preview.locationCount ?? 0} <span className="text-muted-foreground">(currently {locations.length})</span></p>
+              <p><strong>Stock takes:</strong> {preview.stockTakeCount ?? 0} <span className="text-muted-foreground">(currently {stockTakes.length})</span></p>
+              <p><strong>Transaction dates:</strong> {formatDateSafe(preview.firstTransactionAt)} to {formatDateSafe(preview.lastTransactionAt)}</p>
+              {loadedBackup.invalidRecords.length > 0 && (
+                <p className="text-orange-600">
+                  {loadedBackup.invalidRecords.length} record(s) in this backup are invalid and will be skipped.
+                </p>
+              )}
+            </div>
+          )}
+
+          {loadedBackup && (
+            <div className="grid gap-2">
+              <Label>Restore Mode</Label>
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)}>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="merge" id="restoreMerge" className="mt-0.5" />
+                  <Label htmlFor="restoreMerge" className="font-normal">
+                    <strong>Merge</strong> - add products, batches, transactions, villages, patients, camps, stock locations and stock takes that are not already here. Existing records are kept as they are. Stock takes still being counted come in cancelled.
+                  </Label>
+                </div>
+                <div className="flex items-start gap-2">
+                  <RadioGroupItem value="replace" id="restoreReplace" className="mt-0.5" disabled={!hasPermission('reset')} />
+                  <Label htmlFor="restoreReplace" className="font-normal">
+                    <strong>Replace</strong> - discard all current data and use the backup instead.
+                    {!hasPermission('reset') && <span className="text-muted-foreground"> (admin only)</span>}
+                  </Label>
+                </div>
+              </RadioGroup>
+              {mode === 'replace' && (
+                <div className="p-3 bg-yellow-100 dark:bg-yellow-900/30 border border-yellow-300 dark:border-yellow-700 rounded-md text-xs text-yellow-800 dark:text-yellow-300 flex items-start gap-2">
+                  <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+                  <span>Current products, inventory, transactions, villages, patients, camps, stock locations and stock takes will be replaced. Export a backup first if you may need them.</span>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="outline">
+              Cancel
+            </Button>
+          </DialogClose>
+          <Button
+            type="button"
+            onClick={handleRestore}
+            disabled={!loadedBackup || isRestoring}
+            className={mode === 'replace' ? 'bg-destructive hover:bg-destructive/90 text-destructive-foreground' : ''}
+          >
+            <ArchiveRestore className="mr-2 h-4 w-4" />
+            {mode === 'replace' ? 'Replace All Data' : 'Merge Backup'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -28,6 +28,8 @@ import { Textarea } from '@/components/ui/textarea';
 import { useInventory } from '@/contexts/InventoryContext';
 import { useToast } from '@/hooks/use-toast';
 import type { Drug } from '@/types';
+import { getLocationStock, getLocationName } from '@/lib/locations';
+import { BASE_UNITS } from '@/lib/units';
 import { CheckCircle, AlertTriangle } from 'lucide-react';
 
 const adjustStockFormSchema = z.object({
@@ -45,13 +47,16 @@ interface AdjustStockDialogProps {
 }
 
 export default function AdjustStockDialog({ drug, isOpen, onClose, onSaveSuccess }: AdjustStockDialogProps) {
-  const { adjustDrugStock } = useInventory();
+  const { adjustDrugStock, locations, activeLocationId } = useInventory();
   const { toast } = useToast();
+  // Counts are corrected at this device's location only
+  const locationStock = getLocationStock(drug, activeLocationId);
+  const locationName = getLocationName(locations, activeLocationId);
 
   const form = useForm<AdjustStockFormData>({
     resolver: zodResolver(adjustStockFormSchema),
     defaultValues: {
-      newStock: drug.stock,
+      newStock: locationStock,
       reason: '',
     },
   });
@@ -80,7 +85,8 @@ export default function AdjustStockDialog({ drug, isOpen, onClose, onSaveSuccess
         <DialogHeader>
           <DialogTitle>Adjust Stock: {drug.brandName || drug.name} ({drug.dosage})</DialogTitle>
           <DialogDescription>
-            Batch: {drug.batchNumber || 'N/A'}. Current Stock: {drug.stock}.
+            Batch: {drug.batchNumber || 'N/A'}. Current Stock at {locationName}: {locationStock}.
+            {locationStock !== drug.stock && ` Total across all locations: ${drug.stock}.`}
           </DialogDescription>
         </DialogHeader>
         <Form {...form}>
@@ -90,7 +96,7 @@ export default function AdjustStockDialog({ drug, isOpen, onClose, onSaveSuccess
               name="newStock"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>New Stock Quantity (in Tablets)</FormLabel>
+                  <FormLabel>New Stock Quantity at {locationName} (in {BASE_UNITS[drug.unit].other})</FormLabel>
                   <FormControl>
                     <Input type="number" placeholder="Enter new stock count" {...field} />
                   </FormControl>
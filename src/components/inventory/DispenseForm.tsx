@@ -1,14 +1,15 @@
 
 "use client";
 
-import React from 'react';
-import { useForm, useFieldArray } from 'react-hook-form';
+import React, { useState, useEffect } from 'react';
+import { useForm, useFieldArray, useWatch } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import * as z from 'zod';
 import { Button } from '@/components/ui/button';
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -18,119 +19,333 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { useInventory } from '@/contexts/InventoryContext';
-import type { DispenseFormData, DrugDispenseEntry } from '@/types';
+import type { BatchForDispenseDisplay } from '@/contexts/InventoryContext';
+import type { Drug, DispenseFormData, DrugDispenseEntry, DosingFrequency, NearExpiryBatch, Patient, PackLevel } from '@/types';
+import { DEFAULT_BASE_UNIT } from '@/types';
 import { useToast } from '@/hooks/use-toast';
-import { CheckCircle, MinusCircle, PlusCircle, Trash2 } from 'lucide-react';
+import { CheckCircle, MinusCircle, PlusCircle, Trash2, Layers, Printer, Tent, Warehouse } from 'lucide-react';
 import { Separator } from '@/components/ui/separator';
+import { parseISO } from 'date-fns';
+import { allocateFefo, isBatchNearExpiry } from '@/lib/fefo';
+import { viewStockAtLocation, getLocationName } from '@/lib/locations';
+import NearExpiryConfirmDialog from '@/components/inventory/NearExpiryConfirmDialog';
+import DispensingSlipDialog from '@/components/inventory/DispensingSlipDialog';
+import PatientPicker from '@/components/patients/PatientPicker';
+import { getPatientAge, getPatientVillageName } from '@/lib/patients';
+import type { BatchAllocation } from '@/lib/fefo';
+import { DOSING_FREQUENCY_CODES, calculateRegimenQuantity, translateRegimen } from '@/lib/regimen';
+import { getBaseUnit, isDoseUnit, translateQuantity, translateUnit } from '@/lib/units';
+import { getPackSize, translatePack, translatePackQuantity } from '@/lib/packs';
+import { buildDispensingSlip } from '@/lib/slips';
+import type { DispensingSlip } from '@/lib/slips';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { isLocaleCode } from '@/i18n';
+import type { LocalizedMessage, Translate } from '@/i18n';
 
-const drugDispenseEntrySchema = z.object({
-  selectedBatchId: z.string().min(1, { message: "Please select a drug batch." }),
-  tabletsDispensed: z.coerce.number().int().positive({ message: "Tablets must be a positive number." }),
+// Select value for "let the app pick batches" (Radix Select cannot use an empty string)
+const FEFO_BATCH_VALUE = '--fefo--';
+
+// Select value for "no regimen, quantity entered by hand"
+const NO_REGIMEN_VALUE = '--none--';
+
+// Select value for a quantity in loose base units rather than whole strips
+const BASE_UNIT_VALUE = '--base--';
+
+// Patients are handed loose tablets or whole strips; larger packs are only for restocking
+const DISPENSE_PACK_LEVELS: PackLevel[] = ['strip'];
+
+// Empty inputs are left unset rather than coerced to 0
+const optionalPositiveNumber = (message: string) =>
+  z.preprocess(value => (value === '' || value === null ? undefined : value), z.coerce.number().positive({ message }).optional());
+
+// Schemas are built per language so validation messages follow the UI language
+const buildDrugDispenseEntrySchema = (t: Translate) => z.object({
+  productKey: z.string().min(1, { message: t('dispense.validation.selectDrug') }),
+  selectedBatchId: z.string().optional(),
+  packLevel: z.enum(DISPENSE_PACK_LEVELS as [PackLevel, ...PackLevel[]]).optional(),
+  quantity: z.coerce.number().int().positive({ message: t('dispense.validation.quantityPositive') }),
+  frequency: z.string(),
+  dosePerIntake: optionalPositiveNumber(t('dispense.validation.dosePositive')),
+  durationDays: optionalPositiveNumber(t('dispense.validation.daysPositive')).refine(days => days === undefined || Number.isInteger(days), { message: t('dispense.validation.daysWhole') }),
+}).superRefine((entry, ctx) => {
+  if (entry.frequency === NO_REGIMEN_VALUE) return;
+  if (entry.dosePerIntake === undefined) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['dosePerIntake'], message: t('dispense.validation.enterDose') });
+  if (entry.durationDays === undefined) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['durationDays'], message: t('dispense.validation.enterDays') });
 });
 
-const dispenseFormSchema = z.object({
-  patientName: z.string().min(2, { message: "Patient name must be at least 2 characters." }),
-  aadharLastFour: z.string().length(4, {message: "Aadhar must be 4 digits."}).regex(/^\d{4}$/, "Must be 4 digits."),
-  age: z.coerce.number().int().positive({ message: "Age must be a positive number." }),
-  sex: z.enum(['Male', 'Female', 'Other']).optional(),
+type DispenseEntryValues = z.infer<ReturnType<typeof buildDrugDispenseEntrySchema>>;
+
+const EMPTY_DISPENSE_ENTRY: DispenseEntryValues = { productKey: '', selectedBatchId: FEFO_BATCH_VALUE, packLevel: undefined, quantity: 1, frequency: NO_REGIMEN_VALUE, dosePerIntake: undefined, durationDays: undefined };
+
+const getEntryRegimen = (entry: DispenseEntryValues) =>
+  entry.frequency !== NO_REGIMEN_VALUE && entry.dosePerIntake && entry.durationDays
+    ? { dosePerIntake: Number(entry.dosePerIntake), frequency: entry.frequency as DosingFrequency, durationDays: Number(entry.durationDays) }
+    : undefined;
+
+const buildDispenseFormSchema = (t: Translate) => z.object({
+  patientId: z.string().min(1, { message: t('dispense.validation.selectPatient') }),
   villageName: z.string().optional(),
-  drugsToDispense: z.array(drugDispenseEntrySchema).min(1, { message: "At least one drug batch must be added to dispense." }),
+  drugsToDispense: z.array(buildDrugDispenseEntrySchema(t)).min(1, { message: t('dispense.validation.atLeastOneDrug') }),
 });
 
+// Patient details are taken from the registry at submit time
+type DispenseFormValues = z.infer<ReturnType<typeof buildDispenseFormSchema>>;
+
+const EMPTY_DISPENSE_FORM: DispenseFormValues = {
+  patientId: '',
+  villageName: '',
+  drugsToDispense: [EMPTY_DISPENSE_ENTRY],
+};
+
+// Mirrors dispenseDrugs: lines are allocated in order, so a product listed twice draws from what the first line left.
+// `available` is in base units, like the allocations.
+const previewAllocations = (drugs: Drug[], entries: DrugDispenseEntry[]): Array<{ allocations: BatchAllocation[]; shortfall: number; available: number } | null> => {
+  const workingStock = drugs.map(drug => ({ ...drug }));
+  return entries.map(entry => {
+    const packSizes = workingStock.find(d => d.productId === entry.productKey)?.packSizes;
+    const quantity = Number(entry.quantity) * getPackSize(packSizes, entry.packLevel);
+    if (!entry.productKey || !(quantity > 0)) return null;
+    if (entry.selectedBatchId && entry.selectedBatchId !== FEFO_BATCH_VALUE) {
+      const batch = workingStock.find(d => d.id === entry.selectedBatchId);
+      if (batch) batch.stock -= Math.min(batch.stock, quantity);
+      return null;
+    }
+    const result = allocateFefo(workingStock, entry.productKey, quantity);
+    result.allocations.forEach(({ batch, quantity: taken }) => { batch.stock -= taken; });
+    return { ...result, available: quantity - result.shortfall };
+  });
+};
+
 
 export default function DispenseForm() {
-  const { getBatchesForDispenseDisplay, dispenseDrugs, villages: villageList } = useInventory();
+  const { drugs, getBatchesForDispenseDisplay, getProductsForDispenseDisplay, dispenseDrugs, nearExpiryWarningDays, villages: villageList, getPatientById, activeCamp, locations, activeLocationId } = useInventory();
   const { toast } = useToast();
+  const { t, formatDate, formatNumber } = useTranslation();
+  // Set when dispenseDrugs asks for confirmation before using batches close to expiry
+  const [pendingDispense, setPendingDispense] = useState<{ data: DispenseFormValues; batches: NearExpiryBatch[] } | null>(null);
+  // Slip for the most recent dispense, kept until the next one so it can be printed again
+  const [lastSlip, setLastSlip] = useState<DispensingSlip | null>(null);
+  const [isSlipDialogOpen, setIsSlipDialogOpen] = useState(false);
+
+  const availableProductsForDispense = React.useMemo(() => {
+    return getProductsForDispenseDisplay();
+  }, [getProductsForDispenseDisplay]);
 
   const availableBatchesForDispense = React.useMemo(() => {
     return getBatchesForDispenseDisplay();
   }, [getBatchesForDispenseDisplay]);
 
-  const form = useForm<DispenseFormData>({
+  const dispenseFormSchema = React.useMemo(() => buildDispenseFormSchema(t), [t]);
+
+  // While a camp is active, dispenses default to the camp's village
+  const campVillageName = activeCamp ? villageList.find(v => v.id === activeCamp.villageId)?.name : undefined;
+  const emptyForm = React.useMemo(
+    () => ({ ...EMPTY_DISPENSE_FORM, villageName: campVillageName || '' }),
+    [campVillageName]
+  );
+
+  const form = useForm<DispenseFormValues>({
     resolver: zodResolver(dispenseFormSchema),
-    defaultValues: {
-      patientName: '',
-      aadharLastFour: '',
-      age: '' as unknown as number, 
-      sex: undefined,
-      villageName: '', 
-      drugsToDispense: [{ selectedBatchId: '', tabletsDispensed: 1 }],
-    },
+    defaultValues: emptyForm,
   });
 
+  useEffect(() => {
+    if (campVillageName && !form.getValues('villageName')) {
+      form.setValue('villageName', campVillageName);
+    }
+  }, [campVillageName, form]);
+
   const { fields, append, remove } = useFieldArray({
     control: form.control,
     name: "drugsToDispense",
   });
 
-  async function onSubmit(data: DispenseFormData) {
-    const patientDetails = {
-        patientName: data.patientName,
-        aadharLastFour: data.aadharLastFour,
-        age: data.age,
-        sex: data.sex,
+  const watchedEntries = useWatch({ control: form.control, name: "drugsToDispense" });
+  const allocationPreviews = React.useMemo(
+    () => previewAllocations(viewStockAtLocation(drugs, activeLocationId), watchedEntries || []),
+    [drugs, activeLocationId, watchedEntries]
+  );
+
+  const formatExpiry = (dateOfExpiry?: string) => (dateOfExpiry ? formatDate(parseISO(dateOfExpiry), 'MM/yy') : t('common.notAvailable'));
+
+  const formatBatchOption = (batch: BatchForDispenseDisplay) => {
+    const params = {
+      name: [batch.name, batch.brandName && `(${batch.brandName})`, batch.dosage].filter(Boolean).join(' '),
+      batch: batch.batchNumber || t('common.notAvailable'),
+      expiry: formatExpiry(batch.dateOfExpiry),
+      stock: t('units.quantity', { count: formatNumber(batch.stock), unit: translateUnit(t, batch.unit, batch.stock) }),
+    };
+    return batch.isNearExpiry && batch.daysToExpiry !== null
+      ? t('dispense.batchOptionExpiring', { ...params, days: formatNumber(batch.daysToExpiry) })
+      : t('dispense.batchOption', params);
+  };
+
+  // Notes from dispenseDrugs, in the UI language
+  const translateMessages = (messages: LocalizedMessage[]) => messages.map(m => t(m.key, m.params)).join(' ');
+
+  const getProductUnit = (productKey?: string) =>
+    availableProductsForDispense.find(product => product.groupKey === productKey)?.unit || DEFAULT_BASE_UNIT;
+
+  const getProductPackSizes = (productKey?: string) =>
+    availableProductsForDispense.find(product => product.groupKey === productKey)?.packSizes;
+
+  // Fills in the quantity whenever the regimen is complete; SOS leaves it to the volunteer.
+  // In strips, the course is rounded up to whole strips.
+  const recalculateQuantity = (index: number) => {
+    const entry = form.getValues(`drugsToDispense.${index}`);
+    const quantity = calculateRegimenQuantity(getEntryRegimen(entry) || {});
+    if (quantity !== undefined) {
+      const packSize = getPackSize(getProductPackSizes(entry.productKey), entry.packLevel);
+      form.setValue(`drugsToDispense.${index}.quantity`, Math.ceil(quantity / packSize), { shouldValidate: true });
+    }
+  };
+
+  const handlePackLevelChange = (index: number, value: string) => {
+    form.setValue(`drugsToDispense.${index}.packLevel`, value === BASE_UNIT_VALUE ? undefined : value as PackLevel);
+    recalculateQuantity(index);
+  };
+
+  // A bottle or tube is not measured per dose, so products counted in one are dispensed without a regimen
+  const clearRegimenUnlessDoseUnit = (index: number, productKey: string) => {
+    if (isDoseUnit(getProductUnit(productKey))) return;
+    form.setValue(`drugsToDispense.${index}.frequency`, NO_REGIMEN_VALUE);
+    form.setValue(`drugsToDispense.${index}.dosePerIntake`, undefined);
+    form.setValue(`drugsToDispense.${index}.durationDays`, undefined);
+  };
+
+  const handlePatientSelected = (patient: Patient | null) => {
+    form.setValue('patientId', patient?.id || '', { shouldValidate: !!patient });
+    // Default the dispensing village to the patient's home village
+    const homeVillage = patient ? getPatientVillageName(patient, villageList) : undefined;
+    if (homeVillage && !form.getValues('villageName')) {
+      form.setValue('villageName', homeVillage);
+    }
+  };
+
+  async function submitDispense(data: DispenseFormValues, nearExpiryOverrideReason?: string) {
+    const patient = getPatientById(data.patientId);
+    if (!patient) {
+      form.setError('patientId', { message: t('dispense.validation.patientMissing') });
+      return;
+    }
+    const patientDetails: Omit<DispenseFormData, 'drugsToDispense'> = {
+        patientId: patient.id,
+        patientName: patient.name,
+        aadharLastFour: patient.aadharLastFour,
+        age: getPatientAge(patient),
+        sex: patient.sex,
         villageName: data.villageName,
     };
     
-    const result = await dispenseDrugs(patientDetails, data.drugsToDispense);
+    const drugsToDispense: DrugDispenseEntry[] = data.drugsToDispense.map(entry => ({
+      productKey: entry.productKey,
+      selectedBatchId: entry.selectedBatchId === FEFO_BATCH_VALUE ? undefined : entry.selectedBatchId,
+      packLevel: entry.packLevel,
+      quantity: entry.quantity,
+      regimen: isDoseUnit(getProductUnit(entry.productKey)) ? getEntryRegimen(entry) : undefined,
+    }));
+
+    const result = await dispenseDrugs(patientDetails, drugsToDispense, nearExpiryOverrideReason);
+
+    if (result.nearExpiryBatches) {
+      setPendingDispense({ data, batches: result.nearExpiryBatches });
+      return;
+    }
+    setPendingDispense(null);
 
     if (result.success) {
-      const drugSummary = result.dispensedDrugsInfo.map(d => `${d.quantity}x ${d.brandName || d.drugName} ${d.dosage || ''} (from batch: ${d.batchNumber})`).join(', ');
+      const drugSummary = result.dispensedDrugsInfo.map(d => t('dispense.toast.dispensedLine', {
+        quantity: translateQuantity(t, d.quantity, getBaseUnit(d)),
+        drug: `${d.brandName || d.drugName} ${d.dosage || ''}`.trim(),
+        batch: d.batchNumber || t('common.notAvailable'),
+      })).join(', ');
+      const summary = data.villageName
+        ? t('dispense.toast.successDescriptionInVillage', { drugs: drugSummary, patient: patient.name, village: data.villageName })
+        : t('dispense.toast.successDescription', { drugs: drugSummary, patient: patient.name });
       toast({
-        title: "Dispense Successful",
-        description: `${drugSummary} dispensed to ${data.patientName}${data.villageName ? ` in ${data.villageName}` : ''}. ${result.message || ''}`,
+        title: t('dispense.toast.successTitle'),
+        description: `${summary} ${translateMessages(result.messages)}`.trim(),
         action: <CheckCircle className="text-green-500" />,
       });
-      form.reset({
-        patientName: '',
-        aadharLastFour: '',
-        age: '' as unknown as number,
-        sex: undefined,
-        villageName: '',
-        drugsToDispense: [{ selectedBatchId: '', tabletsDispensed: 1 }],
-      });
+      if (result.dispensedDrugsInfo.length > 0) {
+        // Slips are printed in the patient's language, whatever the volunteer's UI language
+        const slipLanguage = isLocaleCode(patient.preferredLanguage) ? patient.preferredLanguage : undefined;
+        setLastSlip(buildDispensingSlip(patientDetails, result.dispensedDrugsInfo, slipLanguage));
+      }
+      form.reset(emptyForm);
     } else {
       toast({
         variant: "destructive",
-        title: "Dispense Failed",
-        description: result.message || "An unexpected error occurred.",
+        title: t('dispense.toast.failedTitle'),
+        description: translateMessages(result.messages) || t('common.unexpectedError'),
       });
     }
   }
 
+  async function onSubmit(data: DispenseFormValues) {
+    await submitDispense(data);
+  }
+
   return (
     <Card className="w-full max-w-2xl mx-auto shadow-xl">
       <CardHeader>
         <CardTitle className="font-headline flex items-center gap-2 text-2xl">
           <MinusCircle className="h-6 w-6 text-primary" />
-          Dispense Drugs
+          {t('dispense.title')}
         </CardTitle>
-        <CardDescription>Enter patient and drug details to dispense medication. Select the specific batch to dispense from.</CardDescription>
+        <CardDescription>{t('dispense.description')}</CardDescription>
       </CardHeader>
       <CardContent>
+        {locations.length > 1 && (
+          <div className="mb-4 flex items-center gap-2 rounded-md border p-3 text-sm">
+            <Warehouse className="h-4 w-4 shrink-0 text-primary" />
+            <span>{t('dispense.location', { location: getLocationName(locations, activeLocationId) })}</span>
+          </div>
+        )}
+        {activeCamp && (
+          <div className="mb-4 flex items-center gap-2 rounded-md border border-primary/40 bg-primary/5 p-3 text-sm">
+            <Tent className="h-4 w-4 shrink-0 text-primary" />
+            <span>{t('dispense.activeCamp', { village: campVillageName || t('common.notAvailable'), date: formatDate(parseISO(activeCamp.date), 'PP') })}</span>
+          </div>
+        )}
+        {lastSlip && (
+          <div className="mb-6 flex flex-wrap items-center justify-between gap-2 rounded-md border bg-muted/30 p-3 text-sm">
+            <span>{t('dispense.lastDispense', { patient: lastSlip.patientName, count: lastSlip.items.length })}</span>
+            <Button type="button" variant="outline" size="sm" onClick={() => setIsSlipDialogOpen(true)}>
+              <Printer className="mr-1 h-4 w-4" /> {t('dispense.printSlip')}
+            </Button>
+          </div>
+        )}
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <FormField control={form.control} name="patientName" render={({ field }) => (<FormItem><FormLabel>Patient Name</FormLabel><FormControl><Input placeholder="Enter patient's full name" {...field} /></FormControl><FormMessage /></FormItem>)} />
-              <FormField control={form.control} name="aadharLastFour" render={({ field }) => (<FormItem><FormLabel>Aadhar (Last 4 Digits)</FormLabel><FormControl><Input type="text" placeholder="1234" {...field} maxLength={4} /></FormControl><FormMessage /></FormItem>)} />
-              <FormField control={form.control} name="age" render={({ field }) => (<FormItem><FormLabel>Age</FormLabel><FormControl><Input type="number" placeholder="Enter age" {...field} min="0" /></FormControl><FormMessage /></FormItem>)} />
-              <FormField control={form.control} name="sex" render={({ field }) => (<FormItem><FormLabel>Sex</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue placeholder="Select sex" /></SelectTrigger></FormControl><SelectContent><SelectItem value="Male">Male</SelectItem><SelectItem value="Female">Female</SelectItem><SelectItem value="Other">Other</SelectItem></SelectContent></Select><FormMessage /></FormItem>)} />
+              <FormField
+                control={form.control}
+                name="patientId"
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2">
+                    <FormLabel>{t('dispense.patient')}</FormLabel>
+                    <PatientPicker selectedPatientId={field.value} onSelect={handlePatientSelected} />
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <FormField
                 control={form.control}
                 name="villageName"
                 render={({ field }) => (
                   <FormItem className="md:col-span-2">
-                    <FormLabel>Village / Camp Name (Optional)</FormLabel>
+                    <FormLabel>{t('dispense.village')}</FormLabel>
                     <Select onValueChange={field.onChange} value={field.value || ''}> 
                       <FormControl>
                         <SelectTrigger>
-                          <SelectValue placeholder="Select village if applicable" />
+                          <SelectValue placeholder={t('dispense.villagePlaceholder')} />
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
                         {villageList.length === 0 ? (
                            <div className="p-2 text-center text-sm text-muted-foreground">
-                             No villages added. Add on Camps page.
+                             {t('dispense.noVillages')}
                            </div>
                         ) : (
                           villageList.map((village) => (
@@ -148,29 +363,52 @@ export default function DispenseForm() {
             </div>
             
             <Separator />
-            <h3 className="text-lg font-medium text-foreground">Drug Batches to Dispense</h3>
-            {fields.map((item, index) => (
+            <h3 className="text-lg font-medium text-foreground">{t('dispense.drugsHeading')}</h3>
+            {fields.map((item, index) => {
+              const productKey = watchedEntries?.[index]?.productKey;
+              const productBatches = availableBatchesForDispense.filter(batch => batch.groupKey === productKey);
+              const preview = allocationPreviews[index];
+              const unit = getProductUnit(productKey);
+              const regimenAllowed = isDoseUnit(unit);
+              const regimen = regimenAllowed && watchedEntries?.[index] ? getEntryRegimen(watchedEntries[index]) : undefined;
+              const regimenQuantity = regimen ? calculateRegimenQuantity(regimen) : undefined;
+              const packSizes = getProductPackSizes(productKey);
+              const packLevels = DISPENSE_PACK_LEVELS.filter(level => packSizes?.[level]);
+              const packLevel = watchedEntries?.[index]?.packLevel;
+              const enteredQuantity = Number(watchedEntries?.[index]?.quantity) || 0;
+              const nearExpiryAllocations = preview ? preview.allocations.filter(({ batch }) => isBatchNearExpiry(batch, nearExpiryWarningDays)) : [];
+              return (
               <div key={item.id} className="space-y-4 p-4 border rounded-md shadow-sm relative">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
-                    name={`drugsToDispense.${index}.selectedBatchId`}
+                    name={`drugsToDispense.${index}.productKey`}
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Drug Batch</FormLabel>
-                        <Select onValueChange={field.onChange} value={field.value}>
+                        <FormLabel>{t('dispense.drug')}</FormLabel>
+                        <Select
+                          onValueChange={(value) => {
+                            field.onChange(value);
+                            form.setValue(`drugsToDispense.${index}.selectedBatchId`, FEFO_BATCH_VALUE);
+                            form.setValue(`drugsToDispense.${index}.packLevel`, undefined);
+                            clearRegimenUnlessDoseUnit(index, value);
+                          }}
+                          value={field.value}
+                        >
                           <FormControl>
                             <SelectTrigger>
-                              <SelectValue placeholder="Select a drug batch" />
+                              <SelectValue placeholder={t('dispense.drugPlaceholder')} />
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent className="max-h-72">
-                            {availableBatchesForDispense.length === 0 && 
-                              <div className="p-2 text-center text-sm text-muted-foreground">No drug batches in stock</div>
+                            {availableProductsForDispense.length === 0 && 
+                              <div className="p-2 text-center text-sm text-muted-foreground">{t('dispense.noDrugsInStock')}</div>
                             }
-                            {availableBatchesForDispense.map((batch) => (
-                              <SelectItem key={batch.id} value={batch.id}>
-                                {batch.displayName}
+                            {availableProductsForDispense.map((product) => (
+                              <SelectItem key={product.groupKey} value={product.groupKey}>
+                                {product.batchCount > 1
+                                  ? t('dispense.productStockInBatches', { name: product.displayName, stock: translateQuantity(t, product.availableStock, product.unit), batches: product.batchCount })
+                                  : t('dispense.productStock', { name: product.displayName, stock: translateQuantity(t, product.availableStock, product.unit) })}
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -181,35 +419,189 @@ export default function DispenseForm() {
                   />
                   <FormField
                     control={form.control}
-                    name={`drugsToDispense.${index}.tabletsDispensed`}
+                    name={`drugsToDispense.${index}.quantity`}
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Number of Tablets</FormLabel>
-                        <FormControl>
-                          <Input type="number" placeholder="Tablets" {...field} min="1" />
-                        </FormControl>
+                        <FormLabel>{t('dispense.quantity', { unit: packLevel ? translatePack(t, packLevel, 2) : translateUnit(t, unit, 2) })}</FormLabel>
+                        <div className="flex gap-2">
+                          <FormControl>
+                            <Input type="number" placeholder={t('dispense.quantityPlaceholder')} {...field} min="1" />
+                          </FormControl>
+                          {packLevels.length > 0 && (
+                            <Select onValueChange={(value) => handlePackLevelChange(index, value)} value={packLevel || BASE_UNIT_VALUE}>
+                              <SelectTrigger className="w-32 shrink-0" aria-label={t('dispense.countIn')}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                <SelectItem value={BASE_UNIT_VALUE}>{translateUnit(t, unit, 2)}</SelectItem>
+                                {packLevels.map(level => (
+                                  <SelectItem key={level} value={level}>{translatePack(t, level, 2)}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </div>
+                        {regimen && (
+                          <FormDescription>
+                            {regimenQuantity === undefined
+                              ? t('dispense.sosQuantity')
+                              : packLevel
+                                ? t('dispense.regimenInPacks', {
+                                    regimen: translateRegimen(t, regimen, unit),
+                                    quantity: translateQuantity(t, regimenQuantity, unit),
+                                    packs: translatePackQuantity(t, Math.ceil(regimenQuantity / getPackSize(packSizes, packLevel)), packLevel),
+                                  })
+                                : t('dispense.regimenQuantity', { regimen: translateRegimen(t, regimen, unit), quantity: translateQuantity(t, regimenQuantity, unit) })}
+                          </FormDescription>
+                        )}
+                        {packLevel && (
+                          <FormDescription>
+                            {t('dispense.packQuantity', {
+                              packs: translatePackQuantity(t, enteredQuantity, packLevel),
+                              quantity: translateQuantity(t, enteredQuantity * getPackSize(packSizes, packLevel), unit),
+                            })}
+                          </FormDescription>
+                        )}
+                        {!regimenAllowed && (
+                          <FormDescription>{t('dispense.manualQuantity', { unit: translateUnit(t, unit, 2) })}</FormDescription>
+                        )}
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  {regimenAllowed && (
+                    <div className="md:col-span-2 grid grid-cols-3 gap-2">
+                      <FormField
+                        control={form.control}
+                        name={`drugsToDispense.${index}.dosePerIntake`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t('dispense.dose', { unit: translateUnit(t, unit, 1) })}</FormLabel>
+                            <FormControl>
+                              <Input type="number" placeholder="1" step="0.25" min="0" {...field} value={field.value ?? ''} onChange={(e) => { field.onChange(e); recalculateQuantity(index); }} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`drugsToDispense.${index}.frequency`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t('dispense.frequency')}</FormLabel>
+                            <Select onValueChange={(value) => { field.onChange(value); recalculateQuantity(index); }} value={field.value}>
+                              <FormControl>
+                                <SelectTrigger>
+                                  <SelectValue placeholder={t('dispense.frequency')} />
+                                </SelectTrigger>
+                              </FormControl>
+                              <SelectContent>
+                                <SelectItem value={NO_REGIMEN_VALUE}>{t('dispense.noRegimen')}</SelectItem>
+                                {DOSING_FREQUENCY_CODES.map(code => (
+                                  <SelectItem key={code} value={code}>{t(`frequency.${code}`)}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name={`drugsToDispense.${index}.durationDays`}
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>{t('dispense.days')}</FormLabel>
+                            <FormControl>
+                              <Input type="number" placeholder={t('dispense.days')} min="1" {...field} value={field.value ?? ''} onChange={(e) => { field.onChange(e); recalculateQuantity(index); }} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                    </div>
+                  )}
+                  <FormField
+                    control={form.control}
+                    name={`drugsToDispense.${index}.selectedBatchId`}
+                    render={({ field }) => (
+                      <FormItem className="md:col-span-2">
+                        <FormLabel>{t('dispense.batch')}</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value || FEFO_BATCH_VALUE} disabled={!productKey}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder={t('dispense.batchPlaceholder')} />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent className="max-h-72">
+                            <SelectItem value={FEFO_BATCH_VALUE}>{t('dispense.automaticBatch')}</SelectItem>
+                            {productBatches.map((batch) => (
+                              <SelectItem key={batch.id} value={batch.id}>
+                                {formatBatchOption(batch)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
                 </div>
+                {preview && (
+                  <div className="flex items-start gap-2 text-sm text-muted-foreground">
+                    <Layers className="h-4 w-4 mt-0.5 shrink-0" />
+                    <div>
+                      {preview.allocations.length > 0 && (
+                        <p>
+                          {t('dispense.willDispense', {
+                            allocations: preview.allocations.map(({ batch, quantity }) => t('dispense.allocation', {
+                              quantity: translateQuantity(t, quantity, unit),
+                              batch: batch.batchNumber || t('common.notAvailable'),
+                              expiry: formatExpiry(batch.dateOfExpiry),
+                            })).join(', '),
+                          })}
+                        </p>
+                      )}
+                      {nearExpiryAllocations.length > 0 && (
+                        <p className="text-orange-600">
+                          {t('dispense.nearExpiry', {
+                            batches: nearExpiryAllocations.map(({ batch }) => batch.batchNumber || t('common.notAvailable')).join(', '),
+                            days: nearExpiryWarningDays,
+                          })}
+                        </p>
+                      )}
+                      {preview.shortfall > 0 && (
+                        <p className="text-destructive">{t('dispense.shortfall', { available: translateQuantity(t, preview.available, unit) })}</p>
+                      )}
+                    </div>
+                  </div>
+                )}
                 {fields.length > 1 && (
                   <Button type="button" variant="ghost" size="icon" className="absolute top-2 right-2 text-destructive hover:bg-destructive/10" onClick={() => remove(index)}>
-                    <Trash2 className="h-4 w-4" /><span className="sr-only">Remove Drug Batch</span>
+                    <Trash2 className="h-4 w-4" /><span className="sr-only">{t('dispense.removeDrug')}</span>
                   </Button>
                 )}
               </div>
-            ))}
-            <Button type="button" variant="outline" onClick={() => append({ selectedBatchId: '', tabletsDispensed: 1 })} className="w-full flex items-center gap-2">
-              <PlusCircle className="h-4 w-4" /> Add Another Drug Batch
+              );
+            })}
+            <Button type="button" variant="outline" onClick={() => append(EMPTY_DISPENSE_ENTRY)} className="w-full flex items-center gap-2">
+              <PlusCircle className="h-4 w-4" /> {t('dispense.addDrug')}
             </Button>
 
             <Separator />
             <Button type="submit" className="w-full text-lg py-6 shadow-md hover:shadow-lg transition-shadow">
-              Dispense All Drugs
+              {t('dispense.submit')}
             </Button>
           </form>
         </Form>
+        <NearExpiryConfirmDialog
+          batches={pendingDispense?.batches || null}
+          warningDays={nearExpiryWarningDays}
+          onConfirm={async (reason) => { if (pendingDispense) await submitDispense(pendingDispense.data, reason); }}
+          onClose={() => setPendingDispense(null)}
+        />
+        <DispensingSlipDialog slip={isSlipDialogOpen ? lastSlip : null} onClose={() => setIsSlipDialogOpen(false)} />
       </CardContent>
     </Card>
   );
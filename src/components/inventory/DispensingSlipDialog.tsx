@@ -0,0 +1,169 @@
+"use client";
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CheckCircle, Printer } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { getElectronBridge } from '@/lib/electron';
+import type { PrinterInfo, SlipPaperSize } from '@/lib/electron';
+import { printHtml } from '@/lib/printing';
+import { renderDispensingSlipHtml } from '@/lib/slips';
+import type { DispensingSlip } from '@/lib/slips';
+import { DEFAULT_LOCALE, LOCALES, LOCALE_CODES } from '@/i18n';
+import type { LocaleCode } from '@/i18n';
+
+// Select value for the system default printer (Radix Select cannot use an empty string)
+const DEFAULT_PRINTER_VALUE = '--default--';
+
+interface DispensingSlipDialogProps {
+  slip: DispensingSlip | null;
+  onClose: () => void;
+}
+
+export default function DispensingSlipDialog({ slip, onClose }: DispensingSlipDialogProps) {
+  const { toast } = useToast();
+  const [paperSize, setPaperSize] = useState<SlipPaperSize>('thermal');
+  const [pictograms, setPictograms] = useState(true);
+  const [language, setLanguage] = useState<LocaleCode>(DEFAULT_LOCALE);
+  const [printers, setPrinters] = useState<PrinterInfo[]>([]);
+  const [printerName, setPrinterName] = useState<string | null>(null);
+  const [isPrinting, setIsPrinting] = useState(false);
+  const printing = getElectronBridge()?.printing;
+
+  // Each slip opens in the patient's language; the volunteer can change it for this print
+  useEffect(() => {
+    if (slip) setLanguage(slip.language);
+  }, [slip]);
+
+  // The desktop app remembers the printer and paper size between slips
+  useEffect(() => {
+    if (!slip || !printing) return;
+    printing.getSettings().then(settings => {
+      setPaperSize(settings.paperSize);
+      setPrinterName(settings.printerName);
+    });
+    printing.listPrinters().then(setPrinters);
+  }, [slip, printing]);
+
+  const html = useMemo(
+    () => (slip ? renderDispensingSlipHtml({ ...slip, language }, { paperSize, pictograms }) : ''),
+    [slip, language, paperSize, pictograms]
+  );
+
+  const handlePaperSizeChange = (value: string) => {
+    setPaperSize(value as SlipPaperSize);
+    printing?.updateSettings({ paperSize: value as SlipPaperSize });
+  };
+
+  const handlePrinterChange = (value: string) => {
+    const name = value === DEFAULT_PRINTER_VALUE ? null : value;
+    setPrinterName(name);
+    printing?.updateSettings({ printerName: name });
+  };
+
+  const handlePrint = async () => {
+    setIsPrinting(true);
+    const result = await printHtml(html, paperSize);
+    setIsPrinting(false);
+    if (result.success) {
+      // The browser shows its own dialog, so only the silent desktop print gets a confirmation
+      if (printing) {
+        toast({ title: "Slip Printed", description: `Sent to ${printerName || 'the default printer'}.`, action: <CheckCircle className="text-green-500" /> });
+      }
+      onClose();
+    } else {
+      toast({ variant: "destructive", title: "Printing Failed", description: result.message });
+    }
+  };
+
+  return (
+    <Dialog open={!!slip} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Printer className="h-5 w-5 text-primary" />
+            Medicine Slip
+          </DialogTitle>
+          <DialogDescription>
+            {slip ? `For ${slip.patientName}. ` : ''}Give the printed slip to the patient with their medicines.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="slip-paper-size">Paper</Label>
+            <Select value={paperSize} onValueChange={handlePaperSizeChange}>
+              <SelectTrigger id="slip-paper-size">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="thermal">Thermal roll (80mm)</SelectItem>
+                <SelectItem value="A5">A5 sheet</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="slip-language">Slip language</Label>
+            <Select value={language} onValueChange={(value) => setLanguage(value as LocaleCode)}>
+              <SelectTrigger id="slip-language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LOCALE_CODES.map(code => (
+                  <SelectItem key={code} value={code}>{LOCALES[code].label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {printing && (
+            <div className="space-y-1">
+              <Label htmlFor="slip-printer">Printer</Label>
+              <Select value={printerName || DEFAULT_PRINTER_VALUE} onValueChange={handlePrinterChange}>
+                <SelectTrigger id="slip-printer">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEFAULT_PRINTER_VALUE}>System default</SelectItem>
+                  {printers.map(printer => (
+                    <SelectItem key={printer.name} value={printer.name}>
+                      {printer.displayName}{printer.isDefault ? ' (default)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="flex items-center gap-2 sm:col-span-2">
+            <Switch id="slip-pictograms" checked={pictograms} onCheckedChange={setPictograms} />
+            <Label htmlFor="slip-pictograms">Show morning/noon/night pictures (for patients who cannot read)</Label>
+          </div>
+        </div>
+        <iframe
+          title="Slip preview"
+          srcDoc={html}
+          sandbox=""
+          className={`w-full h-96 rounded-md border bg-white ${paperSize === 'thermal' ? 'max-w-[320px] mx-auto' : ''}`}
+        />
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="outline">Close</Button>
+          </DialogClose>
+          <Button type="button" onClick={handlePrint} disabled={!slip || isPrinting}>
+            <Printer className="mr-2 h-4 w-4" /> {isPrinting ? 'Printing...' : 'Print Slip'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
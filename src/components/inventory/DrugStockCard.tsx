@@ -1,12 +1,12 @@
 
 "use client";
 
-import type { Drug } from '@/types';
+import type { BaseUnit, DosageForm, Drug, PackSizes, StockLocation } from '@/types';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { AlertTriangle, Pill, CalendarClock, Info } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { format, parseISO, differenceInDays } from 'date-fns';
+import { parseISO, differenceInDays } from 'date-fns';
 import {
   Popover,
   PopoverContent,
@@ -15,6 +15,11 @@ import {
 import { Button } from '@/components/ui/button'; // Added this import
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { getStockByLocation } from '@/lib/locations';
+import { translateUnit } from '@/lib/units';
+import { formatInPacks, getPackLevels } from '@/lib/packs';
+import { getStockLevelStatus } from '@/lib/products';
 
 interface GroupedDrugForCard {
   groupKey: string;
@@ -22,32 +27,48 @@ interface GroupedDrugForCard {
   genericName: string;
   brandName?: string;
   dosage?: string;
+  dosageForm: DosageForm;
+  unit: BaseUnit;
+  packSizes?: PackSizes;
   totalStock: number;
+  stockByLocation: Record<string, number>;
   lowStockThreshold: number; 
+  reorderLevel?: number;
+  maxStockLevel?: number;
   batches: Drug[];
 }
 
 interface DrugStockCardProps {
   drugGroup: GroupedDrugForCard;
+  // The breakdown by location is only shown when there is more than one
+  locations?: StockLocation[];
 }
 
-const formatDateSafe = (dateString?: string, dateFormat: string = 'MMM yyyy') => {
-  if (!dateString) return 'N/A';
-  try {
-    return format(parseISO(dateString), dateFormat);
-  } catch (error) {
-    return dateString; 
-  }
-};
+export default function DrugStockCard({ drugGroup, locations = [] }: DrugStockCardProps) {
+  const { t, formatDate, formatNumber } = useTranslation();
+
+  const formatDateSafe = (dateString?: string, dateFormat: string = 'MMM yyyy') => {
+    if (!dateString) return t('common.notAvailable');
+    try {
+      return formatDate(parseISO(dateString), dateFormat);
+    } catch (error) {
+      return dateString; 
+    }
+  };
 
-export default function DrugStockCard({ drugGroup }: DrugStockCardProps) {
-  const { displayName, totalStock, lowStockThreshold, batches } = drugGroup;
-  const isLowStock = totalStock < lowStockThreshold;
+  const { displayName, totalStock, lowStockThreshold, reorderLevel, maxStockLevel, batches, unit, packSizes } = drugGroup;
+  const hasPacks = getPackLevels(packSizes).length > 0;
+  // Stock, thresholds and prices are all in the product's base unit
+  const formatStock = (count: number) => t('units.quantity', { count: formatNumber(count), unit: translateUnit(t, unit, count) });
+  // Levels are checked against the product's stock everywhere, even when one location is shown
+  const stockLevelStatus = getStockLevelStatus(drugGroup);
+  const isLowStock = stockLevelStatus === 'belowMinimum';
   
-  const progressBarMax = lowStockThreshold > 0 ? lowStockThreshold * 2 : Math.max(20, totalStock); 
+  const progressBarMax = maxStockLevel ?? (lowStockThreshold > 0 ? lowStockThreshold * 2 : Math.max(20, totalStock)); 
   const stockPercentage = progressBarMax > 0 ? Math.min((totalStock / progressBarMax) * 100, 100) : (totalStock > 0 ? 100 : 0);
 
   let earliestExpiryWarning: string | null = null;
+  let isExpiringSoonWithoutDays = false;
   let overallExpiryStatus: 'ok' | 'soon' | 'expired' = 'ok';
   let earliestBatch: Drug | null = null; 
 
@@ -66,13 +87,14 @@ export default function DrugStockCard({ drugGroup }: DrugStockCardProps) {
         const daysToExpiry = differenceInDays(expiryDate, today);
 
         if (daysToExpiry < 0) {
-          earliestExpiryWarning = "Expired";
+          earliestExpiryWarning = t('stockCard.expired');
           overallExpiryStatus = 'expired';
         } else if (daysToExpiry <= 30) {
-          earliestExpiryWarning = `Expires in ${daysToExpiry}d`;
+          earliestExpiryWarning = t('stockCard.expiresInDays', { days: daysToExpiry });
           overallExpiryStatus = 'soon';
         } else if (daysToExpiry <= 90) {
-          earliestExpiryWarning = `Expires soon`;
+          earliestExpiryWarning = t('stockCard.expiresSoon');
+          isExpiringSoonWithoutDays = true;
           overallExpiryStatus = 'soon';
         }
       } catch (e) { /* Do nothing */ }
@@ -81,6 +103,13 @@ export default function DrugStockCard({ drugGroup }: DrugStockCardProps) {
 
   const earliestExpiryDisplayDate = earliestBatch?.dateOfExpiry;
 
+  const showLocations = locations.length > 1;
+  const formatLocationStock = (stockByLocation: Record<string, number>) =>
+    locations
+      .filter(location => (stockByLocation[location.id] || 0) > 0)
+      .map(location => t('stockCard.locationStock', { location: location.name, count: formatNumber(stockByLocation[location.id]) }))
+      .join(', ') || formatStock(0);
+
   return (
     <Card className={cn(
         "transition-all duration-300 shadow-lg hover:shadow-xl relative", 
@@ -94,20 +123,37 @@ export default function DrugStockCard({ drugGroup }: DrugStockCardProps) {
             <Pill className={cn("h-5 w-5 shrink-0", isLowStock ? "text-destructive" : "text-primary")} />
             <div>
                 <div>{displayName}</div>
+                <div className="text-xs font-normal text-muted-foreground">{t(`dosageForms.${drugGroup.dosageForm}`)}</div>
             </div>
             </CardTitle>
             {isLowStock && <AlertTriangle className="h-5 w-5 text-destructive shrink-0" />}
         </div>
         <CardDescription className="text-xs pt-1">
-          {batches.length} batch(es) available.
-          {batches.length > 0 && earliestBatch && earliestBatch.batchNumber && ` Earliest Batch: ${earliestBatch.batchNumber}`}
+          {t('stockCard.batchesAvailable', { count: batches.length })}
+          {batches.length > 0 && earliestBatch && earliestBatch.batchNumber && ` ${t('stockCard.earliestBatch', { batch: earliestBatch.batchNumber })}`}
         </CardDescription>
       </CardHeader>
       <CardContent>
-        <div className="text-3xl font-bold text-foreground">{totalStock} tablets</div>
-        <p className="text-xs text-muted-foreground">
-          {isLowStock ? `Stock is low (Threshold: ${lowStockThreshold})` : `Threshold: ${lowStockThreshold} tablets`}
+        <div className="text-3xl font-bold text-foreground">{formatStock(totalStock)}</div>
+        {hasPacks && totalStock > 0 && (
+          <p className="text-xs text-muted-foreground">{t('stockCard.packs', { packs: formatInPacks(totalStock, unit, packSizes, t) })}</p>
+        )}
+        <p className={cn(
+            "text-xs",
+            isLowStock ? 'text-destructive' :
+            stockLevelStatus === 'belowReorder' ? 'text-amber-600' :
+            'text-muted-foreground'
+        )}>
+          {isLowStock ? t('stockCard.stockLow', { threshold: formatStock(lowStockThreshold) }) :
+           stockLevelStatus === 'belowReorder' ? t('stockCard.belowReorder', { level: formatStock(reorderLevel ?? 0) }) :
+           stockLevelStatus === 'overstocked' ? t('stockCard.overstocked', { level: formatStock(maxStockLevel ?? 0) }) :
+           t('stockCard.threshold', { threshold: formatStock(lowStockThreshold) })}
         </p>
+        {showLocations && (
+          <p className="text-xs text-muted-foreground">
+            {t('stockCard.byLocation')}: {formatLocationStock(drugGroup.stockByLocation)}
+          </p>
+        )}
         <Progress 
           value={stockPercentage} 
           className="mt-4 h-2" 
@@ -115,6 +161,7 @@ export default function DrugStockCard({ drugGroup }: DrugStockCardProps) {
             isLowStock ? 'bg-destructive' : 
             overallExpiryStatus === 'expired' ? 'bg-red-700' : 
             overallExpiryStatus === 'soon' ? 'bg-orange-500' : 
+            stockLevelStatus === 'belowReorder' ? 'bg-amber-500' :
             'bg-primary'
           )}
         />
@@ -126,7 +173,7 @@ export default function DrugStockCard({ drugGroup }: DrugStockCardProps) {
             "text-muted-foreground"
           )}>
             <CalendarClock className="h-3.5 w-3.5 shrink-0" />
-            Earliest Expiry: {formatDateSafe(earliestBatch?.dateOfExpiry)} {earliestExpiryWarning && earliestExpiryWarning !== "Expires soon" && `(${earliestExpiryWarning})`}
+            {t('stockCard.earliestExpiry', { date: formatDateSafe(earliestBatch?.dateOfExpiry) })} {earliestExpiryWarning && !isExpiringSoonWithoutDays && `(${earliestExpiryWarning})`}
           </div>
         )}
       </CardContent>
@@ -135,16 +182,19 @@ export default function DrugStockCard({ drugGroup }: DrugStockCardProps) {
         <PopoverTrigger asChild>
           <Button variant="ghost" size="icon" className="absolute top-2 right-2 h-7 w-7 text-muted-foreground hover:text-primary">
             <Info className="h-4 w-4" />
-            <span className="sr-only">View Batch Details</span>
+            <span className="sr-only">{t('stockCard.viewBatchDetails')}</span>
           </Button>
         </PopoverTrigger>
         <PopoverContent className="w-80 max-h-96" side="left" align="end">
           <ScrollArea className="max-h-80">
             <div className="grid gap-4 p-1">
               <div className="space-y-2">
-                <h4 className="font-medium leading-none">{displayName} - Batch Details</h4>
+                <h4 className="font-medium leading-none">{t('stockCard.batchDetailsTitle', { name: displayName })}</h4>
                 <p className="text-sm text-muted-foreground">
-                  Total stock: {totalStock} tablets across {batches.length} batch(es).
+                  {t('stockCard.totalStock', {
+                    stock: hasPacks ? t('stockCard.inPacks', { stock: formatStock(totalStock), packs: formatInPacks(totalStock, unit, packSizes, t) }) : formatStock(totalStock),
+                    count: batches.length,
+                  })}
                 </p>
               </div>
               {batches.length > 0 ? (
@@ -156,29 +206,30 @@ export default function DrugStockCard({ drugGroup }: DrugStockCardProps) {
                         try {
                             const expiry = parseISO(batch.dateOfExpiry);
                             const days = differenceInDays(expiry, new Date());
-                            if (days < 0) { batchExpiryStatus = 'expired'; batchDaysToExpiryText = '(Expired)'; }
-                            else if (days <= 30) { batchExpiryStatus = 'soon'; batchDaysToExpiryText = `(${days}d left)`; }
-                            else if (days <= 90) { batchExpiryStatus = 'soon'; batchDaysToExpiryText = '(Expires soon)';}
+                            if (days < 0) { batchExpiryStatus = 'expired'; batchDaysToExpiryText = t('stockCard.expiredTag'); }
+                            else if (days <= 30) { batchExpiryStatus = 'soon'; batchDaysToExpiryText = t('stockCard.daysLeftTag', { days }); }
+                            else if (days <= 90) { batchExpiryStatus = 'soon'; batchDaysToExpiryText = t('stockCard.expiresSoonTag');}
                         } catch(e) { /* ignore parse error for this display */ }
                     }
                     return (
                       <li key={batch.id} className="text-sm border-b pb-2 last:border-b-0 last:pb-0">
-                        <div className="font-semibold">Batch: {batch.batchNumber || 'N/A'}</div>
-                        {batch.brandName && <div>Brand: {batch.brandName}</div>}
-                        <div>Stock: <Badge variant={batch.stock < batch.lowStockThreshold ? "destructive" : "secondary"}>{batch.stock}</Badge> tablets</div>
+                        <div className="font-semibold">{t('stockCard.batch', { batch: batch.batchNumber || t('common.notAvailable') })}</div>
+                        {batch.brandName && <div>{t('stockCard.brand', { brand: batch.brandName })}</div>}
+                        <div>{t('stockCard.stock')} <Badge variant="secondary">{batch.stock}</Badge> {translateUnit(t, unit, batch.stock)}</div>
+                        {showLocations && <div className="text-muted-foreground">{formatLocationStock(getStockByLocation(batch))}</div>}
                         <div className={cn(
                             batchExpiryStatus === 'expired' ? 'text-red-600' : batchExpiryStatus === 'soon' ? 'text-orange-600' : ''
                         )}>
-                            Exp: {formatDateSafe(batch.dateOfExpiry, 'PP')} {batchDaysToExpiryText}
+                            {t('stockCard.expiry', { date: formatDateSafe(batch.dateOfExpiry, 'PP') })} {batchDaysToExpiryText}
                         </div>
-                        <div>Mfg: {formatDateSafe(batch.dateOfManufacture, 'PP')}</div>
-                        <div>Price/Tablet: INR {(batch.purchasePricePerTablet ?? 0).toFixed(2)}</div>
+                        <div>{t('stockCard.manufactured', { date: formatDateSafe(batch.dateOfManufacture, 'PP') })}</div>
+                        <div>{t('stockCard.pricePerUnit', { unit: translateUnit(t, unit, 1), price: formatNumber(batch.purchasePricePerUnit ?? 0, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) })}</div>
                       </li>
                     );
                   })}
                 </ul>
               ) : (
-                <p className="text-sm text-muted-foreground">No specific batch information available.</p>
+                <p className="text-sm text-muted-foreground">{t('stockCard.noBatchInfo')}</p>
               )}
             </div>
           </ScrollArea>
@@ -13,23 +13,25 @@ import {
   FormItem,
   FormLabel,
   FormMessage,
+  FormDescription,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useInventory } from '@/contexts/InventoryContext';
 import type { Drug, EditDrugFormData } from '@/types'; // Drug is a specific batch here
 import { useToast } from '@/hooks/use-toast';
 import { CheckCircle } from 'lucide-react';
+import { BASE_UNITS, DOSAGE_FORMS } from '@/lib/units';
+import { describePackSizes } from '@/lib/packs';
+import { getProductDisplayName } from '@/lib/products';
 
 const editDrugFormSchema = z.object({
-  name: z.string().min(2, { message: "Generic name must be at least 2 characters." }),
-  brandName: z.string().optional(),
-  dosage: z.string().optional(),
+  productId: z.string().min(1, { message: "Choose the product this batch belongs to." }),
   batchNumber: z.string().min(1, { message: "Batch number is required." }),
   dateOfManufacture: z.string().optional().refine(val => !val || !isNaN(Date.parse(val)), { message: "Invalid manufacture date" }),
   dateOfExpiry: z.string().min(1, { message: "Expiry date is required." }).refine(val => !val || !isNaN(Date.parse(val)), { message: "Invalid expiry date" }),
   initialSource: z.string().optional(),
-  purchasePricePerTablet: z.coerce.number().min(0, { message: "Price must be non-negative." }),
-  lowStockThreshold: z.coerce.number().int().min(0, { message: "Threshold must be zero or a positive number." }),
+  purchasePricePerUnit: z.coerce.number().min(0, { message: "Price must be non-negative." }),
 }).refine(data => {
     if (data.dateOfManufacture && data.dateOfExpiry) {
         const mfgDate = new Date(data.dateOfManufacture);
@@ -49,38 +51,38 @@ interface EditDrugFormProps {
 }
 
 export default function EditDrugForm({ drug: drugBatch, onSaveSuccess, onCancel }: EditDrugFormProps) {
-  const { updateDrugDetails, drugs } = useInventory(); // drugs is for checking conflicts
+  const { updateDrugDetails, drugs, products } = useInventory(); // drugs is for checking conflicts
   const { toast } = useToast();
 
   const form = useForm<EditDrugFormData>({
     resolver: zodResolver(editDrugFormSchema),
     defaultValues: {
-      name: drugBatch.name,
-      brandName: drugBatch.brandName || '',
-      dosage: drugBatch.dosage || '',
+      productId: drugBatch.productId,
       batchNumber: drugBatch.batchNumber || '',
       dateOfManufacture: drugBatch.dateOfManufacture || '',
       dateOfExpiry: drugBatch.dateOfExpiry || '',
       initialSource: drugBatch.initialSource || '',
-      purchasePricePerTablet: drugBatch.purchasePricePerTablet,
-      lowStockThreshold: drugBatch.lowStockThreshold,
+      purchasePricePerUnit: drugBatch.purchasePricePerUnit,
     },
   });
 
+  // Stock and prices are in base units, so the batch can only move to a product counted the same way
+  const productOptions = products.filter(p => p.unit === drugBatch.unit);
+  const selectedProduct = products.find(p => p.id === form.watch('productId'));
+  const unitLabel = BASE_UNITS[drugBatch.unit].one;
+
   async function onSubmit(data: EditDrugFormData) {
-    // Check for uniqueness: generic name + brand + dosage + batch number
+    // Check for uniqueness: product + batch number
     const conflictingBatch = drugs.find(d =>
         d.id !== drugBatch.id && // Exclude the current batch being edited
-        d.name.toLowerCase() === data.name.toLowerCase() &&
-        (d.brandName || '').toLowerCase() === (data.brandName || '').toLowerCase() &&
-        (d.dosage || '').toLowerCase() === (data.dosage || '').toLowerCase() &&
+        d.productId === data.productId &&
         (d.batchNumber || '').toLowerCase() === (data.batchNumber || '').toLowerCase()
     );
 
     if (conflictingBatch) {
         form.setError("batchNumber", { // Or a general form error
             type: "manual",
-            message: "A batch with the same generic name, brand, dosage, and batch number already exists. Please ensure uniqueness.",
+            message: "This product already has a batch with this batch number. Please ensure uniqueness.",
         });
         toast({
             variant: "destructive",
@@ -114,39 +116,24 @@ export default function EditDrugForm({ drug: drugBatch, onSaveSuccess, onCancel
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <FormField
             control={form.control}
-            name="name"
-            render={({ field }) => (
-                <FormItem>
-                <FormLabel>Generic Name</FormLabel>
-                <FormControl>
-                    <Input placeholder="Enter generic drug name" {...field} />
-                </FormControl>
-                <FormMessage />
-                </FormItem>
-            )}
-            />
-            <FormField
-            control={form.control}
-            name="brandName"
+            name="productId"
             render={({ field }) => (
-                <FormItem>
-                <FormLabel>Brand Name (Optional)</FormLabel>
-                <FormControl>
-                    <Input placeholder="Enter brand name" {...field} />
-                </FormControl>
-                <FormMessage />
-                </FormItem>
-            )}
-            />
-            <FormField
-            control={form.control}
-            name="dosage"
-            render={({ field }) => (
-                <FormItem>
-                <FormLabel>Dosage (e.g., 500mg)</FormLabel>
-                <FormControl>
-                    <Input placeholder="e.g., 500mg, 10ml" {...field} />
-                </FormControl>
+                <FormItem className="md:col-span-2">
+                <FormLabel>Product</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                        <SelectTrigger><SelectValue placeholder="Select a product" /></SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                        {productOptions.map(product => <SelectItem key={product.id} value={product.id}>{getProductDisplayName(product)}</SelectItem>)}
+                    </SelectContent>
+                </Select>
+                <FormDescription className="text-xs">
+                    {selectedProduct
+                      ? `${DOSAGE_FORMS[selectedProduct.dosageForm].label}, counted in ${BASE_UNITS[selectedProduct.unit].other}${selectedProduct.packSizes ? `; ${describePackSizes(selectedProduct.packSizes, selectedProduct.unit)}` : ''}. `
+                      : ''}
+                    Names, form, pack sizes and stock levels are edited in the catalog.
+                </FormDescription>
                 <FormMessage />
                 </FormItem>
             )}
@@ -205,10 +192,10 @@ export default function EditDrugForm({ drug: drugBatch, onSaveSuccess, onCancel
             />
             <FormField
             control={form.control}
-            name="purchasePricePerTablet"
+            name="purchasePricePerUnit"
             render={({ field }) => (
                 <FormItem>
-                <FormLabel>Purchase Price Per Tablet (INR)</FormLabel>
+                <FormLabel>Purchase Price Per {unitLabel} (INR)</FormLabel>
                 <FormControl>
                     <Input type="number" placeholder="e.g., 2.50" {...field} min="0" step="0.01" />
                 </FormControl>
@@ -216,19 +203,6 @@ export default function EditDrugForm({ drug: drugBatch, onSaveSuccess, onCancel
                 </FormItem>
             )}
             />
-            <FormField
-            control={form.control}
-            name="lowStockThreshold"
-            render={({ field }) => (
-                <FormItem className="md:col-span-2">
-                <FormLabel>Low Stock Threshold (Tablets for this batch)</FormLabel>
-                <FormControl>
-                    <Input type="number" placeholder="Enter threshold" {...field} min="0" />
-                </FormControl>
-                <FormMessage />
-                </FormItem>
-            )}
-            />
         </div>
         <div className="flex justify-end gap-2 pt-4">
           <Button type="button" variant="outline" onClick={onCancel}>
@@ -0,0 +1,69 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { CalendarClock, CheckCircle } from 'lucide-react';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+
+export default function ExpiryPolicyCard() {
+  const { nearExpiryWarningDays, setNearExpiryWarningDays } = useInventory();
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const [warningDaysInput, setWarningDaysInput] = useState(String(nearExpiryWarningDays));
+
+  useEffect(() => {
+    setWarningDaysInput(String(nearExpiryWarningDays));
+  }, [nearExpiryWarningDays]);
+
+  const handleSave = async () => {
+    const result = await setNearExpiryWarningDays(Number(warningDaysInput));
+    if (result.success) {
+      toast({
+        title: "Expiry Policy Updated",
+        description: result.message,
+        action: <CheckCircle className="text-green-500" />,
+      });
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Failed to Update Expiry Policy",
+        description: result.message,
+      });
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-lg shadow-xl">
+      <CardHeader>
+        <CardTitle className="font-headline flex items-center gap-2 text-xl">
+          <CalendarClock className="h-5 w-5 text-primary" />
+          Expiry Policy
+        </CardTitle>
+        <CardDescription>
+          Expired batches can never be dispensed. Batches closer to expiry than the warning period need a reason, which is saved with the transaction.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid gap-2">
+          <Label htmlFor="nearExpiryWarningDays">Warn when fewer than this many days remain (0 = off)</Label>
+          <div className="flex gap-2">
+            <Input
+              id="nearExpiryWarningDays"
+              type="number"
+              min="0"
+              value={warningDaysInput}
+              onChange={(e) => setWarningDaysInput(e.target.value)}
+              disabled={!hasPermission('adjust')}
+            />
+            <Button type="button" onClick={handleSave} className="shrink-0" disabled={!hasPermission('adjust')}>Save</Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { AlertTriangle } from 'lucide-react';
+import type { NearExpiryBatch } from '@/types';
+
+const MIN_REASON_LENGTH = 5;
+
+interface NearExpiryConfirmDialogProps {
+  batches: NearExpiryBatch[] | null;
+  warningDays: number;
+  onConfirm: (reason: string) => Promise<void>;
+  onClose: () => void;
+}
+
+export default function NearExpiryConfirmDialog({ batches, warningDays, onConfirm, onClose }: NearExpiryConfirmDialogProps) {
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (batches) setReason('');
+  }, [batches]);
+
+  if (!batches) return null;
+
+  const handleConfirm = async () => {
+    setIsSubmitting(true);
+    await onConfirm(reason.trim());
+    setIsSubmitting(false);
+  };
+
+  const reasonTooShort = reason.trim().length < MIN_REASON_LENGTH;
+
+  return (
+    <Dialog open={!!batches} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-destructive" />
+            Batches Close to Expiry
+          </DialogTitle>
+          <DialogDescription>
+            These batches expire within {warningDays} day(s). Check the patient can finish the course before the expiry date.
+            Your reason is saved with the transaction.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <ul className="rounded-md border p-4 space-y-2 text-sm">
+            {batches.map(batch => (
+              <li key={batch.drugId}>
+                <span className="font-medium">{batch.brandName || batch.drugName} {batch.dosage || ''}</span>
+                <span className="block text-xs text-muted-foreground">
+                  Batch: {batch.batchNumber || 'N/A'} | Expires {format(parseISO(batch.dateOfExpiry), 'PP')} ({batch.daysToExpiry} day(s) left)
+                </span>
+              </li>
+            ))}
+          </ul>
+
+          <div className="grid gap-2">
+            <Label htmlFor="nearExpiryReason">Reason (required)</Label>
+            <Textarea
+              id="nearExpiryReason"
+              placeholder="e.g., Short course of 5 days, no other stock available"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+            {reason.length > 0 && reasonTooShort && (
+              <p className="text-sm text-destructive">Reason must be at least {MIN_REASON_LENGTH} characters long.</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="outline">Cancel</Button>
+          </DialogClose>
+          <Button type="button" onClick={handleConfirm} disabled={isSubmitting || reasonTooShort}>
+            Dispense Anyway
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
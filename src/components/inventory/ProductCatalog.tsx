@@ -0,0 +1,206 @@
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableHead,
+  TableCell,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { BookOpen, CheckCircle, Pencil, PlusCircle, Trash2 } from 'lucide-react';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import ProductFormDialog from '@/components/inventory/ProductFormDialog';
+import { BASE_UNITS, DOSAGE_FORMS, formatQuantity } from '@/lib/units';
+import { describePackSizes } from '@/lib/packs';
+import { getProductDisplayName } from '@/lib/products';
+import type { Product } from '@/types';
+
+export default function ProductCatalog() {
+  const { products, drugs, deleteProduct, mergeProducts } = useInventory();
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const [editingProduct, setEditingProduct] = useState<Product | null>(null);
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [deletingProduct, setDeletingProduct] = useState<Product | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+
+  const canEdit = hasPermission('adjust');
+
+  const batchSummaries = useMemo(() => {
+    const summaries: Record<string, { batchCount: number; stock: number }> = {};
+    drugs.forEach(drug => {
+      const summary = summaries[drug.productId] || (summaries[drug.productId] = { batchCount: 0, stock: 0 });
+      summary.batchCount++;
+      summary.stock += drug.stock;
+    });
+    return summaries;
+  }, [drugs]);
+
+  const deletingBatchCount = deletingProduct ? batchSummaries[deletingProduct.id]?.batchCount || 0 : 0;
+  const mustMerge = deletingBatchCount > 0;
+
+  const showResult = (result: { success: boolean; message?: string }, successTitle: string, failureTitle: string) => {
+    if (result.success) {
+      toast({
+        title: successTitle,
+        description: result.message,
+        action: <CheckCircle className="text-green-500" />,
+      });
+    } else {
+      toast({
+        variant: "destructive",
+        title: failureTitle,
+        description: result.message,
+      });
+    }
+  };
+
+  const openDeleteDialog = (product: Product) => {
+    setMergeTargetId('');
+    setDeletingProduct(product);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deletingProduct) return;
+    if (mustMerge) {
+      showResult(await mergeProducts(deletingProduct.id, mergeTargetId), "Products Merged", "Failed to Merge Products");
+    } else {
+      showResult(await deleteProduct(deletingProduct.id), "Product Deleted", "Failed to Delete Product");
+    }
+    setDeletingProduct(null);
+  };
+
+  return (
+    <Card className="shadow-xl">
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle className="font-headline flex items-center gap-2 text-2xl">
+            <BookOpen className="h-6 w-6 text-primary" />
+            Drug Catalog
+          </CardTitle>
+          <CardDescription>
+            The drugs the programme stocks. Names, form, unit, pack sizes and stock levels are kept here once and shared by every batch received.
+          </CardDescription>
+        </div>
+        <Button onClick={() => setIsAddDialogOpen(true)} disabled={!hasPermission('restock')} className="shrink-0">
+          <PlusCircle className="mr-2 h-4 w-4" /> Add Product
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {products.length === 0 ? (
+          <p className="text-center text-muted-foreground py-10">No products in the catalog yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Shelf</TableHead>
+                  <TableHead>Form</TableHead>
+                  <TableHead>Pack Sizes</TableHead>
+                  <TableHead className="text-right">Minimum</TableHead>
+                  <TableHead className="text-right">Reorder Level</TableHead>
+                  <TableHead className="text-right">Maximum</TableHead>
+                  <TableHead className="text-right">Batches</TableHead>
+                  <TableHead className="text-right">Stock</TableHead>
+                  <TableHead className="text-center">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {products.map(product => {
+                  const summary = batchSummaries[product.id];
+                  return (
+                    <TableRow key={product.id}>
+                      <TableCell>
+                        <div className="font-medium">{getProductDisplayName(product)}</div>
+                        {product.brandName && <div className="text-xs text-muted-foreground">{product.name}</div>}
+                      </TableCell>
+                      <TableCell>{product.category || 'N/A'}</TableCell>
+                      <TableCell>{product.shelf || 'N/A'}</TableCell>
+                      <TableCell>{DOSAGE_FORMS[product.dosageForm].label} ({BASE_UNITS[product.unit].other})</TableCell>
+                      <TableCell className="text-xs">{describePackSizes(product.packSizes, product.unit) || 'Loose only'}</TableCell>
+                      <TableCell className="text-right">{product.lowStockThreshold}</TableCell>
+                      <TableCell className="text-right">{product.reorderLevel ?? 'N/A'}</TableCell>
+                      <TableCell className="text-right">{product.maxStockLevel ?? 'N/A'}</TableCell>
+                      <TableCell className="text-right">{summary?.batchCount || 0}</TableCell>
+                      <TableCell className="text-right">{formatQuantity(summary?.stock || 0, product.unit)}</TableCell>
+                      <TableCell className="text-center space-x-1 whitespace-nowrap">
+                        <Button variant="outline" size="sm" onClick={() => setEditingProduct(product)} className="h-8 px-2" disabled={!canEdit}>
+                          <Pencil className="mr-1 h-4 w-4" /> Edit
+                        </Button>
+                        <Button variant="destructive" size="sm" onClick={() => openDeleteDialog(product)} className="h-8 px-2" disabled={!canEdit}>
+                          <Trash2 className="mr-1 h-4 w-4" /> {summary ? 'Merge' : 'Delete'}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <ProductFormDialog
+        open={isAddDialogOpen || !!editingProduct}
+        product={editingProduct}
+        onClose={() => { setIsAddDialogOpen(false); setEditingProduct(null); }}
+      />
+
+      <AlertDialog open={!!deletingProduct} onOpenChange={(open) => { if (!open) setDeletingProduct(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {deletingProduct && (mustMerge ? `Merge ${getProductDisplayName(deletingProduct)}?` : `Delete ${getProductDisplayName(deletingProduct)}?`)}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {mustMerge
+                ? `This product has ${deletingBatchCount} batch(es), so it cannot simply be deleted. Merge it into the product it duplicates: its batches and camp kit items move there. Only products counted in the same unit can be merged.`
+                : 'This product has no batches and will be removed from the catalog.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {mustMerge && (
+            <div className="space-y-2">
+              <Label htmlFor="mergeTarget">Merge into</Label>
+              <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+                <SelectTrigger id="mergeTarget">
+                  <SelectValue placeholder="Select product" />
+                </SelectTrigger>
+                <SelectContent>
+                  {products.filter(p => p.id !== deletingProduct?.id && p.unit === deletingProduct?.unit).map(p => (
+                    <SelectItem key={p.id} value={p.id}>{getProductDisplayName(p)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmDelete} disabled={mustMerge && !mergeTargetId}>
+              {mustMerge ? 'Merge' : 'Delete'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
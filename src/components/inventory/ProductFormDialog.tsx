@@ -0,0 +1,340 @@
+"use client";
+
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { BookOpen, CheckCircle } from 'lucide-react';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useToast } from '@/hooks/use-toast';
+import { BASE_UNITS, BASE_UNIT_CODES, DOSAGE_FORMS, DOSAGE_FORM_CODES, isUnitAllowedForForm } from '@/lib/units';
+import { PACK_LEVELS, PACK_LEVEL_LABELS, describePackSizes, normalizePackSizes, validatePackSizes } from '@/lib/packs';
+import { getProductCategories, getProductShelves } from '@/lib/products';
+import type { BaseUnit, DosageForm, Product } from '@/types';
+import { DEFAULT_BASE_UNIT, DEFAULT_DOSAGE_FORM, DEFAULT_DRUG_LOW_STOCK_THRESHOLD } from '@/types';
+
+// Empty pack size and stock level inputs are left unset rather than coerced to 0
+const optionalPackSize = z.preprocess(value => (value === '' || value === null ? undefined : value), z.coerce.number().optional());
+
+const optionalLevel = (label: string) =>
+  z.string().optional().refine(value => !value?.trim() || (Number.isInteger(Number(value)) && Number(value) >= 0), { message: `${label} must be zero or a positive whole number.` });
+
+const parseOptionalLevel = (value?: string) => (value?.trim() ? Number(value) : undefined);
+
+const productFormSchema = z.object({
+  name: z.string().trim().min(2, { message: "Generic name must be at least 2 characters." }),
+  brandName: z.string().optional(),
+  dosage: z.string().optional(),
+  dosageForm: z.enum(DOSAGE_FORM_CODES as [DosageForm, ...DosageForm[]]),
+  unit: z.enum(BASE_UNIT_CODES as [BaseUnit, ...BaseUnit[]]),
+  packSizes: z.object({ strip: optionalPackSize, box: optionalPackSize, carton: optionalPackSize }).optional(),
+  category: z.string().optional(),
+  shelf: z.string().optional(),
+  lowStockThreshold: z.coerce.number().int().min(0, { message: "Minimum stock must be zero or a positive whole number." }),
+  reorderLevel: optionalLevel("Reorder level"),
+  maxStockLevel: optionalLevel("Maximum stock"),
+}).refine(data => isUnitAllowedForForm(data.dosageForm, data.unit), { message: "This unit does not suit the dosage form.", path: ["unit"] })
+.superRefine((data, ctx) => {
+    const packError = validatePackSizes(normalizePackSizes(data.packSizes), data.unit);
+    if (packError) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["packSizes"], message: packError });
+    const reorderLevel = parseOptionalLevel(data.reorderLevel);
+    const maxStockLevel = parseOptionalLevel(data.maxStockLevel);
+    if (reorderLevel !== undefined && reorderLevel < data.lowStockThreshold) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["reorderLevel"], message: "Reorder level cannot be below the minimum stock." });
+    }
+    if (maxStockLevel !== undefined && maxStockLevel <= Math.max(data.lowStockThreshold, reorderLevel ?? 0)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["maxStockLevel"], message: "Maximum stock must be above the minimum stock and reorder level." });
+    }
+});
+
+type ProductFormData = z.infer<typeof productFormSchema>;
+
+const emptyFormValues: ProductFormData = {
+  name: '', brandName: '', dosage: '', dosageForm: DEFAULT_DOSAGE_FORM, unit: DEFAULT_BASE_UNIT, packSizes: {},
+  category: '', shelf: '', lowStockThreshold: DEFAULT_DRUG_LOW_STOCK_THRESHOLD, reorderLevel: '', maxStockLevel: '',
+};
+
+interface ProductFormDialogProps {
+  open: boolean;
+  product: Product | null; // null adds a new product
+  onClose: () => void;
+}
+
+export default function ProductFormDialog({ open, product, onClose }: ProductFormDialogProps) {
+  const { products, addProduct, updateProduct } = useInventory();
+  const { toast } = useToast();
+
+  const form = useForm<ProductFormData>({
+    resolver: zodResolver(productFormSchema),
+    defaultValues: emptyFormValues,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+    form.reset(product ? {
+      name: product.name,
+      brandName: product.brandName || '',
+      dosage: product.dosage || '',
+      dosageForm: product.dosageForm,
+      unit: product.unit,
+      packSizes: product.packSizes || {},
+      category: product.category || '',
+      shelf: product.shelf || '',
+      lowStockThreshold: product.lowStockThreshold,
+      reorderLevel: product.reorderLevel?.toString() || '',
+      maxStockLevel: product.maxStockLevel?.toString() || '',
+    } : emptyFormValues);
+  }, [open, product, form]);
+
+  const watchedDosageForm = form.watch('dosageForm');
+  const watchedUnit = form.watch('unit');
+  const watchedPackSizes = normalizePackSizes(form.watch('packSizes'));
+
+  async function onSubmit(data: ProductFormData) {
+    const details = {
+      name: data.name,
+      brandName: data.brandName,
+      dosage: data.dosage,
+      dosageForm: data.dosageForm,
+      unit: data.unit,
+      packSizes: data.packSizes,
+      category: data.category,
+      shelf: data.shelf,
+      lowStockThreshold: data.lowStockThreshold,
+      reorderLevel: parseOptionalLevel(data.reorderLevel),
+      maxStockLevel: parseOptionalLevel(data.maxStockLevel),
+    };
+    const result = product ? await updateProduct(product.id, details) : await addProduct(details);
+    if (result.success) {
+      toast({
+        title: product ? "Product Updated" : "Product Added",
+        description: result.message,
+        action: <CheckCircle className="text-green-500" />,
+      });
+      onClose();
+    } else {
+      toast({
+        variant: "destructive",
+        title: product ? "Failed to Update Product" : "Failed to Add Product",
+        description: result.message,
+      });
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) onClose(); }}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookOpen className="h-5 w-5 text-primary" />
+            {product ? 'Edit Product' : 'Add Product'}
+          </DialogTitle>
+          <DialogDescription>
+            {product
+              ? 'Changes apply to every batch of this product. Changing the unit relabels stock and prices; it does not convert them.'
+              : 'Batches of this product can then be added from Restock.'}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Generic Name</FormLabel>
+                  <FormControl><Input placeholder="e.g., Paracetamol" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="brandName"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Brand Name (Optional)</FormLabel>
+                  <FormControl><Input placeholder="e.g., Calpol" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="dosage"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Strength (e.g., 500mg)</FormLabel>
+                  <FormControl><Input placeholder="e.g., 500mg, 125mg/5ml" {...field} /></FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="category"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Category (Optional)</FormLabel>
+                  <FormControl><Input placeholder="e.g., Diabetes" list="product-categories" {...field} /></FormControl>
+                  <datalist id="product-categories">
+                    {getProductCategories(products).map(category => <option key={category} value={category} />)}
+                  </datalist>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="shelf"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Shelf (Optional)</FormLabel>
+                  <FormControl><Input placeholder="e.g., Rack B2" list="product-shelves" {...field} /></FormControl>
+                  <datalist id="product-shelves">
+                    {getProductShelves(products).map(shelf => <option key={shelf} value={shelf} />)}
+                  </datalist>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="dosageForm"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Dosage Form</FormLabel>
+                  <Select
+                    onValueChange={(value) => {
+                      field.onChange(value);
+                      form.setValue('unit', DOSAGE_FORMS[value as DosageForm].units[0]);
+                    }}
+                    value={field.value}
+                  >
+                    <FormControl>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {DOSAGE_FORM_CODES.map(code => <SelectItem key={code} value={code}>{DOSAGE_FORMS[code].label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="unit"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Counted In</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {DOSAGE_FORMS[watchedDosageForm].units.map(code => <SelectItem key={code} value={code}>{BASE_UNITS[code].other}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="md:col-span-2 space-y-2">
+              <p className="text-sm font-medium">Pack Sizes (Optional)</p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {PACK_LEVELS.map(level => (
+                  <FormField
+                    key={level}
+                    control={form.control}
+                    name={`packSizes.${level}`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel className="text-xs capitalize">{BASE_UNITS[watchedUnit].other} per {PACK_LEVEL_LABELS[level].one}</FormLabel>
+                        <FormControl>
+                          <Input type="number" min="2" {...field} value={field.value ?? ''} />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {watchedPackSizes
+                  ? describePackSizes(watchedPackSizes, watchedUnit)
+                  : 'Leave blank the packs this drug does not come in.'}
+              </p>
+              <FormMessage>{form.formState.errors.packSizes?.message}</FormMessage>
+            </div>
+            <FormField
+              control={form.control}
+              name="lowStockThreshold"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Minimum Stock ({BASE_UNITS[watchedUnit].other})</FormLabel>
+                  <FormControl><Input type="number" min="0" {...field} /></FormControl>
+                  <FormDescription>Below this the product shows as low stock.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="reorderLevel"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Reorder Level (Optional)</FormLabel>
+                  <FormControl><Input type="number" min="0" {...field} /></FormControl>
+                  <FormDescription>Stock at which more should be ordered.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="maxStockLevel"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Maximum Stock (Optional)</FormLabel>
+                  <FormControl><Input type="number" min="0" {...field} /></FormControl>
+                  <FormDescription>Above this the product shows as overstocked.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <p className="md:col-span-2 text-xs text-muted-foreground">
+              Stock levels count every batch of this product across all locations.
+            </p>
+            <DialogFooter className="md:col-span-2">
+              <DialogClose asChild>
+                <Button type="button" variant="outline">Cancel</Button>
+              </DialogClose>
+              <Button type="submit">{product ? 'Save Changes' : 'Add Product'}</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
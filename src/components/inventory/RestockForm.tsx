@@ -19,23 +19,49 @@ import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { useInventory } from '@/contexts/InventoryContext';
-import type { RestockFormData, DrugRestockEntry, NewDrugDetails, Drug } from '@/types';
-import { DEFAULT_PURCHASE_PRICE, DEFAULT_DRUG_LOW_STOCK_THRESHOLD } from '@/types';
+import type { RestockFormData, DrugRestockEntry, NewDrugDetails, Drug, BaseUnit, DosageForm, PackLevel, PackSizes, Product } from '@/types';
+import { DEFAULT_PURCHASE_PRICE, DEFAULT_DRUG_LOW_STOCK_THRESHOLD, DEFAULT_BASE_UNIT, DEFAULT_DOSAGE_FORM } from '@/types';
 import { useToast } from '@/hooks/use-toast';
-import { CheckCircle, PackagePlus, PlusCircle, Trash2 } from 'lucide-react';
+import { CheckCircle, PackagePlus, PlusCircle, Trash2, Warehouse } from 'lucide-react';
 import { Separator } from '@/components/ui/separator';
 import { format, parseISO } from 'date-fns';
+import { getLocationName } from '@/lib/locations';
+import { getDrugGroupKey } from '@/lib/fefo';
+import { getProductCategories, getProductDisplayName } from '@/lib/products';
+import { DOSAGE_FORMS, DOSAGE_FORM_CODES, BASE_UNIT_CODES, isUnitAllowedForForm, translateQuantity, translateUnit } from '@/lib/units';
+import { PACK_LEVELS, describePackSizes, getPackLevels, getPackSize, normalizePackSizes, translatePack, validatePackSizes } from '@/lib/packs';
+import { useTranslation } from '@/contexts/LanguageContext';
+import type { Translate } from '@/i18n';
 
-// Schema for adding a new batch/drug
-const newDrugDetailsSchema = z.object({
-  name: z.string().min(2, { message: "Generic name must be at least 2 characters." }),
+// Select value for "loose", i.e. counted in the base unit (Radix Select cannot use an empty string)
+const BASE_UNIT_VALUE = '--base--';
+// Select value for a batch of a drug not yet in the catalog
+const NEW_PRODUCT_VALUE = '--new-product--';
+
+// Empty pack size and stock level inputs are left unset rather than coerced to 0
+const toUndefinedIfEmpty = (value: unknown) => (value === '' || value === null ? undefined : value);
+const optionalPackSize = z.preprocess(toUndefinedIfEmpty, z.coerce.number().optional());
+const buildOptionalLevel = (t: Translate) =>
+  z.preprocess(toUndefinedIfEmpty, z.coerce.number().int({ message: t('restock.validation.thresholdNonNegative') }).min(0, { message: t('restock.validation.thresholdNonNegative') }).optional());
+
+// Schema for adding a new batch/drug. Schemas are built per language so validation messages follow the UI language.
+const buildNewDrugDetailsSchema = (t: Translate) => z.object({
+  productId: z.string().optional(),
+  name: z.string().min(2, { message: t('restock.validation.genericNameLength') }),
   brandName: z.string().optional(),
   dosage: z.string().optional(),
-  batchNumber: z.string().min(1, { message: "Batch number is required." }),
-  dateOfManufacture: z.string().optional().refine(val => !val || !isNaN(Date.parse(val)), { message: "Invalid manufacture date" }),
-  dateOfExpiry: z.string().min(1, {message: "Expiry date is required."}).refine(val => !val || !isNaN(Date.parse(val)), { message: "Invalid expiry date" }),
-  purchasePricePerTablet: z.coerce.number().min(0, { message: "Price must be non-negative." }),
-  lowStockThreshold: z.coerce.number().int().min(0, { message: "Threshold must be zero or positive." }),
+  dosageForm: z.enum(DOSAGE_FORM_CODES as [DosageForm, ...DosageForm[]]),
+  unit: z.enum(BASE_UNIT_CODES as [BaseUnit, ...BaseUnit[]]),
+  packSizes: z.object({ strip: optionalPackSize, box: optionalPackSize, carton: optionalPackSize }).optional(),
+  batchNumber: z.string().min(1, { message: t('restock.validation.batchNumberRequired') }),
+  dateOfManufacture: z.string().optional().refine(val => !val || !isNaN(Date.parse(val)), { message: t('restock.validation.invalidManufactureDate') }),
+  dateOfExpiry: z.string().min(1, {message: t('restock.validation.expiryRequired')}).refine(val => !val || !isNaN(Date.parse(val)), { message: t('restock.validation.invalidExpiryDate') }),
+  purchasePricePerUnit: z.coerce.number().min(0, { message: t('restock.validation.priceNonNegative') }),
+  // Stock levels and category only apply when the line creates a new product
+  category: z.string().optional(),
+  lowStockThreshold: buildOptionalLevel(t),
+  reorderLevel: buildOptionalLevel(t),
+  maxStockLevel: buildOptionalLevel(t),
 }).refine(data => {
     if (data.dateOfManufacture && data.dateOfExpiry) {
         try {
@@ -45,44 +71,53 @@ const newDrugDetailsSchema = z.object({
         } catch (e) { return true; } 
     }
     return true;
-}, { message: "Expiry date must be after manufacture date.", path: ["dateOfExpiry"] });
+}, { message: t('restock.validation.expiryAfterManufacture'), path: ["dateOfExpiry"] })
+.refine(data => isUnitAllowedForForm(data.dosageForm, data.unit), { message: t('restock.validation.unitForForm'), path: ["unit"] })
+.refine(data => !validatePackSizes(normalizePackSizes(data.packSizes), data.unit), { message: t('restock.validation.packSizesNest'), path: ["packSizes"] })
+.refine(data => !!data.productId || data.reorderLevel === undefined || data.reorderLevel >= (data.lowStockThreshold ?? 0), { message: t('restock.validation.reorderBelowMinimum'), path: ["reorderLevel"] })
+.refine(data => !!data.productId || data.maxStockLevel === undefined || data.maxStockLevel > Math.max(data.lowStockThreshold ?? 0, data.reorderLevel ?? 0), { message: t('restock.validation.maxNotAboveLevels'), path: ["maxStockLevel"] });
 
 
-const drugRestockEntrySchema = z.object({
-  drugId: z.string().min(1, { message: "Please select an existing batch or 'Add New Batch'." }), 
-  tabletsAdded: z.coerce.number().int().positive({ message: "Tablets must be a positive number." }),
-  newDrugDetails: newDrugDetailsSchema.optional(), 
-  updatedPurchasePricePerTablet: z.coerce.number().min(0, { message: "Price must be non-negative." }).optional(), 
+const buildDrugRestockEntrySchema = (t: Translate) => z.object({
+  drugId: z.string().min(1, { message: t('restock.validation.selectBatch') }), 
+  packLevel: z.enum(PACK_LEVELS as [PackLevel, ...PackLevel[]]).optional(),
+  quantity: z.coerce.number().int().positive({ message: t('restock.validation.quantityPositive') }),
+  newDrugDetails: buildNewDrugDetailsSchema(t).optional(), 
+  updatedPurchasePricePerUnit: z.coerce.number().min(0, { message: t('restock.validation.priceNonNegative') }).optional(), 
 }).refine(data => { 
     if (data.drugId === '--add-new--') {
         return !!data.newDrugDetails &&
                data.newDrugDetails.name.length >=2 &&
                !!data.newDrugDetails.batchNumber &&
                !!data.newDrugDetails.dateOfExpiry &&
-               (data.newDrugDetails.purchasePricePerTablet !== undefined && data.newDrugDetails.purchasePricePerTablet >=0) &&
-               (data.newDrugDetails.lowStockThreshold !== undefined && data.newDrugDetails.lowStockThreshold >=0);
+               (data.newDrugDetails.purchasePricePerUnit !== undefined && data.newDrugDetails.purchasePricePerUnit >=0);
     }
     return true;
 }, {
-    message: "New batch details (generic name, batch no., expiry date, valid price, and valid threshold) are required.",
+    message: t('restock.validation.newBatchRequired'),
     path: ["newDrugDetails"],
 });
 
 
-const restockFormSchema = z.object({
-  source: z.string().min(2, { message: "Source must be at least 2 characters." }),
-  drugsToRestock: z.array(drugRestockEntrySchema).min(1, { message: "At least one drug item must be added to restock." }),
+const buildRestockFormSchema = (t: Translate) => z.object({
+  source: z.string().min(2, { message: t('restock.validation.sourceLength') }),
+  drugsToRestock: z.array(buildDrugRestockEntrySchema(t)).min(1, { message: t('restock.validation.atLeastOneItem') }),
 });
 
 const getDefaultNewDrugDetails = (): NewDrugDetails => ({
     name: '',
     brandName: '',
     dosage: '',
+    dosageForm: DEFAULT_DOSAGE_FORM,
+    unit: DEFAULT_BASE_UNIT,
     batchNumber: '',
     dateOfManufacture: '',
     dateOfExpiry: '',
-    purchasePricePerTablet: DEFAULT_PURCHASE_PRICE,
-    lowStockThreshold: DEFAULT_DRUG_LOW_STOCK_THRESHOLD
+    purchasePricePerUnit: DEFAULT_PURCHASE_PRICE,
+    category: '',
+    lowStockThreshold: DEFAULT_DRUG_LOW_STOCK_THRESHOLD,
+    reorderLevel: undefined,
+    maxStockLevel: undefined,
 });
 
 const formatDateForInput = (dateString?: string) => {
@@ -95,20 +130,25 @@ const formatDateForInput = (dateString?: string) => {
 };
 
 export default function RestockForm() {
-  const { drugs, restockDrugs, getDrugById } = useInventory();
+  const { drugs, products, restockDrugs, getDrugById, locations, activeLocationId } = useInventory();
   const { toast } = useToast();
+  const { t, formatNumber } = useTranslation();
   const [fieldStates, setFieldStates] = useState<Record<number, { isNewBatch: boolean }>>({});
   const [grandTotal, setGrandTotal] = useState(0);
 
+  const restockFormSchema = React.useMemo(() => buildRestockFormSchema(t), [t]);
+  // Rupee amounts with Indian digit grouping
+  const formatAmount = (amount: number) => formatNumber(amount, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
   const form = useForm<RestockFormData>({
     resolver: zodResolver(restockFormSchema),
     defaultValues: {
       source: '',
       drugsToRestock: [{
         drugId: '',
-        tabletsAdded: 10,
+        quantity: 10,
         newDrugDetails: getDefaultNewDrugDetails(),
-        updatedPurchasePricePerTablet: undefined
+        updatedPurchasePricePerUnit: undefined
       }],
     },
   });
@@ -126,17 +166,17 @@ export default function RestockForm() {
   useEffect(() => {
     let currentGrandTotal = 0;
     watchedDrugsToRestock.forEach((item) => {
-      const tablets = Number(item.tabletsAdded) || 0;
-      let pricePerTablet = 0;
+      const quantity = Number(item.quantity) || 0;
+      let pricePerUnit = 0;
       if (item.drugId === '--add-new--' && item.newDrugDetails) {
-        pricePerTablet = Number(item.newDrugDetails.purchasePricePerTablet) || 0;
+        pricePerUnit = Number(item.newDrugDetails.purchasePricePerUnit) || 0;
       } else if (item.drugId !== '--add-new--' && item.drugId !== '') {
         const drugBatch = getDrugById(item.drugId);
-        pricePerTablet = item.updatedPurchasePricePerTablet !== undefined
-                        ? Number(item.updatedPurchasePricePerTablet)
-                        : (drugBatch?.purchasePricePerTablet || 0);
+        pricePerUnit = item.updatedPurchasePricePerUnit !== undefined
+                        ? Number(item.updatedPurchasePricePerUnit)
+                        : (drugBatch?.purchasePricePerUnit || 0);
       }
-      currentGrandTotal += tablets * pricePerTablet;
+      currentGrandTotal += quantity * pricePerUnit;
     });
     setGrandTotal(currentGrandTotal);
   }, [watchedDrugsToRestock, getDrugById]);
@@ -146,25 +186,46 @@ export default function RestockForm() {
     const isNew = value === '--add-new--';
     setFieldStates(prev => ({ ...prev, [index]: { isNewBatch: isNew } }));
     form.setValue(`drugsToRestock.${index}.drugId`, value);
+    form.setValue(`drugsToRestock.${index}.packLevel`, undefined);
 
     if (isNew) {
         form.setValue(`drugsToRestock.${index}.newDrugDetails`, getDefaultNewDrugDetails());
-        form.setValue(`drugsToRestock.${index}.updatedPurchasePricePerTablet`, undefined);
+        form.setValue(`drugsToRestock.${index}.updatedPurchasePricePerUnit`, undefined);
     } else {
         form.setValue(`drugsToRestock.${index}.newDrugDetails`, undefined);
         const selectedDrugBatch = getDrugById(value);
-        form.setValue(`drugsToRestock.${index}.updatedPurchasePricePerTablet`, selectedDrugBatch?.purchasePricePerTablet ?? DEFAULT_PURCHASE_PRICE);
+        form.setValue(`drugsToRestock.${index}.updatedPurchasePricePerUnit`, selectedDrugBatch?.purchasePricePerUnit ?? DEFAULT_PURCHASE_PRICE);
+    }
+    form.trigger(`drugsToRestock.${index}.newDrugDetails`);
+    form.trigger(`drugsToRestock.${index}.updatedPurchasePricePerUnit`);
+  };
+
+  const fillFromProduct = (index: number, product: Product) => {
+    form.setValue(`drugsToRestock.${index}.newDrugDetails.name`, product.name);
+    form.setValue(`drugsToRestock.${index}.newDrugDetails.brandName`, product.brandName || '');
+    form.setValue(`drugsToRestock.${index}.newDrugDetails.dosage`, product.dosage || '');
+    form.setValue(`drugsToRestock.${index}.newDrugDetails.dosageForm`, product.dosageForm);
+    form.setValue(`drugsToRestock.${index}.newDrugDetails.unit`, product.unit);
+    form.setValue(`drugsToRestock.${index}.newDrugDetails.packSizes`, product.packSizes || {});
+  };
+
+  const handleProductChange = (index: number, value: string) => {
+    const product = products.find(p => p.id === value);
+    form.setValue(`drugsToRestock.${index}.newDrugDetails.productId`, product?.id);
+    form.setValue(`drugsToRestock.${index}.packLevel`, undefined);
+    if (product) {
+      fillFromProduct(index, product);
+    } else {
+      form.setValue(`drugsToRestock.${index}.newDrugDetails`, getDefaultNewDrugDetails());
     }
     form.trigger(`drugsToRestock.${index}.newDrugDetails`);
-    form.trigger(`drugsToRestock.${index}.updatedPurchasePricePerTablet`);
   };
 
   const handleGenericNameBlur = (index: number, typedGenericName: string) => {
-    if (typedGenericName && fieldStates[index]?.isNewBatch) {
-      const matchedDrug = drugs.find(d => d.name.toLowerCase() === typedGenericName.toLowerCase());
-      if (matchedDrug) {
-        form.setValue(`drugsToRestock.${index}.newDrugDetails.brandName`, matchedDrug.brandName || '');
-        form.setValue(`drugsToRestock.${index}.newDrugDetails.dosage`, matchedDrug.dosage || '');
+    if (typedGenericName && fieldStates[index]?.isNewBatch && !form.getValues(`drugsToRestock.${index}.newDrugDetails.productId`)) {
+      const matchedProduct = products.find(p => p.name.toLowerCase() === typedGenericName.toLowerCase());
+      if (matchedProduct) {
+        fillFromProduct(index, matchedProduct);
       }
     }
   };
@@ -175,21 +236,20 @@ export default function RestockForm() {
         const item = data.drugsToRestock[i];
         if (item.drugId === '--add-new--' && item.newDrugDetails) {
             const nd = item.newDrugDetails;
-            const existingSameBatch = drugs.find(d =>
-                d.name.toLowerCase() === nd.name.toLowerCase() &&
-                (d.brandName || '').toLowerCase() === (nd.brandName || '').toLowerCase() &&
-                (d.dosage || '').toLowerCase() === (nd.dosage || '').toLowerCase() &&
+            const product = getLineProduct(nd);
+            const existingSameBatch = product && drugs.find(d =>
+                d.productId === product.id &&
                 (d.batchNumber || '').toLowerCase() === (nd.batchNumber || '').toLowerCase()
             );
             if (existingSameBatch) {
                  form.setError(`drugsToRestock.${i}.newDrugDetails.batchNumber`, {
                     type: "manual",
-                    message: `This exact batch (Generic, Brand, Dosage, Batch No.) already exists. Please add stock to the existing entry or use a different batch number.`,
+                    message: t('restock.validation.batchExists'),
                 });
                 toast({
                     variant: "destructive",
-                    title: "Validation Error",
-                    description: `Batch for "${nd.name} - ${nd.batchNumber}" already exists.`,
+                    title: t('restock.toast.validationTitle'),
+                    description: t('restock.toast.batchExistsDescription', { name: nd.name, batch: nd.batchNumber }),
                 });
                 return;
             }
@@ -199,19 +259,23 @@ export default function RestockForm() {
     const result = await restockDrugs(data.source, data.drugsToRestock);
 
     if (result.success) {
-      const drugSummary = result.restockedDrugs.map(d => `${d.quantity}x ${d.brandName || d.drugName} ${d.dosage || ''} (Batch: ${d.batchNumber})`).join(', ');
+      const drugSummary = result.restockedDrugs.map(d => t('restock.toast.restockedLine', {
+        quantity: translateQuantity(t, d.quantity, d.unit),
+        drug: `${d.brandName || d.drugName} ${d.dosage || ''}`.trim(),
+        batch: d.batchNumber || t('common.notAvailable'),
+      })).join(', ');
       toast({
-        title: "Batches Added to Stock",
-        description: `${drugSummary} successfully added from ${data.source}. Total cost: INR ${grandTotal.toFixed(2)}.`,
+        title: t('restock.toast.successTitle'),
+        description: t('restock.toast.successDescription', { drugs: drugSummary, source: data.source, total: formatAmount(grandTotal) }),
         action: <CheckCircle className="text-green-500" />,
       });
       form.reset({
         source: '',
         drugsToRestock: [{
             drugId: '',
-            tabletsAdded: 10,
+            quantity: 10,
             newDrugDetails: getDefaultNewDrugDetails(),
-            updatedPurchasePricePerTablet: undefined
+            updatedPurchasePricePerUnit: undefined
         }],
       });
       setFieldStates({});
@@ -219,8 +283,8 @@ export default function RestockForm() {
     } else {
       toast({
         variant: "destructive",
-        title: "Restock Failed",
-        description: result.message || "An unexpected error occurred.",
+        title: t('restock.toast.failedTitle'),
+        description: result.messages.map(m => t(m.key, m.params)).join(' ') || t('common.unexpectedError'),
       });
     }
   }
@@ -229,18 +293,74 @@ export default function RestockForm() {
     const item = form.getValues(`drugsToRestock.${index}`);
     if (!item) return 0;
 
-    const tablets = Number(item.tabletsAdded) || 0;
-    let pricePerTablet = 0;
+    const quantity = Number(item.quantity) || 0;
+    let pricePerUnit = 0;
 
     if (item.drugId === '--add-new--' && item.newDrugDetails) {
-      pricePerTablet = Number(item.newDrugDetails.purchasePricePerTablet) || 0;
+      pricePerUnit = Number(item.newDrugDetails.purchasePricePerUnit) || 0;
     } else if (item.drugId && item.drugId !== '--add-new--') {
       const drugBatch = getDrugById(item.drugId);
-      pricePerTablet = item.updatedPurchasePricePerTablet !== undefined
-                      ? Number(item.updatedPurchasePricePerTablet)
-                      : (drugBatch?.purchasePricePerTablet || 0);
+      pricePerUnit = item.updatedPurchasePricePerUnit !== undefined
+                      ? Number(item.updatedPurchasePricePerUnit)
+                      : (drugBatch?.purchasePricePerUnit || 0);
+    }
+    return quantity * pricePerUnit;
+  };
+
+  // The catalog product chosen, or the one with the names typed in, decides the form, unit and packs (restockDrugs does the same)
+  const getLineProduct = (details?: NewDrugDetails): Product | undefined => {
+    if (details?.productId) return products.find(p => p.id === details.productId);
+    return details?.name ? products.find(p => getDrugGroupKey(p) === getDrugGroupKey(details)) : undefined;
+  };
+
+  const getLineUnit = (index: number): BaseUnit => {
+    const item = watchedDrugsToRestock[index];
+    if (!item) return DEFAULT_BASE_UNIT;
+    if (item.drugId === '--add-new--') {
+      return getLineProduct(item.newDrugDetails)?.unit || item.newDrugDetails?.unit || DEFAULT_BASE_UNIT;
+    }
+    return getDrugById(item.drugId)?.unit || DEFAULT_BASE_UNIT;
+  };
+
+  const getLinePackSizes = (index: number): PackSizes | undefined => {
+    const item = watchedDrugsToRestock[index];
+    if (!item) return undefined;
+    if (item.drugId === '--add-new--') {
+      const lineProduct = getLineProduct(item.newDrugDetails);
+      return lineProduct ? lineProduct.packSizes : normalizePackSizes(item.newDrugDetails?.packSizes);
+    }
+    return getDrugById(item.drugId)?.packSizes;
+  };
+
+  // Name of what the quantity and price are counted in: the chosen pack, or the base unit
+  const getLineCountName = (index: number, count: number) => {
+    const packLevel = watchedDrugsToRestock[index]?.packLevel;
+    return packLevel ? translatePack(t, packLevel, count) : translateUnit(t, getLineUnit(index), count);
+  };
+
+  // The price entered follows the pack level, so switching level rescales it. While the price of an
+  // existing batch is untouched it is worked out from the stored price per base unit, so switching back
+  // and forth does not drift by a paisa at each step.
+  const handlePackLevelChange = (index: number, value: string) => {
+    const packSizes = getLinePackSizes(index);
+    const item = form.getValues(`drugsToRestock.${index}`);
+    const packLevel = value === BASE_UNIT_VALUE ? undefined : value as PackLevel;
+    const oldPackSize = getPackSize(packSizes, item.packLevel);
+    const newPackSize = getPackSize(packSizes, packLevel);
+    const toPaise = (price: number) => Math.round(price * 100) / 100;
+    const rescale = (price?: number, storedPricePerUnit?: number) => {
+      if (price === undefined || isNaN(Number(price))) return price;
+      const pricePerUnit = storedPricePerUnit !== undefined && toPaise(storedPricePerUnit * oldPackSize) === toPaise(Number(price))
+        ? storedPricePerUnit
+        : Number(price) / oldPackSize;
+      return toPaise(pricePerUnit * newPackSize);
+    };
+    form.setValue(`drugsToRestock.${index}.packLevel`, packLevel);
+    if (item.drugId === '--add-new--' && item.newDrugDetails) {
+      form.setValue(`drugsToRestock.${index}.newDrugDetails.purchasePricePerUnit`, rescale(item.newDrugDetails.purchasePricePerUnit) ?? DEFAULT_PURCHASE_PRICE);
+    } else {
+      form.setValue(`drugsToRestock.${index}.updatedPurchasePricePerUnit`, rescale(item.updatedPurchasePricePerUnit, getDrugById(item.drugId)?.purchasePricePerUnit));
     }
-    return tablets * pricePerTablet;
   };
 
   return (
@@ -248,11 +368,17 @@ export default function RestockForm() {
       <CardHeader>
         <CardTitle className="font-headline flex items-center gap-2 text-2xl">
           <PackagePlus className="h-6 w-6 text-primary" />
-          Restock Inventory
+          {t('restock.title')}
         </CardTitle>
-        <CardDescription>Log new stock received. Add to existing batches, add new batches for known drugs, or add entirely new drugs.</CardDescription>
+        <CardDescription>{t('restock.description')}</CardDescription>
       </CardHeader>
       <CardContent>
+        {locations.length > 1 && (
+          <div className="mb-4 flex items-center gap-2 rounded-md border p-3 text-sm">
+            <Warehouse className="h-4 w-4 shrink-0 text-primary" />
+            <span>{t('restock.location', { location: getLocationName(locations, activeLocationId) })}</span>
+          </div>
+        )}
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
             <FormField
@@ -260,9 +386,9 @@ export default function RestockForm() {
               name="source"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Source of Drugs</FormLabel>
+                  <FormLabel>{t('restock.source')}</FormLabel>
                   <FormControl>
-                    <Input placeholder="e.g., Supplier Name, Donation Program" {...field} />
+                    <Input placeholder={t('restock.sourcePlaceholder')} {...field} />
                   </FormControl>
                   <FormMessage />
                 </FormItem>
@@ -270,7 +396,7 @@ export default function RestockForm() {
             />
 
             <Separator />
-            <h3 className="text-lg font-medium text-foreground">Drug Batches to Restock</h3>
+            <h3 className="text-lg font-medium text-foreground">{t('restock.batchesHeading')}</h3>
             {fields.map((fieldItem, index) => (
               <div key={fieldItem.id} className="space-y-4 p-4 border rounded-md shadow-sm relative">
                  {fields.length > 1 && (
@@ -282,16 +408,16 @@ export default function RestockForm() {
                         onClick={() => remove(index)}
                     >
                         <Trash2 className="h-4 w-4" />
-                        <span className="sr-only">Remove Drug Batch</span>
+                        <span className="sr-only">{t('restock.removeBatch')}</span>
                     </Button>
                 )}
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
                   <FormField
                     control={form.control}
                     name={`drugsToRestock.${index}.drugId`}
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Select Existing Batch / Add New</FormLabel>
+                        <FormLabel>{t('restock.selectBatch')}</FormLabel>
                         <Select
                             onValueChange={(value) => {
                                 field.onChange(value);
@@ -301,16 +427,21 @@ export default function RestockForm() {
                         >
                           <FormControl>
                             <SelectTrigger>
-                              <SelectValue placeholder="Select batch or add new" />
+                              <SelectValue placeholder={t('restock.selectBatchPlaceholder')} />
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent className="max-h-72">
                             <SelectItem value="--add-new--">
-                              <span className="flex items-center"><PlusCircle className="mr-2 h-4 w-4 text-green-500" /> Add New Batch...</span>
+                              <span className="flex items-center"><PlusCircle className="mr-2 h-4 w-4 text-green-500" /> {t('restock.addNewBatch')}</span>
                             </SelectItem>
                             {drugs.map((batch) => (
                               <SelectItem key={batch.id} value={batch.id}>
-                                {batch.brandName || batch.name} {batch.dosage} (Batch: {batch.batchNumber}) Exp: {formatDateForInput(batch.dateOfExpiry)} (Stock: {batch.stock})
+                                {t('restock.batchOption', {
+                                  name: [batch.brandName || batch.name, batch.dosage].filter(Boolean).join(' '),
+                                  batch: batch.batchNumber || t('common.notAvailable'),
+                                  expiry: formatDateForInput(batch.dateOfExpiry),
+                                  stock: translateQuantity(t, batch.stock, batch.unit),
+                                })}
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -318,41 +449,73 @@ export default function RestockForm() {
                         <FormMessage />
                       </FormItem>
                     )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`drugsToRestock.${index}.packLevel`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t('restock.receivedAs')}</FormLabel>
+                        <Select
+                          onValueChange={(value) => handlePackLevelChange(index, value)}
+                          value={field.value || BASE_UNIT_VALUE}
+                          disabled={getPackLevels(getLinePackSizes(index)).length === 0}
+                        >
+                          <FormControl>
+                            <SelectTrigger><SelectValue /></SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={BASE_UNIT_VALUE}>{translateUnit(t, getLineUnit(index), 2)}</SelectItem>
+                            {getPackLevels(getLinePackSizes(index)).map(level => (
+                              <SelectItem key={level} value={level}>{translatePack(t, level, 2)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
                   />
                    <FormField
                     control={form.control}
-                    name={`drugsToRestock.${index}.tabletsAdded`}
+                    name={`drugsToRestock.${index}.quantity`}
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Tablets Added / Initial Stock</FormLabel>
+                        <FormLabel>{t('restock.quantityAdded', { unit: getLineCountName(index, 2) })}</FormLabel>
                         <FormControl>
-                          <Input type="number" placeholder="Quantity" {...field} min="1" />
+                          <Input type="number" placeholder={t('restock.quantityPlaceholder')} {...field} min="1" />
                         </FormControl>
+                        {watchedDrugsToRestock[index]?.packLevel && (
+                          <FormDescription className="text-xs">
+                            {t('restock.packTotal', {
+                              quantity: translateQuantity(t, (Number(field.value) || 0) * getPackSize(getLinePackSizes(index), watchedDrugsToRestock[index].packLevel), getLineUnit(index)),
+                            })}
+                          </FormDescription>
+                        )}
                         <FormMessage />
                       </FormItem>
                     )}
                   />
                   <FormItem>
-                    <FormLabel>Cost/Tablet (INR)</FormLabel>
+                    <FormLabel>{t('restock.costPerUnit', { unit: getLineCountName(index, 1) })}</FormLabel>
                     {fieldStates[index]?.isNewBatch ? (
                        <FormField
                             control={form.control}
-                            name={`drugsToRestock.${index}.newDrugDetails.purchasePricePerTablet`}
+                            name={`drugsToRestock.${index}.newDrugDetails.purchasePricePerUnit`}
                             render={({ field }) => (
                                 <FormControl>
-                                    <Input type="number" placeholder="Price" {...field} min="0" step="0.01" />
+                                    <Input type="number" placeholder={t('restock.pricePlaceholder')} {...field} min="0" step="0.01" />
                                 </FormControl>
                             )}
                         />
                     ) : (
                         <FormField
                             control={form.control}
-                            name={`drugsToRestock.${index}.updatedPurchasePricePerTablet`}
+                            name={`drugsToRestock.${index}.updatedPurchasePricePerUnit`}
                             render={({ field }) => (
                                 <FormControl>
                                     <Input
                                       type="number"
-                                      placeholder="Price"
+                                      placeholder={t('restock.pricePlaceholder')}
                                       {...field}
                                       min="0"
                                       step="0.01"
@@ -363,25 +526,52 @@ export default function RestockForm() {
                         />
                     )}
                      <FormMessage>
-                        {form.formState.errors.drugsToRestock?.[index]?.newDrugDetails?.purchasePricePerTablet?.message ||
-                         form.formState.errors.drugsToRestock?.[index]?.updatedPurchasePricePerTablet?.message}
+                        {form.formState.errors.drugsToRestock?.[index]?.newDrugDetails?.purchasePricePerUnit?.message ||
+                         form.formState.errors.drugsToRestock?.[index]?.updatedPurchasePricePerUnit?.message}
                     </FormMessage>
                   </FormItem>
                 </div>
 
                 {fieldStates[index]?.isNewBatch && form.getValues(`drugsToRestock.${index}.newDrugDetails`) && (
                   <div className="mt-4 p-3 border border-primary/50 rounded-md bg-primary/5 space-y-3">
-                     <p className="text-sm text-primary font-medium">New Batch Details:</p>
+                     <p className="text-sm text-primary font-medium">{t('restock.newBatchDetails')}</p>
+                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <FormField control={form.control} name={`drugsToRestock.${index}.newDrugDetails.productId`}
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>{t('restock.product')}</FormLabel>
+                                <Select onValueChange={(value) => handleProductChange(index, value)} value={field.value || NEW_PRODUCT_VALUE}>
+                                    <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                                    <SelectContent className="max-h-72">
+                                        <SelectItem value={NEW_PRODUCT_VALUE}>{t('restock.newProduct')}</SelectItem>
+                                        {products.map(product => <SelectItem key={product.id} value={product.id}>{getProductDisplayName(product)}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                                <FormMessage />
+                            </FormItem>
+                        )} />
+                        {!getLineProduct(watchedDrugsToRestock[index]?.newDrugDetails) && (
+                            <FormField control={form.control} name={`drugsToRestock.${index}.newDrugDetails.category`}
+                            render={({ field }) => (
+                                <FormItem>
+                                    <FormLabel>{t('restock.category')}</FormLabel>
+                                    <FormControl><Input placeholder={t('restock.categoryPlaceholder')} list="restock-product-categories" {...field} value={field.value ?? ''} /></FormControl>
+                                    <FormMessage />
+                                </FormItem>
+                            )} />
+                        )}
+                     </div>
                      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                         <FormField control={form.control} name={`drugsToRestock.${index}.newDrugDetails.name`}
                         render={({ field }) => (
                             <FormItem>
-                                <FormLabel>Generic Name</FormLabel>
+                                <FormLabel>{t('restock.genericName')}</FormLabel>
                                 <FormControl>
                                     <Input
-                                        placeholder="e.g., Paracetamol"
+                                        placeholder={t('restock.genericNamePlaceholder')}
                                         {...field}
                                         value={field.value ?? ''}
+                                        disabled={!!watchedDrugsToRestock[index]?.newDrugDetails?.productId}
                                         onBlur={(e) => {
                                             field.onBlur();
                                             handleGenericNameBlur(index, e.target.value);
@@ -392,50 +582,138 @@ export default function RestockForm() {
                             </FormItem>
                         )} />
                         <FormField control={form.control} name={`drugsToRestock.${index}.newDrugDetails.brandName`}
-                        render={({ field }) => (<FormItem><FormLabel>Brand Name (Optional)</FormLabel><FormControl><Input placeholder="e.g., Calpol" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>)} />
+                        render={({ field }) => (<FormItem><FormLabel>{t('restock.brandName')}</FormLabel><FormControl><Input placeholder={t('restock.brandNamePlaceholder')} {...field} value={field.value ?? ''} disabled={!!watchedDrugsToRestock[index]?.newDrugDetails?.productId} /></FormControl><FormMessage /></FormItem>)} />
                         <FormField control={form.control} name={`drugsToRestock.${index}.newDrugDetails.dosage`}
-                        render={({ field }) => (<FormItem><FormLabel>Dosage (e.g., 500mg)</FormLabel><FormControl><Input placeholder="e.g., 500mg, 10ml" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>)} />
+                        render={({ field }) => (<FormItem><FormLabel>{t('restock.dosage')}</FormLabel><FormControl><Input placeholder={t('restock.dosagePlaceholder')} {...field} value={field.value ?? ''} disabled={!!watchedDrugsToRestock[index]?.newDrugDetails?.productId} /></FormControl><FormMessage /></FormItem>)} />
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <FormField control={form.control} name={`drugsToRestock.${index}.newDrugDetails.dosageForm`}
+                        render={({ field }) => (
+                            <FormItem>
+                                <FormLabel>{t('restock.dosageForm')}</FormLabel>
+                                <Select
+                                    onValueChange={(value) => {
+                                        field.onChange(value);
+                                        form.setValue(`drugsToRestock.${index}.newDrugDetails.unit`, DOSAGE_FORMS[value as DosageForm].units[0]);
+                                    }}
+                                    value={getLineProduct(watchedDrugsToRestock[index]?.newDrugDetails)?.dosageForm || field.value}
+                                    disabled={!!getLineProduct(watchedDrugsToRestock[index]?.newDrugDetails)}
+                                >
+                                    <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                                    <SelectContent>
+                                        {DOSAGE_FORM_CODES.map(code => <SelectItem key={code} value={code}>{t(`dosageForms.${code}`)}</SelectItem>)}
+                                    </SelectContent>
+                                </Select>
+                                <FormMessage />
+                            </FormItem>
+                        )} />
+                        <FormField control={form.control} name={`drugsToRestock.${index}.newDrugDetails.unit`}
+                        render={({ field }) => {
+                            const lineProduct = getLineProduct(watchedDrugsToRestock[index]?.newDrugDetails);
+                            const dosageForm = lineProduct?.dosageForm || watchedDrugsToRestock[index]?.newDrugDetails?.dosageForm || DEFAULT_DOSAGE_FORM;
+                            return (
+                                <FormItem>
+                                    <FormLabel>{t('restock.unit')}</FormLabel>
+                                    <Select onValueChange={field.onChange} value={lineProduct?.unit || field.value} disabled={!!lineProduct}>
+                                        <FormControl><SelectTrigger><SelectValue /></SelectTrigger></FormControl>
+                                        <SelectContent>
+                                            {DOSAGE_FORMS[dosageForm].units.map(code => <SelectItem key={code} value={code}>{translateUnit(t, code, 2)}</SelectItem>)}
+                                        </SelectContent>
+                                    </Select>
+                                    {lineProduct && <FormDescription className="text-xs">{t('restock.formFromProduct')}</FormDescription>}
+                                    <FormMessage />
+                                </FormItem>
+                            );
+                        }} />
+                    </div>
+                    <div className="space-y-2">
+                        <p className="text-sm font-medium">{t('restock.packSizes')}</p>
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                            {PACK_LEVELS.map(level => {
+                                const lineProduct = getLineProduct(watchedDrugsToRestock[index]?.newDrugDetails);
+                                return (
+                                    <FormField key={level} control={form.control} name={`drugsToRestock.${index}.newDrugDetails.packSizes.${level}`}
+                                    render={({ field }) => (
+                                        <FormItem>
+                                            <FormLabel className="text-xs">{t('restock.packSize', { unit: translateUnit(t, getLineUnit(index), 2), pack: translatePack(t, level, 1) })}</FormLabel>
+                                            <FormControl>
+                                                <Input
+                                                    type="number"
+                                                    min="2"
+                                                    {...field}
+                                                    value={(lineProduct ? lineProduct.packSizes?.[level] : field.value) ?? ''}
+                                                    disabled={!!lineProduct}
+                                                />
+                                            </FormControl>
+                                        </FormItem>
+                                    )} />
+                                );
+                            })}
+                        </div>
+                        <FormDescription className="text-xs">
+                            {getLineProduct(watchedDrugsToRestock[index]?.newDrugDetails)
+                                ? t('restock.packsFromProduct')
+                                : t('restock.packSizesHint', { unit: translateUnit(t, getLineUnit(index), 2) })}
+                        </FormDescription>
+                        {getPackLevels(getLinePackSizes(index)).length > 0 && (
+                            <p className="text-xs text-muted-foreground">{describePackSizes(getLinePackSizes(index), getLineUnit(index), t)}</p>
+                        )}
+                        <FormMessage>{form.formState.errors.drugsToRestock?.[index]?.newDrugDetails?.packSizes?.message}</FormMessage>
                     </div>
                     <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                          <FormField control={form.control} name={`drugsToRestock.${index}.newDrugDetails.batchNumber`}
-                        render={({ field }) => (<FormItem><FormLabel>Batch Number</FormLabel><FormControl><Input placeholder="e.g., B12345" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>)} />
+                        render={({ field }) => (<FormItem><FormLabel>{t('restock.batchNumber')}</FormLabel><FormControl><Input placeholder={t('restock.batchNumberPlaceholder')} {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>)} />
                         <FormField control={form.control} name={`drugsToRestock.${index}.newDrugDetails.dateOfManufacture`}
-                        render={({ field }) => (<FormItem><FormLabel>Manufacture Date (Optional)</FormLabel><FormControl><Input type="date" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>)} />
+                        render={({ field }) => (<FormItem><FormLabel>{t('restock.manufactureDate')}</FormLabel><FormControl><Input type="date" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>)} />
                         <FormField control={form.control} name={`drugsToRestock.${index}.newDrugDetails.dateOfExpiry`}
-                        render={({ field }) => (<FormItem><FormLabel>Expiry Date</FormLabel><FormControl><Input type="date" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>)} />
+                        render={({ field }) => (<FormItem><FormLabel>{t('restock.expiryDate')}</FormLabel><FormControl><Input type="date" {...field} value={field.value ?? ''} /></FormControl><FormMessage /></FormItem>)} />
                     </div>
-                     <FormField control={form.control} name={`drugsToRestock.${index}.newDrugDetails.lowStockThreshold`}
-                        render={({ field }) => (<FormItem className="md:col-span-1"><FormLabel>Low Stock Threshold (Tablets)</FormLabel><FormControl><Input type="number" placeholder="e.g., 10" {...field} min="0" /></FormControl><FormMessage /></FormItem>)} />
-                    <FormDescription className="text-xs col-span-full">For new batches, ensure Generic Name, Batch No., Expiry, Cost, Threshold, and Tablets Added are filled. Brand & Dosage will pre-fill if Generic Name exists.</FormDescription>
+                    {!getLineProduct(watchedDrugsToRestock[index]?.newDrugDetails) && (
+                      <div className="space-y-2">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                          <FormField control={form.control} name={`drugsToRestock.${index}.newDrugDetails.lowStockThreshold`}
+                          render={({ field }) => (<FormItem><FormLabel>{t('restock.lowStockThreshold', { unit: translateUnit(t, getLineUnit(index), 2) })}</FormLabel><FormControl><Input type="number" placeholder={t('restock.lowStockThresholdPlaceholder')} {...field} value={field.value ?? ''} min="0" /></FormControl><FormMessage /></FormItem>)} />
+                          <FormField control={form.control} name={`drugsToRestock.${index}.newDrugDetails.reorderLevel`}
+                          render={({ field }) => (<FormItem><FormLabel>{t('restock.reorderLevel')}</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ''} min="0" /></FormControl><FormMessage /></FormItem>)} />
+                          <FormField control={form.control} name={`drugsToRestock.${index}.newDrugDetails.maxStockLevel`}
+                          render={({ field }) => (<FormItem><FormLabel>{t('restock.maxStockLevel')}</FormLabel><FormControl><Input type="number" {...field} value={field.value ?? ''} min="0" /></FormControl><FormMessage /></FormItem>)} />
+                        </div>
+                        <FormDescription className="text-xs">{t('restock.stockLevelsHint')}</FormDescription>
+                      </div>
+                    )}
+                    <FormDescription className="text-xs col-span-full">{t('restock.newBatchHint')}</FormDescription>
                   </div>
                 )}
                  <div className="text-right font-semibold mt-2">
-                    Line Total: INR {getLineItemTotal(index).toFixed(2)}
+                    {t('restock.lineTotal', { amount: formatAmount(getLineItemTotal(index)) })}
                 </div>
               </div>
             ))}
+            <datalist id="restock-product-categories">
+              {getProductCategories(products).map(category => <option key={category} value={category} />)}
+            </datalist>
             <Button
               type="button"
               variant="outline"
               onClick={() => {
                 append({
                     drugId: '',
-                    tabletsAdded: 10,
+                    quantity: 10,
                     newDrugDetails: getDefaultNewDrugDetails(),
-                    updatedPurchasePricePerTablet: undefined
+                    updatedPurchasePricePerUnit: undefined
                   });
                 }}
               className="w-full flex items-center gap-2"
             >
-              <PlusCircle className="h-4 w-4" /> Add Another Item
+              <PlusCircle className="h-4 w-4" /> {t('restock.addItem')}
             </Button>
 
             <Separator />
             <div className="text-right text-xl font-bold text-foreground">
-                Grand Total: INR {grandTotal.toFixed(2)}
+                {t('restock.grandTotal', { amount: formatAmount(grandTotal) })}
             </div>
             <Button type="submit" className="w-full text-lg py-6 shadow-md hover:shadow-lg transition-shadow">
-              Add All Batches to Stock
+              {t('restock.submit')}
             </Button>
           </form>
         </Form>
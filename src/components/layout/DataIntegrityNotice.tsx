@@ -0,0 +1,64 @@
+"use client";
+
+import React from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, Download, Trash2 } from 'lucide-react';
+import { Alert, AlertTitle, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useToast } from '@/hooks/use-toast';
+import { downloadTextFile } from '@/lib/backup';
+
+// Tells the user when stored data could not be loaded or was quarantined during
+// schema migration, and lets them save a copy of the quarantined records.
+export default function DataIntegrityNotice() {
+  const { storageError, quarantinedRecords, discardQuarantinedRecords } = useInventory();
+  const { toast } = useToast();
+
+  if (!storageError && quarantinedRecords.length === 0) return null;
+
+  const handleDownload = () => {
+    downloadTextFile(JSON.stringify(quarantinedRecords, null, 2), `FORRADS_MMU_Quarantine_${format(new Date(), 'yyyyMMdd_HHmmss')}.json`);
+  };
+
+  const handleDiscard = async () => {
+    if (!window.confirm("Permanently discard all quarantined records? Download a copy first if you may need them.")) return;
+    await discardQuarantinedRecords();
+    toast({
+      title: "Quarantine Cleared",
+      description: "Quarantined records have been discarded.",
+    });
+  };
+
+  return (
+    <div className="container mx-auto px-4 pt-4 space-y-2">
+      {storageError && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Inventory data could not be loaded</AlertTitle>
+          <AlertDescription>{storageError}</AlertDescription>
+        </Alert>
+      )}
+      {quarantinedRecords.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>{quarantinedRecords.length} stored record(s) quarantined</AlertTitle>
+          <AlertDescription>
+            <p>
+              Some saved data was corrupt or from an unknown version and has been set aside instead of being loaded.
+              It has not been deleted. First reason: {quarantinedRecords[0].reason}
+            </p>
+            <div className="flex gap-2 mt-2">
+              <Button variant="outline" size="sm" onClick={handleDownload}>
+                <Download className="mr-1 h-4 w-4" /> Download Quarantined Data
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleDiscard}>
+                <Trash2 className="mr-1 h-4 w-4" /> Discard
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
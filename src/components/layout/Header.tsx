@@ -1,23 +1,37 @@
 
 "use client";
 
-import { LayoutGrid, MinusCircle, PackagePlus, Edit3 as EditIcon, ListChecks, Tent } from 'lucide-react';
+import { LayoutGrid, MinusCircle, PackagePlus, Edit3 as EditIcon, ListChecks, Tent, Users, LogOut, Lock, UserCircle, Contact, Languages, Truck, BookOpen, ClipboardCheck } from 'lucide-react';
 import { usePathname } from 'next/navigation';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import Link from 'next/link';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { LOCALES, LOCALE_CODES } from '@/i18n';
+import type { LocaleCode, MessageKey } from '@/i18n';
+import { ROLE_LABELS } from '@/types';
+import type { Permission } from '@/types';
 
-const navItems = [
-  { href: './dispense', label: 'Dispense Drugs', icon: MinusCircle },
-  { href: './restock', label: 'Restock', icon: PackagePlus },
-  { href: '.', label: 'Dashboard', icon: LayoutGrid },
-  { href: './manage-drugs', label: 'Manage Drugs', icon: EditIcon },
-  { href: './transactions', label: 'Transactions', icon: ListChecks },
-  { href: './camps', label: 'Camps', icon: Tent },
+const navItems: { href: string; labelKey: MessageKey; icon: typeof LayoutGrid; permission?: Permission }[] = [
+  { href: './dispense', labelKey: 'nav.dispense', icon: MinusCircle, permission: 'dispense' },
+  { href: './restock', labelKey: 'nav.restock', icon: PackagePlus, permission: 'restock' },
+  { href: '.', labelKey: 'nav.dashboard', icon: LayoutGrid },
+  { href: './manage-drugs', labelKey: 'nav.manageDrugs', icon: EditIcon },
+  { href: './catalog', labelKey: 'nav.catalog', icon: BookOpen },
+  { href: './transactions', labelKey: 'nav.transactions', icon: ListChecks },
+  { href: './patients', labelKey: 'nav.patients', icon: Contact },
+  { href: './camps', labelKey: 'nav.camps', icon: Tent },
+  { href: './transfers', labelKey: 'nav.transfers', icon: Truck },
+  { href: './stock-take', labelKey: 'nav.stockTake', icon: ClipboardCheck },
+  { href: './users', labelKey: 'nav.users', icon: Users, permission: 'manageUsers' },
 ];
 
 export default function Header() {
   const pathname = usePathname();
+  const { currentUser, isLocked, hasPermission, logout, lock } = useAuth();
+  const { locale, setLocale, t } = useTranslation();
 
   const isCurrentPage = (href: string) => {
     const currentPath = pathname.substring(pathname.lastIndexOf('/') + 1);
@@ -33,11 +47,26 @@ export default function Header() {
   return (
     <header className="bg-card border-b border-border shadow-sm sticky top-0 z-50">
       <div className="container mx-auto px-4 h-16 flex items-center justify-between">
-        <a href="./index.html" className="flex items-center gap-2 text-xl font-headline font-bold text-primary">
-          <span>FORRADS MMU</span>
-        </a>
+        <div className="flex items-center gap-3">
+          <a href="./index.html" className="flex items-center gap-2 text-xl font-headline font-bold text-primary">
+            <span>FORRADS MMU</span>
+          </a>
+          {currentUser && !isLocked && (
+            <button
+              type="button"
+              onClick={lock}
+              title={t('nav.switchUser')}
+              className="flex items-center gap-1.5 rounded-full border border-border bg-muted/50 px-3 py-1 text-sm text-foreground hover:bg-primary/10 hover:text-primary transition-colors"
+            >
+              <UserCircle className="h-4 w-4" />
+              <span className="font-medium">{currentUser.name}</span>
+              <span className="hidden md:inline text-xs text-muted-foreground">({ROLE_LABELS[currentUser.role]})</span>
+            </button>
+          )}
+        </div>
+        {currentUser && !isLocked && (
         <nav className="flex items-center gap-1 sm:gap-2">
-          {navItems.map((item) => {
+          {navItems.filter(item => !item.permission || hasPermission(item.permission)).map((item) => {
             // Adjust href for electron build
             const finalHref = item.href.endsWith('.') ? './index.html' : `${item.href}.html`;
             return (
@@ -55,12 +84,44 @@ export default function Header() {
                     >
                     <a href={finalHref} className="flex items-center gap-2">
                         <item.icon className="h-4 w-4" />
-                        <span className="hidden sm:inline">{item.label}</span>
+                        <span className="hidden sm:inline">{t(item.labelKey)}</span>
                     </a>
                 </Button>
             );
         })}
+          <Select value={locale} onValueChange={(value) => setLocale(value as LocaleCode)}>
+            <SelectTrigger className="h-9 w-auto gap-1 border-none bg-transparent px-2 hover:bg-primary/10" title={t('language.title')} aria-label={t('language.label')}>
+              <Languages className="h-4 w-4" />
+              <span className="hidden lg:inline"><SelectValue /></span>
+            </SelectTrigger>
+            <SelectContent>
+              {LOCALE_CODES.map(code => (
+                <SelectItem key={code} value={code}>{LOCALES[code].label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={lock}
+            title={t('nav.lockTitle')}
+            className="text-foreground hover:bg-primary/10 hover:text-primary"
+          >
+            <Lock className="h-4 w-4" />
+            <span className="hidden sm:inline ml-2">{t('nav.lock')}</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={logout}
+            title={t('nav.logOutTitle', { name: currentUser.name })}
+            className="text-foreground hover:bg-destructive/10 hover:text-destructive"
+          >
+            <LogOut className="h-4 w-4" />
+            <span className="hidden sm:inline ml-2">{t('nav.logOut')}</span>
+          </Button>
         </nav>
+        )}
       </div>
     </header>
   );
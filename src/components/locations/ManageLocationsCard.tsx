@@ -0,0 +1,177 @@
+"use client";
+
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { CheckCircle, MapPinned, Pencil, PlusCircle, Trash2, X } from 'lucide-react';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { getLocationStock, LOCATION_KIND_LABELS } from '@/lib/locations';
+import type { StockLocation } from '@/types';
+import { formatQuantityTotals } from '@/lib/units';
+
+type LocationKind = StockLocation['kind'];
+
+export default function ManageLocationsCard() {
+  const { locations, activeLocationId, drugs, addLocation, updateLocation, deleteLocation, setActiveLocation } = useInventory();
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const [newName, setNewName] = useState('');
+  const [newKind, setNewKind] = useState<LocationKind>('van');
+  // Location being renamed, with the values typed so far
+  const [editing, setEditing] = useState<{ id: string; name: string; kind: LocationKind } | null>(null);
+
+  const canManage = hasPermission('adjust');
+
+  const showResult = (result: { success: boolean; message?: string }, successTitle: string, failureTitle: string) => {
+    if (result.success) {
+      toast({
+        title: successTitle,
+        description: result.message,
+        action: <CheckCircle className="text-green-500" />,
+      });
+    } else {
+      toast({
+        variant: "destructive",
+        title: failureTitle,
+        description: result.message,
+      });
+    }
+    return result.success;
+  };
+
+  const handleAdd = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const result = await addLocation(newName, newKind);
+    if (showResult(result, "Location Added", "Failed to Add Location")) {
+      setNewName('');
+    }
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing) return;
+    const result = await updateLocation(editing.id, editing.name, editing.kind);
+    if (showResult(result, "Location Updated", "Failed to Update Location")) {
+      setEditing(null);
+    }
+  };
+
+  const stockAt = (locationId: string) =>
+    formatQuantityTotals(drugs.map(drug => ({ quantity: getLocationStock(drug, locationId), unit: drug.unit })).filter(line => line.quantity > 0));
+
+  return (
+    <Card className="shadow-xl">
+      <CardHeader>
+        <CardTitle className="font-headline flex items-center gap-2 text-2xl">
+          <MapPinned className="h-6 w-6 text-primary" />
+          Stock Locations
+        </CardTitle>
+        <CardDescription>
+          Each device dispenses, restocks and adjusts stock at its own location. Set this device to the van before taking it to a camp.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="active-location">This device is at</Label>
+          <Select
+            value={activeLocationId}
+            onValueChange={async (locationId) => showResult(await setActiveLocation(locationId), "Location Changed", "Failed to Change Location")}
+          >
+            <SelectTrigger id="active-location" className="w-full sm:w-72">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {locations.map(location => (
+                <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <ul className="space-y-2">
+          {locations.map(location => (
+            <li key={location.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-md border p-3 text-sm">
+              {editing?.id === location.id ? (
+                <div className="flex flex-1 flex-col sm:flex-row gap-2">
+                  <Input value={editing.name} onChange={(e) => setEditing({ ...editing, name: e.target.value })} aria-label="Location name" />
+                  <Select value={editing.kind} onValueChange={(kind) => setEditing({ ...editing, kind: kind as LocationKind })}>
+                    <SelectTrigger className="sm:w-40" aria-label="Location type">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(LOCATION_KIND_LABELS).map(([kind, label]) => (
+                        <SelectItem key={kind} value={kind}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ) : (
+                <div>
+                  <p className="font-medium flex items-center gap-2">
+                    {location.name}
+                    <Badge variant="outline">{LOCATION_KIND_LABELS[location.kind]}</Badge>
+                    {location.id === activeLocationId && <Badge>This device</Badge>}
+                  </p>
+                  <p className="text-muted-foreground">{stockAt(location.id) || 'No stock'} held</p>
+                </div>
+              )}
+              <div className="flex gap-1 shrink-0">
+                {editing?.id === location.id ? (
+                  <>
+                    <Button size="sm" className="h-8 px-2" onClick={handleSaveEdit}>Save</Button>
+                    <Button variant="outline" size="sm" className="h-8 px-2" onClick={() => setEditing(null)}>
+                      <X className="h-4 w-4" />
+                      <span className="sr-only">Cancel</span>
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button variant="outline" size="sm" className="h-8 px-2" disabled={!canManage} onClick={() => setEditing({ id: location.id, name: location.name, kind: location.kind })}>
+                      <Pencil className="mr-1 h-4 w-4" /> Edit
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="h-8 px-2"
+                      disabled={!canManage}
+                      onClick={async () => showResult(await deleteLocation(location.id), "Location Deleted", "Failed to Delete Location")}
+                    >
+                      <Trash2 className="mr-1 h-4 w-4" /> Delete
+                    </Button>
+                  </>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        {canManage && (
+          <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-2 sm:items-end">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="new-location-name">New Location</Label>
+              <Input id="new-location-name" placeholder="e.g., Van 2" value={newName} onChange={(e) => setNewName(e.target.value)} />
+            </div>
+            <Select value={newKind} onValueChange={(kind) => setNewKind(kind as LocationKind)}>
+              <SelectTrigger className="sm:w-40" aria-label="Location type">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(LOCATION_KIND_LABELS).map(([kind, label]) => (
+                  <SelectItem key={kind} value={kind}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button type="submit" className="shrink-0">
+              <PlusCircle className="mr-2 h-4 w-4" /> Add
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
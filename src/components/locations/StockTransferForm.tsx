@@ -0,0 +1,199 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { format, parseISO, isValid } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { ArrowRight, CheckCircle, PlusCircle, Trash2, Truck } from 'lucide-react';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { compareByExpiry } from '@/lib/fefo';
+import { getLocationStock } from '@/lib/locations';
+import { BASE_UNITS, formatQuantity } from '@/lib/units';
+
+interface TransferLine {
+  drugId: string;
+  quantity: string;
+}
+
+const EMPTY_LINE: TransferLine = { drugId: '', quantity: '' };
+
+const formatExpiry = (dateOfExpiry?: string) =>
+  dateOfExpiry && isValid(parseISO(dateOfExpiry)) ? format(parseISO(dateOfExpiry), 'MM/yy') : 'N/A';
+
+export default function StockTransferForm() {
+  const { drugs, locations, activeLocationId, transferStock } = useInventory();
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const [fromLocationId, setFromLocationId] = useState(activeLocationId);
+  const [toLocationId, setToLocationId] = useState('');
+  const [lines, setLines] = useState<TransferLine[]>([EMPTY_LINE]);
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // A location deleted elsewhere, or a first load before locations arrive, leaves nothing sensible selected
+  useEffect(() => {
+    if (!locations.some(l => l.id === fromLocationId)) setFromLocationId(activeLocationId);
+    if (toLocationId && !locations.some(l => l.id === toLocationId)) setToLocationId('');
+  }, [locations, activeLocationId, fromLocationId, toLocationId]);
+
+  const batchesAtSource = useMemo(
+    () => drugs
+      .filter(drug => getLocationStock(drug, fromLocationId) > 0)
+      .sort((a, b) => a.name.localeCompare(b.name) || compareByExpiry(a, b)),
+    [drugs, fromLocationId]
+  );
+
+  const updateLine = (index: number, changes: Partial<TransferLine>) =>
+    setLines(prev => prev.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+
+  const handleFromChange = (locationId: string) => {
+    setFromLocationId(locationId);
+    setLines([EMPTY_LINE]);
+    if (locationId === toLocationId) setToLocationId('');
+  };
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    const entries = lines
+      .filter(line => line.drugId)
+      .map(line => ({ drugId: line.drugId, quantity: Number(line.quantity) }));
+    const result = await transferStock(fromLocationId, toLocationId, entries, notes);
+    setIsSubmitting(false);
+    if (result.success) {
+      toast({
+        title: "Stock Transferred",
+        description: result.message,
+        action: <CheckCircle className="text-green-500" />,
+      });
+      setLines([EMPTY_LINE]);
+      setNotes('');
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Transfer Failed",
+        description: result.message,
+      });
+    }
+  };
+
+  if (locations.length < 2) {
+    return (
+      <Card className="shadow-xl">
+        <CardHeader>
+          <CardTitle className="font-headline flex items-center gap-2 text-2xl">
+            <Truck className="h-6 w-6 text-primary" />
+            Transfer Stock
+          </CardTitle>
+          <CardDescription>Add a van or another store below to move stock between locations.</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="shadow-xl">
+      <CardHeader>
+        <CardTitle className="font-headline flex items-center gap-2 text-2xl">
+          <Truck className="h-6 w-6 text-primary" />
+          Transfer Stock
+        </CardTitle>
+        <CardDescription>Record batches moved between the store and a van, such as loading the van before a camp or unloading it after.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="transfer-from">From</Label>
+              <Select value={fromLocationId} onValueChange={handleFromChange}>
+                <SelectTrigger id="transfer-from">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map(location => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <ArrowRight className="hidden sm:block h-5 w-5 mb-2.5 text-muted-foreground" />
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="transfer-to">To</Label>
+              <Select value={toLocationId} onValueChange={setToLocationId}>
+                <SelectTrigger id="transfer-to">
+                  <SelectValue placeholder="Select destination" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.filter(location => location.id !== fromLocationId).map(location => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            {lines.map((line, index) => {
+              const batch = drugs.find(d => d.id === line.drugId);
+              return (
+                <div key={index} className="flex flex-col sm:flex-row gap-2 sm:items-center">
+                  <Select value={line.drugId} onValueChange={(drugId) => updateLine(index, { drugId })}>
+                    <SelectTrigger className="flex-1" aria-label="Batch">
+                      <SelectValue placeholder="Select batch" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {batchesAtSource.length === 0 && <p className="p-2 text-sm text-muted-foreground">No stock at this location.</p>}
+                      {batchesAtSource.map(drug => (
+                        <SelectItem key={drug.id} value={drug.id}>
+                          {[drug.brandName, drug.name, drug.dosage].filter(Boolean).join(' ')} (Batch: {drug.batchNumber || 'N/A'}) Exp: {formatExpiry(drug.dateOfExpiry)} (Stock: {formatQuantity(getLocationStock(drug, fromLocationId), drug.unit)})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={batch ? getLocationStock(batch, fromLocationId) : undefined}
+                    placeholder={batch ? BASE_UNITS[batch.unit].other : "Quantity"}
+                    className="sm:w-32"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                    aria-label="Quantity to transfer"
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    className="shrink-0"
+                    disabled={lines.length === 1}
+                    onClick={() => setLines(prev => prev.filter((_, i) => i !== index))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">Remove line</span>
+                  </Button>
+                </div>
+              );
+            })}
+            <Button type="button" variant="outline" size="sm" onClick={() => setLines(prev => [...prev, EMPTY_LINE])}>
+              <PlusCircle className="mr-2 h-4 w-4" /> Add Batch
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="transfer-notes">Notes (Optional)</Label>
+            <Input id="transfer-notes" placeholder="e.g., Loaded for the camp at Wadi" value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+
+          <Button type="submit" className="w-full" disabled={isSubmitting || !toLocationId || !hasPermission('restock')}>
+            <Truck className="mr-2 h-4 w-4" /> Transfer Stock
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
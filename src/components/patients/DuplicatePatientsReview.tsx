@@ -0,0 +1,202 @@
+"use client";
+
+import React, { useState, useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { CheckCircle, GitMerge, Undo2, UserCheck, Users } from 'lucide-react';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { buildTransactionPatientIndex, getPatientVillageName } from '@/lib/patients';
+import { findDuplicatePatients } from '@/lib/patientDuplicates';
+import type { DuplicatePatientCandidate } from '@/lib/patientDuplicates';
+import type { Patient } from '@/types';
+import { describePatient } from '@/components/patients/PatientPicker';
+
+const pairKey = (candidate: DuplicatePatientCandidate) => candidate.patients.map(p => p.id).join('|');
+
+export default function DuplicatePatientsReview() {
+  const { patients, transactions, villages, mergePatientRecords, undoPatientMerge, dismissDuplicatePatients } = useInventory();
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  // Which record of each pair is kept; defaults to the one with more dispenses
+  const [keptIds, setKeptIds] = useState<Record<string, string>>({});
+  const [pendingMerge, setPendingMerge] = useState<{ keep: Patient; duplicate: Patient } | null>(null);
+
+  const candidates = useMemo(() => findDuplicatePatients(patients), [patients]);
+  const dispenseCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    buildTransactionPatientIndex(patients, transactions).forEach(patientId => counts.set(patientId, (counts.get(patientId) || 0) + 1));
+    return counts;
+  }, [patients, transactions]);
+  const mergedPatients = useMemo(
+    () => patients.filter(p => p.mergedInto).sort((a, b) => b.mergedInto!.mergedAt.localeCompare(a.mergedInto!.mergedAt)),
+    [patients]
+  );
+
+  const canReview = hasPermission('adjust');
+
+  const getKeptId = (candidate: DuplicatePatientCandidate) => {
+    const [a, b] = candidate.patients;
+    return keptIds[pairKey(candidate)] || ((dispenseCounts.get(b.id) || 0) > (dispenseCounts.get(a.id) || 0) ? b.id : a.id);
+  };
+
+  const showResult = (result: { success: boolean; message?: string }, successTitle: string, failureTitle: string) => {
+    if (result.success) {
+      toast({
+        title: successTitle,
+        description: result.message,
+        action: <CheckCircle className="text-green-500" />,
+      });
+    } else {
+      toast({
+        variant: "destructive",
+        title: failureTitle,
+        description: result.message,
+      });
+    }
+  };
+
+  const handleConfirmMerge = async () => {
+    if (!pendingMerge) return;
+    const result = await mergePatientRecords(pendingMerge.keep.id, pendingMerge.duplicate.id);
+    showResult(result, "Patients Merged", "Merge Failed");
+    setPendingMerge(null);
+  };
+
+  const renderPatient = (patient: Patient, candidate: DuplicatePatientCandidate) => {
+    const isKept = getKeptId(candidate) === patient.id;
+    return (
+      <button
+        type="button"
+        onClick={() => setKeptIds(prev => ({ ...prev, [pairKey(candidate)]: patient.id }))}
+        disabled={!canReview}
+        className={`flex-1 text-left rounded-md border p-3 text-sm space-y-0.5 ${isKept ? 'border-primary bg-primary/5' : 'hover:bg-muted/50'}`}
+      >
+        <p className="flex items-center justify-between gap-2">
+          <span className="font-semibold">{patient.name}</span>
+          {isKept && <Badge variant="secondary"><UserCheck className="mr-1 h-3 w-3" /> Keep</Badge>}
+        </p>
+        <p className="text-muted-foreground">{describePatient(patient) || 'No age or sex recorded'}</p>
+        <p className="text-muted-foreground">
+          {[getPatientVillageName(patient, villages), patient.phone].filter(Boolean).join(' | ') || 'No village or phone'}
+        </p>
+        <p className="text-xs text-muted-foreground">
+          Registered {format(parseISO(patient.registeredAt), 'PP')} | {dispenseCounts.get(patient.id) || 0} dispense(s)
+        </p>
+      </button>
+    );
+  };
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="font-headline flex items-center gap-2 text-xl">
+          <Users className="h-5 w-5 text-primary" />
+          Possible Duplicates
+        </CardTitle>
+        <CardDescription>
+          Patients that may be registered twice, scored on name spelling, Aadhar digits, village and age. Pick the record to keep, then merge; every dispense moves to it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {candidates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No likely duplicates found.</p>
+        ) : (
+          <ul className="space-y-4">
+            {candidates.map(candidate => {
+              const keepId = getKeptId(candidate);
+              const keep = candidate.patients.find(p => p.id === keepId)!;
+              const duplicate = candidate.patients.find(p => p.id !== keepId)!;
+              return (
+                <li key={pairKey(candidate)} className="rounded-md border p-3 space-y-2">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge variant={candidate.score >= 80 ? 'destructive' : 'outline'}>Score {candidate.score}</Badge>
+                    <span className="text-muted-foreground">{candidate.reasons.join(' | ')}</span>
+                  </div>
+                  <div className="flex flex-col md:flex-row gap-2">
+                    {renderPatient(candidate.patients[0], candidate)}
+                    {renderPatient(candidate.patients[1], candidate)}
+                  </div>
+                  <div className="flex flex-wrap justify-end gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      disabled={!canReview}
+                      onClick={async () => showResult(await dismissDuplicatePatients(keep.id, duplicate.id), "Duplicate Dismissed", "Could Not Dismiss")}
+                    >
+                      Not the Same Person
+                    </Button>
+                    <Button type="button" size="sm" disabled={!canReview} onClick={() => setPendingMerge({ keep, duplicate })}>
+                      <GitMerge className="mr-1 h-4 w-4" /> Merge into {keep.name}
+                    </Button>
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        {mergedPatients.length > 0 && (
+          <div className="space-y-2">
+            <h3 className="font-semibold text-sm">Merged Records</h3>
+            <ul className="divide-y rounded-md border text-sm">
+              {mergedPatients.map(patient => {
+                const record = patient.mergedInto!;
+                const kept = patients.find(p => p.id === record.patientId);
+                return (
+                  <li key={patient.id} className="flex flex-wrap items-center justify-between gap-2 p-2">
+                    <span>
+                      <span className="font-medium">{patient.name}</span> merged into{' '}
+                      <a href={`./patient-history.html?id=${encodeURIComponent(record.patientId)}`} className="text-primary underline">{kept?.name || 'a removed patient'}</a>
+                      <span className="block text-xs text-muted-foreground">
+                        {format(parseISO(record.mergedAt), 'PPp')}{record.mergedBy ? ` by ${record.mergedBy.userName}` : ''} | {record.movedTransactionIds.length} dispense(s) moved
+                      </span>
+                    </span>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      disabled={!canReview}
+                      onClick={async () => showResult(await undoPatientMerge(patient.id), "Merge Undone", "Undo Failed")}
+                    >
+                      <Undo2 className="mr-1 h-4 w-4" /> Undo
+                    </Button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!pendingMerge} onOpenChange={(open) => { if (!open) setPendingMerge(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge Patients?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingMerge && `"${pendingMerge.duplicate.name}" will be merged into "${pendingMerge.keep.name}". Their dispenses move to the kept record and missing details are copied over. The merge is recorded in the transaction log and can be undone.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmMerge}>Merge</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -0,0 +1,196 @@
+"use client";
+
+import React, { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { CheckCircle, UserPlus, UserCog } from 'lucide-react';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useToast } from '@/hooks/use-toast';
+import { getPatientAge } from '@/lib/patients';
+import type { Patient } from '@/types';
+import { DEFAULT_LOCALE, LOCALES, LOCALE_CODES } from '@/i18n';
+import type { LocaleCode } from '@/i18n';
+
+// Select value for "no home village" (Radix Select cannot use an empty string)
+const NO_VILLAGE_VALUE = '--none--';
+
+const patientFormSchema = z.object({
+  name: z.string().min(2, { message: "Patient name must be at least 2 characters." }),
+  dateOfBirth: z.string().optional(),
+  age: z.coerce.number().int().min(0, { message: "Age cannot be negative." }).max(130, { message: "Age looks too high." }).optional(),
+  sex: z.enum(['Male', 'Female', 'Other']).optional(),
+  aadharLastFour: z.string().regex(/^(\d{4})?$/, { message: "Aadhar must be 4 digits." }),
+  phone: z.string().regex(/^[0-9+\- ]*$/, { message: "Phone can only contain digits, spaces, + and -." }),
+  villageId: z.string(),
+  preferredLanguage: z.enum(['en', 'hi', 'mr']),
+}).refine(data => !!data.dateOfBirth || (typeof data.age === 'number' && data.age > 0), {
+  message: "Enter a date of birth or an approximate age.",
+  path: ['age'],
+});
+
+type PatientFormData = z.infer<typeof patientFormSchema>;
+
+interface PatientFormDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Editing when given, registering a new patient otherwise
+  patient?: Patient | null;
+  initialName?: string;
+  onSaved?: (patient: Patient) => void;
+}
+
+export default function PatientFormDialog({ isOpen, onClose, patient, initialName, onSaved }: PatientFormDialogProps) {
+  const { villages, addPatient, updatePatient } = useInventory();
+  const { toast } = useToast();
+
+  const form = useForm<PatientFormData>({
+    resolver: zodResolver(patientFormSchema),
+    defaultValues: { name: '', dateOfBirth: '', age: undefined, sex: undefined, aadharLastFour: '', phone: '', villageId: NO_VILLAGE_VALUE, preferredLanguage: DEFAULT_LOCALE },
+  });
+
+  useEffect(() => {
+    if (!isOpen) return;
+    form.reset({
+      name: patient?.name || initialName || '',
+      // An estimated birth date is shown as the age it came from
+      dateOfBirth: patient?.dateOfBirth && !patient.dateOfBirthEstimated ? patient.dateOfBirth : '',
+      age: patient?.dateOfBirthEstimated ? getPatientAge(patient) : undefined,
+      sex: patient?.sex,
+      aadharLastFour: patient?.aadharLastFour || '',
+      phone: patient?.phone || '',
+      villageId: patient?.villageId || NO_VILLAGE_VALUE,
+      preferredLanguage: patient?.preferredLanguage || DEFAULT_LOCALE,
+    });
+  }, [isOpen, patient, initialName, form]);
+
+  async function onSubmit(data: PatientFormData) {
+    const patientData = {
+      name: data.name,
+      dateOfBirth: data.dateOfBirth || undefined,
+      age: data.dateOfBirth ? undefined : data.age,
+      sex: data.sex,
+      aadharLastFour: data.aadharLastFour,
+      phone: data.phone,
+      villageId: data.villageId === NO_VILLAGE_VALUE ? undefined : data.villageId,
+      preferredLanguage: data.preferredLanguage,
+    };
+    const result = patient ? await updatePatient(patient.id, patientData) : await addPatient(patientData);
+    if (result.success && result.patient) {
+      toast({
+        title: patient ? "Patient Updated" : "Patient Registered",
+        description: result.message,
+        action: <CheckCircle className="text-green-500" />,
+      });
+      onSaved?.(result.patient);
+      onClose();
+    } else {
+      toast({
+        variant: "destructive",
+        title: patient ? "Failed to Update Patient" : "Failed to Register Patient",
+        description: result.message,
+      });
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {patient ? <UserCog className="h-5 w-5 text-primary" /> : <UserPlus className="h-5 w-5 text-primary" />}
+            {patient ? 'Edit Patient' : 'New Patient'}
+          </DialogTitle>
+          <DialogDescription>
+            {patient ? 'Changes apply to future dispenses. Past transactions keep the details they were recorded with.' : 'Register the patient once; later visits can pick them by name.'}
+          </DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField control={form.control} name="name" render={({ field }) => (<FormItem className="md:col-span-2"><FormLabel>Full Name</FormLabel><FormControl><Input placeholder="Enter patient's full name" {...field} /></FormControl><FormMessage /></FormItem>)} />
+            <FormField control={form.control} name="dateOfBirth" render={({ field }) => (<FormItem><FormLabel>Date of Birth</FormLabel><FormControl><Input type="date" {...field} /></FormControl><FormMessage /></FormItem>)} />
+            <FormField control={form.control} name="age" render={({ field }) => (<FormItem><FormLabel>Or Approximate Age</FormLabel><FormControl><Input type="number" placeholder="Years" {...field} value={field.value ?? ''} min="0" /></FormControl><FormDescription>Used when the birth date is not known.</FormDescription><FormMessage /></FormItem>)} />
+            <FormField control={form.control} name="sex" render={({ field }) => (<FormItem><FormLabel>Sex</FormLabel><Select onValueChange={field.onChange} value={field.value}><FormControl><SelectTrigger><SelectValue placeholder="Select sex" /></SelectTrigger></FormControl><SelectContent><SelectItem value="Male">Male</SelectItem><SelectItem value="Female">Female</SelectItem><SelectItem value="Other">Other</SelectItem></SelectContent></Select><FormMessage /></FormItem>)} />
+            <FormField control={form.control} name="aadharLastFour" render={({ field }) => (<FormItem><FormLabel>Aadhar (Last 4 Digits)</FormLabel><FormControl><Input type="text" placeholder="1234" {...field} maxLength={4} /></FormControl><FormMessage /></FormItem>)} />
+            <FormField control={form.control} name="phone" render={({ field }) => (<FormItem><FormLabel>Phone</FormLabel><FormControl><Input type="tel" placeholder="Optional" {...field} /></FormControl><FormMessage /></FormItem>)} />
+            <FormField
+              control={form.control}
+              name="villageId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Home Village</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select village" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_VILLAGE_VALUE}>Not recorded</SelectItem>
+                      {villages.map((village) => (
+                        <SelectItem key={village.id} value={village.id}>
+                          {village.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="preferredLanguage"
+              render={({ field }) => (
+                <FormItem className="md:col-span-2">
+                  <FormLabel>Slip Language</FormLabel>
+                  <Select onValueChange={(value) => field.onChange(value as LocaleCode)} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {LOCALE_CODES.map(code => (
+                        <SelectItem key={code} value={code}>{LOCALES[code].label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormDescription>Medicine slips for this patient are printed in this language.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter className="md:col-span-2">
+              <DialogClose asChild>
+                <Button type="button" variant="outline">Cancel</Button>
+              </DialogClose>
+              <Button type="submit">{patient ? 'Save Changes' : 'Register Patient'}</Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,209 @@
+"use client";
+
+import React, { useMemo } from 'react';
+import { format, parseISO, differenceInCalendarDays } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableHead,
+  TableCell,
+} from '@/components/ui/table';
+import { CalendarDays, History, MapPin, Phone, Pill, Repeat } from 'lucide-react';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useTranslation } from '@/contexts/LanguageContext';
+import { getVoidStatusMap } from '@/lib/voids';
+import {
+  getPatientAge,
+  getPatientTransactions,
+  getPatientVillageName,
+  summarizePatientDrugs,
+  CHRONIC_MEDICINE_MIN_VISITS,
+} from '@/lib/patients';
+import { translateRegimen } from '@/lib/regimen';
+import { formatQuantity, getBaseUnit } from '@/lib/units';
+
+interface PatientHistoryProps {
+  patientId: string;
+}
+
+const formatDaysAgo = (timestamp: string) => {
+  const days = differenceInCalendarDays(new Date(), parseISO(timestamp));
+  return days === 0 ? 'today' : `${days} day(s) ago`;
+};
+
+export default function PatientHistory({ patientId }: PatientHistoryProps) {
+  const { transactions, villages, getPatientById, getDrugById } = useInventory();
+  const { t } = useTranslation();
+  const patient = getPatientById(patientId);
+
+  const voidStatusMap = useMemo(() => getVoidStatusMap(transactions), [transactions]);
+
+  // Newest first, like the Transactions page
+  const dispenses = useMemo(
+    () => (patient ? getPatientTransactions(patient, transactions).filter(txn => txn.type === 'dispense') : []),
+    [patient, transactions]
+  );
+  const drugSummaries = useMemo(() => summarizePatientDrugs(dispenses, voidStatusMap), [dispenses, voidStatusMap]);
+  const chronicMedicines = drugSummaries.filter(summary => summary.visitCount >= CHRONIC_MEDICINE_MIN_VISITS);
+
+  if (!patient) {
+    return <p className="text-center text-muted-foreground py-10">Patient not found. They may have been removed or merged.</p>;
+  }
+
+  if (patient.mergedInto) {
+    const kept = getPatientById(patient.mergedInto.patientId);
+    return (
+      <p className="text-center text-muted-foreground py-10">
+        {patient.name} was merged into{' '}
+        <a href={`./patient-history.html?id=${encodeURIComponent(patient.mergedInto.patientId)}`} className="text-primary underline">{kept?.name || 'another patient'}</a>
+        {' '}on {format(parseISO(patient.mergedInto.mergedAt), 'PP')}.
+      </p>
+    );
+  }
+
+  const age = getPatientAge(patient);
+  const villageName = getPatientVillageName(patient, villages);
+
+  return (
+    <div className="space-y-6">
+      <Card className="shadow-xl">
+        <CardHeader>
+          <CardTitle className="font-headline flex items-center gap-2 text-2xl">
+            <History className="h-6 w-6 text-primary" />
+            {patient.name}
+          </CardTitle>
+          <CardDescription className="space-y-0.5">
+            <span className="block">
+              {[age !== undefined ? `${patient.dateOfBirthEstimated ? 'About ' : ''}${age} years` : null, patient.sex, patient.aadharLastFour ? `Aadhar ••${patient.aadharLastFour}` : null].filter(Boolean).join(' | ') || 'No age or sex recorded'}
+            </span>
+            {villageName && <span className="flex items-center"><MapPin className="h-3.5 w-3.5 mr-1" />{villageName}</span>}
+            {patient.phone && <span className="flex items-center"><Phone className="h-3.5 w-3.5 mr-1" />{patient.phone}</span>}
+            <span className="block">
+              Registered {format(parseISO(patient.registeredAt), 'PP')} | {dispenses.length} visit(s)
+              {dispenses.length > 0 && `, last ${format(parseISO(dispenses[0].timestamp), 'PP')}`}
+            </span>
+          </CardDescription>
+        </CardHeader>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle className="font-headline flex items-center gap-2 text-xl">
+              <Repeat className="h-5 w-5 text-primary" />
+              Chronic Medicines
+            </CardTitle>
+            <CardDescription>Medicines given at {CHRONIC_MEDICINE_MIN_VISITS} or more visits.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {chronicMedicines.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No repeat medicines yet.</p>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {chronicMedicines.map(summary => (
+                  <li key={summary.groupKey} className="flex items-start justify-between gap-2">
+                    <span className="font-medium">{summary.displayName}</span>
+                    <span className="text-right text-muted-foreground shrink-0">
+                      Last given {format(parseISO(summary.lastDispensedAt), 'PP')}
+                      <span className="block text-xs">{formatDaysAgo(summary.lastDispensedAt)}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-lg">
+          <CardHeader>
+            <CardTitle className="font-headline flex items-center gap-2 text-xl">
+              <Pill className="h-5 w-5 text-primary" />
+              Totals per Drug
+            </CardTitle>
+            <CardDescription>Voided lines are not counted.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {drugSummaries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing dispensed yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Drug</TableHead>
+                    <TableHead className="text-right">Visits</TableHead>
+                    <TableHead className="text-right">Total Given</TableHead>
+                    <TableHead>Last Given</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {drugSummaries.map(summary => (
+                    <TableRow key={summary.groupKey}>
+                      <TableCell className="font-medium">{summary.displayName}</TableCell>
+                      <TableCell className="text-right">{summary.visitCount}</TableCell>
+                      <TableCell className="text-right">{formatQuantity(summary.totalQuantity, summary.unit)}</TableCell>
+                      <TableCell>{format(parseISO(summary.lastDispensedAt), 'PP')}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="font-headline flex items-center gap-2 text-xl">
+            <CalendarDays className="h-5 w-5 text-primary" />
+            Visit Timeline
+          </CardTitle>
+          <CardDescription>Every dispense to this patient, most recent first.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {dispenses.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No dispenses recorded for this patient.</p>
+          ) : (
+            <ol className="relative border-l border-border ml-2 space-y-6">
+              {dispenses.map(txn => {
+                const voidStatus = voidStatusMap.get(txn.id);
+                return (
+                  <li key={txn.id} className="ml-4">
+                    <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-primary" />
+                    <div className="flex flex-wrap items-center gap-2 text-sm">
+                      <a href={`./transactions.html#txn-${txn.id}`} className="font-semibold text-primary underline">
+                        {format(parseISO(txn.timestamp), 'PPpp')}
+                      </a>
+                      {txn.villageName && <span className="flex items-center text-muted-foreground"><MapPin className="h-3.5 w-3.5 mr-1" />{txn.villageName}</span>}
+                      {txn.performedBy && <span className="text-muted-foreground">by {txn.performedBy.userName}</span>}
+                      {voidStatus && <Badge variant="destructive">{voidStatus.fullyVoided ? 'Voided' : 'Partially voided'}</Badge>}
+                    </div>
+                    <ul className="mt-1 space-y-1 text-sm">
+                      {txn.drugs.map((detail, lineIndex) => {
+                        const voided = !!voidStatus?.voidedLineIndexes.has(lineIndex);
+                        const batch = getDrugById(detail.drugId);
+                        return (
+                          <li key={`${detail.drugId}-${lineIndex}`} className={voided ? 'line-through text-muted-foreground' : undefined}>
+                            <span className="font-medium">{formatQuantity(Math.abs(detail.quantity), getBaseUnit(detail))} x {detail.brandName || detail.drugName} {detail.dosage || ''}</span>
+                            <span className="text-muted-foreground">
+                              {detail.regimen && ` | ${translateRegimen(t, detail.regimen, getBaseUnit(detail))}`}
+                              {' '}| Batch: {detail.batchNumber || 'N/A'}
+                              {batch?.dateOfExpiry && ` | Exp: ${format(parseISO(batch.dateOfExpiry), 'MM/yy')}`}
+                            </span>
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
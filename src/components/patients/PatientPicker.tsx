@@ -0,0 +1,152 @@
+"use client";
+
+import React, { useState, useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Search, UserPlus, UserCog, X, MapPin, Phone, History, ExternalLink } from 'lucide-react';
+import { useInventory } from '@/contexts/InventoryContext';
+import { getPatientAge, getPatientVillageName, isActivePatient, normalizePatientName } from '@/lib/patients';
+import type { Patient } from '@/types';
+import PatientFormDialog from '@/components/patients/PatientFormDialog';
+import PatientHistory from '@/components/patients/PatientHistory';
+
+const MAX_RESULTS = 8;
+
+interface PatientPickerProps {
+  selectedPatientId?: string;
+  onSelect: (patient: Patient | null) => void;
+}
+
+export const describePatient = (patient: Patient) => {
+  const age = getPatientAge(patient);
+  return [
+    age !== undefined ? `${patient.dateOfBirthEstimated ? '~' : ''}${age} yrs` : null,
+    patient.sex,
+    patient.aadharLastFour ? `Aadhar ••${patient.aadharLastFour}` : null,
+  ].filter(Boolean).join(' | ');
+};
+
+export default function PatientPicker({ selectedPatientId, onSelect }: PatientPickerProps) {
+  const { patients, villages, getPatientById } = useInventory();
+  const [query, setQuery] = useState('');
+  const [dialogState, setDialogState] = useState<{ mode: 'new' | 'edit' | 'history' } | null>(null);
+
+  const selectedPatient = selectedPatientId ? getPatientById(selectedPatientId) : undefined;
+
+  // Matches name words, Aadhar digits or phone number
+  const matches = useMemo(() => {
+    const term = normalizePatientName(query);
+    if (term.length < 2) return [];
+    const digits = term.replace(/\D/g, '');
+    return patients
+      .filter(patient =>
+        isActivePatient(patient)
+        && (normalizePatientName(patient.name).includes(term)
+        || (digits.length >= 4 && (patient.aadharLastFour === digits || (patient.phone || '').replace(/\D/g, '').includes(digits))))
+      )
+      .slice(0, MAX_RESULTS);
+  }, [patients, query]);
+
+  if (selectedPatient) {
+    const villageName = getPatientVillageName(selectedPatient, villages);
+    return (
+      <div className="flex items-start justify-between gap-2 p-3 rounded-md border bg-muted/30">
+        <div className="text-sm space-y-0.5">
+          <p className="font-semibold text-foreground">{selectedPatient.name}</p>
+          <p className="text-muted-foreground">{describePatient(selectedPatient) || 'No age or sex recorded'}</p>
+          {villageName && <p className="flex items-center text-muted-foreground"><MapPin className="h-3.5 w-3.5 mr-1" />{villageName}</p>}
+          {selectedPatient.phone && <p className="flex items-center text-muted-foreground"><Phone className="h-3.5 w-3.5 mr-1" />{selectedPatient.phone}</p>}
+          <p className="text-xs text-muted-foreground">Registered {format(parseISO(selectedPatient.registeredAt), 'PP')}</p>
+        </div>
+        <div className="flex flex-wrap justify-end gap-1 shrink-0">
+          <Button type="button" variant="outline" size="sm" onClick={() => setDialogState({ mode: 'history' })}>
+            <History className="mr-1 h-4 w-4" /> History
+          </Button>
+          <Button type="button" variant="outline" size="sm" onClick={() => setDialogState({ mode: 'edit' })}>
+            <UserCog className="mr-1 h-4 w-4" /> Edit
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={() => { setQuery(''); onSelect(null); }}>
+            <X className="mr-1 h-4 w-4" /> Change
+          </Button>
+        </div>
+        <PatientFormDialog
+          isOpen={dialogState?.mode === 'edit'}
+          patient={selectedPatient}
+          onClose={() => setDialogState(null)}
+          onSaved={onSelect}
+        />
+        {/* Shown in a dialog so the half-filled dispense form is kept */}
+        <Dialog open={dialogState?.mode === 'history'} onOpenChange={(open) => { if (!open) setDialogState(null); }}>
+          <DialogContent className="sm:max-w-4xl">
+            <DialogHeader>
+              <DialogTitle>Patient History</DialogTitle>
+              <DialogDescription>
+                <a href={`./patient-history.html?id=${encodeURIComponent(selectedPatient.id)}`} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-primary underline">
+                  Open as a full page <ExternalLink className="ml-1 h-3.5 w-3.5" />
+                </a>
+              </DialogDescription>
+            </DialogHeader>
+            <ScrollArea className="max-h-[70vh] pr-3">
+              <PatientHistory patientId={selectedPatient.id} />
+            </ScrollArea>
+          </DialogContent>
+        </Dialog>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <div className="relative flex-grow">
+          <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by name, Aadhar last 4 or phone"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+        <Button type="button" variant="outline" onClick={() => setDialogState({ mode: 'new' })} className="shrink-0">
+          <UserPlus className="mr-1 h-4 w-4" /> New Patient
+        </Button>
+      </div>
+      {query.trim().length >= 2 && (
+        <div className="rounded-md border divide-y">
+          {matches.length === 0 ? (
+            <p className="p-3 text-sm text-muted-foreground">No registered patient matches &quot;{query.trim()}&quot;.</p>
+          ) : (
+            matches.map(patient => (
+              <button
+                key={patient.id}
+                type="button"
+                onClick={() => onSelect(patient)}
+                className="w-full text-left p-2 text-sm hover:bg-muted/50 focus:bg-muted/50 focus:outline-none"
+              >
+                <span className="font-medium">{patient.name}</span>
+                <span className="block text-xs text-muted-foreground">
+                  {[describePatient(patient), getPatientVillageName(patient, villages)].filter(Boolean).join(' | ')}
+                </span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+      <PatientFormDialog
+        isOpen={dialogState?.mode === 'new'}
+        initialName={query.trim()}
+        onClose={() => setDialogState(null)}
+        onSaved={onSelect}
+      />
+    </div>
+  );
+}
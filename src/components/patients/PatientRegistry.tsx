@@ -0,0 +1,162 @@
+"use client";
+
+import React, { useState, useMemo } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableHead,
+  TableCell,
+} from '@/components/ui/table';
+import { CheckCircle, Contact, History, Link2, Search, UserCog, UserPlus } from 'lucide-react';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { buildTransactionPatientIndex, getPatientAge, getPatientVillageName, isActivePatient, normalizePatientName } from '@/lib/patients';
+import type { Patient } from '@/types';
+import PatientFormDialog from '@/components/patients/PatientFormDialog';
+
+export default function PatientRegistry() {
+  const { patients, transactions, villages, linkPastDispenses } = useInventory();
+  const { hasPermission } = useAuth();
+  const { toast } = useToast();
+  const [query, setQuery] = useState('');
+  const [dialogState, setDialogState] = useState<{ patient: Patient | null } | null>(null);
+
+  const dispenseCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    const index = buildTransactionPatientIndex(patients, transactions);
+    transactions.forEach(txn => {
+      const patientId = index.get(txn.id);
+      if (txn.type === 'dispense' && patientId) counts.set(patientId, (counts.get(patientId) || 0) + 1);
+    });
+    return counts;
+  }, [patients, transactions]);
+
+  const activePatients = useMemo(() => patients.filter(isActivePatient), [patients]);
+
+  const filteredPatients = useMemo(() => {
+    const term = normalizePatientName(query);
+    if (!term) return activePatients;
+    return activePatients.filter(patient =>
+      normalizePatientName(patient.name).includes(term)
+      || patient.aadharLastFour === term
+      || (patient.phone || '').includes(term)
+      || (getPatientVillageName(patient, villages) || '').toLowerCase().includes(term)
+    );
+  }, [activePatients, villages, query]);
+
+  const handleLinkPastDispenses = async () => {
+    const result = await linkPastDispenses();
+    if (result.success) {
+      toast({
+        title: "Past Dispenses Linked",
+        description: result.message,
+        action: <CheckCircle className="text-green-500" />,
+      });
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Linking Failed",
+        description: result.message,
+      });
+    }
+  };
+
+  return (
+    <Card className="shadow-xl">
+      <CardHeader>
+        <CardTitle className="font-headline flex items-center gap-2 text-2xl">
+          <Contact className="h-6 w-6 text-primary" />
+          Patients
+        </CardTitle>
+        <CardDescription>
+          Every registered patient. Dispenses from before the registry are linked to patients by name, Aadhar digits, village and age.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <div className="relative flex-grow">
+            <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Search by name, Aadhar last 4, phone or village"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+          <Button type="button" variant="outline" onClick={handleLinkPastDispenses} disabled={!hasPermission('dispense')}>
+            <Link2 className="mr-2 h-4 w-4" /> Link Past Dispenses
+          </Button>
+          <Button type="button" onClick={() => setDialogState({ patient: null })} disabled={!hasPermission('dispense')}>
+            <UserPlus className="mr-2 h-4 w-4" /> New Patient
+          </Button>
+        </div>
+
+        {filteredPatients.length === 0 ? (
+          <p className="text-center text-muted-foreground py-10">
+            {activePatients.length === 0 ? 'No patients registered yet.' : 'No patients match your search.'}
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Age / Sex</TableHead>
+                  <TableHead>Aadhar (Last 4)</TableHead>
+                  <TableHead>Phone</TableHead>
+                  <TableHead>Village</TableHead>
+                  <TableHead>Registered</TableHead>
+                  <TableHead className="text-right">Dispenses</TableHead>
+                  <TableHead className="text-center">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredPatients.map(patient => {
+                  const age = getPatientAge(patient);
+                  return (
+                    <TableRow key={patient.id}>
+                      <TableCell className="font-medium">
+                        <a href={`./patient-history.html?id=${encodeURIComponent(patient.id)}`} className="text-primary underline">{patient.name}</a>
+                      </TableCell>
+                      <TableCell>
+                        {age !== undefined ? `${patient.dateOfBirthEstimated ? '~' : ''}${age}` : 'N/A'} / {patient.sex || 'N/A'}
+                      </TableCell>
+                      <TableCell>{patient.aadharLastFour || 'N/A'}</TableCell>
+                      <TableCell>{patient.phone || 'N/A'}</TableCell>
+                      <TableCell>{getPatientVillageName(patient, villages) || 'N/A'}</TableCell>
+                      <TableCell>{format(parseISO(patient.registeredAt), 'PP')}</TableCell>
+                      <TableCell className="text-right">{dispenseCounts.get(patient.id) || 0}</TableCell>
+                      <TableCell className="text-center space-x-1">
+                        <Button variant="outline" size="sm" asChild className="h-8 px-2">
+                          <a href={`./patient-history.html?id=${encodeURIComponent(patient.id)}`}>
+                            <History className="mr-1 h-4 w-4" /> History
+                          </a>
+                        </Button>
+                        <Button variant="outline" size="sm" onClick={() => setDialogState({ patient })} className="h-8 px-2" disabled={!hasPermission('dispense')}>
+                          <UserCog className="mr-1 h-4 w-4" /> Edit
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <PatientFormDialog
+        isOpen={!!dialogState}
+        patient={dialogState?.patient}
+        onClose={() => setDialogState(null)}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { CheckCircle, ClipboardCheck } from 'lucide-react';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useToast } from '@/hooks/use-toast';
+import { getProductCategories, getProductShelves } from '@/lib/products';
+import { STOCK_TAKE_SCOPE_LABELS, buildStockTakeLines } from '@/lib/stockTakes';
+import type { StockTakeScope } from '@/types';
+
+type ScopeKind = StockTakeScope['kind'];
+
+interface StartStockTakeDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Called with the new stock take so counting can begin straight away
+  onStarted: (stockTakeId: string) => void;
+}
+
+export default function StartStockTakeDialog({ isOpen, onClose, onStarted }: StartStockTakeDialogProps) {
+  const { products, drugs, locations, activeLocationId, startStockTake } = useInventory();
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [locationId, setLocationId] = useState(activeLocationId);
+  const [scopeKind, setScopeKind] = useState<ScopeKind>('all');
+  const [scopeValues, setScopeValues] = useState<string[]>([]);
+  const [notes, setNotes] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setName(`Stock take ${format(new Date(), 'dd MMM yyyy')}`);
+    setLocationId(activeLocationId);
+    setScopeKind('all');
+    setScopeValues([]);
+    setNotes('');
+  }, [isOpen, activeLocationId]);
+
+  const options = scopeKind === 'category' ? getProductCategories(products) : scopeKind === 'shelf' ? getProductShelves(products) : [];
+  const scope = useMemo<StockTakeScope>(
+    () => (scopeKind === 'all' ? { kind: 'all' } : { kind: scopeKind, values: scopeValues }),
+    [scopeKind, scopeValues]
+  );
+  const batchCount = useMemo(() => buildStockTakeLines(products, drugs, locationId, scope).length, [products, drugs, locationId, scope]);
+
+  const changeScopeKind = (kind: ScopeKind) => {
+    setScopeKind(kind);
+    setScopeValues([]);
+  };
+
+  const toggleValue = (value: string, checked: boolean) => {
+    setScopeValues(prev => (checked ? [...prev, value] : prev.filter(v => v !== value)));
+  };
+
+  const handleStart = async () => {
+    setIsSubmitting(true);
+    const result = await startStockTake({ name, locationId, scope, notes });
+    setIsSubmitting(false);
+    if (result.success && result.stockTake) {
+      toast({
+        title: "Stock Take Started",
+        description: result.message,
+        action: <CheckCircle className="text-green-500" />,
+      });
+      onClose();
+      onStarted(result.stockTake.id);
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Failed to Start Stock Take",
+        description: result.message,
+      });
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5 text-primary" />
+            Start Stock Take
+          </DialogTitle>
+          <DialogDescription>
+            The stock on record for every batch in scope is noted now. Counts entered later are compared with it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="grid gap-2">
+            <Label htmlFor="stockTakeName">Name</Label>
+            <Input id="stockTakeName" value={name} onChange={(e) => setName(e.target.value)} />
+          </div>
+          {locations.length > 1 && (
+            <div className="grid gap-2">
+              <Label htmlFor="stockTakeLocation">Location</Label>
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger id="stockTakeLocation">
+                  <SelectValue placeholder="Select location" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map(location => (
+                    <SelectItem key={location.id} value={location.id}>{location.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="grid gap-2">
+            <Label htmlFor="stockTakeScope">What to count</Label>
+            <Select value={scopeKind} onValueChange={(value) => changeScopeKind(value as ScopeKind)}>
+              <SelectTrigger id="stockTakeScope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(STOCK_TAKE_SCOPE_LABELS) as ScopeKind[]).map(kind => (
+                  <SelectItem key={kind} value={kind}>{STOCK_TAKE_SCOPE_LABELS[kind]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {scopeKind !== 'all' && (
+            options.length === 0 ? (
+              <p className="text-sm text-orange-600">
+                No product has a {scopeKind} yet. Set one in the drug catalog first.
+              </p>
+            ) : (
+              <div className="rounded-md border p-3 grid grid-cols-2 gap-2 max-h-48 overflow-y-auto">
+                {options.map(option => (
+                  <div key={option} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`scope-${option}`}
+                      checked={scopeValues.includes(option)}
+                      onCheckedChange={(checked) => toggleValue(option, checked === true)}
+                    />
+                    <Label htmlFor={`scope-${option}`} className="font-normal">{option}</Label>
+                  </div>
+                ))}
+              </div>
+            )
+          )}
+          <div className="grid gap-2">
+            <Label htmlFor="stockTakeNotes">Notes (Optional)</Label>
+            <Textarea id="stockTakeNotes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+          <p className="text-sm text-muted-foreground">{batchCount} batch(es) with stock at this location will be counted.</p>
+        </div>
+
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="outline">Cancel</Button>
+          </DialogClose>
+          <Button type="button" onClick={handleStart} disabled={isSubmitting || batchCount === 0}>
+            <ClipboardCheck className="mr-2 h-4 w-4" /> Start Counting
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
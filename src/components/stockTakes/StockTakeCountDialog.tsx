@@ -0,0 +1,301 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableHead,
+  TableCell,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { CheckCircle, ClipboardCheck, Printer, Save, XCircle } from 'lucide-react';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { getLocationName, getLocationStock } from '@/lib/locations';
+import { printHtml } from '@/lib/printing';
+import {
+  describeStockTakeScope,
+  getCountedQuantity,
+  getLineVariance,
+  getLineVarianceValue,
+  hasDifferingCounts,
+  renderCountSheetHtml,
+  summarizeStockTake,
+} from '@/lib/stockTakes';
+import type { StockTake } from '@/types';
+
+const formatExpiry = (dateOfExpiry?: string) => (dateOfExpiry ? format(parseISO(dateOfExpiry), 'MM/yy') : 'N/A');
+
+const formatSigned = (value: number, digits = 0) => (value > 0 ? `+${value.toFixed(digits)}` : value.toFixed(digits));
+
+const varianceClass = (variance?: number) =>
+  variance === undefined || variance === 0 ? '' : variance < 0 ? 'text-red-600 font-semibold' : 'text-green-600 font-semibold';
+
+interface StockTakeCountDialogProps {
+  stockTakeId: string | null;
+  onClose: () => void;
+}
+
+export default function StockTakeCountDialog({ stockTakeId, onClose }: StockTakeCountDialogProps) {
+  const { stockTakes, drugs, locations, recordStockTakeCounts, approveStockTake, cancelStockTake } = useInventory();
+  const { currentUser, hasPermission } = useAuth();
+  const { toast } = useToast();
+  const stockTake = stockTakes.find(st => st.id === stockTakeId);
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [countedBy, setCountedBy] = useState('');
+  const [pendingAction, setPendingAction] = useState<'approve' | 'cancel' | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!stockTakeId) return;
+    setCounts({});
+    setCountedBy(currentUser?.name || '');
+  }, [stockTakeId, currentUser]);
+
+  const summary = useMemo(() => (stockTake ? summarizeStockTake(stockTake) : null), [stockTake]);
+  const currentStock = useMemo(() => {
+    const byDrug = new Map<string, number>();
+    if (stockTake) {
+      drugs.forEach(drug => byDrug.set(drug.id, getLocationStock(drug, stockTake.locationId)));
+    }
+    return byDrug;
+  }, [drugs, stockTake]);
+
+  if (!stockTake || !summary) return null;
+
+  const isCounting = stockTake.status === 'counting';
+  const canCount = hasPermission('restock');
+  const canApprove = hasPermission('adjust');
+  const locationName = getLocationName(locations, stockTake.locationId);
+  const enteredCount = Object.values(counts).filter(value => value.trim() !== '').length;
+
+  const showResult = (result: { success: boolean; message?: string }, successTitle: string, failureTitle: string) => {
+    if (result.success) {
+      toast({
+        title: successTitle,
+        description: result.message,
+        action: <CheckCircle className="text-green-500" />,
+      });
+    } else {
+      toast({
+        variant: "destructive",
+        title: failureTitle,
+        description: result.message,
+      });
+    }
+  };
+
+  const handlePrint = async (current: StockTake, uncountedOnly: boolean) => {
+    const result = await printHtml(renderCountSheetHtml(current, locationName, uncountedOnly), 'A5');
+    if (!result.success) {
+      toast({
+        variant: "destructive",
+        title: "Printing Failed",
+        description: result.message,
+      });
+    }
+  };
+
+  const handleSaveCounts = async () => {
+    setIsSubmitting(true);
+    const entered = Object.fromEntries(Object.entries(counts)
+      .filter(([, value]) => value.trim() !== '')
+      .map(([drugId, value]) => [drugId, Number(value)]));
+    const result = await recordStockTakeCounts(stockTake.id, countedBy, entered);
+    setIsSubmitting(false);
+    showResult(result, "Counts Saved", "Failed to Save Counts");
+    if (result.success) setCounts({});
+  };
+
+  const handleConfirmAction = async () => {
+    if (!pendingAction) return;
+    setIsSubmitting(true);
+    const result = pendingAction === 'approve' ? await approveStockTake(stockTake.id) : await cancelStockTake(stockTake.id);
+    setIsSubmitting(false);
+    if (pendingAction === 'approve') {
+      showResult(result, "Stock Take Approved", "Failed to Approve Stock Take");
+    } else {
+      showResult(result, "Stock Take Cancelled", "Failed to Cancel Stock Take");
+    }
+    setPendingAction(null);
+  };
+
+  const uncountedCount = summary.lineCount - summary.countedCount;
+  const confirmText = pendingAction === 'approve'
+    ? {
+        title: 'Approve this stock take?',
+        description: `Stock will be adjusted for ${summary.varianceCount} batch(es) with a variance, in one adjustment. Net variance INR ${summary.netValue.toFixed(2)}.${uncountedCount > 0 ? ` ${uncountedCount} uncounted batch(es) are left as they are.` : ''} This cannot be undone except by voiding the adjustment.`,
+      }
+    : {
+        title: 'Cancel this stock take?',
+        description: 'The counts entered are kept for reference but no stock is changed.',
+      };
+
+  return (
+    <Dialog open={!!stockTakeId} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5 text-primary" />
+            {stockTake.name}
+          </DialogTitle>
+          <DialogDescription>
+            {locationName} | {describeStockTakeScope(stockTake.scope)} | Started {format(parseISO(stockTake.startedAt), 'PPp')}
+            {stockTake.startedBy && ` by ${stockTake.startedBy.userName}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="text-sm flex flex-wrap gap-x-4 gap-y-1">
+            <span><span className="font-medium">{summary.countedCount}</span> of {summary.lineCount} batch(es) counted</span>
+            <span><span className="font-medium">{summary.varianceCount}</span> with a variance</span>
+            <span className="text-red-600">Short INR {summary.shortageValue.toFixed(2)}</span>
+            <span className="text-green-600">Excess INR {summary.excessValue.toFixed(2)}</span>
+            <span className="font-semibold">Net INR {formatSigned(summary.netValue, 2)}</span>
+          </div>
+
+          <div className="max-h-[50vh] overflow-y-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Drug / Batch</TableHead>
+                  <TableHead>Shelf</TableHead>
+                  <TableHead className="text-right">Expected</TableHead>
+                  <TableHead className="text-right">Counted</TableHead>
+                  {isCounting && <TableHead className="w-24 text-right">New Count</TableHead>}
+                  <TableHead className="text-right">Variance</TableHead>
+                  <TableHead className="text-right">Value (INR)</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {stockTake.lines.map(line => {
+                  const counted = getCountedQuantity(line);
+                  const variance = getLineVariance(line);
+                  const stockNow = currentStock.get(line.drugId);
+                  const lastCount = line.counts[line.counts.length - 1];
+                  return (
+                    <TableRow key={line.drugId}>
+                      <TableCell>
+                        {line.displayName}
+                        <span className="block text-xs text-muted-foreground">Batch {line.batchNumber || 'N/A'}, Exp {formatExpiry(line.dateOfExpiry)}</span>
+                        {isCounting && stockNow === undefined && (
+                          <span className="block text-xs text-orange-600">Batch deleted; it will not be adjusted.</span>
+                        )}
+                        {isCounting && stockNow !== undefined && stockNow !== line.expectedQuantity && (
+                          <span className="block text-xs text-orange-600">Stock moved since the start (now {stockNow}). Count again if unsure.</span>
+                        )}
+                        {hasDifferingCounts(line) && (
+                          <span className="block text-xs text-orange-600">Counted {line.counts.length} times with different results: {line.counts.map(c => c.quantity).join(', ')}.</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{line.shelf || 'N/A'}</TableCell>
+                      <TableCell className="text-right">{line.expectedQuantity}</TableCell>
+                      <TableCell className="text-right">
+                        {counted ?? '-'}
+                        {lastCount && <span className="block text-xs text-muted-foreground">{lastCount.countedBy}</span>}
+                      </TableCell>
+                      {isCounting && (
+                        <TableCell className="text-right">
+                          <Input
+                            type="number"
+                            min="0"
+                            value={counts[line.drugId] ?? ''}
+                            onChange={(e) => setCounts(prev => ({ ...prev, [line.drugId]: e.target.value }))}
+                            className="h-8 text-right"
+                            disabled={!canCount}
+                          />
+                        </TableCell>
+                      )}
+                      <TableCell className={`text-right ${varianceClass(variance)}`}>{variance === undefined ? '-' : formatSigned(variance)}</TableCell>
+                      <TableCell className={`text-right ${varianceClass(variance)}`}>{variance ? formatSigned(getLineVarianceValue(line), 2) : '-'}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          {isCounting ? (
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="grid gap-2">
+                <Label htmlFor="countedBy">Counted by</Label>
+                <Input id="countedBy" value={countedBy} onChange={(e) => setCountedBy(e.target.value)} className="w-56" disabled={!canCount} />
+              </div>
+              <Button type="button" onClick={handleSaveCounts} disabled={!canCount || isSubmitting || enteredCount === 0}>
+                <Save className="mr-2 h-4 w-4" /> Save {enteredCount > 0 ? `${enteredCount} ` : ''}Count(s)
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              {stockTake.status === 'approved'
+                ? `Approved ${stockTake.approvedAt ? format(parseISO(stockTake.approvedAt), 'PPp') : ''}${stockTake.approvedBy ? ` by ${stockTake.approvedBy.userName}` : ''}. The variances were posted as one stock adjustment.`
+                : `Cancelled ${stockTake.cancelledAt ? format(parseISO(stockTake.cancelledAt), 'PPp') : ''}${stockTake.cancelledBy ? ` by ${stockTake.cancelledBy.userName}` : ''}. No stock was changed.`}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter className="flex-wrap gap-2">
+          <DialogClose asChild>
+            <Button type="button" variant="outline">Close</Button>
+          </DialogClose>
+          {isCounting && (
+            <>
+              <Button type="button" variant="outline" onClick={() => handlePrint(stockTake, false)}>
+                <Printer className="mr-2 h-4 w-4" /> Print Count Sheet
+              </Button>
+              {summary.countedCount > 0 && uncountedCount > 0 && (
+                <Button type="button" variant="outline" onClick={() => handlePrint(stockTake, true)}>
+                  <Printer className="mr-2 h-4 w-4" /> Print Uncounted
+                </Button>
+              )}
+              <Button type="button" variant="outline" onClick={() => setPendingAction('cancel')} disabled={!canApprove || isSubmitting}>
+                <XCircle className="mr-2 h-4 w-4" /> Cancel Stock Take
+              </Button>
+              <Button type="button" onClick={() => setPendingAction('approve')} disabled={!canApprove || isSubmitting || summary.countedCount === 0}>
+                <CheckCircle className="mr-2 h-4 w-4" /> Approve and Adjust Stock
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+
+      <AlertDialog open={!!pendingAction} onOpenChange={(open) => { if (!open) setPendingAction(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{confirmText.title}</AlertDialogTitle>
+            <AlertDialogDescription>{confirmText.description}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Back</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmAction}>Confirm</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Dialog>
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import React, { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { ClipboardCheck, ClipboardList, Eye } from 'lucide-react';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { getLocationName } from '@/lib/locations';
+import { describeStockTakeScope, summarizeStockTake } from '@/lib/stockTakes';
+import type { StockTake, StockTakeStatus } from '@/types';
+import StartStockTakeDialog from '@/components/stockTakes/StartStockTakeDialog';
+import StockTakeCountDialog from '@/components/stockTakes/StockTakeCountDialog';
+
+const STATUS_BADGE_VARIANT: Record<StockTakeStatus, 'default' | 'secondary' | 'outline'> = {
+  counting: 'default',
+  approved: 'secondary',
+  cancelled: 'outline',
+};
+
+export default function StockTakeSessions() {
+  const { stockTakes, locations } = useInventory();
+  const { hasPermission } = useAuth();
+  const [isStartDialogOpen, setIsStartDialogOpen] = useState(false);
+  const [openStockTakeId, setOpenStockTakeId] = useState<string | null>(null);
+
+  const openStockTakes = stockTakes.filter(st => st.status === 'counting');
+  const pastStockTakes = stockTakes.filter(st => st.status !== 'counting');
+
+  const renderStockTake = (stockTake: StockTake) => {
+    const summary = summarizeStockTake(stockTake);
+    return (
+      <li key={stockTake.id} className="rounded-md border p-4 flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+        <div className="space-y-1">
+          <p className="font-semibold flex items-center gap-2">
+            {stockTake.name}
+            <Badge variant={STATUS_BADGE_VARIANT[stockTake.status]} className="capitalize">{stockTake.status}</Badge>
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {getLocationName(locations, stockTake.locationId)} | {describeStockTakeScope(stockTake.scope)} | Started {format(parseISO(stockTake.startedAt), 'PP')}
+          </p>
+          <p className="text-sm">
+            <span className="font-medium">{summary.countedCount}</span> of {summary.lineCount} batch(es) counted,{' '}
+            <span className="font-medium">{summary.varianceCount}</span> with a variance
+            {summary.varianceCount > 0 && <>, net <span className="font-medium">INR {summary.netValue.toFixed(2)}</span></>}
+          </p>
+          {summary.counters.length > 0 && (
+            <p className="text-sm text-muted-foreground">Counted by {summary.counters.join(', ')}</p>
+          )}
+          {stockTake.notes && <p className="text-sm">{stockTake.notes}</p>}
+        </div>
+        <Button variant="outline" size="sm" className="h-8 px-2 shrink-0" onClick={() => setOpenStockTakeId(stockTake.id)}>
+          {stockTake.status === 'counting'
+            ? <><ClipboardList className="mr-1 h-4 w-4" /> Count</>
+            : <><Eye className="mr-1 h-4 w-4" /> View</>}
+        </Button>
+      </li>
+    );
+  };
+
+  return (
+    <Card className="shadow-xl">
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+          <div>
+            <CardTitle className="font-headline flex items-center gap-2 text-2xl">
+              <ClipboardCheck className="h-6 w-6 text-primary" />
+              Stock Take
+            </CardTitle>
+            <CardDescription>
+              Count what is on the shelves and compare it with the records. Counts can be entered over several sittings; approving posts every variance as one stock adjustment.
+            </CardDescription>
+          </div>
+          <Button type="button" onClick={() => setIsStartDialogOpen(true)} disabled={!hasPermission('adjust')} className="shrink-0">
+            <ClipboardCheck className="mr-2 h-4 w-4" /> Start Stock Take
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <section className="space-y-2">
+          <h3 className="font-semibold text-lg">In Progress</h3>
+          {openStockTakes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No stock take is being counted.</p>
+          ) : (
+            <ul className="space-y-3">{openStockTakes.map(renderStockTake)}</ul>
+          )}
+        </section>
+        {pastStockTakes.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="font-semibold text-lg">Past</h3>
+            <ul className="space-y-3">{pastStockTakes.map(renderStockTake)}</ul>
+          </section>
+        )}
+      </CardContent>
+
+      <StartStockTakeDialog
+        isOpen={isStartDialogOpen}
+        onClose={() => setIsStartDialogOpen(false)}
+        onStarted={setOpenStockTakeId}
+      />
+
+      <StockTakeCountDialog stockTakeId={openStockTakeId} onClose={() => setOpenStockTakeId(null)} />
+    </Card>
+  );
+}
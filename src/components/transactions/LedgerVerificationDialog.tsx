@@ -0,0 +1,142 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, Download, Loader2, ShieldCheck, ShieldX } from 'lucide-react';
+import type { LedgerVerificationResult, LedgerIssueKind } from '@/types';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useAuth } from '@/contexts/AuthContext';
+import { verifyLedger } from '@/lib/ledger';
+import { downloadTextFile } from '@/lib/backup';
+
+interface LedgerVerificationDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Lets the transaction table highlight the entries that failed
+  onVerified?: (result: LedgerVerificationResult) => void;
+}
+
+const ISSUE_LABELS: Record<LedgerIssueKind, string> = {
+  'content-altered': 'Altered',
+  'broken-link': 'Broken link',
+  'missing-entry': 'Missing',
+  'duplicate-sequence': 'Duplicate',
+  'unsealed': 'Not in ledger',
+};
+
+export default function LedgerVerificationDialog({ isOpen, onClose, onVerified }: LedgerVerificationDialogProps) {
+  const { transactions } = useInventory();
+  const { currentUser } = useAuth();
+  const [result, setResult] = useState<LedgerVerificationResult | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setResult(null);
+    setError('');
+    verifyLedger(transactions)
+      .then(verification => {
+        if (cancelled) return;
+        setResult(verification);
+        onVerified?.(verification);
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      });
+    return () => { cancelled = true; };
+    // Verify once per opening; the ledger does not change while the dialog is open
+  }, [isOpen]);
+
+  const handleDownloadReport = () => {
+    if (!result) return;
+    const report = { ...result, verifiedBy: currentUser?.name };
+    downloadTextFile(JSON.stringify(report, null, 2), `FORRADS_MMU_Ledger_Verification_${format(parseISO(result.checkedAt), 'yyyyMMdd_HHmmss')}.json`);
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5 text-primary" />
+            Verify Ledger Integrity
+          </DialogTitle>
+          <DialogDescription>
+            Recomputes every transaction&apos;s hash and checks that each one links to the entry before it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!result && !error && (
+          <div className="flex items-center justify-center py-8 text-muted-foreground">
+            <Loader2 className="h-6 w-6 animate-spin mr-2" /> Checking {transactions.length} transactions...
+          </div>
+        )}
+        {error && <p className="text-sm text-destructive py-4">Verification could not run: {error}</p>}
+
+        {result && (
+          <div className="grid gap-4 py-2">
+            {result.valid ? (
+              <div className="flex items-center gap-2 p-3 rounded-md border border-green-600/40 bg-green-600/10 text-green-700 dark:text-green-400">
+                <ShieldCheck className="h-5 w-5 shrink-0" />
+                <span>The ledger is intact. No entry has been altered, inserted or removed outside the app.</span>
+              </div>
+            ) : (
+              <div className="flex items-center gap-2 p-3 rounded-md border border-destructive/40 bg-destructive/10 text-destructive">
+                <ShieldX className="h-5 w-5 shrink-0" />
+                <span>{result.issues.length} problem(s) found. The affected entries are highlighted in the log.</span>
+              </div>
+            )}
+
+            <div className="rounded-md border p-4 space-y-1 text-sm">
+              <p><strong>Entries checked:</strong> {result.entryCount}</p>
+              <p><strong>Latest entry:</strong> #{result.headSequence}</p>
+              <p className="break-all"><strong>Latest hash:</strong> <span className="font-mono text-xs">{result.headHash}</span></p>
+              <p className="text-xs text-muted-foreground pt-1">
+                Note the latest entry number and hash somewhere outside this computer (e.g. in your audit file).
+                A later check showing the same entry with a different hash, or a lower number, means the end of the log was changed.
+              </p>
+            </div>
+
+            {result.issues.length > 0 && (
+              <ScrollArea className="h-56 rounded-md border">
+                <ul className="divide-y">
+                  {result.issues.map((issue, index) => (
+                    <li key={`${issue.kind}-${issue.transactionId || issue.sequence}-${index}`} className="flex items-start gap-2 p-2 text-sm">
+                      <AlertTriangle className="h-4 w-4 text-destructive shrink-0 mt-0.5" />
+                      <div>
+                        <Badge variant="destructive" className="mr-1">{ISSUE_LABELS[issue.kind]}</Badge>
+                        {issue.message}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </ScrollArea>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="outline">Close</Button>
+          </DialogClose>
+          <Button type="button" onClick={handleDownloadReport} disabled={!result}>
+            <Download className="mr-2 h-4 w-4" /> Download Report
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,165 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Ban, ArrowRight, CheckCircle } from 'lucide-react';
+import type { Transaction } from '@/types';
+import { useInventory } from '@/contexts/InventoryContext';
+import { useToast } from '@/hooks/use-toast';
+import type { VoidStatus } from '@/lib/voids';
+
+const MIN_REASON_LENGTH = 5;
+
+interface VoidTransactionDialogProps {
+  transaction: Transaction | null;
+  voidStatus?: VoidStatus;
+  onClose: () => void;
+}
+
+export default function VoidTransactionDialog({ transaction, voidStatus, onClose }: VoidTransactionDialogProps) {
+  const { voidTransaction, getDrugById } = useInventory();
+  const { toast } = useToast();
+  const [selectedLines, setSelectedLines] = useState<Set<number>>(new Set());
+  const [reason, setReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!transaction) return;
+    setSelectedLines(new Set(transaction.drugs.map((_, index) => index).filter(index => !voidStatus?.voidedLineIndexes.has(index))));
+    setReason('');
+  }, [transaction, voidStatus]);
+
+  if (!transaction) return null;
+
+  const toggleLine = (index: number, checked: boolean) => {
+    setSelectedLines(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(index); else next.delete(index);
+      return next;
+    });
+  };
+
+  const handleVoid = async () => {
+    setIsSubmitting(true);
+    const result = await voidTransaction(transaction.id, reason, Array.from(selectedLines).sort((a, b) => a - b));
+    setIsSubmitting(false);
+    if (result.success) {
+      toast({
+        title: "Transaction Voided",
+        description: result.message,
+        action: <CheckCircle className="text-green-500" />,
+      });
+      onClose();
+    } else {
+      toast({
+        variant: "destructive",
+        title: "Void Failed",
+        description: result.message || "Could not void the transaction.",
+      });
+    }
+  };
+
+  const reasonTooShort = reason.trim().length < MIN_REASON_LENGTH;
+
+  return (
+    <Dialog open={!!transaction} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Ban className="h-5 w-5 text-destructive" />
+            Void Transaction{typeof transaction.sequence === 'number' ? ` #${transaction.sequence}` : ''}
+          </DialogTitle>
+          <DialogDescription>
+            The <span className="capitalize">{transaction.type}</span> from <strong>{format(parseISO(transaction.timestamp), 'PPpp')}</strong> stays in the log.
+            A linked reversal entry is added for the lines you select, and their stock is restored.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="rounded-md border p-4 space-y-3">
+            <h4 className="font-semibold text-foreground">Drug lines to void</h4>
+            <ul className="space-y-3 text-sm">
+              {transaction.drugs.map((detail, index) => {
+                const alreadyVoided = !!voidStatus?.voidedLineIndexes.has(index);
+                const currentBatch = getDrugById(detail.drugId);
+                return (
+                  <li key={`${detail.drugId}-${index}`} className="flex items-start gap-3">
+                    <Checkbox
+                      id={`voidLine-${index}`}
+                      checked={alreadyVoided || selectedLines.has(index)}
+                      disabled={alreadyVoided}
+                      onCheckedChange={(checked) => toggleLine(index, checked === true)}
+                      className="mt-0.5"
+                    />
+                    <Label htmlFor={`voidLine-${index}`} className="font-normal flex-grow">
+                      <span className={alreadyVoided ? 'line-through text-muted-foreground' : 'font-medium'}>
+                        {detail.brandName || detail.drugName} {detail.dosage || ''}
+                      </span>
+                      <span className="block text-xs text-muted-foreground">
+                        Batch: {detail.batchNumber || 'N/A'} | Qty: {detail.quantity > 0 ? `+${detail.quantity}` : detail.quantity}
+                        {alreadyVoided && ' | already voided'}
+                      </span>
+                    </Label>
+                    {!alreadyVoided && selectedLines.has(index) && (
+                      currentBatch ? (
+                        <span className="flex items-center gap-1 font-mono shrink-0">
+                          <span className="text-muted-foreground">{currentBatch.stock}</span>
+                          <ArrowRight className="h-4 w-4 text-primary" />
+                          <span className={currentBatch.stock - detail.quantity < 0 ? 'font-bold text-destructive' : 'font-bold text-primary'}>
+                            {currentBatch.stock - detail.quantity}
+                          </span>
+                        </span>
+                      ) : (
+                        <span className="text-xs text-destructive shrink-0">Batch deleted</span>
+                      )
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+
+          <div className="grid gap-2">
+            <Label htmlFor="voidReason">Reason (required)</Label>
+            <Textarea
+              id="voidReason"
+              placeholder="e.g., Entered for the wrong patient, Duplicate entry"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+            {reason.length > 0 && reasonTooShort && (
+              <p className="text-sm text-destructive">Reason must be at least {MIN_REASON_LENGTH} characters long.</p>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <DialogClose asChild>
+            <Button type="button" variant="outline">Cancel</Button>
+          </DialogClose>
+          <Button
+            type="button"
+            onClick={handleVoid}
+            disabled={isSubmitting || reasonTooShort || selectedLines.size === 0}
+            className="bg-destructive hover:bg-destructive/90 text-destructive-foreground"
+          >
+            <Ban className="mr-2 h-4 w-4" /> Void {selectedLines.size} Line(s)
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,325 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import * as z from 'zod';
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import {
+  Table,
+  TableHeader,
+  TableBody,
+  TableRow,
+  TableHead,
+  TableCell,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+  DialogClose,
+} from '@/components/ui/dialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { MIN_PIN_LENGTH } from '@/lib/auth';
+import { ROLE_LABELS, ROLE_PERMISSIONS } from '@/types';
+import type { User, UserRole } from '@/types';
+import { CheckCircle, KeyRound, UserPlus, Users, UserX, UserCheck, Timer } from 'lucide-react';
+
+const USER_ROLES = Object.keys(ROLE_LABELS) as UserRole[];
+
+const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  admin: 'Everything, including managing users and resetting data.',
+  pharmacist: 'Dispense, restock, adjust stock, delete batches and void transactions.',
+  doctor: 'Dispense only.',
+  volunteer: 'Dispense and restock.',
+};
+
+const pinSchema = z.string()
+  .regex(/^\d+$/, { message: "PIN must contain digits only." })
+  .min(MIN_PIN_LENGTH, { message: `PIN must be at least ${MIN_PIN_LENGTH} digits.` });
+
+const addUserFormSchema = z.object({
+  name: z.string().min(2, { message: "Name must be at least 2 characters." }),
+  role: z.enum(['admin', 'pharmacist', 'doctor', 'volunteer']),
+  pin: pinSchema,
+});
+
+type AddUserFormData = z.infer<typeof addUserFormSchema>;
+
+export default function ManageUsersForm() {
+  const { users, currentUser, createUser, updateUser, resetUserPin, idleLockMinutes, setIdleLockMinutes } = useAuth();
+  const { toast } = useToast();
+  const [userForPinReset, setUserForPinReset] = useState<User | null>(null);
+  const [newPin, setNewPin] = useState('');
+  const [idleMinutesInput, setIdleMinutesInput] = useState(String(idleLockMinutes));
+
+  useEffect(() => {
+    setIdleMinutesInput(String(idleLockMinutes));
+  }, [idleLockMinutes]);
+
+  const form = useForm<AddUserFormData>({
+    resolver: zodResolver(addUserFormSchema),
+    defaultValues: { name: '', role: 'volunteer', pin: '' },
+  });
+
+  const showResult = (result: { success: boolean; message?: string }, successTitle: string, failureTitle: string) => {
+    if (result.success) {
+      toast({
+        title: successTitle,
+        description: result.message,
+        action: <CheckCircle className="text-green-500" />,
+      });
+    } else {
+      toast({
+        variant: "destructive",
+        title: failureTitle,
+        description: result.message,
+      });
+    }
+  };
+
+  async function onSubmit(data: AddUserFormData) {
+    const result = await createUser(data.name, data.role, data.pin);
+    showResult(result, "User Added", "Failed to Add User");
+    if (result.success) {
+      form.reset();
+    }
+  }
+
+  const handleRoleChange = async (user: User, role: UserRole) => {
+    showResult(await updateUser(user.id, { role }), "Role Changed", "Failed to Change Role");
+  };
+
+  const handleToggleActive = async (user: User) => {
+    showResult(
+      await updateUser(user.id, { active: !user.active }),
+      user.active ? "User Deactivated" : "User Reactivated",
+      "Failed to Update User"
+    );
+  };
+
+  const handleResetPin = async () => {
+    if (!userForPinReset) return;
+    const result = await resetUserPin(userForPinReset.id, newPin);
+    showResult(result, "PIN Changed", "Failed to Change PIN");
+    if (result.success) {
+      setUserForPinReset(null);
+      setNewPin('');
+    }
+  };
+
+  const handleSaveIdleLock = async () => {
+    showResult(await setIdleLockMinutes(Number(idleMinutesInput)), "Auto-Lock Updated", "Failed to Update Auto-Lock");
+  };
+
+  return (
+    <div className="space-y-8">
+      <Card className="w-full max-w-lg mx-auto shadow-xl">
+        <CardHeader>
+          <CardTitle className="font-headline flex items-center gap-2 text-2xl">
+            <UserPlus className="h-6 w-6 text-primary" />
+            Add User
+          </CardTitle>
+          <CardDescription>Each team member logs in with their own PIN. Their role decides what they can do.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Enter name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="role"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Role</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select role" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {USER_ROLES.map(role => (
+                          <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[field.value]}</p>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="pin"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>PIN</FormLabel>
+                    <FormControl>
+                      <Input type="password" inputMode="numeric" autoComplete="new-password" placeholder={`At least ${MIN_PIN_LENGTH} digits`} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <Button type="submit" className="w-full">
+                <UserPlus className="mr-2 h-4 w-4" /> Add User
+              </Button>
+            </form>
+          </Form>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-xl">
+        <CardHeader>
+          <CardTitle className="font-headline flex items-center gap-2 text-xl">
+            <Users className="h-5 w-5 text-primary" />
+            Team Members
+          </CardTitle>
+          <CardDescription>Deactivated users can no longer log in, but their past transactions keep their name.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="w-[180px]">Role</TableHead>
+                  <TableHead>Permissions</TableHead>
+                  <TableHead>Added</TableHead>
+                  <TableHead className="text-center">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map(user => (
+                  <TableRow key={user.id} className={user.active ? '' : 'opacity-60'}>
+                    <TableCell className="font-medium">
+                      {user.name}
+                      {user.id === currentUser?.id && <Badge variant="secondary" className="ml-2">You</Badge>}
+                      {!user.active && <Badge variant="outline" className="ml-2">Deactivated</Badge>}
+                    </TableCell>
+                    <TableCell>
+                      <Select value={user.role} onValueChange={(value) => handleRoleChange(user, value as UserRole)}>
+                        <SelectTrigger className="h-8">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {USER_ROLES.map(role => (
+                            <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground">{ROLE_PERMISSIONS[user.role].join(', ')}</TableCell>
+                    <TableCell className="text-sm">{format(parseISO(user.createdAt), 'PP')}</TableCell>
+                    <TableCell className="text-center space-x-1 whitespace-nowrap">
+                      <Button variant="outline" size="sm" onClick={() => { setUserForPinReset(user); setNewPin(''); }} className="h-8 px-2">
+                        <KeyRound className="mr-1 h-4 w-4" /> Reset PIN
+                      </Button>
+                      <Button
+                        variant={user.active ? 'destructive' : 'outline'}
+                        size="sm"
+                        onClick={() => handleToggleActive(user)}
+                        className="h-8 px-2"
+                        disabled={user.id === currentUser?.id}
+                      >
+                        {user.active ? <><UserX className="mr-1 h-4 w-4" /> Deactivate</> : <><UserCheck className="mr-1 h-4 w-4" /> Reactivate</>}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="w-full max-w-lg mx-auto shadow-xl">
+        <CardHeader>
+          <CardTitle className="font-headline flex items-center gap-2 text-xl">
+            <Timer className="h-5 w-5 text-primary" />
+            Auto-Lock
+          </CardTitle>
+          <CardDescription>Lock this device after a period without keyboard, mouse or touch activity. Anyone can unlock with their own PIN.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid gap-2">
+            <Label htmlFor="idleLockMinutes">Lock after (minutes, 0 = never)</Label>
+            <div className="flex gap-2">
+              <Input
+                id="idleLockMinutes"
+                type="number"
+                min="0"
+                value={idleMinutesInput}
+                onChange={(e) => setIdleMinutesInput(e.target.value)}
+              />
+              <Button type="button" onClick={handleSaveIdleLock} className="shrink-0">Save</Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!userForPinReset} onOpenChange={(open) => { if (!open) setUserForPinReset(null); }}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5 text-primary" />
+              Reset PIN
+            </DialogTitle>
+            <DialogDescription>Set a new PIN for {userForPinReset?.name}.</DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2 py-2">
+            <Label htmlFor="newPin">New PIN</Label>
+            <Input
+              id="newPin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="new-password"
+              value={newPin}
+              onChange={(e) => setNewPin(e.target.value)}
+              placeholder={`At least ${MIN_PIN_LENGTH} digits`}
+            />
+          </div>
+          <DialogFooter>
+            <DialogClose asChild>
+              <Button type="button" variant="outline">Cancel</Button>
+            </DialogClose>
+            <Button type="button" onClick={handleResetPin} disabled={!newPin}>
+              Save PIN
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+
+"use client";
+
+import type { ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import type { User, UserRole, Permission, TransactionActor } from '@/types';
+import type { LocaleCode } from '@/i18n';
+import { getAllRecords, applyRecordChanges, getMeta, setMeta } from '@/lib/db';
+import { generateSalt, hashPin, verifyPin, validatePin, roleHasPermission } from '@/lib/auth';
+import { useIdleTimer } from '@/hooks/use-idle-timer';
+
+// Pages are separate static HTML files, so the logged-in user is kept in
+// sessionStorage to survive navigation. It is cleared when the window closes.
+const SESSION_USER_KEY = 'forradsmmu_session_user';
+const SESSION_LOCKED_KEY = 'forradsmmu_session_locked';
+
+// Idle auto-lock is a per-device setting, kept with the other IndexedDB metadata
+const IDLE_LOCK_META_KEY = 'idleLockMinutes';
+export const DEFAULT_IDLE_LOCK_MINUTES = 5;
+
+const generateId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+
+interface AuthContextType {
+  users: User[];
+  currentUser: User | null;
+  loading: boolean;
+  isLocked: boolean;
+  idleLockMinutes: number;
+  login: (userId: string, pin: string) => Promise<{ success: boolean; message?: string }>;
+  logout: () => void;
+  lock: () => void;
+  unlock: (userId: string, pin: string) => Promise<{ success: boolean; message?: string }>;
+  setIdleLockMinutes: (minutes: number) => Promise<{ success: boolean; message?: string }>;
+  createUser: (name: string, role: UserRole, pin: string) => Promise<{ success: boolean; message?: string; user?: User }>;
+  updateUser: (userId: string, changes: Partial<Pick<User, 'name' | 'role' | 'active'>>) => Promise<{ success: boolean; message?: string }>;
+  resetUserPin: (userId: string, newPin: string) => Promise<{ success: boolean; message?: string }>;
+  verifyCurrentUserPin: (pin: string) => Promise<boolean>;
+  setCurrentUserLanguage: (language: LocaleCode) => Promise<void>;
+  hasPermission: (permission: Permission) => boolean;
+  getCurrentActor: () => TransactionActor | undefined;
+}
+
+const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export const AuthProvider = ({ children }: { children: ReactNode }) => {
+  const [users, setUsers] = useState<User[]>([]);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isLocked, setIsLocked] = useState(false);
+  const [idleLockMinutes, setIdleLockMinutesState] = useState(DEFAULT_IDLE_LOCK_MINUTES);
+
+  useEffect(() => {
+    const loadUsers = async () => {
+      try {
+        const storedUsers = await getAllRecords('users');
+        setUsers(storedUsers.sort((a, b) => a.name.localeCompare(b.name)));
+        const sessionUserId = sessionStorage.getItem(SESSION_USER_KEY);
+        const sessionUser = storedUsers.find(u => u.id === sessionUserId && u.active);
+        setCurrentUser(sessionUser || null);
+        setIsLocked(!!sessionUser && sessionStorage.getItem(SESSION_LOCKED_KEY) === 'true');
+        const storedIdleLockMinutes = await getMeta<number>(IDLE_LOCK_META_KEY);
+        if (typeof storedIdleLockMinutes === 'number') {
+          setIdleLockMinutesState(storedIdleLockMinutes);
+        }
+      } catch (error) {
+        console.error("Error loading users from IndexedDB:", error);
+      }
+      setLoading(false);
+    };
+    loadUsers();
+  }, []);
+
+  const saveUser = useCallback(async (user: User) => {
+    await applyRecordChanges('users', [user]);
+    setUsers(prev => [...prev.filter(u => u.id !== user.id), user].sort((a, b) => a.name.localeCompare(b.name)));
+    setCurrentUser(prev => (prev && prev.id === user.id ? (user.active ? user : null) : prev));
+  }, []);
+
+  const login = async (userId: string, pin: string): Promise<{ success: boolean; message?: string }> => {
+    const user = users.find(u => u.id === userId);
+    if (!user || !user.active) {
+      return { success: false, message: 'User not found or deactivated.' };
+    }
+    if (!(await verifyPin(user, pin))) {
+      return { success: false, message: 'Incorrect PIN. Please try again.' };
+    }
+    sessionStorage.setItem(SESSION_USER_KEY, user.id);
+    sessionStorage.removeItem(SESSION_LOCKED_KEY);
+    setCurrentUser(user);
+    setIsLocked(false);
+    return { success: true, message: `Welcome, ${user.name}.` };
+  };
+
+  const logout = useCallback(() => {
+    sessionStorage.removeItem(SESSION_USER_KEY);
+    sessionStorage.removeItem(SESSION_LOCKED_KEY);
+    setCurrentUser(null);
+    setIsLocked(false);
+  }, []);
+
+  // Locking hides the app behind a PIN screen without unmounting it, so half-filled forms survive
+  const lock = useCallback(() => {
+    if (!currentUser) return;
+    sessionStorage.setItem(SESSION_LOCKED_KEY, 'true');
+    setIsLocked(true);
+  }, [currentUser]);
+
+  // Unlocking as a different user is how volunteers switch over on a shared laptop
+  const unlock = login;
+
+  useIdleTimer(idleLockMinutes * 60 * 1000, lock, !!currentUser && !isLocked);
+
+  const hasPermission = useCallback((permission: Permission) => roleHasPermission(currentUser, permission), [currentUser]);
+
+  const setIdleLockMinutes = async (minutes: number): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('manageUsers')) {
+      return { success: false, message: 'You do not have permission to change the auto-lock setting.' };
+    }
+    if (!Number.isInteger(minutes) || minutes < 0) {
+      return { success: false, message: 'Auto-lock time must be a whole number of minutes (0 to disable).' };
+    }
+    await setMeta(IDLE_LOCK_META_KEY, minutes);
+    setIdleLockMinutesState(minutes);
+    return { success: true, message: minutes === 0 ? 'Auto-lock disabled.' : `The app will lock after ${minutes} minute(s) of inactivity.` };
+  };
+
+  const createUser = async (name: string, role: UserRole, pin: string): Promise<{ success: boolean; message?: string; user?: User }> => {
+    // The very first account is created from the setup screen, before anyone is logged in
+    if (users.length > 0 && !hasPermission('manageUsers')) {
+      return { success: false, message: 'You do not have permission to manage users.' };
+    }
+    if (users.length === 0 && role !== 'admin') {
+      return { success: false, message: 'The first account must be an admin.' };
+    }
+    if (!name.trim()) {
+      return { success: false, message: 'Name cannot be empty.' };
+    }
+    if (users.some(u => u.name.toLowerCase() === name.trim().toLowerCase())) {
+      return { success: false, message: `A user named "${name.trim()}" already exists.` };
+    }
+    const pinError = validatePin(pin);
+    if (pinError) {
+      return { success: false, message: pinError };
+    }
+    const pinSalt = generateSalt();
+    const newUser: User = {
+      id: generateId('user'),
+      name: name.trim(),
+      role,
+      pinSalt,
+      pinHash: await hashPin(pin, pinSalt),
+      active: true,
+      createdAt: new Date().toISOString(),
+    };
+    await saveUser(newUser);
+    return { success: true, message: `User "${newUser.name}" created.`, user: newUser };
+  };
+
+  const updateUser = async (userId: string, changes: Partial<Pick<User, 'name' | 'role' | 'active'>>): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('manageUsers')) {
+      return { success: false, message: 'You do not have permission to manage users.' };
+    }
+    const user = users.find(u => u.id === userId);
+    if (!user) {
+      return { success: false, message: 'User not found.' };
+    }
+    const updatedUser: User = { ...user, ...changes, name: (changes.name ?? user.name).trim() };
+    const activeAdminsAfter = users
+      .map(u => (u.id === userId ? updatedUser : u))
+      .filter(u => u.active && u.role === 'admin');
+    if (activeAdminsAfter.length === 0) {
+      return { success: false, message: 'At least one active admin account is required.' };
+    }
+    await saveUser(updatedUser);
+    return { success: true, message: `User "${updatedUser.name}" updated.` };
+  };
+
+  const resetUserPin = async (userId: string, newPin: string): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('manageUsers') && currentUser?.id !== userId) {
+      return { success: false, message: 'You do not have permission to change this PIN.' };
+    }
+    const user = users.find(u => u.id === userId);
+    if (!user) {
+      return { success: false, message: 'User not found.' };
+    }
+    const pinError = validatePin(newPin);
+    if (pinError) {
+      return { success: false, message: pinError };
+    }
+    const pinSalt = generateSalt();
+    await saveUser({ ...user, pinSalt, pinHash: await hashPin(newPin, pinSalt) });
+    return { success: true, message: `PIN for "${user.name}" changed.` };
+  };
+
+  // Any user may choose their own UI language; no permission needed
+  const setCurrentUserLanguage = useCallback(async (language: LocaleCode) => {
+    if (!currentUser || currentUser.language === language) return;
+    await saveUser({ ...currentUser, language });
+  }, [currentUser, saveUser]);
+
+  const verifyCurrentUserPin = useCallback(async (pin: string) => {
+    if (!currentUser) return false;
+    return verifyPin(currentUser, pin);
+  }, [currentUser]);
+
+  const getCurrentActor = useCallback((): TransactionActor | undefined => (
+    currentUser ? { userId: currentUser.id, userName: currentUser.name, role: currentUser.role } : undefined
+  ), [currentUser]);
+
+  return (
+    <AuthContext.Provider value={{
+        users,
+        currentUser,
+        loading,
+        isLocked,
+        idleLockMinutes,
+        login,
+        logout,
+        lock,
+        unlock,
+        setIdleLockMinutes,
+        createUser,
+        updateUser,
+        resetUserPin,
+        verifyCurrentUserPin,
+        setCurrentUserLanguage,
+        hasPermission,
+        getCurrentActor
+    }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
@@ -2,114 +2,413 @@
 "use client";
 
 import type { ReactNode } from 'react';
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import type { Drug, Transaction, TransactionDrugDetail, EditDrugFormData, DrugRestockEntry, Village, DispenseFormData, DrugDispenseEntry, GroupedDrugDisplay, NewDrugDetails } from '@/types';
-import { INITIAL_DRUGS, DEFAULT_PURCHASE_PRICE, DEFAULT_DRUG_LOW_STOCK_THRESHOLD } from '@/types'; 
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import type { Drug, Transaction, TransactionDrugDetail, EditDrugFormData, DrugRestockEntry, Village, DispenseFormData, DrugDispenseEntry, GroupedDrugDisplay, NewDrugDetails, QuarantinedRecord, RestoreMode, NearExpiryBatch, Patient, NewPatientData, Camp, NewCampData, CampKit, CampKitItem, StockLocation, StockTransferEntry, VillageDetails, VillageImportResult, BaseUnit, PackSizes, Product, ProductDetails, StockTake, NewStockTakeData } from '@/types';
+import { INITIAL_DRUGS, INITIAL_PRODUCTS, DEFAULT_PURCHASE_PRICE, DEFAULT_DRUG_LOW_STOCK_THRESHOLD, DEFAULT_LOCATION_ID, DEFAULT_STOCK_LOCATION } from '@/types'; 
 import { parseISO, compareAsc, format, isValid } from 'date-fns';
+import { getAllRecords, applyRecordChanges, clearAllStores, diffRecords, migrateFromLocalStorage, getMeta, setMeta, addQuarantinedRecords, getAllQuarantinedRecords, clearQuarantinedRecords } from '@/lib/db';
+import type { InventoryStoreName, StoreRecordMap } from '@/lib/db';
+import { upgradeDataSet, CURRENT_SCHEMA_VERSION, LEGACY_SCHEMA_VERSION } from '@/lib/migrations';
+import type { DataSet } from '@/lib/migrations';
+import { createBackup } from '@/lib/backup';
+import { sealTransaction, sealUnchainedTransactions, getLedgerHead, EMPTY_LEDGER_HEAD } from '@/lib/ledger';
+import type { LedgerHead } from '@/lib/ledger';
+import { isVoidable, getVoidStatusMap } from '@/lib/voids';
+import { getDrugGroupKey, compareByExpiry, allocateFefo, getDispensableBatches, isBatchExpired, isBatchNearExpiry, getDaysToExpiry, DEFAULT_NEAR_EXPIRY_WARNING_DAYS } from '@/lib/fefo';
+import type { BatchAllocation } from '@/lib/fefo';
+import { isValidRegimen } from '@/lib/regimen';
+import type { DispensedDrugInfo } from '@/lib/slips';
+import { linkHistoricalDispenses, estimateDateOfBirth, isActivePatient } from '@/lib/patients';
+import type { PatientLinkResult } from '@/lib/patients';
+import { DEFAULT_LOCALE, isLocaleCode, translate } from '@/i18n';
+import type { LocalizedMessage, MessageKey, MessageParams } from '@/i18n';
+import { sortCampsByDate, getActiveCamp, isValidCampTime } from '@/lib/camps';
+import { getReservedQuantities, reserveCampKitBatches, getCampBatchUsage, reconcileKitBatch, moveKitItemsToProduct } from '@/lib/campKits';
+import { getStockByLocation, getLocationStock, withLocationStock, viewStockAtLocation, applyLocationView, sumStockByLocation } from '@/lib/locations';
+import { BASE_UNITS, formatQuantity, formatQuantityTotals, getBaseUnit } from '@/lib/units';
+import { getPackSize, packSizesEqual, toPricePerUnit } from '@/lib/packs';
+import { buildVillageIdsByName, getVillageNames, getVillageReferences, hasVillageReferences, validateVillageDetails } from '@/lib/villages';
+import { buildProductIdsByName, describeProductChanges, getProductDisplayName, recoverMissingProducts, sortProductsByName, validateProductDetails, withProductFields } from '@/lib/products';
+import { buildStockTakeLines, describeStockTakeScope, getCountedQuantity, getLineVariance, summarizeStockTake } from '@/lib/stockTakes';
+import { mergePatients, undoPatientMerge as reversePatientMerge } from '@/lib/patientDuplicates';
+import { getElectronBridge } from '@/lib/electron';
+import { useAuth } from '@/contexts/AuthContext';
+import type { SnapshotWriteResult } from '@/lib/electron';
 
-const DRUGS_STORAGE_KEY = 'forradsmmu_drugs_v1';
-const TRANSACTIONS_STORAGE_KEY = 'forradsmmu_transactions_v1';
-const VILLAGES_STORAGE_KEY = 'forradsmmu_villages_v1';
+const INITIALIZED_META_KEY = 'initializedAt';
+const SCHEMA_VERSION_META_KEY = 'schemaVersion';
+const LEDGER_SEALED_META_KEY = 'ledgerSealedAt';
+const NEAR_EXPIRY_WARNING_DAYS_META_KEY = 'nearExpiryWarningDays';
+// Per device: the store or van this installation dispenses from
+const ACTIVE_LOCATION_META_KEY = 'activeLocationId';
+
+type PersistedSnapshot = { [S in InventoryStoreName]: StoreRecordMap[S][] };
 
 const generateId = (prefix: string) => `${prefix}-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 
+const sortPatientsByName = (list: Patient[]) =>
+  [...list].sort((a, b) => a.name.localeCompare(b.name));
+
+const sortTransactionsNewestFirst = (txns: Transaction[]) =>
+  [...txns].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+const sortStockTakesNewestFirst = (list: StockTake[]) =>
+  [...list].sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+
+// The form builds the option label from these in the UI language
 export interface BatchForDispenseDisplay {
   id: string;
-  displayName: string;
+  groupKey: string;
   stock: number;
+  unit: BaseUnit;
   name: string; 
   brandName?: string;
   dosage?: string;
   batchNumber?: string;
   dateOfExpiry?: string;
+  daysToExpiry: number | null;
+  isNearExpiry: boolean;
+}
+
+export interface ProductForDispenseDisplay {
+  groupKey: string;
+  displayName: string;
+  availableStock: number; // Unexpired stock across all batches
+  unit: BaseUnit;
+  packSizes?: PackSizes;
+  batchCount: number; // Batches that stock is spread over
 }
 
 interface InventoryContextType {
+  products: Product[];
   drugs: Drug[];
   transactions: Transaction[];
   villages: Village[];
+  patients: Patient[];
+  camps: Camp[];
+  activeCamp: Camp | undefined; // Dispenses and adjustments are tagged with this camp
+  locations: StockLocation[];
+  stockTakes: StockTake[];
+  activeLocationId: string; // Set per device: dispenses, restocks and adjustments change stock here
   loading: boolean;
+  storageError: string | null;
+  quarantinedRecords: QuarantinedRecord[];
+  discardQuarantinedRecords: () => Promise<void>;
+  nearExpiryWarningDays: number;
+  setNearExpiryWarningDays: (days: number) => Promise<{ success: boolean; message?: string }>;
+  addProduct: (details: ProductDetails) => Promise<{ success: boolean; message?: string; product?: Product }>;
+  // Relabels every batch of the product; stock and prices are not converted
+  updateProduct: (productId: string, details: ProductDetails) => Promise<{ success: boolean; message?: string; product?: Product }>;
+  // Only products without batches can be deleted; others are merged
+  deleteProduct: (productId: string) => Promise<{ success: boolean; message?: string }>;
+  mergeProducts: (sourceProductId: string, targetProductId: string) => Promise<{ success: boolean; message?: string }>;
   addVillage: (name: string) => Promise<{ success: boolean; message?: string; village?: Village }>;
-  dispenseDrugs: (patientDetails: Omit<DispenseFormData, 'drugsToDispense'>, drugsToDispense: Array<DrugDispenseEntry>) => Promise<{ success: boolean; message?: string; dispensedDrugsInfo: Array<{ drugName: string; brandName?: string; dosage?: string; batchNumber?: string; quantity: number }> }>;
-  restockDrugs: (source: string, drugsToRestock: Array<DrugRestockEntry>) => Promise<{ success: boolean; message?: string; restockedDrugs: Array<{ drugName: string; brandName?: string; dosage?: string; batchNumber?: string; quantity: number }> }>;
+  updateVillage: (villageId: string, details: VillageDetails) => Promise<{ success: boolean; message?: string; village?: Village }>;
+  // Only villages no dispense, patient or camp refers to can be deleted; others are merged
+  deleteVillage: (villageId: string) => Promise<{ success: boolean; message?: string }>;
+  mergeVillages: (sourceVillageId: string, targetVillageId: string) => Promise<{ success: boolean; message?: string }>;
+  importVillages: (rows: VillageDetails[]) => Promise<{ success: boolean; message?: string; result?: VillageImportResult }>;
+  addPatient: (data: NewPatientData) => Promise<{ success: boolean; message?: string; patient?: Patient }>;
+  updatePatient: (patientId: string, data: NewPatientData) => Promise<{ success: boolean; message?: string; patient?: Patient }>;
+  getPatientById: (patientId: string) => Patient | undefined;
+  linkPastDispenses: () => Promise<{ success: boolean; message?: string }>;
+  mergePatientRecords: (keepPatientId: string, duplicatePatientId: string) => Promise<{ success: boolean; message?: string }>;
+  undoPatientMerge: (mergedPatientId: string) => Promise<{ success: boolean; message?: string }>;
+  dismissDuplicatePatients: (patientIdA: string, patientIdB: string) => Promise<{ success: boolean; message?: string }>;
+  addCamp: (data: NewCampData) => Promise<{ success: boolean; message?: string; camp?: Camp }>;
+  updateCamp: (campId: string, data: NewCampData) => Promise<{ success: boolean; message?: string; camp?: Camp }>;
+  startCamp: (campId: string) => Promise<{ success: boolean; message?: string }>;
+  closeCamp: (campId: string) => Promise<{ success: boolean; message?: string }>;
+  deleteCamp: (campId: string) => Promise<{ success: boolean; message?: string }>;
+  // Reserves batches (FEFO) for the given quantities, replacing any earlier plan that has not been packed
+  planCampKit: (campId: string, basis: Pick<CampKit, 'basis' | 'basisVillageIds' | 'basisVisitCount'>, items: Array<Omit<CampKitItem, 'batches'>>) => Promise<{ success: boolean; message?: string; kit?: CampKit }>;
+  markCampKitPacked: (campId: string) => Promise<{ success: boolean; message?: string }>;
+  // `returned` holds the quantity counted back in per batch ID; anything neither dispensed nor returned is written off
+  reconcileCampKit: (campId: string, returned: Record<string, number>) => Promise<{ success: boolean; message?: string }>;
+  addLocation: (name: string, kind: StockLocation['kind']) => Promise<{ success: boolean; message?: string; location?: StockLocation }>;
+  updateLocation: (locationId: string, name: string, kind: StockLocation['kind']) => Promise<{ success: boolean; message?: string }>;
+  // Only empty locations other than the central store and this device's active location can be deleted
+  deleteLocation: (locationId: string) => Promise<{ success: boolean; message?: string }>;
+  setActiveLocation: (locationId: string) => Promise<{ success: boolean; message?: string }>;
+  transferStock: (fromLocationId: string, toLocationId: string, entries: StockTransferEntry[], notes?: string) => Promise<{ success: boolean; message?: string }>;
+  // Freezes the expected stock of the batches in scope at the location
+  startStockTake: (data: NewStockTakeData) => Promise<{ success: boolean; message?: string; stockTake?: StockTake }>;
+  // `counts` holds the quantity found per batch ID; batches left out stay as they were
+  recordStockTakeCounts: (stockTakeId: string, countedBy: string, counts: Record<string, number>) => Promise<{ success: boolean; message?: string }>;
+  // Posts the variance of every counted batch as one adjustment; uncounted batches are left alone
+  approveStockTake: (stockTakeId: string) => Promise<{ success: boolean; message?: string }>;
+  cancelStockTake: (stockTakeId: string) => Promise<{ success: boolean; message?: string }>;
+  // Resolves with `nearExpiryBatches` (and dispenses nothing) when batches close to expiry need a confirmed override reason
+  // `messages` are the notes in `message` (English, as logged) for the form to show in the UI language
+  dispenseDrugs: (patientDetails: Omit<DispenseFormData, 'drugsToDispense'>, drugsToDispense: Array<DrugDispenseEntry>, nearExpiryOverrideReason?: string) => Promise<{ success: boolean; message?: string; messages: LocalizedMessage[]; dispensedDrugsInfo: DispensedDrugInfo[]; nearExpiryBatches?: NearExpiryBatch[] }>;
+  restockDrugs: (source: string, drugsToRestock: Array<DrugRestockEntry>) => Promise<{ success: boolean; message?: string; messages: LocalizedMessage[]; restockedDrugs: Array<{ drugName: string; brandName?: string; dosage?: string; batchNumber?: string; quantity: number; unit: BaseUnit }> }>;
   updateDrugDetails: (drugId: string, data: EditDrugFormData) => Promise<{ success: boolean; message?: string; updatedDrug?: Drug }>;
   adjustDrugStock: (drugId: string, newStock: number, reason: string) => Promise<{ success: boolean; message?: string }>;
   deleteDrugBatch: (drugId: string) => Promise<{ success: boolean; message?: string; deletedDrugName?: string }>;
-  deleteTransaction: (transactionId: string) => Promise<{ success: boolean; message?: string }>;
+  voidTransaction: (transactionId: string, reason: string, lineIndexes?: number[]) => Promise<{ success: boolean; message?: string }>;
   getDrugById: (drugId: string) => Drug | undefined;
-  getDrugGroupsForDisplay: () => GroupedDrugDisplay[];
+  // Stock of every location, or with `locationId` only that location's (the location breakdown is always complete)
+  getDrugGroupsForDisplay: (locationId?: string) => GroupedDrugDisplay[];
   getBatchesForDispenseDisplay: () => BatchForDispenseDisplay[];
+  getProductsForDispenseDisplay: () => ProductForDispenseDisplay[];
   getVillages: () => Village[];
-  resetInventoryData: () => void;
+  resetInventoryData: () => Promise<{ success: boolean; message?: string }>;
+  takeSnapshot: (reason: string) => Promise<SnapshotWriteResult>;
+  restoreFromBackup: (data: DataSet, mode: RestoreMode, backupCreatedAt: string) => Promise<{ success: boolean; message?: string }>;
 }
 
 const InventoryContext = createContext<InventoryContextType | undefined>(undefined);
 
+const permissionDenied = (action: string) => ({ success: false, message: `You do not have permission to ${action}.` });
+
+// English for the ledger and `message`; the forms translate the same keys for the UI
+const toEnglish = (messages: LocalizedMessage[]) => messages.map(m => translate(DEFAULT_LOCALE, m.key, m.params)).join(' ');
+
+// Failure with a single message, in both forms
+const localizedFailure = (key: MessageKey, params?: MessageParams) =>
+  ({ success: false, message: translate(DEFAULT_LOCALE, key, params), messages: [{ key, params }] });
+
 export const InventoryProvider = ({ children }: { children: ReactNode }) => {
+  const { hasPermission, getCurrentActor } = useAuth();
+  const [products, setProducts] = useState<Product[]>([]);
   const [drugs, setDrugs] = useState<Drug[]>([]);
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [villages, setVillages] = useState<Village[]>([]);
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [camps, setCamps] = useState<Camp[]>([]);
+  const [locations, setLocations] = useState<StockLocation[]>([]);
+  const [stockTakes, setStockTakes] = useState<StockTake[]>([]);
+  const [activeLocationId, setActiveLocationIdState] = useState(DEFAULT_LOCATION_ID);
   const [loading, setLoading] = useState(true);
+  const [storageError, setStorageError] = useState<string | null>(null);
+  const [quarantinedRecords, setQuarantinedRecords] = useState<QuarantinedRecord[]>([]);
+  const [nearExpiryWarningDays, setNearExpiryWarningDaysState] = useState(DEFAULT_NEAR_EXPIRY_WARNING_DAYS);
+
+  // Last snapshot written to IndexedDB for each store, used to write only changed records
+  const persistedRef = useRef<PersistedSnapshot>({ products: [], drugs: [], transactions: [], villages: [], patients: [], camps: [], locations: [], stockTakes: [] });
+  // Set when stored data could not be read at all, so nothing overwrites it
+  const persistenceBlockedRef = useRef(false);
+  // Latest in-memory data, read by snapshot requests coming from the Electron main process
+  const latestDataRef = useRef<DataSet>({ products, drugs, transactions, villages, patients, camps, locations, stockTakes });
+  latestDataRef.current = { products, drugs, transactions, villages, patients, camps, locations, stockTakes };
+  // Hashing is async, so ledger appends run one at a time against the latest head
+  const ledgerHeadRef = useRef<LedgerHead>(EMPTY_LEDGER_HEAD);
+  const ledgerQueueRef = useRef<Promise<void>>(Promise.resolve());
 
   useEffect(() => {
-    setLoading(true);
-    try {
-      const storedDrugs = localStorage.getItem(DRUGS_STORAGE_KEY);
-      if (storedDrugs) {
-        setDrugs(JSON.parse(storedDrugs));
-      } else {
-        setDrugs(INITIAL_DRUGS);
-      }
-      const storedTransactions = localStorage.getItem(TRANSACTIONS_STORAGE_KEY);
-      if (storedTransactions) {
-        setTransactions(JSON.parse(storedTransactions));
-      } else {
+    const loadData = async () => {
+      setLoading(true);
+      try {
+        const migratedLegacyData = await migrateFromLocalStorage();
+        const [storedProducts, storedDrugs, storedTransactions, storedVillages, storedPatients, storedCamps, storedLocations, storedStockTakes] = await Promise.all([
+          getAllRecords('products'),
+          getAllRecords('drugs'),
+          getAllRecords('transactions'),
+          getAllRecords('villages'),
+          getAllRecords('patients'),
+          getAllRecords('camps'),
+          getAllRecords('locations'),
+          getAllRecords('stockTakes'),
+        ]);
+        // Keep the raw snapshot so that migrated records are rewritten and quarantined ones removed
+        persistedRef.current = { products: storedProducts, drugs: storedDrugs, transactions: storedTransactions, villages: storedVillages, patients: storedPatients, camps: storedCamps, locations: storedLocations, stockTakes: storedStockTakes };
+
+        const storedSchemaVersion = await getMeta<number>(SCHEMA_VERSION_META_KEY);
+        const { data, quarantined, migrated } = upgradeDataSet(
+          { products: storedProducts, drugs: storedDrugs, transactions: storedTransactions, villages: storedVillages, patients: storedPatients, camps: storedCamps, locations: storedLocations, stockTakes: storedStockTakes },
+          storedSchemaVersion ?? LEGACY_SCHEMA_VERSION
+        );
+        if (quarantined.length > 0) {
+          const quarantinedAt = new Date().toISOString();
+          await addQuarantinedRecords(quarantined.map(record => ({ ...record, id: generateId('quarantine'), quarantinedAt })));
+          console.warn(`${quarantined.length} stored record(s) failed validation and were quarantined.`);
+        }
+        if (migrated || quarantined.length > 0 || storedSchemaVersion !== CURRENT_SCHEMA_VERSION) {
+          await setMeta(SCHEMA_VERSION_META_KEY, CURRENT_SCHEMA_VERSION);
+        }
+        setQuarantinedRecords(await getAllQuarantinedRecords());
+        const storedWarningDays = await getMeta<number>(NEAR_EXPIRY_WARNING_DAYS_META_KEY);
+        if (typeof storedWarningDays === 'number') {
+          setNearExpiryWarningDaysState(storedWarningDays);
+        }
+        const loadedLocations = data.locations.length > 0 ? data.locations : [DEFAULT_STOCK_LOCATION];
+        setLocations(loadedLocations);
+        const storedActiveLocationId = await getMeta<string>(ACTIVE_LOCATION_META_KEY);
+        if (storedActiveLocationId && loadedLocations.some(location => location.id === storedActiveLocationId)) {
+          setActiveLocationIdState(storedActiveLocationId);
+        }
+
+        const initializedAt = await getMeta<string>(INITIALIZED_META_KEY);
+        if (!initializedAt && !migratedLegacyData && data.drugs.length === 0) {
+          setProducts(INITIAL_PRODUCTS);
+          setDrugs(INITIAL_DRUGS);
+        } else {
+          setProducts(sortProductsByName([...data.products, ...recoverMissingProducts(data.products, data.drugs)]));
+          setDrugs(data.drugs);
+        }
+        if (!initializedAt) {
+          await setMeta(INITIALIZED_META_KEY, new Date().toISOString());
+        }
+
+        // Transactions recorded before the ledger existed are sealed into it once.
+        // Later unsealed entries are left alone so verification flags them.
+        let loadedTransactions = data.transactions;
+        if (!(await getMeta<string>(LEDGER_SEALED_META_KEY))) {
+          const sealedAt = new Date().toISOString();
+          const { transactions: sealed, sealedCount } = await sealUnchainedTransactions(loadedTransactions);
+          loadedTransactions = sealed;
+          if (sealedCount > 0) {
+            loadedTransactions = [...loadedTransactions, await sealTransaction({
+              id: generateId('txn'),
+              type: 'update',
+              timestamp: sealedAt,
+              drugs: [],
+              notes: `LEDGER SEALED: ${sealedCount} existing transaction(s) were added to the hash-chained ledger.`,
+            }, getLedgerHead(loadedTransactions))];
+          }
+          await setMeta(LEDGER_SEALED_META_KEY, sealedAt);
+        }
+        ledgerHeadRef.current = getLedgerHead(loadedTransactions);
+        setTransactions(sortTransactionsNewestFirst(loadedTransactions));
+        setVillages([...data.villages].sort((a, b) => a.name.localeCompare(b.name)));
+        // Dispenses without a patient (recorded before the registry, or merged from a backup) are matched on every load
+        const linked = linkHistoricalDispenses(data.patients, loadedTransactions, data.villages, () => generateId('patient'));
+        setPatients(sortPatientsByName(linked.patients));
+        setCamps(sortCampsByDate(data.camps));
+        setStockTakes(sortStockTakesNewestFirst(data.stockTakes));
+      } catch (error) {
+        console.error("Error loading data from IndexedDB:", error);
+        // Do not wipe or overwrite what is on disk; it may still be recoverable.
+        persistenceBlockedRef.current = true;
+        setStorageError(`Stored inventory data could not be loaded (${error instanceof Error ? error.message : String(error)}). Changes made now will not be saved.`);
+        setProducts([]);
+        setDrugs([]);
         setTransactions([]);
-      }
-      const storedVillages = localStorage.getItem(VILLAGES_STORAGE_KEY);
-      if (storedVillages) {
-        setVillages(JSON.parse(storedVillages));
-      } else {
         setVillages([]);
+        setPatients([]);
+        setCamps([]);
+        setLocations([]);
+        setStockTakes([]);
       }
-    } catch (error) {
-      console.error("Error loading data from localStorage:", error);
-      localStorage.removeItem(DRUGS_STORAGE_KEY);
-      localStorage.removeItem(TRANSACTIONS_STORAGE_KEY);
-      localStorage.removeItem(VILLAGES_STORAGE_KEY);
-      setDrugs(INITIAL_DRUGS);
-      setTransactions([]);
-      setVillages([]);
-    }
-    setLoading(false);
+      setLoading(false);
+    };
+    loadData();
   }, []);
 
+  const persistStoreChanges = useCallback(<S extends InventoryStoreName>(storeName: S, records: PersistedSnapshot[S]) => {
+    if (persistenceBlockedRef.current) return;
+    const { toPut, toDelete } = diffRecords<StoreRecordMap[S]>(persistedRef.current[storeName], records);
+    persistedRef.current = { ...persistedRef.current, [storeName]: records };
+    applyRecordChanges(storeName, toPut, toDelete)
+      .catch(error => console.error(`Error saving ${storeName} to IndexedDB:`, error));
+  }, []);
+
+  useEffect(() => {
+    if (!loading) {
+      persistStoreChanges('products', products);
+    }
+  }, [products, loading, persistStoreChanges]);
+
+  useEffect(() => {
+    if (!loading) {
+      persistStoreChanges('drugs', drugs);
+    }
+  }, [drugs, loading, persistStoreChanges]);
+
+  useEffect(() => {
+    if (!loading) {
+      persistStoreChanges('transactions', transactions);
+    }
+  }, [transactions, loading, persistStoreChanges]);
+
   useEffect(() => {
     if (!loading) {
-      localStorage.setItem(DRUGS_STORAGE_KEY, JSON.stringify(drugs));
+      persistStoreChanges('villages', villages);
     }
-  }, [drugs, loading]);
+  }, [villages, loading, persistStoreChanges]);
 
   useEffect(() => {
     if (!loading) {
-      localStorage.setItem(TRANSACTIONS_STORAGE_KEY, JSON.stringify(transactions));
+      persistStoreChanges('patients', patients);
     }
-  }, [transactions, loading]);
+  }, [patients, loading, persistStoreChanges]);
 
   useEffect(() => {
     if (!loading) {
-      localStorage.setItem(VILLAGES_STORAGE_KEY, JSON.stringify(villages));
+      persistStoreChanges('camps', camps);
     }
-  }, [villages, loading]);
+  }, [camps, loading, persistStoreChanges]);
+
+  useEffect(() => {
+    if (!loading) {
+      persistStoreChanges('locations', locations);
+    }
+  }, [locations, loading, persistStoreChanges]);
+
+  useEffect(() => {
+    if (!loading) {
+      persistStoreChanges('stockTakes', stockTakes);
+    }
+  }, [stockTakes, loading, persistStoreChanges]);
+
+  const takeSnapshot = useCallback(async (reason: string): Promise<SnapshotWriteResult> => {
+    const bridge = getElectronBridge();
+    if (!bridge) {
+      return { success: false, message: 'Automatic snapshots are only available in the desktop app.' };
+    }
+    const backup = await createBackup(latestDataRef.current);
+    return bridge.backups.write(JSON.stringify(backup), reason);
+  }, []);
+
+  // Snapshot before destructive actions. Only blocks the action if snapshots are configured and writing one failed.
+  const snapshotBeforeDestructiveAction = useCallback(async (reason: string): Promise<{ success: boolean; message?: string }> => {
+    const bridge = getElectronBridge();
+    if (!bridge) return { success: true };
+    try {
+      const settings = await bridge.backups.getSettings();
+      if (!settings.enabled || !settings.folder) return { success: true };
+      const result = await takeSnapshot(reason);
+      return result.success ? { success: true } : { success: false, message: `Safety snapshot failed: ${result.message}` };
+    } catch (error) {
+      console.error("Safety snapshot failed:", error);
+      return { success: false, message: `Safety snapshot failed: ${error instanceof Error ? error.message : String(error)}` };
+    }
+  }, [takeSnapshot]);
+
+  useEffect(() => {
+    const bridge = getElectronBridge();
+    if (loading || !bridge) return;
+    return bridge.backups.onSnapshotRequest(async () => JSON.stringify(await createBackup(latestDataRef.current)));
+  }, [loading]);
+
+  const enqueueLedgerWork = useCallback((work: () => Promise<void>) => {
+    ledgerQueueRef.current = ledgerQueueRef.current
+      .then(work)
+      .catch(error => console.error("Error updating the transaction ledger:", error));
+  }, []);
+
+  // Seals transactions onto the end of the chain in the order given, then adds them to state
+  const appendToLedger = useCallback((newTransactions: Transaction[]) => {
+    enqueueLedgerWork(async () => {
+      const sealed: Transaction[] = [];
+      for (const txn of newTransactions) {
+        const sealedTxn = await sealTransaction(txn, ledgerHeadRef.current);
+        ledgerHeadRef.current = { sequence: sealedTxn.sequence!, hash: sealedTxn.hash! };
+        sealed.push(sealedTxn);
+      }
+      setTransactions(prevTxns => sortTransactionsNewestFirst([...sealed, ...prevTxns]));
+    });
+  }, [enqueueLedgerWork]);
 
   const addTransaction = useCallback((transactionData: Omit<Transaction, 'id' | 'timestamp'> & { timestamp?: string }) => {
     const newTransaction: Transaction = {
       ...transactionData,
       id: generateId('txn'),
       timestamp: transactionData.timestamp || new Date().toISOString(),
+      performedBy: transactionData.performedBy || getCurrentActor(),
     };
-    setTransactions(prevTxns => [newTransaction, ...prevTxns]);
-  }, []);
+    appendToLedger([newTransaction]);
+  }, [getCurrentActor, appendToLedger]);
 
   const getDrugById = useCallback((drugId: string) => {
     return drugs.find(drug => drug.id === drugId);
@@ -119,13 +418,134 @@ export const InventoryProvider = ({ children }: { children: ReactNode }) => {
     return villages;
   }, [villages]);
 
+  const describeProductNameClash = (productId: string) =>
+    `${getProductDisplayName(products.find(p => p.id === productId)!)} is already in the catalog.`;
+
+  const addProduct = async (details: ProductDetails): Promise<{ success: boolean; message?: string; product?: Product }> => {
+    if (!hasPermission('restock')) {
+      return permissionDenied('add products');
+    }
+    const validation = validateProductDetails(details);
+    if ('error' in validation) {
+      return { success: false, message: validation.error };
+    }
+    const clashId = buildProductIdsByName(products).get(getDrugGroupKey(validation.fields));
+    if (clashId) {
+      return { success: false, message: describeProductNameClash(clashId) };
+    }
+    const newProduct: Product = { ...validation.fields, id: generateId('product'), createdAt: new Date().toISOString() };
+    setProducts(prev => sortProductsByName([...prev, newProduct]));
+    return { success: true, product: newProduct, message: `${getProductDisplayName(newProduct)} added to the catalog.` };
+  };
+
+  const updateProduct = async (productId: string, details: ProductDetails): Promise<{ success: boolean; message?: string; product?: Product }> => {
+    if (!hasPermission('adjust')) {
+      return permissionDenied('edit products');
+    }
+    const existing = products.find(p => p.id === productId);
+    if (!existing) {
+      return { success: false, message: 'Product not found.' };
+    }
+    const validation = validateProductDetails(details);
+    if ('error' in validation) {
+      return { success: false, message: validation.error };
+    }
+    const clashId = buildProductIdsByName(products).get(getDrugGroupKey(validation.fields));
+    if (clashId && clashId !== productId) {
+      return { success: false, message: describeProductNameClash(clashId) };
+    }
+    const updated: Product = { ...validation.fields, id: existing.id, createdAt: existing.createdAt };
+    const changes = describeProductChanges(existing, updated);
+    if (changes.length === 0) {
+      return { success: true, product: existing, message: 'No changes to save.' };
+    }
+    // Batches carry a copy of the product's names, form, unit and packs
+    const relabelledCount = drugs.filter(d => d.productId === productId).length;
+    setProducts(prev => sortProductsByName(prev.map(p => (p.id === productId ? updated : p))));
+    setDrugs(prev => prev.map(d => (d.productId === productId ? withProductFields(d, updated) : d)));
+    setCamps(prev => prev.map(c => c.kit && c.kit.items.some(item => item.groupKey === productId)
+      ? { ...c, kit: { ...c.kit, items: c.kit.items.map(item => (item.groupKey === productId ? { ...item, displayName: getProductDisplayName(updated), unit: updated.unit } : item)) } }
+      : c));
+    addTransaction({
+      type: 'update',
+      drugs: [],
+      notes: `PRODUCT UPDATED: ${getProductDisplayName(updated)} (${updated.id}). ${changes.join('; ')}. ${relabelledCount} batch(es) relabelled.`,
+    });
+    return { success: true, product: updated, message: `${getProductDisplayName(updated)} updated.` };
+  };
+
+  const deleteProduct = async (productId: string): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('adjust')) {
+      return permissionDenied('delete products');
+    }
+    const product = products.find(p => p.id === productId);
+    if (!product) {
+      return { success: false, message: 'Product not found.' };
+    }
+    const batchCount = drugs.filter(d => d.productId === productId).length;
+    if (batchCount > 0) {
+      return { success: false, message: `${getProductDisplayName(product)} has ${batchCount} batch(es). Merge it into another product instead.` };
+    }
+    setProducts(prev => prev.filter(p => p.id !== productId));
+    setCamps(prev => prev.map(c => c.kit && c.kit.items.some(item => item.groupKey === productId)
+      ? { ...c, kit: { ...c.kit, items: c.kit.items.filter(item => item.groupKey !== productId) } }
+      : c));
+    return { success: true, message: `${getProductDisplayName(product)} removed from the catalog.` };
+  };
+
+  const mergeProducts = async (sourceProductId: string, targetProductId: string): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('adjust')) {
+      return permissionDenied('merge products');
+    }
+    const source = products.find(p => p.id === sourceProductId);
+    const target = products.find(p => p.id === targetProductId);
+    if (!source || !target) {
+      return { success: false, message: 'Product not found.' };
+    }
+    if (source.id === target.id) {
+      return { success: false, message: 'Choose a different product to merge into.' };
+    }
+    // Stock and prices are kept in base units, which are not converted
+    if (source.unit !== target.unit) {
+      return { success: false, message: `${getProductDisplayName(source)} is counted in ${BASE_UNITS[source.unit].other} and ${getProductDisplayName(target)} in ${BASE_UNITS[target.unit].other}. Only products counted the same way can be merged.` };
+    }
+    const snapshot = await snapshotBeforeDestructiveAction('before-merge-products');
+    if (!snapshot.success) {
+      return { success: false, message: snapshot.message };
+    }
+
+    const movedBatches = drugs.filter(d => d.productId === source.id).length;
+    setProducts(prev => prev.filter(p => p.id !== source.id));
+    setDrugs(prev => prev.map(d => (d.productId === source.id ? withProductFields(d, target) : d)));
+    setCamps(prev => prev.map(c => (c.kit ? { ...c, kit: moveKitItemsToProduct(c.kit, source.id, target.id, getProductDisplayName(target)) } : c)));
+    addTransaction({
+      type: 'update',
+      drugs: [],
+      notes: `PRODUCTS MERGED: ${getProductDisplayName(source)} (${source.id}) merged into ${getProductDisplayName(target)} (${target.id}). ${movedBatches} batch(es) moved.`,
+    });
+    return { success: true, message: `${getProductDisplayName(source)} merged into ${getProductDisplayName(target)}.` };
+  };
+
+  // An earlier name still belongs to its village, as past dispenses are matched to it
+  const describeVillageNameClash = (name: string, villageId: string) => {
+    const village = villages.find(v => v.id === villageId);
+    return village && village.name.toLowerCase() !== name.toLowerCase()
+      ? `"${name}" is an earlier name of ${village.name}.`
+      : `Village "${name}" already exists.`;
+  };
+
+  const sortVillagesByName = (list: Village[]) => [...list].sort((a, b) => a.name.localeCompare(b.name));
+
   const addVillage = async (name: string): Promise<{ success: boolean; message?: string; village?: Village }> => {
+    if (!hasPermission('manageCamps')) {
+      return permissionDenied('add villages');
+    }
     if (!name.trim()) {
       return { success: false, message: 'Village name cannot be empty.' };
     }
-    const existingVillage = villages.find(v => v.name.toLowerCase() === name.trim().toLowerCase());
-    if (existingVillage) {
-      return { success: false, message: `Village "${name.trim()}" already exists.` };
+    const existingVillageId = buildVillageIdsByName(villages).get(name.trim().toLowerCase());
+    if (existingVillageId) {
+      return { success: false, message: describeVillageNameClash(name.trim(), existingVillageId) };
     }
     const newVillage: Village = {
       id: generateId('village'),
@@ -135,43 +555,923 @@ export const InventoryProvider = ({ children }: { children: ReactNode }) => {
     return { success: true, village: newVillage, message: `Village "${newVillage.name}" added.` };
   };
 
-  const getDrugGroupsForDisplay = useCallback((): GroupedDrugDisplay[] => {
-    const groups: Record<string, GroupedDrugDisplay> = {};
-    drugs.forEach(drug => {
-      const groupKey = `${drug.name.toLowerCase()}-DELIMITER-${(drug.brandName || '').toLowerCase()}-DELIMITER-${(drug.dosage || '').toLowerCase()}`;
-      
-      let displayNameSegments: string[] = [];
-      if (drug.brandName) {
-        displayNameSegments.push(drug.brandName);
+  const updateVillage = async (villageId: string, details: VillageDetails): Promise<{ success: boolean; message?: string; village?: Village }> => {
+    if (!hasPermission('manageCamps')) {
+      return permissionDenied('edit villages');
+    }
+    const existing = villages.find(v => v.id === villageId);
+    if (!existing) {
+      return { success: false, message: 'Village not found.' };
+    }
+    const validation = validateVillageDetails(details);
+    if ('error' in validation) {
+      return { success: false, message: validation.error };
+    }
+    const fields = validation.fields;
+    const clashId = buildVillageIdsByName(villages).get(fields.name.toLowerCase());
+    if (clashId && clashId !== villageId) {
+      return { success: false, message: describeVillageNameClash(fields.name, clashId) };
+    }
+    // A renamed village keeps its old name so dispenses recorded under it still match
+    const renamed = existing.name !== fields.name;
+    const aliases = renamed
+      ? Array.from(new Set([...(existing.aliases || []), existing.name])).filter(alias => alias.toLowerCase() !== fields.name.toLowerCase())
+      : existing.aliases;
+    const updated: Village = { id: existing.id, ...fields, aliases: aliases && aliases.length > 0 ? aliases : undefined };
+    setVillages(prev => sortVillagesByName(prev.map(v => (v.id === villageId ? updated : v))));
+    if (renamed) {
+      addTransaction({
+        type: 'update',
+        drugs: [],
+        notes: `VILLAGE RENAMED: "${existing.name}" is now "${updated.name}" (${updated.id}).`,
+      });
+    }
+    return { success: true, village: updated, message: `Village "${updated.name}" updated.` };
+  };
+
+  const deleteVillage = async (villageId: string): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('manageCamps')) {
+      return permissionDenied('delete villages');
+    }
+    const village = villages.find(v => v.id === villageId);
+    if (!village) {
+      return { success: false, message: 'Village not found.' };
+    }
+    const references = getVillageReferences(village, { transactions, patients, camps });
+    if (hasVillageReferences(references)) {
+      return { success: false, message: `"${village.name}" is used by ${references.transactionCount} dispense(s), ${references.patientCount} patient(s) and ${references.campCount} camp(s). Merge it into another village instead.` };
+    }
+    setVillages(prev => prev.filter(v => v.id !== villageId));
+    return { success: true, message: `Village "${village.name}" deleted.` };
+  };
+
+  const mergeVillages = async (sourceVillageId: string, targetVillageId: string): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('manageCamps')) {
+      return permissionDenied('merge villages');
+    }
+    const source = villages.find(v => v.id === sourceVillageId);
+    const target = villages.find(v => v.id === targetVillageId);
+    if (!source || !target) {
+      return { success: false, message: 'Village not found.' };
+    }
+    if (source.id === target.id) {
+      return { success: false, message: 'Choose a different village to merge into.' };
+    }
+    const snapshot = await snapshotBeforeDestructiveAction('before-merge-villages');
+    if (!snapshot.success) {
+      return { success: false, message: snapshot.message };
+    }
+
+    // The merged village's names move to the kept one, so its past dispenses are counted there
+    const merged: Village = {
+      ...target,
+      aliases: Array.from(new Set([...(target.aliases || []), ...getVillageNames(source)])),
+    };
+    const movedPatients = patients.filter(p => p.villageId === source.id).length;
+    const movedCamps = camps.filter(c => c.villageId === source.id).length;
+    setVillages(prev => prev.filter(v => v.id !== source.id).map(v => (v.id === target.id ? merged : v)));
+    setPatients(prev => prev.map(p => (p.villageId === source.id ? { ...p, villageId: target.id } : p)));
+    setCamps(prev => prev.map(c => (c.villageId === source.id ? { ...c, villageId: target.id } : c)));
+    addTransaction({
+      type: 'update',
+      drugs: [],
+      notes: `VILLAGE MERGED: "${source.name}" (${source.id}) merged into "${target.name}" (${target.id}). ${movedPatients} patient(s) and ${movedCamps} camp(s) moved.`,
+    });
+    return { success: true, message: `"${source.name}" merged into "${target.name}".` };
+  };
+
+  const importVillages = async (rows: VillageDetails[]): Promise<{ success: boolean; message?: string; result?: VillageImportResult }> => {
+    if (!hasPermission('manageCamps')) {
+      return permissionDenied('import villages');
+    }
+    if (rows.length === 0) {
+      return { success: false, message: 'The file has no villages to import.' };
+    }
+    // Villages already here (by any of their names) only have their blank fields filled in
+    const idsByName = buildVillageIdsByName(villages);
+    const byId = new Map(villages.map(v => [v.id, v]));
+    const result: VillageImportResult = { added: 0, updated: 0, unchanged: 0 };
+    const updatedIds = new Set<string>();
+    for (const row of rows) {
+      const validation = validateVillageDetails(row);
+      if ('error' in validation) {
+        return { success: false, message: `${row.name || 'A village'}: ${validation.error}` };
+      }
+      const fields = validation.fields;
+      const existingId = idsByName.get(fields.name.toLowerCase());
+      const existing = existingId ? byId.get(existingId) : undefined;
+      if (!existing) {
+        const newVillage: Village = { ...fields, id: generateId('village') };
+        byId.set(newVillage.id, newVillage);
+        idsByName.set(newVillage.name.toLowerCase(), newVillage.id);
+        result.added++;
+        continue;
+      }
+      const filled: Village = { ...existing };
+      (Object.keys(fields) as Array<keyof VillageDetails>).forEach(key => {
+        if (filled[key] === undefined && fields[key] !== undefined) {
+          Object.assign(filled, { [key]: fields[key] });
+        }
+      });
+      if (JSON.stringify(filled) === JSON.stringify(existing)) {
+        if (!updatedIds.has(existing.id)) result.unchanged++;
+        continue;
+      }
+      byId.set(existing.id, filled);
+      if (!updatedIds.has(existing.id) && villages.some(v => v.id === existing.id)) {
+        updatedIds.add(existing.id);
+        result.updated++;
+      }
+    }
+    setVillages(sortVillagesByName(Array.from(byId.values())));
+    return {
+      success: true,
+      result,
+      message: `${result.added} village(s) added, ${result.updated} updated with missing details, ${result.unchanged} already up to date.`,
+    };
+  };
+
+  const getPatientById = useCallback((patientId: string) => {
+    return patients.find(patient => patient.id === patientId);
+  }, [patients]);
+
+  // Shared by addPatient and updatePatient; returns an error message or the cleaned fields
+  const validatePatientData = (data: NewPatientData): { error: string } | { fields: Omit<Patient, 'id' | 'registeredAt' | 'linkedTransactionIds'> } => {
+    const name = data.name.trim();
+    if (name.length < 2) {
+      return { error: 'Patient name must be at least 2 characters.' };
+    }
+    const aadharLastFour = data.aadharLastFour?.trim() || undefined;
+    if (aadharLastFour && !/^\d{4}$/.test(aadharLastFour)) {
+      return { error: 'Aadhar must be exactly 4 digits.' };
+    }
+    let dateOfBirth = data.dateOfBirth || undefined;
+    let dateOfBirthEstimated: boolean | undefined;
+    if (dateOfBirth) {
+      const parsed = parseISO(dateOfBirth);
+      if (!isValid(parsed) || parsed > new Date()) {
+        return { error: 'Date of birth must be a valid date in the past.' };
+      }
+    } else if (typeof data.age === 'number' && data.age > 0) {
+      dateOfBirth = estimateDateOfBirth(data.age);
+      dateOfBirthEstimated = true;
+    }
+    if (data.villageId && !villages.some(v => v.id === data.villageId)) {
+      return { error: 'Selected village no longer exists.' };
+    }
+    return {
+      fields: {
+        name,
+        dateOfBirth,
+        dateOfBirthEstimated,
+        sex: data.sex,
+        aadharLastFour,
+        phone: data.phone?.trim() || undefined,
+        villageId: data.villageId || undefined,
+        preferredLanguage: isLocaleCode(data.preferredLanguage) && data.preferredLanguage !== DEFAULT_LOCALE ? data.preferredLanguage : undefined,
+      },
+    };
+  };
+
+  const addPatient = async (data: NewPatientData): Promise<{ success: boolean; message?: string; patient?: Patient }> => {
+    if (!hasPermission('dispense')) {
+      return permissionDenied('register patients');
+    }
+    const validated = validatePatientData(data);
+    if ('error' in validated) {
+      return { success: false, message: validated.error };
+    }
+    const newPatient: Patient = {
+      id: generateId('patient'),
+      ...validated.fields,
+      registeredAt: new Date().toISOString(),
+    };
+    setPatients(prev => sortPatientsByName([...prev, newPatient]));
+    return { success: true, patient: newPatient, message: `Patient "${newPatient.name}" registered.` };
+  };
+
+  const updatePatient = async (patientId: string, data: NewPatientData): Promise<{ success: boolean; message?: string; patient?: Patient }> => {
+    if (!hasPermission('dispense')) {
+      return permissionDenied('edit patients');
+    }
+    const existing = patients.find(p => p.id === patientId);
+    if (!existing) {
+      return { success: false, message: 'Patient not found.' };
+    }
+    const validated = validatePatientData(data);
+    if ('error' in validated) {
+      return { success: false, message: validated.error };
+    }
+    const updated: Patient = { ...existing, ...validated.fields };
+    setPatients(prev => sortPatientsByName(prev.map(p => (p.id === patientId ? updated : p))));
+    return { success: true, patient: updated, message: `Patient "${updated.name}" updated.` };
+  };
+
+  const describeLinkResult = (result: PatientLinkResult) => {
+    if (result.linkedCount === 0 && result.ambiguousCount === 0) return 'All past dispenses are already linked to patients.';
+    let message = `Linked ${result.linkedCount} past dispense(s) to patients, registering ${result.createdCount} new patient(s).`;
+    if (result.ambiguousCount > 0) {
+      message += ` ${result.ambiguousCount} dispense(s) matched more than one patient and were left unlinked.`;
+    }
+    return message;
+  };
+
+  const linkPastDispenses = async (): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('dispense')) {
+      return permissionDenied('link dispenses to patients');
+    }
+    const result = linkHistoricalDispenses(patients, transactions, villages, () => generateId('patient'));
+    setPatients(sortPatientsByName(result.patients));
+    return { success: true, message: describeLinkResult(result) };
+  };
+
+  const mergePatientRecords = async (keepPatientId: string, duplicatePatientId: string): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('adjust')) {
+      return permissionDenied('merge patient records');
+    }
+    const keep = patients.find(p => p.id === keepPatientId);
+    const duplicate = patients.find(p => p.id === duplicatePatientId);
+    if (!keep || !duplicate || keepPatientId === duplicatePatientId) {
+      return { success: false, message: 'Select two different patients to merge.' };
+    }
+    if (!isActivePatient(keep) || !isActivePatient(duplicate)) {
+      return { success: false, message: 'One of these patients has already been merged.' };
+    }
+    const { kept, merged } = mergePatients(keep, duplicate, transactions, getCurrentActor());
+    setPatients(prev => sortPatientsByName(prev.map(p => (p.id === kept.id ? kept : p.id === merged.id ? merged : p))));
+    const movedCount = merged.mergedInto!.movedTransactionIds.length;
+    addTransaction({
+      type: 'update',
+      drugs: [],
+      notes: `PATIENTS MERGED: "${duplicate.name}" (${duplicate.id}) merged into "${keep.name}" (${keep.id}). ${movedCount} transaction(s) re-pointed.`,
+    });
+    return { success: true, message: `"${duplicate.name}" merged into "${keep.name}". ${movedCount} dispense(s) moved.` };
+  };
+
+  const undoPatientMerge = async (mergedPatientId: string): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('adjust')) {
+      return permissionDenied('undo patient merges');
+    }
+    const merged = patients.find(p => p.id === mergedPatientId);
+    if (!merged?.mergedInto) {
+      return { success: false, message: 'This patient was not merged.' };
+    }
+    const kept = patients.find(p => p.id === merged.mergedInto!.patientId);
+    if (!kept) {
+      return { success: false, message: 'The patient this record was merged into no longer exists.' };
+    }
+    if (!isActivePatient(kept)) {
+      return { success: false, message: `"${kept.name}" was itself merged afterwards. Undo that merge first.` };
+    }
+    const restored = reversePatientMerge(kept, merged);
+    setPatients(prev => sortPatientsByName(prev.map(p => (p.id === kept.id ? restored.kept : p.id === merged.id ? restored.merged : p))));
+    addTransaction({
+      type: 'update',
+      drugs: [],
+      notes: `PATIENT MERGE UNDONE: "${merged.name}" (${merged.id}) separated from "${kept.name}" (${kept.id}).`,
+    });
+    return { success: true, message: `"${merged.name}" is a separate patient again.` };
+  };
+
+  const dismissDuplicatePatients = async (patientIdA: string, patientIdB: string): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('adjust')) {
+      return permissionDenied('review duplicate patients');
+    }
+    const a = patients.find(p => p.id === patientIdA);
+    if (!a || !patients.some(p => p.id === patientIdB)) {
+      return { success: false, message: 'Patient not found.' };
+    }
+    const updated: Patient = { ...a, notDuplicateOf: Array.from(new Set([...(a.notDuplicateOf || []), patientIdB])) };
+    setPatients(prev => prev.map(p => (p.id === a.id ? updated : p)));
+    return { success: true, message: 'Marked as different patients.' };
+  };
+
+  const activeCamp = getActiveCamp(camps);
+
+  const describeCamp = (camp: Camp) =>
+    `${villages.find(v => v.id === camp.villageId)?.name || 'Unknown village'} on ${camp.date}`;
+
+  // Shared by addCamp and updateCamp; returns an error message or the cleaned fields
+  const validateCampData = (data: NewCampData): { error: string } | { fields: NewCampData } => {
+    if (!isValid(parseISO(data.date))) {
+      return { error: 'Camp date must be a valid date.' };
+    }
+    if (!villages.some(v => v.id === data.villageId)) {
+      return { error: 'Select the village the camp is held in.' };
+    }
+    const startTime = data.startTime?.trim() || undefined;
+    const endTime = data.endTime?.trim() || undefined;
+    if ((startTime && !isValidCampTime(startTime)) || (endTime && !isValidCampTime(endTime))) {
+      return { error: 'Times must be in HH:mm format.' };
+    }
+    if (startTime && endTime && endTime <= startTime) {
+      return { error: 'End time must be after the start time.' };
+    }
+    const teamMembers = Array.from(new Set(data.teamMembers.map(member => member.trim()).filter(Boolean)));
+    return {
+      fields: {
+        date: data.date,
+        villageId: data.villageId,
+        teamMembers,
+        startTime,
+        endTime,
+        notes: data.notes?.trim() || undefined,
+      },
+    };
+  };
+
+  const addCamp = async (data: NewCampData): Promise<{ success: boolean; message?: string; camp?: Camp }> => {
+    if (!hasPermission('manageCamps')) {
+      return permissionDenied('plan camps');
+    }
+    const validation = validateCampData(data);
+    if ('error' in validation) {
+      return { success: false, message: validation.error };
+    }
+    const newCamp: Camp = {
+      ...validation.fields,
+      id: generateId('camp'),
+      status: 'planned',
+      createdAt: new Date().toISOString(),
+    };
+    setCamps(prev => sortCampsByDate([...prev, newCamp]));
+    return { success: true, camp: newCamp, message: `Camp at ${describeCamp(newCamp)} planned.` };
+  };
+
+  const updateCamp = async (campId: string, data: NewCampData): Promise<{ success: boolean; message?: string; camp?: Camp }> => {
+    if (!hasPermission('manageCamps')) {
+      return permissionDenied('edit camps');
+    }
+    const existing = camps.find(c => c.id === campId);
+    if (!existing) {
+      return { success: false, message: 'Camp not found.' };
+    }
+    if (existing.status === 'closed') {
+      return { success: false, message: 'Closed camps cannot be edited.' };
+    }
+    // Transactions are already tagged with an active camp, so it cannot move to another village
+    if (existing.status === 'active' && data.villageId !== existing.villageId) {
+      return { success: false, message: 'The village of an active camp cannot be changed.' };
+    }
+    const validation = validateCampData(data);
+    if ('error' in validation) {
+      return { success: false, message: validation.error };
+    }
+    const updated: Camp = { ...existing, ...validation.fields };
+    setCamps(prev => sortCampsByDate(prev.map(c => (c.id === campId ? updated : c))));
+    return { success: true, camp: updated, message: `Camp at ${describeCamp(updated)} updated.` };
+  };
+
+  const startCamp = async (campId: string): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('manageCamps')) {
+      return permissionDenied('start camps');
+    }
+    const camp = camps.find(c => c.id === campId);
+    if (!camp) {
+      return { success: false, message: 'Camp not found.' };
+    }
+    if (camp.status !== 'planned') {
+      return { success: false, message: `This camp is already ${camp.status}.` };
+    }
+    if (activeCamp) {
+      return { success: false, message: `The camp at ${describeCamp(activeCamp)} is still active. Close it first.` };
+    }
+    const started: Camp = { ...camp, status: 'active', startedAt: new Date().toISOString() };
+    setCamps(prev => prev.map(c => (c.id === campId ? started : c)));
+    addTransaction({
+      type: 'update',
+      drugs: [],
+      notes: `CAMP STARTED: ${describeCamp(camp)} (${camp.id}). Dispenses and adjustments are tagged with this camp until it is closed.`,
+    });
+    return { success: true, message: `Camp at ${describeCamp(camp)} is now active.` };
+  };
+
+  const closeCamp = async (campId: string): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('manageCamps')) {
+      return permissionDenied('close camps');
+    }
+    const camp = camps.find(c => c.id === campId);
+    if (!camp) {
+      return { success: false, message: 'Camp not found.' };
+    }
+    if (camp.status === 'closed') {
+      return { success: false, message: 'This camp is already closed.' };
+    }
+    const closed: Camp = { ...camp, status: 'closed', closedAt: new Date().toISOString() };
+    setCamps(prev => prev.map(c => (c.id === campId ? closed : c)));
+    addTransaction({
+      type: 'update',
+      drugs: [],
+      notes: `CAMP CLOSED: ${describeCamp(camp)} (${camp.id}).`,
+    });
+    return { success: true, message: `Camp at ${describeCamp(camp)} closed.` };
+  };
+
+  const deleteCamp = async (campId: string): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('manageCamps')) {
+      return permissionDenied('delete camps');
+    }
+    const camp = camps.find(c => c.id === campId);
+    if (!camp) {
+      return { success: false, message: 'Camp not found.' };
+    }
+    // Started camps are referenced by transactions, so only plans that never ran can be removed
+    if (camp.status !== 'planned') {
+      return { success: false, message: 'Only planned camps can be deleted. Close the camp instead.' };
+    }
+    setCamps(prev => prev.filter(c => c.id !== campId));
+    return { success: true, message: `Planned camp at ${describeCamp(camp)} deleted.` };
+  };
+
+  const planCampKit = async (
+    campId: string,
+    basis: Pick<CampKit, 'basis' | 'basisVillageIds' | 'basisVisitCount'>,
+    items: Array<Omit<CampKitItem, 'batches'>>
+  ): Promise<{ success: boolean; message?: string; kit?: CampKit }> => {
+    if (!hasPermission('manageCamps')) {
+      return permissionDenied('plan camp kits');
+    }
+    const camp = camps.find(c => c.id === campId);
+    if (!camp) {
+      return { success: false, message: 'Camp not found.' };
+    }
+    if (camp.status === 'closed') {
+      return { success: false, message: 'Kits cannot be planned for a closed camp.' };
+    }
+    if (camp.kit?.packedAt) {
+      return { success: false, message: 'This kit has already been packed.' };
+    }
+    const wantedItems = items.filter(item => Number.isInteger(item.quantity) && item.quantity > 0);
+    if (wantedItems.length === 0) {
+      return { success: false, message: 'Add at least one drug with a quantity to pack.' };
+    }
+    const kit: CampKit = {
+      ...basis,
+      items: reserveCampKitBatches(drugs, wantedItems, getReservedQuantities(camps, campId), camp.date),
+      plannedAt: new Date().toISOString(),
+    };
+    setCamps(prev => prev.map(c => (c.id === campId ? { ...c, kit } : c)));
+    const shortCount = kit.items.filter(item => item.batches.reduce((sum, batch) => sum + batch.quantity, 0) < item.quantity).length;
+    return {
+      success: true,
+      kit,
+      message: shortCount > 0
+        ? `Batches reserved. ${shortCount} drug(s) do not have enough unreserved stock.`
+        : `Batches reserved for ${kit.items.length} drug(s).`,
+    };
+  };
+
+  const markCampKitPacked = async (campId: string): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('manageCamps')) {
+      return permissionDenied('pack camp kits');
+    }
+    const camp = camps.find(c => c.id === campId);
+    if (!camp?.kit) {
+      return { success: false, message: 'Plan the kit before packing it.' };
+    }
+    if (camp.kit.packedAt) {
+      return { success: false, message: 'This kit has already been packed.' };
+    }
+    const kit: CampKit = { ...camp.kit, packedAt: new Date().toISOString() };
+    setCamps(prev => prev.map(c => (c.id === campId ? { ...c, kit } : c)));
+    const packed = formatQuantityTotals(kit.items.flatMap(item => item.batches.map(batch => ({
+      quantity: batch.quantity,
+      unit: drugs.find(d => d.id === batch.drugId)?.unit,
+    }))));
+    addTransaction({
+      type: 'update',
+      drugs: [],
+      notes: `CAMP KIT PACKED: ${describeCamp(camp)} (${camp.id}). ${kit.items.length} drug(s), ${packed}.`,
+    });
+    return { success: true, message: `Kit for ${describeCamp(camp)} marked as packed.` };
+  };
+
+  const reconcileCampKit = async (campId: string, returned: Record<string, number>): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('adjust')) {
+      return permissionDenied('reconcile camp kits');
+    }
+    const camp = camps.find(c => c.id === campId);
+    if (!camp?.kit?.packedAt) {
+      return { success: false, message: 'Only packed kits can be reconciled.' };
+    }
+    if (camp.kit.reconciledAt) {
+      return { success: false, message: 'This kit has already been reconciled.' };
+    }
+    if (camp.status !== 'closed') {
+      return { success: false, message: 'Close the camp before reconciling its kit.' };
+    }
+    const packedBatches = camp.kit.items.flatMap(item => item.batches);
+    if (packedBatches.some(batch => !Number.isInteger(returned[batch.drugId]) || returned[batch.drugId] < 0)) {
+      return { success: false, message: 'Enter the quantity returned for every packed batch.' };
+    }
+
+    const usage = getCampBatchUsage(camp, transactions);
+    const tempDrugs = [...drugs];
+    const writeOffs: TransactionDrugDetail[] = [];
+    packedBatches.forEach(batch => {
+      const { missing } = reconcileKitBatch(batch.quantity, usage.get(batch.drugId) || 0, returned[batch.drugId]);
+      const drugIndex = tempDrugs.findIndex(d => d.id === batch.drugId);
+      if (missing === 0 || drugIndex === -1) return;
+      // The kit is counted back in where this device is, so the difference is written off there
+      const drug = tempDrugs[drugIndex];
+      const previousStock = getLocationStock(drug, activeLocationId);
+      const newStock = Math.max(0, previousStock - missing);
+      if (newStock === previousStock) return;
+      tempDrugs[drugIndex] = withLocationStock(drug, activeLocationId, newStock);
+      writeOffs.push({
+        drugId: drug.id,
+        drugName: drug.name,
+        brandName: drug.brandName,
+        dosage: drug.dosage,
+        batchNumber: drug.batchNumber,
+        unit: drug.unit,
+        quantity: newStock - previousStock,
+        previousStock,
+        newStock,
+      });
+    });
+
+    const kit: CampKit = {
+      ...camp.kit,
+      items: camp.kit.items.map(item => ({
+        ...item,
+        batches: item.batches.map(batch => ({ ...batch, returned: returned[batch.drugId] })),
+      })),
+      reconciledAt: new Date().toISOString(),
+    };
+    setCamps(prev => prev.map(c => (c.id === campId ? { ...c, kit } : c)));
+    if (writeOffs.length > 0) {
+      setDrugs(tempDrugs);
+    }
+    // One adjustment per batch, as the transaction log shows adjustments line by line
+    writeOffs.forEach(line => addTransaction({
+      type: 'adjustment',
+      source: getCurrentActor()?.userName,
+      campId: camp.id,
+      locationId: activeLocationId,
+      drugs: [line],
+      notes: `Camp kit reconciliation: ${describeCamp(camp)}. ${line.quantity < 0 ? `${formatQuantity(-line.quantity, line.unit)} not returned` : `${formatQuantity(line.quantity, line.unit)} more returned than expected`}.`,
+    }));
+    addTransaction({
+      type: 'update',
+      drugs: [],
+      notes: `CAMP KIT RECONCILED: ${describeCamp(camp)} (${camp.id}). ${packedBatches.length} batch(es) checked, ${writeOffs.length} adjusted.`,
+    });
+    return {
+      success: true,
+      message: writeOffs.length > 0
+        ? `Kit reconciled. Stock adjusted for ${writeOffs.length} batch(es).`
+        : 'Kit reconciled. Everything packed was dispensed or returned.',
+    };
+  };
+
+  const getLocationLabel = (locationId: string) => locations.find(l => l.id === locationId)?.name || 'an unknown location';
+
+  const sortLocationsByName = (list: StockLocation[]) => [...list].sort((a, b) => a.name.localeCompare(b.name));
+
+  const addLocation = async (name: string, kind: StockLocation['kind']): Promise<{ success: boolean; message?: string; location?: StockLocation }> => {
+    if (!hasPermission('adjust')) {
+      return permissionDenied('add stock locations');
+    }
+    if (!name.trim()) {
+      return { success: false, message: 'Location name cannot be empty.' };
+    }
+    if (locations.some(l => l.name.toLowerCase() === name.trim().toLowerCase())) {
+      return { success: false, message: `Location "${name.trim()}" already exists.` };
+    }
+    const newLocation: StockLocation = { id: generateId('location'), name: name.trim(), kind };
+    setLocations(prev => sortLocationsByName([...prev, newLocation]));
+    return { success: true, location: newLocation, message: `Location "${newLocation.name}" added.` };
+  };
+
+  const updateLocation = async (locationId: string, name: string, kind: StockLocation['kind']): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('adjust')) {
+      return permissionDenied('edit stock locations');
+    }
+    const existing = locations.find(l => l.id === locationId);
+    if (!existing) {
+      return { success: false, message: 'Location not found.' };
+    }
+    if (!name.trim()) {
+      return { success: false, message: 'Location name cannot be empty.' };
+    }
+    if (locations.some(l => l.id !== locationId && l.name.toLowerCase() === name.trim().toLowerCase())) {
+      return { success: false, message: `Location "${name.trim()}" already exists.` };
+    }
+    setLocations(prev => sortLocationsByName(prev.map(l => (l.id === locationId ? { ...l, name: name.trim(), kind } : l))));
+    return { success: true, message: `Location "${name.trim()}" updated.` };
+  };
+
+  const deleteLocation = async (locationId: string): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('adjust')) {
+      return permissionDenied('delete stock locations');
+    }
+    const existing = locations.find(l => l.id === locationId);
+    if (!existing) {
+      return { success: false, message: 'Location not found.' };
+    }
+    if (locationId === DEFAULT_LOCATION_ID) {
+      return { success: false, message: `"${existing.name}" is where stock recorded before locations existed belongs, so it cannot be deleted.` };
+    }
+    if (locationId === activeLocationId) {
+      return { success: false, message: 'Switch this device to another location before deleting this one.' };
+    }
+    if (stockTakes.some(stockTake => stockTake.locationId === locationId && stockTake.status === 'counting')) {
+      return { success: false, message: `A stock take is open at "${existing.name}". Approve or cancel it first.` };
+    }
+    const batchesHeld = drugs.filter(drug => getLocationStock(drug, locationId) > 0);
+    if (batchesHeld.length > 0) {
+      return { success: false, message: `"${existing.name}" still holds stock of ${batchesHeld.length} batch(es). Transfer it elsewhere first.` };
+    }
+    setLocations(prev => prev.filter(l => l.id !== locationId));
+    return { success: true, message: `Location "${existing.name}" deleted.` };
+  };
+
+  const setActiveLocation = async (locationId: string): Promise<{ success: boolean; message?: string }> => {
+    const location = locations.find(l => l.id === locationId);
+    if (!location) {
+      return { success: false, message: 'Location not found.' };
+    }
+    await setMeta(ACTIVE_LOCATION_META_KEY, locationId);
+    setActiveLocationIdState(locationId);
+    return { success: true, message: `This device now dispenses from ${location.name}.` };
+  };
+
+  const transferStock = async (fromLocationId: string, toLocationId: string, entries: StockTransferEntry[], notes?: string): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('restock')) {
+      return permissionDenied('transfer stock');
+    }
+    if (!locations.some(l => l.id === fromLocationId) || !locations.some(l => l.id === toLocationId)) {
+      return { success: false, message: 'Select both locations.' };
+    }
+    if (fromLocationId === toLocationId) {
+      return { success: false, message: 'Stock can only be transferred between two different locations.' };
+    }
+    const wanted = entries.filter(entry => entry.quantity !== 0);
+    if (wanted.length === 0) {
+      return { success: false, message: 'Add at least one batch to transfer.' };
+    }
+    if (wanted.some(entry => !Number.isInteger(entry.quantity) || entry.quantity < 0)) {
+      return { success: false, message: 'Quantities must be whole numbers.' };
+    }
+    if (new Set(wanted.map(entry => entry.drugId)).size !== wanted.length) {
+      return { success: false, message: 'Each batch can only be listed once.' };
+    }
+
+    const tempDrugs = [...drugs];
+    const lines: TransactionDrugDetail[] = [];
+    for (const entry of wanted) {
+      const drugIndex = tempDrugs.findIndex(d => d.id === entry.drugId);
+      if (drugIndex === -1) {
+        return { success: false, message: 'Drug batch not found.' };
       }
-      displayNameSegments.push(drug.name); 
-      if (drug.dosage) {
-        displayNameSegments.push(drug.dosage);
+      const drug = tempDrugs[drugIndex];
+      const previousStock = getLocationStock(drug, fromLocationId);
+      if (previousStock < entry.quantity) {
+        return { success: false, message: `Not enough stock of ${drug.name} (Batch: ${drug.batchNumber || 'N/A'}) at ${getLocationLabel(fromLocationId)}. Available: ${previousStock}, Requested: ${entry.quantity}.` };
       }
-      const displayName = displayNameSegments.join(' ');
+      const moved = withLocationStock(drug, fromLocationId, previousStock - entry.quantity);
+      tempDrugs[drugIndex] = withLocationStock(moved, toLocationId, getLocationStock(moved, toLocationId) + entry.quantity);
+      lines.push({
+        drugId: drug.id,
+        drugName: drug.name,
+        brandName: drug.brandName,
+        dosage: drug.dosage,
+        batchNumber: drug.batchNumber,
+        unit: drug.unit,
+        quantity: entry.quantity,
+        previousStock,
+        newStock: previousStock - entry.quantity,
+      });
+    }
+
+    setDrugs(tempDrugs);
+    const movedSummary = formatQuantityTotals(lines);
+    addTransaction({
+      type: 'transfer',
+      transfer: { fromLocationId, toLocationId },
+      drugs: lines,
+      notes: notes?.trim() || `Transferred ${movedSummary} from ${getLocationLabel(fromLocationId)} to ${getLocationLabel(toLocationId)}.`,
+    });
+    return { success: true, message: `${movedSummary} of ${lines.length} batch(es) moved from ${getLocationLabel(fromLocationId)} to ${getLocationLabel(toLocationId)}.` };
+  };
+
+  const describeStockTakeLine = (line: Pick<StockTake['lines'][number], 'displayName' | 'batchNumber'>) =>
+    `${line.displayName} (Batch: ${line.batchNumber || 'N/A'})`;
+
+  const startStockTake = async (data: NewStockTakeData): Promise<{ success: boolean; message?: string; stockTake?: StockTake }> => {
+    if (!hasPermission('adjust')) {
+      return permissionDenied('start stock takes');
+    }
+    const name = data.name.trim();
+    if (!name) {
+      return { success: false, message: 'Give the stock take a name.' };
+    }
+    if (!locations.some(l => l.id === data.locationId)) {
+      return { success: false, message: 'Location not found.' };
+    }
+    if (data.scope.kind !== 'all' && data.scope.values.length === 0) {
+      return { success: false, message: `Choose at least one ${data.scope.kind} to count.` };
+    }
+    const lines = buildStockTakeLines(products, drugs, data.locationId, data.scope);
+    if (lines.length === 0) {
+      return { success: false, message: `No stock at ${getLocationLabel(data.locationId)} falls under ${describeStockTakeScope(data.scope)}.` };
+    }
+    // Each open stock take would post its own variance for a batch, so a batch is only in one at a time
+    const drugIdsBeingCounted = new Set(stockTakes
+      .filter(stockTake => stockTake.status === 'counting' && stockTake.locationId === data.locationId)
+      .flatMap(stockTake => stockTake.lines.map(line => line.drugId)));
+    const alreadyCounted = lines.filter(line => drugIdsBeingCounted.has(line.drugId));
+    if (alreadyCounted.length > 0) {
+      return { success: false, message: `${alreadyCounted.length} of these batch(es) are in another open stock take at ${getLocationLabel(data.locationId)}. Approve or cancel it first.` };
+    }
+    const newStockTake: StockTake = {
+      id: generateId('stocktake'),
+      name,
+      locationId: data.locationId,
+      scope: data.scope,
+      status: 'counting',
+      lines,
+      notes: data.notes?.trim() || undefined,
+      startedAt: new Date().toISOString(),
+      startedBy: getCurrentActor(),
+    };
+    setStockTakes(prev => sortStockTakesNewestFirst([newStockTake, ...prev]));
+    return { success: true, stockTake: newStockTake, message: `Stock take "${name}" started with ${lines.length} batch(es) to count.` };
+  };
+
+  const recordStockTakeCounts = async (stockTakeId: string, countedBy: string, counts: Record<string, number>): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('restock')) {
+      return permissionDenied('record stock counts');
+    }
+    const stockTake = stockTakes.find(st => st.id === stockTakeId);
+    if (!stockTake) {
+      return { success: false, message: 'Stock take not found.' };
+    }
+    if (stockTake.status !== 'counting') {
+      return { success: false, message: 'Counts can only be entered while the stock take is open.' };
+    }
+    const counter = countedBy.trim();
+    if (!counter) {
+      return { success: false, message: 'Enter the name of whoever counted.' };
+    }
+    const entries = Object.entries(counts);
+    if (entries.length === 0) {
+      return { success: false, message: 'Enter at least one count.' };
+    }
+    if (entries.some(([, quantity]) => !Number.isInteger(quantity) || quantity < 0)) {
+      return { success: false, message: 'Counts must be zero or a positive whole number.' };
+    }
+    if (entries.some(([drugId]) => !stockTake.lines.some(line => line.drugId === drugId))) {
+      return { success: false, message: 'Some of the counted batches are not part of this stock take.' };
+    }
+
+    const countedAt = new Date().toISOString();
+    const recordedBy = getCurrentActor();
+    const lines = stockTake.lines.map(line => (
+      counts[line.drugId] === undefined
+        ? line
+        : { ...line, counts: [...line.counts, { quantity: counts[line.drugId], countedBy: counter, countedAt, recordedBy }] }
+    ));
+    setStockTakes(prev => prev.map(st => (st.id === stockTakeId ? { ...st, lines } : st)));
+    return { success: true, message: `${entries.length} count(s) by ${counter} recorded.` };
+  };
+
+  const approveStockTake = async (stockTakeId: string): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('adjust')) {
+      return permissionDenied('approve stock takes');
+    }
+    const stockTake = stockTakes.find(st => st.id === stockTakeId);
+    if (!stockTake) {
+      return { success: false, message: 'Stock take not found.' };
+    }
+    if (stockTake.status !== 'counting') {
+      return { success: false, message: `This stock take has already been ${stockTake.status}.` };
+    }
+    const countedLines = stockTake.lines.filter(line => getCountedQuantity(line) !== undefined);
+    if (countedLines.length === 0) {
+      return { success: false, message: 'Nothing has been counted yet.' };
+    }
 
+    const tempDrugs = [...drugs];
+    const adjustments: TransactionDrugDetail[] = [];
+    const deletedBatches: string[] = [];
+    const overdrawnBatches: string[] = [];
+    countedLines.forEach(line => {
+      const variance = getLineVariance(line)!;
+      if (variance === 0) return;
+      const drugIndex = tempDrugs.findIndex(d => d.id === line.drugId);
+      if (drugIndex === -1) {
+        deletedBatches.push(describeStockTakeLine(line));
+        return;
+      }
+      // The variance is applied to today's stock, keeping what moved since the count started
+      const drug = tempDrugs[drugIndex];
+      const previousStock = getLocationStock(drug, stockTake.locationId);
+      const newStock = previousStock + variance;
+      if (newStock < 0) {
+        overdrawnBatches.push(describeStockTakeLine(line));
+        return;
+      }
+      tempDrugs[drugIndex] = withLocationStock(drug, stockTake.locationId, newStock);
+      adjustments.push({
+        drugId: drug.id,
+        drugName: drug.name,
+        brandName: drug.brandName,
+        dosage: drug.dosage,
+        batchNumber: drug.batchNumber,
+        unit: drug.unit,
+        quantity: variance,
+        previousStock,
+        newStock,
+      });
+    });
+    if (overdrawnBatches.length > 0) {
+      return { success: false, message: `More stock has left ${overdrawnBatches.join(', ')} since the count started than was counted. Count again before approving.` };
+    }
+
+    const summary = summarizeStockTake(stockTake);
+    const actor = getCurrentActor();
+    setStockTakes(prev => prev.map(st => (st.id === stockTakeId ? { ...st, status: 'approved', approvedAt: new Date().toISOString(), approvedBy: actor } : st)));
+    const countNote = `${summary.countedCount} of ${summary.lineCount} batch(es) counted by ${summary.counters.join(', ')}`;
+    const deletedNote = deletedBatches.length > 0 ? ` Not adjusted as the batch was deleted: ${deletedBatches.join(', ')}.` : '';
+    if (adjustments.length > 0) {
+      setDrugs(tempDrugs);
+      addTransaction({
+        type: 'adjustment',
+        source: actor?.userName,
+        locationId: stockTake.locationId,
+        stockTakeId: stockTake.id,
+        drugs: adjustments,
+        notes: `Stock take "${stockTake.name}" approved. ${countNote}; ${adjustments.length} adjusted. Net variance INR ${summary.netValue.toFixed(2)}.${deletedNote}`,
+      });
+    } else {
+      addTransaction({
+        type: 'update',
+        drugs: [],
+        notes: `STOCK TAKE APPROVED: "${stockTake.name}" at ${getLocationLabel(stockTake.locationId)}. ${countNote}; no stock needed adjusting.${deletedNote}`,
+      });
+    }
+    return {
+      success: true,
+      message: adjustments.length > 0
+        ? `Stock adjusted for ${adjustments.length} batch(es). Net variance INR ${summary.netValue.toFixed(2)}.`
+        : 'Every count matched the records. No stock was adjusted.',
+    };
+  };
+
+  const cancelStockTake = async (stockTakeId: string): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('adjust')) {
+      return permissionDenied('cancel stock takes');
+    }
+    const stockTake = stockTakes.find(st => st.id === stockTakeId);
+    if (!stockTake) {
+      return { success: false, message: 'Stock take not found.' };
+    }
+    if (stockTake.status !== 'counting') {
+      return { success: false, message: `This stock take has already been ${stockTake.status}.` };
+    }
+    setStockTakes(prev => prev.map(st => (st.id === stockTakeId ? { ...st, status: 'cancelled', cancelledAt: new Date().toISOString(), cancelledBy: getCurrentActor() } : st)));
+    return { success: true, message: `Stock take "${stockTake.name}" cancelled. No stock was changed.` };
+  };
+
+  const getDrugGroupsForDisplay = useCallback((locationId?: string): GroupedDrugDisplay[] => {
+    const groups: Record<string, GroupedDrugDisplay> = {};
+    const productsById = new Map(products.map(product => [product.id, product]));
+    // With a location, stock figures and batches are that location's; the breakdown always covers every location
+    const batches = locationId ? viewStockAtLocation(drugs, locationId) : drugs;
+    batches.forEach(drug => {
+      const groupKey = drug.productId;
       if (!groups[groupKey]) {
+        // The batch's copy of the product's fields stands in if the product itself is missing
+        const product = productsById.get(groupKey);
         groups[groupKey] = {
           groupKey,
-          displayName,
-          genericName: drug.name,
-          brandName: drug.brandName,
-          dosage: drug.dosage,
+          displayName: getProductDisplayName(product || drug),
+          genericName: product?.name ?? drug.name,
+          brandName: product ? product.brandName : drug.brandName,
+          dosage: product ? product.dosage : drug.dosage,
+          category: product?.category,
+          dosageForm: product?.dosageForm ?? drug.dosageForm,
+          unit: product?.unit ?? drug.unit,
+          packSizes: product ? product.packSizes : drug.packSizes,
           totalStock: 0,
-          lowStockThreshold: drug.lowStockThreshold, 
+          stockByLocation: {},
+          lowStockThreshold: product?.lowStockThreshold ?? DEFAULT_DRUG_LOW_STOCK_THRESHOLD,
+          reorderLevel: product?.reorderLevel,
+          maxStockLevel: product?.maxStockLevel,
           batches: [],
         };
       }
       groups[groupKey].totalStock += drug.stock;
       groups[groupKey].batches.push(drug);
-      groups[groupKey].batches.sort((a, b) => {
-        const dateA = a.dateOfExpiry ? new Date(a.dateOfExpiry).getTime() : Infinity;
-        const dateB = b.dateOfExpiry ? new Date(b.dateOfExpiry).getTime() : Infinity;
-        return dateA - dateB; 
-      });
+      groups[groupKey].batches.sort(compareByExpiry);
+    });
+    Object.values(groups).forEach(group => {
+      group.stockByLocation = sumStockByLocation(drugs.filter(drug => drug.productId === group.groupKey));
     });
     return Object.values(groups).sort((a,b) => a.displayName.localeCompare(b.displayName));
-  }, [drugs]);
+  }, [drugs, products]);
 
 const getBatchesForDispenseDisplay = useCallback((): BatchForDispenseDisplay[] => {
   const safeGetTime = (dateString?: string): number => {
@@ -184,32 +1484,22 @@ const getBatchesForDispenseDisplay = useCallback((): BatchForDispenseDisplay[] =
     }
   };
 
-  return drugs
-    .filter(batch => batch.stock > 0)
-    .map(batch => {
-      const brandPart = batch.brandName ? ` (${batch.brandName})` : '';
-      const dosagePart = batch.dosage ? ` ${batch.dosage}` : '';
-      const batchPart = batch.batchNumber ? ` - Batch: ${batch.batchNumber}` : ' - Batch: N/A';
-      let expiryPart = ' - Exp: N/A';
-      if (batch.dateOfExpiry) {
-        try {
-          expiryPart = ` - Exp: ${format(parseISO(batch.dateOfExpiry), 'MM/yy')}`;
-        } catch (e) {
-          expiryPart = ` - Exp: ${batch.dateOfExpiry}`; 
-        }
-      }
-      const stockPart = ` (Stock: ${batch.stock})`;
-      return {
+  // Expired batches can never be dispensed, so they are not offered; stock is what the active location holds
+  return viewStockAtLocation(drugs, activeLocationId)
+    .filter(batch => batch.stock > 0 && !isBatchExpired(batch))
+    .map(batch => ({
         id: batch.id,
-        displayName: `${batch.name}${brandPart}${dosagePart}${batchPart}${expiryPart}${stockPart}`,
+        groupKey: batch.productId,
         stock: batch.stock,
+        unit: batch.unit,
         name: batch.name,
         brandName: batch.brandName,
         dosage: batch.dosage,
         batchNumber: batch.batchNumber,
         dateOfExpiry: batch.dateOfExpiry,
-      };
-    })
+        daysToExpiry: getDaysToExpiry(batch),
+        isNearExpiry: isBatchNearExpiry(batch, nearExpiryWarningDays),
+    }))
     .sort((a, b) => {
       if (a.name.toLowerCase() < b.name.toLowerCase()) return -1;
       if (a.name.toLowerCase() > b.name.toLowerCase()) return 1;
@@ -221,95 +1511,220 @@ const getBatchesForDispenseDisplay = useCallback((): BatchForDispenseDisplay[] =
       const dateBValue = safeGetTime(b.dateOfExpiry);
       return dateAValue - dateBValue;
     });
-}, [drugs]);
+}, [drugs, nearExpiryWarningDays, activeLocationId]);
+
+  const getProductsForDispenseDisplay = useCallback((): ProductForDispenseDisplay[] => {
+    return getDrugGroupsForDisplay(activeLocationId)
+      .map(group => {
+        const dispensable = getDispensableBatches(group.batches, group.groupKey);
+        return {
+          groupKey: group.groupKey,
+          displayName: group.displayName,
+          availableStock: dispensable.reduce((sum, batch) => sum + batch.stock, 0),
+          unit: group.unit,
+          packSizes: group.packSizes,
+          batchCount: dispensable.length,
+        };
+      })
+      .filter(product => product.availableStock > 0);
+  }, [getDrugGroupsForDisplay, activeLocationId]);
 
+  const setNearExpiryWarningDays = async (days: number): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('adjust')) {
+      return permissionDenied('change the expiry policy');
+    }
+    if (!Number.isInteger(days) || days < 0) {
+      return { success: false, message: 'Warning period must be a whole number of days (0 to only block expired batches).' };
+    }
+    await setMeta(NEAR_EXPIRY_WARNING_DAYS_META_KEY, days);
+    setNearExpiryWarningDaysState(days);
+    return { success: true, message: days === 0 ? 'Only expired batches will be blocked.' : `Batches expiring within ${days} day(s) will need a reason to dispense.` };
+  };
 
 const dispenseDrugs = async (
     patientDetails: Omit<DispenseFormData, 'drugsToDispense'>,
-    drugsToDispenseRequest: Array<DrugDispenseEntry>
-  ): Promise<{ success: boolean; message?: string; dispensedDrugsInfo: Array<{ drugName: string; brandName?: string; dosage?: string; batchNumber?: string; quantity: number }> }> => {
+    drugsToDispenseRequest: Array<DrugDispenseEntry>,
+    nearExpiryOverrideReason?: string
+  ): Promise<{ success: boolean; message?: string; messages: LocalizedMessage[]; dispensedDrugsInfo: DispensedDrugInfo[]; nearExpiryBatches?: NearExpiryBatch[] }> => {
+    if (!hasPermission('dispense')) {
+      return { ...localizedFailure('dispense.issues.noPermission'), dispensedDrugsInfo: [] };
+    }
     
     let overallSuccess = true;
-    let overallMessage = '';
-    const successfullyDispensedForToast: Array<{ drugName: string; brandName?: string; dosage?: string; batchNumber?: string; quantity: number }> = [];
+    const issues: LocalizedMessage[] = [];
+    const note = (key: MessageKey, params?: MessageParams) => { issues.push({ key, params }); };
+    const successfullyDispensedForToast: DispensedDrugInfo[] = [];
     const transactionDrugDetailsForLog: TransactionDrugDetail[] = [];
     
-    let tempDrugsState = JSON.parse(JSON.stringify(drugs)) as Drug[];
+    // Dispensing only takes from the active location, so allocation works on its stock alone
+    let tempDrugsState = viewStockAtLocation(JSON.parse(JSON.stringify(drugs)) as Drug[], activeLocationId);
 
-    for (const request of drugsToDispenseRequest) {
-      const batchToDispenseFromIndex = tempDrugsState.findIndex(d => d.id === request.selectedBatchId);
-      
-      let tabletsToDispense = request.tabletsDispensed;
+    const describeBatch = (batch: Drug) => `${batch.name} ${batch.brandName || ''} ${batch.dosage || ''} (Batch: ${batch.batchNumber || 'N/A'})`;
 
-      if (batchToDispenseFromIndex === -1) {
+    for (const packRequest of drugsToDispenseRequest) {
+      // Strips and other packs are converted up front; everything below works in base units
+      const packSizes = tempDrugsState.find(d => d.productId === packRequest.productKey)?.packSizes;
+      if (packRequest.packLevel && !packSizes?.[packRequest.packLevel]) {
         overallSuccess = false;
-        overallMessage += `Batch with ID ${request.selectedBatchId} not found. `;
+        note(`common.notInPack.${packRequest.packLevel}`, { drug: tempDrugsState.find(d => d.productId === packRequest.productKey)?.name || packRequest.productKey });
         continue;
       }
-      
-      const batchToDispenseFrom = tempDrugsState[batchToDispenseFromIndex];
-      const drugIdentifierForMessage = `${batchToDispenseFrom.name} ${batchToDispenseFrom.brandName || ''} ${batchToDispenseFrom.dosage || ''} (Batch: ${batchToDispenseFrom.batchNumber || 'N/A'})`;
+      const request = { ...packRequest, quantity: packRequest.quantity * getPackSize(packSizes, packRequest.packLevel) };
+      let allocations: BatchAllocation[];
+      if (request.regimen && !isValidRegimen(request.regimen)) {
+        overallSuccess = false;
+        note('dispense.issues.invalidRegimen', { drug: tempDrugsState.find(d => d.productId === request.productKey)?.name || request.productKey });
+        continue;
+      }
+      const allocationMethod = request.selectedBatchId ? 'manual' : 'fefo';
+
+      if (request.selectedBatchId) {
+        const batchToDispenseFrom = tempDrugsState.find(d => d.id === request.selectedBatchId);
+        let quantityToDispense = request.quantity;
 
-      if (tabletsToDispense <= 0) {
-          overallMessage += `Skipped ${drugIdentifierForMessage} due to zero quantity. `;
+        if (!batchToDispenseFrom) {
+          overallSuccess = false;
+          note('dispense.issues.batchNotFound', { id: request.selectedBatchId });
           continue;
-      }
+        }
 
-      if (batchToDispenseFrom.stock === 0) {
-        overallSuccess = false;
-        overallMessage += `No stock found for ${drugIdentifierForMessage}. `;
-        continue;
+        const drugIdentifierForMessage = describeBatch(batchToDispenseFrom);
+
+        if (batchToDispenseFrom.productId !== request.productKey) {
+          overallSuccess = false;
+          note('dispense.issues.wrongProduct', { batch: drugIdentifierForMessage });
+          continue;
+        }
+
+        if (isBatchExpired(batchToDispenseFrom)) {
+          overallSuccess = false;
+          note('dispense.issues.expired', { batch: drugIdentifierForMessage, expiry: batchToDispenseFrom.dateOfExpiry || '' });
+          continue;
+        }
+
+        if (quantityToDispense <= 0) {
+            note('dispense.issues.zeroQuantity', { drug: drugIdentifierForMessage });
+            continue;
+        }
+
+        if (batchToDispenseFrom.stock === 0) {
+          overallSuccess = false;
+          note('dispense.issues.noStock', { batch: drugIdentifierForMessage });
+          continue;
+        }
+
+        if (batchToDispenseFrom.stock < quantityToDispense) {
+          overallSuccess = false;
+          note('dispense.issues.notEnoughStock', { batch: drugIdentifierForMessage, available: batchToDispenseFrom.stock, requested: quantityToDispense });
+          quantityToDispense = batchToDispenseFrom.stock;
+        }
+        allocations = [{ batch: batchToDispenseFrom, quantity: quantityToDispense }];
+      } else {
+        const anyBatch = tempDrugsState.find(d => d.productId === request.productKey);
+        const productIdentifierForMessage = anyBatch ? `${anyBatch.name} ${anyBatch.brandName || ''} ${anyBatch.dosage || ''}`.trim() : request.productKey;
+
+        if (request.quantity <= 0) {
+          note('dispense.issues.zeroQuantity', { drug: productIdentifierForMessage });
+          continue;
+        }
+
+        // Batches in tempDrugsState are allocated in place, so later lines for the same product see the reduced stock
+        const fefo = allocateFefo(tempDrugsState, request.productKey, request.quantity);
+        if (fefo.allocations.length === 0) {
+          overallSuccess = false;
+          note('dispense.issues.noUnexpiredStock', { drug: productIdentifierForMessage });
+          continue;
+        }
+        if (fefo.shortfall > 0) {
+          overallSuccess = false;
+          note('dispense.issues.notEnoughUnexpiredStock', { drug: productIdentifierForMessage, available: request.quantity - fefo.shortfall, requested: request.quantity });
+        }
+        allocations = fefo.allocations;
       }
 
-      if (batchToDispenseFrom.stock < tabletsToDispense) {
-        overallSuccess = false;
-        overallMessage += `Not enough stock for ${drugIdentifierForMessage}. Available: ${batchToDispenseFrom.stock}, Requested: ${tabletsToDispense}. Dispensing available. `;
-        tabletsToDispense = batchToDispenseFrom.stock; 
-        if (tabletsToDispense === 0) continue;
+      for (const { batch, quantity } of allocations) {
+        const originalStock = batch.stock;
+        batch.stock -= quantity;
+
+        transactionDrugDetailsForLog.push({
+          drugId: batch.id,
+          drugName: batch.name,
+          brandName: batch.brandName,
+          dosage: batch.dosage,
+          batchNumber: batch.batchNumber,
+          unit: batch.unit,
+          quantity: -quantity,
+          previousStock: originalStock,
+          newStock: batch.stock,
+          allocation: allocationMethod,
+          regimen: request.regimen,
+        });
+        successfullyDispensedForToast.push({
+           drugName: batch.name,
+           brandName: batch.brandName || undefined,
+           dosage: batch.dosage || undefined,
+           batchNumber: batch.batchNumber,
+           dateOfExpiry: batch.dateOfExpiry || undefined,
+           unit: batch.unit,
+           quantity,
+           regimen: request.regimen,
+        });
       }
-      
-      const originalStock = batchToDispenseFrom.stock;
-      tempDrugsState[batchToDispenseFromIndex].stock -= tabletsToDispense;
-
-      transactionDrugDetailsForLog.push({
-        drugId: batchToDispenseFrom.id,
-        drugName: batchToDispenseFrom.name,
-        brandName: batchToDispenseFrom.brandName,
-        dosage: batchToDispenseFrom.dosage,
-        batchNumber: batchToDispenseFrom.batchNumber,
-        quantity: -tabletsToDispense, 
-        previousStock: originalStock,
-        newStock: tempDrugsState[batchToDispenseFromIndex].stock,
-      });
-      successfullyDispensedForToast.push({ 
-         drugName: batchToDispenseFrom.name, 
-         brandName: batchToDispenseFrom.brandName || undefined, 
-         dosage: batchToDispenseFrom.dosage || undefined, 
-         batchNumber: batchToDispenseFrom.batchNumber, 
-         quantity: tabletsToDispense 
+    }
+
+    const nearExpiryBatches: NearExpiryBatch[] = [];
+    transactionDrugDetailsForLog.forEach(detail => {
+      const batch = tempDrugsState.find(d => d.id === detail.drugId);
+      if (!batch || !batch.dateOfExpiry || !isBatchNearExpiry(batch, nearExpiryWarningDays)) return;
+      if (nearExpiryBatches.some(b => b.drugId === batch.id)) return;
+      nearExpiryBatches.push({
+        drugId: batch.id,
+        drugName: batch.name,
+        brandName: batch.brandName,
+        dosage: batch.dosage,
+        batchNumber: batch.batchNumber,
+        dateOfExpiry: batch.dateOfExpiry,
+        daysToExpiry: getDaysToExpiry(batch)!,
       });
+    });
+    const overrideReason = nearExpiryOverrideReason?.trim();
+    if (nearExpiryBatches.length > 0 && !overrideReason) {
+      return {
+        ...localizedFailure('dispense.issues.confirmNearExpiry', { count: nearExpiryBatches.length, days: nearExpiryWarningDays }),
+        dispensedDrugsInfo: [],
+        nearExpiryBatches,
+      };
     }
 
     if (transactionDrugDetailsForLog.length > 0) {
-        setDrugs(tempDrugsState); 
+        setDrugs(applyLocationView(drugs, tempDrugsState, activeLocationId));
         addTransaction({
             type: 'dispense',
+            patientId: patientDetails.patientId,
             patientName: patientDetails.patientName,
             aadharLastFour: patientDetails.aadharLastFour,
             age: patientDetails.age,
             sex: patientDetails.sex,
             villageName: patientDetails.villageName,
+            campId: activeCamp?.id,
+            locationId: activeLocationId,
             drugs: transactionDrugDetailsForLog,
-            notes: overallMessage || 'Dispense operation completed.',
+            notes: toEnglish(issues) || 'Dispense operation completed.',
+            nearExpiryOverride: nearExpiryBatches.length > 0
+              ? { reason: overrideReason!, warningDays: nearExpiryWarningDays, batches: nearExpiryBatches }
+              : undefined,
         });
-    } else if (!overallSuccess && overallMessage.length === 0) {
-        overallMessage = "No drugs were dispensed. Check stock or request details."
+    } else if (!overallSuccess && issues.length === 0) {
+        note('dispense.issues.nothingDispensed');
+    }
+    if (!overallSuccess && issues.length === 0) {
+        note('dispense.issues.failedOrPartial');
     }
-
 
     return { 
         success: overallSuccess, 
-        message: overallMessage.trim() || (overallSuccess ? "Dispense successful." : "Dispense failed or partially completed."),
+        message: toEnglish(issues) || "Dispense successful.",
+        messages: issues,
         dispensedDrugsInfo: successfullyDispensedForToast
     };
   };
@@ -320,112 +1735,165 @@ const dispenseDrugs = async (
   ): Promise<{
     success: boolean;
     message?: string;
-    restockedDrugs: Array<{ drugName: string; brandName?: string; dosage?: string; batchNumber?: string; quantity: number }>;
+    messages: LocalizedMessage[];
+    restockedDrugs: Array<{ drugName: string; brandName?: string; dosage?: string; batchNumber?: string; quantity: number; unit: BaseUnit }>;
   }> => {
+    if (!hasPermission('restock')) {
+      return { ...localizedFailure('restock.issues.noPermission'), restockedDrugs: [] };
+    }
     
     let tempDrugsState = JSON.parse(JSON.stringify(drugs)) as Drug[];
     const newBatchesCreated: Drug[] = []; // Keep track of newly created batches within this operation
+    const newProducts: Product[] = []; // Products first received in this restock
+    const productIdsByName = buildProductIdsByName(products);
     const transactionDetailsForMainLog: TransactionDrugDetail[] = [];
-    const restockedDrugsInfoForReturn: Array<{ drugName: string; brandName?: string; dosage?: string; batchNumber?: string; quantity: number }> = [];
+    const restockedDrugsInfoForReturn: Array<{ drugName: string; brandName?: string; dosage?: string; batchNumber?: string; quantity: number; unit: BaseUnit }> = [];
     const priceUpdateTransactionsToLog: Array<Omit<Transaction, 'id' | 'timestamp'>> = [];
 
 
     for (const item of drugsToRestockItems) {
         if (item.drugId === '--add-new--' && item.newDrugDetails) {
             const nd = item.newDrugDetails;
-            const newDrugBatch: Drug = {
+            // A batch of a known product takes its names, form, unit and packs from the catalog
+            const productId = nd.productId ?? productIdsByName.get(getDrugGroupKey(nd));
+            let product = productId ? [...products, ...newProducts].find(p => p.id === productId) : undefined;
+            if (nd.productId && !product) {
+                return { ...localizedFailure('restock.issues.productMissing', { drug: nd.name }), restockedDrugs: [] };
+            }
+            if (!product) {
+                const validation = validateProductDetails({
+                    name: nd.name, brandName: nd.brandName, dosage: nd.dosage,
+                    dosageForm: nd.dosageForm, unit: nd.unit, packSizes: nd.packSizes,
+                    category: nd.category, lowStockThreshold: nd.lowStockThreshold ?? DEFAULT_DRUG_LOW_STOCK_THRESHOLD,
+                    reorderLevel: nd.reorderLevel, maxStockLevel: nd.maxStockLevel,
+                });
+                if ('error' in validation) {
+                    return { ...localizedFailure('restock.issues.invalidProduct', { drug: nd.name, error: validation.error }), restockedDrugs: [] };
+                }
+                product = { ...validation.fields, id: generateId('product'), createdAt: new Date().toISOString() };
+                newProducts.push(product);
+                productIdsByName.set(getDrugGroupKey(product), product.id);
+            }
+            if (item.packLevel && !product.packSizes?.[item.packLevel]) {
+                return { ...localizedFailure(`common.notInPack.${item.packLevel}`, { drug: product.name }), restockedDrugs: [] };
+            }
+            const packSize = getPackSize(product.packSizes, item.packLevel);
+            const quantity = item.quantity * packSize;
+            const newDrugBatch: Drug = withProductFields({
                 id: generateId('drug'),
-                name: nd.name, brandName: nd.brandName, dosage: nd.dosage, batchNumber: nd.batchNumber,
+                productId: product.id,
+                name: product.name, batchNumber: nd.batchNumber,
+                dosageForm: product.dosageForm, unit: product.unit,
                 dateOfManufacture: nd.dateOfManufacture, dateOfExpiry: nd.dateOfExpiry,
-                purchasePricePerTablet: nd.purchasePricePerTablet ?? DEFAULT_PURCHASE_PRICE,
-                stock: item.tabletsAdded,
-                lowStockThreshold: nd.lowStockThreshold ?? DEFAULT_DRUG_LOW_STOCK_THRESHOLD,
+                purchasePricePerUnit: toPricePerUnit(nd.purchasePricePerUnit ?? DEFAULT_PURCHASE_PRICE, packSize),
+                stock: quantity,
+                stockByLocation: { [activeLocationId]: quantity },
                 initialSource: source,
-            };
+            }, product);
             tempDrugsState.push(newDrugBatch); 
             newBatchesCreated.push(newDrugBatch);
 
             transactionDetailsForMainLog.push({
                 drugId: newDrugBatch.id, drugName: newDrugBatch.name, brandName: newDrugBatch.brandName,
-                dosage: newDrugBatch.dosage, batchNumber: newDrugBatch.batchNumber, quantity: item.tabletsAdded,
-                previousStock: 0, newStock: item.tabletsAdded,
+                dosage: newDrugBatch.dosage, batchNumber: newDrugBatch.batchNumber, unit: newDrugBatch.unit, quantity,
+                previousStock: 0, newStock: quantity,
             });
             restockedDrugsInfoForReturn.push({ 
                 drugName: newDrugBatch.name, brandName: newDrugBatch.brandName, dosage: newDrugBatch.dosage, 
-                batchNumber: newDrugBatch.batchNumber, quantity: item.tabletsAdded 
+                batchNumber: newDrugBatch.batchNumber, quantity, unit: newDrugBatch.unit
             });
         } else {
             const drugIndex = tempDrugsState.findIndex(d => d.id === item.drugId);
             if (drugIndex !== -1) {
+                const batch = tempDrugsState[drugIndex];
+                if (item.packLevel && !batch.packSizes?.[item.packLevel]) {
+                    return { ...localizedFailure(`common.notInPack.${item.packLevel}`, { drug: batch.name }), restockedDrugs: [] };
+                }
+                const packSize = getPackSize(batch.packSizes, item.packLevel);
+                const quantity = item.quantity * packSize;
+                const previousStock = getLocationStock(batch, activeLocationId);
+                tempDrugsState[drugIndex] = withLocationStock(batch, activeLocationId, previousStock + quantity);
                 const drugToUpdate = tempDrugsState[drugIndex];
-                const previousStock = drugToUpdate.stock;
-                
-                drugToUpdate.stock += item.tabletsAdded;
+                // The form shows the price per pack to the paisa, so one that rounds to the stored price is unchanged
+                const enteredPrice = item.updatedPurchasePricePerUnit;
+                const updatedPrice = enteredPrice !== undefined && Math.round(enteredPrice * 100) !== Math.round(drugToUpdate.purchasePricePerUnit * packSize * 100)
+                    ? toPricePerUnit(enteredPrice, packSize)
+                    : undefined;
 
-                if (item.updatedPurchasePricePerTablet !== undefined && item.updatedPurchasePricePerTablet !== drugToUpdate.purchasePricePerTablet) {
-                    const oldPrice = drugToUpdate.purchasePricePerTablet;
-                    drugToUpdate.purchasePricePerTablet = item.updatedPurchasePricePerTablet;
+                if (updatedPrice !== undefined && updatedPrice !== drugToUpdate.purchasePricePerUnit) {
+                    const oldPrice = drugToUpdate.purchasePricePerUnit;
+                    drugToUpdate.purchasePricePerUnit = updatedPrice;
                     priceUpdateTransactionsToLog.push({
                         type: 'update', drugs: [], 
-                        notes: `Purchase price updated for ${drugToUpdate.brandName || drugToUpdate.name} ${drugToUpdate.dosage || ''} (Batch: ${drugToUpdate.batchNumber}) to INR ${item.updatedPurchasePricePerTablet.toFixed(2)}.`,
+                        notes: `Purchase price updated for ${drugToUpdate.brandName || drugToUpdate.name} ${drugToUpdate.dosage || ''} (Batch: ${drugToUpdate.batchNumber}) to INR ${updatedPrice.toFixed(2)} per ${BASE_UNITS[drugToUpdate.unit].one}.`,
                         updateDetails: {
-                            drugId: drugToUpdate.id, drugName: drugToUpdate.name, previousPrice: oldPrice, newPrice: item.updatedPurchasePricePerTablet,
+                            drugId: drugToUpdate.id, drugName: drugToUpdate.name, previousPrice: oldPrice, newPrice: updatedPrice,
                             newBrandName: drugToUpdate.brandName, newDosage: drugToUpdate.dosage, newBatchNumber: drugToUpdate.batchNumber,
                         }
                     });
                 }
                 transactionDetailsForMainLog.push({
                     drugId: drugToUpdate.id, drugName: drugToUpdate.name, brandName: drugToUpdate.brandName,
-                    dosage: drugToUpdate.dosage, batchNumber: drugToUpdate.batchNumber, quantity: item.tabletsAdded,
-                    previousStock: previousStock, newStock: drugToUpdate.stock,
+                    dosage: drugToUpdate.dosage, batchNumber: drugToUpdate.batchNumber, unit: drugToUpdate.unit, quantity,
+                    previousStock: previousStock, newStock: previousStock + quantity,
                 });
                 restockedDrugsInfoForReturn.push({ 
                     drugName: drugToUpdate.name, brandName: drugToUpdate.brandName, dosage: drugToUpdate.dosage, 
-                    batchNumber: drugToUpdate.batchNumber, quantity: item.tabletsAdded 
+                    batchNumber: drugToUpdate.batchNumber, quantity, unit: drugToUpdate.unit
                 });
             }
         }
     }
 
+    if (newProducts.length > 0) {
+        setProducts(prev => sortProductsByName([...prev, ...newProducts]));
+    }
     setDrugs(tempDrugsState);
 
     if (transactionDetailsForMainLog.length > 0) {
         addTransaction({
-            type: 'restock', source: source, drugs: transactionDetailsForMainLog, 
+            type: 'restock', source: source, locationId: activeLocationId, drugs: transactionDetailsForMainLog, 
             notes: `Restocked from ${source}.`
         });
     }
     priceUpdateTransactionsToLog.forEach(tx => addTransaction(tx));
 
-    return { success: true, message: "Stock updated successfully.", restockedDrugs: restockedDrugsInfoForReturn };
+    return { success: true, message: "Stock updated successfully.", messages: [], restockedDrugs: restockedDrugsInfoForReturn };
   };
 
   const updateDrugDetails = async (drugId: string, data: EditDrugFormData): Promise<{ success: boolean; message?: string; updatedDrug?: Drug }> => {
+    if (!hasPermission('adjust')) {
+      return permissionDenied('edit batch details');
+    }
     const previousDrug = drugs.find(d => d.id === drugId);
     if (!previousDrug) {
         return { success: false, message: 'Failed to find drug to update.' };
     }
+    const product = products.find(p => p.id === data.productId);
+    if (!product) {
+        return { success: false, message: 'The chosen product is no longer in the catalog.' };
+    }
+    // Stock and prices are kept in base units, so a batch only moves to a product counted the same way
+    if (product.unit !== previousDrug.unit) {
+        return { success: false, message: `${getProductDisplayName(product)} is counted in ${BASE_UNITS[product.unit].other}, this batch in ${BASE_UNITS[previousDrug.unit].other}.` };
+    }
 
-    const updatedDrug: Drug = {
+    const updatedDrug: Drug = withProductFields({
         ...previousDrug,
-        name: data.name,
-        brandName: data.brandName,
-        dosage: data.dosage,
         batchNumber: data.batchNumber,
         dateOfManufacture: data.dateOfManufacture,
         dateOfExpiry: data.dateOfExpiry,
-        purchasePricePerTablet: data.purchasePricePerTablet,
-        lowStockThreshold: data.lowStockThreshold,
+        purchasePricePerUnit: data.purchasePricePerUnit,
         initialSource: data.initialSource || previousDrug.initialSource,
-    };
-    
-    const newDrugs = drugs.map(d => (d.id === drugId ? updatedDrug : d));
-    setDrugs(newDrugs);
+    }, product);
+    setDrugs(drugs.map(d => (d.id === drugId ? updatedDrug : d)));
 
+    const movedNote = previousDrug.productId !== product.id ? ` Moved to product ${getProductDisplayName(product)}.` : '';
+    const packsChanged = !packSizesEqual(previousDrug.packSizes, updatedDrug.packSizes);
     addTransaction({
         type: 'update',
         drugs: [],
-        notes: `Details updated for batch: ${updatedDrug.brandName || updatedDrug.name} ${updatedDrug.dosage || ''} (Batch: ${updatedDrug.batchNumber}).`,
+        notes: `Details updated for batch: ${updatedDrug.brandName || updatedDrug.name} ${updatedDrug.dosage || ''} (Batch: ${updatedDrug.batchNumber}).${movedNote}`,
         updateDetails: {
             drugId: updatedDrug.id,
             drugName: updatedDrug.name,
@@ -441,10 +1909,14 @@ const dispenseDrugs = async (
             newDateOfManufacture: previousDrug.dateOfManufacture !== updatedDrug.dateOfManufacture ? updatedDrug.dateOfManufacture : undefined,
             previousDateOfExpiry: previousDrug.dateOfExpiry !== updatedDrug.dateOfExpiry ? previousDrug.dateOfExpiry : undefined,
             newDateOfExpiry: previousDrug.dateOfExpiry !== updatedDrug.dateOfExpiry ? updatedDrug.dateOfExpiry : undefined,
-            previousPrice: previousDrug.purchasePricePerTablet !== updatedDrug.purchasePricePerTablet ? previousDrug.purchasePricePerTablet : undefined,
-            newPrice: previousDrug.purchasePricePerTablet !== updatedDrug.purchasePricePerTablet ? updatedDrug.purchasePricePerTablet : undefined,
-            previousThreshold: previousDrug.lowStockThreshold !== updatedDrug.lowStockThreshold ? previousDrug.lowStockThreshold : undefined,
-            newThreshold: previousDrug.lowStockThreshold !== updatedDrug.lowStockThreshold ? updatedDrug.lowStockThreshold : undefined,
+            previousDosageForm: previousDrug.dosageForm !== updatedDrug.dosageForm ? previousDrug.dosageForm : undefined,
+            newDosageForm: previousDrug.dosageForm !== updatedDrug.dosageForm ? updatedDrug.dosageForm : undefined,
+            previousUnit: previousDrug.unit !== updatedDrug.unit ? previousDrug.unit : undefined,
+            newUnit: previousDrug.unit !== updatedDrug.unit ? updatedDrug.unit : undefined,
+            previousPackSizes: packsChanged ? previousDrug.packSizes || {} : undefined,
+            newPackSizes: packsChanged ? updatedDrug.packSizes || {} : undefined,
+            previousPrice: previousDrug.purchasePricePerUnit !== updatedDrug.purchasePricePerUnit ? previousDrug.purchasePricePerUnit : undefined,
+            newPrice: previousDrug.purchasePricePerUnit !== updatedDrug.purchasePricePerUnit ? updatedDrug.purchasePricePerUnit : undefined,
             previousSource: previousDrug.initialSource !== updatedDrug.initialSource ? previousDrug.initialSource : undefined,
             newSource: previousDrug.initialSource !== updatedDrug.initialSource ? updatedDrug.initialSource : undefined,
         }
@@ -454,28 +1926,36 @@ const dispenseDrugs = async (
   };
 
   const adjustDrugStock = async (drugId: string, newStock: number, reason: string): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('adjust')) {
+      return permissionDenied('adjust stock');
+    }
+    if (!Number.isInteger(newStock) || newStock < 0) {
+      return { success: false, message: 'New stock must be zero or a positive whole number.' };
+    }
     const drugIndex = drugs.findIndex(d => d.id === drugId);
     if (drugIndex === -1) {
         return { success: false, message: 'Drug batch not found.' };
     }
 
+    // `newStock` is the count at the active location; other locations are left as they are
     const tempDrugs = [...drugs];
-    const drugToUpdate = { ...tempDrugs[drugIndex] };
-    const previousStock = drugToUpdate.stock;
-
-    drugToUpdate.stock = newStock;
+    const previousStock = getLocationStock(tempDrugs[drugIndex], activeLocationId);
+    const drugToUpdate = withLocationStock(tempDrugs[drugIndex], activeLocationId, newStock);
     tempDrugs[drugIndex] = drugToUpdate;
     setDrugs(tempDrugs);
 
     addTransaction({
         type: 'adjustment',
-        source: 'Admin', // Or could be a user name if auth was implemented
+        source: getCurrentActor()?.userName,
+        campId: activeCamp?.id,
+        locationId: activeLocationId,
         drugs: [{
             drugId: drugToUpdate.id,
             drugName: drugToUpdate.name,
             brandName: drugToUpdate.brandName,
             dosage: drugToUpdate.dosage,
             batchNumber: drugToUpdate.batchNumber,
+            unit: drugToUpdate.unit,
             quantity: newStock - previousStock, // This captures the change
             previousStock: previousStock,
             newStock: newStock,
@@ -487,11 +1967,19 @@ const dispenseDrugs = async (
   };
 
   const deleteDrugBatch = async (drugId: string): Promise<{ success: boolean; message?: string; deletedDrugName?: string }> => {
+    if (!hasPermission('deleteBatch')) {
+      return permissionDenied('delete drug batches');
+    }
     const drugToDelete = drugs.find(d => d.id === drugId);
     if (!drugToDelete) {
       return { success: false, message: "Drug batch not found." };
     }
 
+    const snapshot = await snapshotBeforeDestructiveAction('before-delete-batch');
+    if (!snapshot.success) {
+      return { success: false, message: snapshot.message };
+    }
+
     const deletedDrugName = `${drugToDelete.name} ${drugToDelete.brandName || ''} ${drugToDelete.dosage || ''} (Batch: ${drugToDelete.batchNumber || 'N/A'})`;
     
     setDrugs(prevDrugs => prevDrugs.filter(d => d.id !== drugId));
@@ -508,89 +1996,316 @@ const dispenseDrugs = async (
     addTransaction({
       type: 'update',
       drugs: [], 
-      notes: `DELETED BATCH: ${deletedDrugName}. Stock at deletion: ${drugToDelete.stock}. Price/tablet: INR ${(drugToDelete.purchasePricePerTablet ?? 0).toFixed(2)}. Exp: ${expiryDateFormatted}.`,
+      notes: `DELETED BATCH: ${deletedDrugName}. Stock at deletion: ${formatQuantity(drugToDelete.stock, drugToDelete.unit)}. Price/${BASE_UNITS[drugToDelete.unit].one}: INR ${(drugToDelete.purchasePricePerUnit ?? 0).toFixed(2)}. Exp: ${expiryDateFormatted}.`,
     });
 
     return { success: true, message: `Drug batch "${deletedDrugName}" deleted successfully.`, deletedDrugName };
   };
 
-  const deleteTransaction = async (transactionId: string): Promise<{ success: boolean; message?: string }> => {
-    const transactionToDelete = transactions.find(t => t.id === transactionId);
-    if (!transactionToDelete) {
+  const voidTransaction = async (transactionId: string, reason: string, lineIndexes?: number[]): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('voidTransaction')) {
+      return permissionDenied('void transactions');
+    }
+    if (!reason.trim()) {
+      return { success: false, message: 'A reason is required to void a transaction.' };
+    }
+    const original = transactions.find(t => t.id === transactionId);
+    if (!original) {
       return { success: false, message: 'Transaction not found.' };
     }
-  
-    let tempDrugs = [...drugs];
-    let allDrugsFound = true;
-  
-    // Pre-check if all drugs exist
-    for (const detail of transactionToDelete.drugs) {
-      const drugIndex = tempDrugs.findIndex(d => d.id === detail.drugId);
-      if (drugIndex === -1) {
-        allDrugsFound = false;
-        break;
-      }
+    if (!isVoidable(original)) {
+      return { success: false, message: `A '${original.type}' transaction cannot be voided.` };
+    }
+
+    const alreadyVoided = getVoidStatusMap(transactions).get(transactionId)?.voidedLineIndexes || new Set<number>();
+    const linesToVoid = (lineIndexes ?? original.drugs.map((_, index) => index)).filter(index => !alreadyVoided.has(index));
+    if (linesToVoid.length === 0) {
+      return { success: false, message: 'The selected drug lines have already been voided.' };
     }
-  
-    if (!allDrugsFound) {
-      return { success: false, message: 'Cannot delete transaction: one or more associated drug batches no longer exist.' };
+    if (linesToVoid.some(index => !original.drugs[index])) {
+      return { success: false, message: 'Invalid drug line selected.' };
     }
-  
-    // Apply changes
-    transactionToDelete.drugs.forEach(detail => {
+
+    // Entries recorded before locations existed moved stock at the central store
+    const locationId = original.locationId || DEFAULT_LOCATION_ID;
+    const tempDrugs = [...drugs];
+    const reversalDetails: TransactionDrugDetail[] = [];
+    for (const index of linesToVoid) {
+      const detail = original.drugs[index];
       const drugIndex = tempDrugs.findIndex(d => d.id === detail.drugId);
-      if (drugIndex !== -1) {
-        // Reverse the operation: subtract the quantity from the transaction
-        // A dispense has negative quantity, so subtracting it adds it back.
-        // A restock has positive quantity, so subtracting it removes it.
-        tempDrugs[drugIndex].stock -= detail.quantity;
+      if (drugIndex === -1) {
+        return { success: false, message: `Cannot void: batch ${detail.batchNumber || detail.drugName} no longer exists.` };
       }
-    });
-  
+      // Reverse the original line: a dispense (negative) is added back, a restock (positive) is taken out
+      const previousStock = getLocationStock(tempDrugs[drugIndex], locationId);
+      const newStock = previousStock - detail.quantity;
+      if (newStock < 0) {
+        return { success: false, message: `Cannot void: batch ${detail.batchNumber || detail.drugName} only has ${formatQuantity(previousStock, getBaseUnit(detail))} left at ${getLocationLabel(locationId)}, so ${detail.quantity} cannot be taken back out.` };
+      }
+      tempDrugs[drugIndex] = withLocationStock(tempDrugs[drugIndex], locationId, newStock);
+      reversalDetails.push({ ...detail, quantity: -detail.quantity, previousStock, newStock });
+    }
+
     setDrugs(tempDrugs);
-    setTransactions(prev => prev.filter(t => t.id !== transactionId));
-  
+    const isPartial = linesToVoid.length + alreadyVoided.size < original.drugs.length;
+    const originalLabel = typeof original.sequence === 'number' ? `#${original.sequence}` : original.id;
     addTransaction({
-      type: 'update',
-      drugs: [],
-      notes: `DELETED TRANSACTION: Reversed a '${transactionToDelete.type}' transaction (ID: ${transactionToDelete.id}) from ${format(parseISO(transactionToDelete.timestamp), 'PPpp')}.`
+      type: 'void',
+      locationId,
+      drugs: reversalDetails,
+      voidOf: { transactionId: original.id, sequence: original.sequence, lineIndexes: linesToVoid },
+      voidReason: reason.trim(),
+      notes: `VOID${isPartial ? ' (partial)' : ''}: Reversed ${linesToVoid.length} line(s) of '${original.type}' transaction ${originalLabel} from ${format(parseISO(original.timestamp), 'PPpp')}. Reason: ${reason.trim()}`,
     });
-  
-    return { success: true, message: 'Transaction deleted and inventory updated.' };
+
+    return { success: true, message: `Transaction ${originalLabel} ${isPartial ? 'partially ' : ''}voided and stock restored.` };
   };
 
-  const resetInventoryData = useCallback(() => {
+  const discardQuarantinedRecords = useCallback(async () => {
+    await clearQuarantinedRecords();
+    setQuarantinedRecords([]);
+  }, []);
+
+  const resetInventoryData = useCallback(async (): Promise<{ success: boolean; message?: string }> => {
+    if (!hasPermission('reset')) {
+      return permissionDenied('reset data');
+    }
+    const snapshot = await snapshotBeforeDestructiveAction('before-reset');
+    if (!snapshot.success) {
+      return { success: false, message: snapshot.message };
+    }
+
     setLoading(true);
-    localStorage.removeItem(DRUGS_STORAGE_KEY);
-    localStorage.removeItem(TRANSACTIONS_STORAGE_KEY);
-    localStorage.removeItem(VILLAGES_STORAGE_KEY);
-    
+    try {
+      await clearAllStores();
+      await setMeta(SCHEMA_VERSION_META_KEY, CURRENT_SCHEMA_VERSION);
+      persistenceBlockedRef.current = false;
+      setStorageError(null);
+    } catch (error) {
+      console.error("Error clearing IndexedDB:", error);
+    }
+    persistedRef.current = { products: [], drugs: [], transactions: [], villages: [], patients: [], camps: [], locations: [], stockTakes: [] };
+
+    setProducts(INITIAL_PRODUCTS);
     setDrugs(INITIAL_DRUGS);
     setTransactions([]);
+    enqueueLedgerWork(async () => {
+      ledgerHeadRef.current = EMPTY_LEDGER_HEAD;
+    });
     setVillages([]);
+    setPatients([]);
+    setCamps([]);
+    setLocations([DEFAULT_STOCK_LOCATION]);
+    setStockTakes([]);
+    setActiveLocationIdState(DEFAULT_LOCATION_ID);
     setLoading(false); 
     console.log("Inventory data has been reset to initial defaults.");
-  }, [setDrugs, setTransactions, setVillages, setLoading]);
+    return { success: true };
+  }, [setProducts, setDrugs, setTransactions, setVillages, setLoading, snapshotBeforeDestructiveAction, hasPermission, enqueueLedgerWork]);
+
+
+  const restoreFromBackup = async (data: DataSet, mode: RestoreMode, backupCreatedAt: string): Promise<{ success: boolean; message?: string }> => {
+    if (persistenceBlockedRef.current) {
+      return { success: false, message: 'Storage is unavailable. Restore cannot be saved.' };
+    }
+    const backupDateFormatted = isValid(parseISO(backupCreatedAt)) ? format(parseISO(backupCreatedAt), 'PPpp') : backupCreatedAt;
 
+    if (mode === 'replace' && !hasPermission('reset')) {
+      return permissionDenied('replace all data from a backup');
+    }
+    if (mode === 'merge' && !hasPermission('restock')) {
+      return permissionDenied('merge backups');
+    }
+
+    if (mode === 'replace') {
+      const snapshot = await snapshotBeforeDestructiveAction('before-restore');
+      if (!snapshot.success) {
+        return { success: false, message: snapshot.message };
+      }
+      setProducts(sortProductsByName([...data.products, ...recoverMissingProducts(data.products, data.drugs)]));
+      setDrugs(data.drugs);
+      setVillages([...data.villages].sort((a, b) => a.name.localeCompare(b.name)));
+      setPatients(sortPatientsByName(linkHistoricalDispenses(data.patients, data.transactions, data.villages, () => generateId('patient')).patients));
+      setCamps(sortCampsByDate(data.camps));
+      const restoredLocations = data.locations.length > 0 ? data.locations : [DEFAULT_STOCK_LOCATION];
+      setLocations(sortLocationsByName(restoredLocations));
+      setStockTakes(sortStockTakesNewestFirst(data.stockTakes));
+      if (!restoredLocations.some(l => l.id === activeLocationId)) {
+        await setMeta(ACTIVE_LOCATION_META_KEY, DEFAULT_LOCATION_ID);
+        setActiveLocationIdState(DEFAULT_LOCATION_ID);
+      }
+      // The backup's own chain is kept; entries from before the ledger existed are sealed onto it
+      enqueueLedgerWork(async () => {
+        const { transactions: restored } = await sealUnchainedTransactions(data.transactions);
+        ledgerHeadRef.current = getLedgerHead(restored);
+        setTransactions(sortTransactionsNewestFirst(restored));
+      });
+      addTransaction({
+        type: 'update',
+        drugs: [],
+        notes: `RESTORED FROM BACKUP (replace): backup created ${backupDateFormatted}. ${data.products.length} products, ${data.drugs.length} batches, ${data.transactions.length} transactions, ${data.villages.length} villages, ${data.patients.length} patients, ${data.camps.length} camps, ${data.locations.length} locations, ${data.stockTakes.length} stock takes.`,
+      });
+      return { success: true, message: `All data replaced with the backup from ${backupDateFormatted}.` };
+    }
+
+    // Merge: records already present (same ID) keep their current local version
+    // Products are matched by ID, then by names; incoming batches and kit items are pointed at the matching local product
+    const localProductIdsByName = buildProductIdsByName(products);
+    const newProducts = data.products.filter(p => !products.some(local => local.id === p.id) && !localProductIdsByName.has(getDrugGroupKey(p)));
+    const mapProductId = (productId: string) => {
+      if (products.some(p => p.id === productId)) return productId;
+      const backupProduct = data.products.find(p => p.id === productId);
+      return (backupProduct && localProductIdsByName.get(getDrugGroupKey(backupProduct))) || productId;
+    };
+    const mergedProducts = [...products, ...newProducts, ...recoverMissingProducts([...products, ...newProducts], data.drugs.map(d => ({ ...d, productId: mapProductId(d.productId) })))];
+    const mergedProductsById = new Map(mergedProducts.map(p => [p.id, p]));
+    const existingDrugIds = new Set(drugs.map(d => d.id));
+    const existingTransactionIds = new Set(transactions.map(t => t.id));
+    const existingVillageIdsByName = buildVillageIdsByName(villages);
+    // Locations are matched by ID, then by name; stock of incoming batches is moved onto the matching local location
+    const localLocationIdsByName = new Map(locations.map(l => [l.name.toLowerCase(), l.id]));
+    const newLocations = data.locations.filter(l => !locations.some(local => local.id === l.id) && !localLocationIdsByName.has(l.name.toLowerCase()));
+    const mapLocationId = (locationId: string) => {
+      if (locations.some(l => l.id === locationId)) return locationId;
+      const name = data.locations.find(l => l.id === locationId)?.name.toLowerCase();
+      return (name && localLocationIdsByName.get(name)) || locationId;
+    };
+    const newDrugs = data.drugs
+      .filter(d => !existingDrugIds.has(d.id))
+      .map(d => {
+        const stockByLocation: Record<string, number> = {};
+        Object.entries(getStockByLocation(d)).forEach(([locationId, quantity]) => {
+          const mappedId = mapLocationId(locationId);
+          stockByLocation[mappedId] = (stockByLocation[mappedId] || 0) + quantity;
+        });
+        const productId = mapProductId(d.productId);
+        const product = mergedProductsById.get(productId);
+        const batch = { ...d, productId, stockByLocation };
+        return product ? withProductFields(batch, product) : batch;
+      });
+    const newTransactions = data.transactions.filter(t => !existingTransactionIds.has(t.id));
+    const newVillages = data.villages.filter(v => !existingVillageIdsByName.has(v.name.toLowerCase()));
+    // Villages are matched by name, so patients from the backup are pointed at the local village with that name
+    const localVillageIdsByName = buildVillageIdsByName([...villages, ...newVillages]);
+    const backupVillageNamesById = new Map(data.villages.map(v => [v.id, v.name.toLowerCase()]));
+    const existingPatientIds = new Set(patients.map(p => p.id));
+    const newPatients = data.patients
+      .filter(p => !existingPatientIds.has(p.id))
+      .map(p => {
+        const villageName = p.villageId ? backupVillageNamesById.get(p.villageId) : undefined;
+        return { ...p, villageId: villageName ? localVillageIdsByName.get(villageName) : undefined };
+      });
+    // Camps follow the same village mapping. An incoming camp is never made active here, so only one camp is ever active.
+    const existingCampIds = new Set(camps.map(c => c.id));
+    const newCamps = data.camps
+      .filter(c => !existingCampIds.has(c.id))
+      .flatMap(c => {
+        const villageName = backupVillageNamesById.get(c.villageId);
+        const villageId = villageName ? localVillageIdsByName.get(villageName) : undefined;
+        if (!villageId) return [];
+        const kit = c.kit && { ...c.kit, items: c.kit.items.map(item => ({ ...item, groupKey: mapProductId(item.groupKey) })) };
+        return [{ ...c, villageId, kit, status: c.status === 'active' ? 'planned' as const : c.status }];
+      });
+    // Stock takes follow the location and product mapping. One still open in the backup was
+    // counted against that device's records, so it comes in cancelled and cannot be approved here.
+    const existingStockTakeIds = new Set(stockTakes.map(st => st.id));
+    const newStockTakes = data.stockTakes
+      .filter(st => !existingStockTakeIds.has(st.id))
+      .map(st => ({
+        ...st,
+        locationId: mapLocationId(st.locationId),
+        lines: st.lines.map(line => ({ ...line, productId: mapProductId(line.productId) })),
+        ...(st.status === 'counting' ? { status: 'cancelled' as const, cancelledAt: new Date().toISOString() } : {}),
+      }));
+    const mergedPatients = linkHistoricalDispenses(
+      [...patients, ...newPatients],
+      [...transactions, ...newTransactions],
+      [...villages, ...newVillages],
+      () => generateId('patient')
+    ).patients;
+
+    setProducts(sortProductsByName(mergedProducts));
+    setDrugs(prev => [...prev, ...newDrugs]);
+    setVillages(prev => [...prev, ...newVillages].sort((a, b) => a.name.localeCompare(b.name)));
+    setPatients(sortPatientsByName(mergedPatients));
+    setCamps(prev => sortCampsByDate([...prev, ...newCamps]));
+    setLocations(prev => sortLocationsByName([...prev, ...newLocations]));
+    setStockTakes(prev => sortStockTakesNewestFirst([...prev, ...newStockTakes]));
+    // Merged entries belong to another chain, so they are re-sealed onto the end of this one, oldest first
+    appendToLedger([...newTransactions].sort((a, b) => compareAsc(parseISO(a.timestamp), parseISO(b.timestamp))));
+    addTransaction({
+      type: 'update',
+      drugs: [],
+      notes: `RESTORED FROM BACKUP (merge): backup created ${backupDateFormatted}. Added ${newProducts.length} products, ${newDrugs.length} batches, ${newTransactions.length} transactions, ${newVillages.length} villages, ${newPatients.length} patients, ${newCamps.length} camps, ${newLocations.length} locations, ${newStockTakes.length} stock takes.`,
+    });
+    return { success: true, message: `Merged ${newProducts.length} products, ${newDrugs.length} batches, ${newTransactions.length} transactions, ${newVillages.length} villages, ${newPatients.length} patients, ${newCamps.length} camps, ${newLocations.length} locations and ${newStockTakes.length} stock takes from the backup.` };
+  };
 
   return (
     <InventoryContext.Provider value={{ 
+        products,
         drugs, 
         transactions, 
         villages, 
+        patients,
+        camps,
+        activeCamp,
+        locations,
+        stockTakes,
+        activeLocationId,
         loading, 
+        storageError,
+        quarantinedRecords,
+        discardQuarantinedRecords,
+        nearExpiryWarningDays,
+        setNearExpiryWarningDays,
+        addProduct,
+        updateProduct,
+        deleteProduct,
+        mergeProducts,
         addVillage, 
+        updateVillage,
+        deleteVillage,
+        mergeVillages,
+        importVillages,
+        addPatient,
+        updatePatient,
+        getPatientById,
+        linkPastDispenses,
+        mergePatientRecords,
+        undoPatientMerge,
+        dismissDuplicatePatients,
+        addCamp,
+        updateCamp,
+        startCamp,
+        closeCamp,
+        deleteCamp,
+        planCampKit,
+        markCampKitPacked,
+        reconcileCampKit,
+        addLocation,
+        updateLocation,
+        deleteLocation,
+        setActiveLocation,
+        transferStock,
+        startStockTake,
+        recordStockTakeCounts,
+        approveStockTake,
+        cancelStockTake,
         dispenseDrugs, 
         restockDrugs, 
         updateDrugDetails,
         adjustDrugStock,
         deleteDrugBatch,
-        deleteTransaction,
+        voidTransaction,
         getDrugById,
         getDrugGroupsForDisplay,
         getBatchesForDispenseDisplay,
+        getProductsForDispenseDisplay,
         getVillages,
-        resetInventoryData
+        resetInventoryData,
+        restoreFromBackup,
+        takeSnapshot
     }}>
       {children}
     </InventoryContext.Provider>
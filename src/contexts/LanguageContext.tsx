@@ -0,0 +1,55 @@
+"use client";
+
+import type { ReactNode } from 'react';
+import React, { createContext, useContext, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { DEFAULT_LOCALE, formatDate as formatDateIn, formatNumber as formatNumberIn, isLocaleCode, translate } from '@/i18n';
+import type { LocaleCode, MessageKey, MessageParams, Translate } from '@/i18n';
+
+interface LanguageContextType {
+  locale: LocaleCode;
+  setLocale: (locale: LocaleCode) => Promise<void>;
+  t: Translate;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatDate: (date: Date | number, pattern: string) => string;
+}
+
+const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+
+// The UI language is saved on the logged-in user, so each volunteer keeps their own
+// choice on a shared laptop. The login screen stays in English.
+export const LanguageProvider = ({ children }: { children: ReactNode }) => {
+  const { currentUser, setCurrentUserLanguage } = useAuth();
+  const userLanguage = currentUser?.language;
+  const locale: LocaleCode = isLocaleCode(userLanguage) ? userLanguage : DEFAULT_LOCALE;
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const t = useCallback((key: MessageKey, params?: MessageParams) => translate(locale, key, params), [locale]);
+  const formatNumber = useCallback((value: number, options?: Intl.NumberFormatOptions) => formatNumberIn(locale, value, options), [locale]);
+  const formatDate = useCallback((date: Date | number, pattern: string) => formatDateIn(locale, date, pattern), [locale]);
+
+  const value = useMemo(() => ({
+    locale,
+    setLocale: setCurrentUserLanguage,
+    t,
+    formatNumber,
+    formatDate,
+  }), [locale, setCurrentUserLanguage, t, formatNumber, formatDate]);
+
+  return (
+    <LanguageContext.Provider value={value}>
+      {children}
+    </LanguageContext.Provider>
+  );
+};
+
+export const useTranslation = () => {
+  const context = useContext(LanguageContext);
+  if (context === undefined) {
+    throw new Error('useTranslation must be used within a LanguageProvider');
+  }
+  return context;
+};
@@ -0,0 +1,37 @@
+"use client"
+
+import * as React from "react"
+
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart", "scroll"] as const
+const CHECK_INTERVAL_MS = 5000
+
+// Calls onIdle once after `timeoutMs` without keyboard, mouse or touch activity.
+// A timeout of 0 (or less) disables the timer.
+export function useIdleTimer(timeoutMs: number, onIdle: () => void, enabled = true) {
+  const lastActivityRef = React.useRef(Date.now())
+  const onIdleRef = React.useRef(onIdle)
+  onIdleRef.current = onIdle
+
+  React.useEffect(() => {
+    if (!enabled || timeoutMs <= 0) return
+
+    lastActivityRef.current = Date.now()
+    const markActivity = () => {
+      lastActivityRef.current = Date.now()
+    }
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, markActivity, { passive: true, capture: true }))
+
+    // Polling rather than a single setTimeout so a laptop waking from sleep locks straight away
+    const interval = window.setInterval(() => {
+      if (Date.now() - lastActivityRef.current >= timeoutMs) {
+        lastActivityRef.current = Date.now()
+        onIdleRef.current()
+      }
+    }, Math.min(CHECK_INTERVAL_MS, timeoutMs))
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, markActivity, { capture: true }))
+      window.clearInterval(interval)
+    }
+  }, [timeoutMs, enabled])
+}
@@ -0,0 +1,104 @@
+// Translations for the UI and for patient slips.
+// The UI language is chosen per user (see src/contexts/LanguageContext.tsx); slips
+// are printed in the patient's own language, so these helpers take the locale
+// explicitly rather than reading it from React state.
+
+import { format as formatWithDateFns } from 'date-fns';
+import type { Locale } from 'date-fns';
+import { enIN, hi as hiDateLocale } from 'date-fns/locale';
+import en from './locales/en';
+import hi from './locales/hi';
+import mr from './locales/mr';
+import type { Messages } from './locales/en';
+
+export type { Messages };
+
+export type LocaleCode = 'en' | 'hi' | 'mr';
+
+export const DEFAULT_LOCALE: LocaleCode = 'en';
+
+// Dotted paths to every string in the message files, e.g. "dispense.toast.failedTitle"
+type MessagePath<T> = {
+  [K in keyof T & string]: T[K] extends string ? K : `${K}.${MessagePath<T[K]>}`;
+}[keyof T & string];
+
+export type MessageKey = MessagePath<Messages>;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+// A message returned from outside React (e.g. InventoryContext) for the UI to show in its own language
+export interface LocalizedMessage {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+// date-fns has no Marathi locale. Marathi dates follow the Hindi formats with Marathi month and day names.
+const MARATHI_MONTHS = {
+  narrow: ['जा', 'फे', 'मा', 'ए', 'मे', 'जू', 'जु', 'ऑ', 'स', 'ऑ', 'नो', 'डि'],
+  abbreviated: ['जाने', 'फेब्रु', 'मार्च', 'एप्रि', 'मे', 'जून', 'जुलै', 'ऑग', 'सप्टें', 'ऑक्टो', 'नोव्हें', 'डिसें'],
+  wide: ['जानेवारी', 'फेब्रुवारी', 'मार्च', 'एप्रिल', 'मे', 'जून', 'जुलै', 'ऑगस्ट', 'सप्टेंबर', 'ऑक्टोबर', 'नोव्हेंबर', 'डिसेंबर'],
+};
+
+const MARATHI_DAYS = {
+  narrow: ['र', 'सो', 'मं', 'बु', 'गु', 'शु', 'श'],
+  abbreviated: ['रवि', 'सोम', 'मंगळ', 'बुध', 'गुरु', 'शुक्र', 'शनि'],
+  wide: ['रविवार', 'सोमवार', 'मंगळवार', 'बुधवार', 'गुरुवार', 'शुक्रवार', 'शनिवार'],
+};
+
+const pickWidth = <T extends { narrow: string[]; abbreviated: string[]; wide: string[] }>(names: T, width?: string) =>
+  width === 'narrow' ? names.narrow : width === 'abbreviated' || width === 'short' ? names.abbreviated : names.wide;
+
+const mrDateLocale: Locale = {
+  ...hiDateLocale,
+  code: 'mr',
+  localize: {
+    ...hiDateLocale.localize,
+    month: (month, options) => pickWidth(MARATHI_MONTHS, options?.width)[month],
+    day: (day, options) => pickWidth(MARATHI_DAYS, options?.width)[day],
+    dayPeriod: (period) => (period === 'am' || period === 'morning' ? 'म.पू.' : 'म.नं.'),
+  },
+};
+
+interface LocaleInfo {
+  label: string; // Shown in the language switcher, in the language itself
+  messages: Messages;
+  dateLocale: Locale;
+  // Latin digits throughout, to match what is typed into the forms and printed on packs
+  numberLocale: string;
+}
+
+export const LOCALES: Record<LocaleCode, LocaleInfo> = {
+  en: { label: 'English', messages: en, dateLocale: enIN, numberLocale: 'en-IN' },
+  hi: { label: 'हिन्दी', messages: hi, dateLocale: hiDateLocale, numberLocale: 'hi-IN-u-nu-latn' },
+  mr: { label: 'मराठी', messages: mr, dateLocale: mrDateLocale, numberLocale: 'mr-IN-u-nu-latn' },
+};
+
+export const LOCALE_CODES = Object.keys(LOCALES) as LocaleCode[];
+
+export const isLocaleCode = (value: unknown): value is LocaleCode =>
+  typeof value === 'string' && value in LOCALES;
+
+const lookup = (messages: Messages, key: string): string | undefined => {
+  const value = key.split('.').reduce<unknown>(
+    (node, part) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined),
+    messages
+  );
+  return typeof value === 'string' ? value : undefined;
+};
+
+/** The message in the given language, falling back to English, with {placeholders} filled in. */
+export const translate = (locale: LocaleCode, key: MessageKey, params?: MessageParams): string => {
+  const template = lookup(LOCALES[locale]?.messages ?? en, key) ?? lookup(en, key) ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => (name in params ? String(params[name]) : match));
+};
+
+/** Number with Indian digit grouping (1,00,000), e.g. formatNumber('hi', 2.5, { minimumFractionDigits: 2 }). */
+export const formatNumber = (locale: LocaleCode, value: number, options?: Intl.NumberFormatOptions) =>
+  new Intl.NumberFormat(LOCALES[locale].numberLocale, options).format(value);
+
+/** date-fns format() with the month and day names of the given language. */
+export const formatDate = (locale: LocaleCode, date: Date | number, pattern: string) =>
+  formatWithDateFns(date, pattern, { locale: LOCALES[locale].dateLocale });
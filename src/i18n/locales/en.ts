@@ -0,0 +1,320 @@
+// English UI and slip strings. This file defines the message keys; the other
+// locales must provide the same shape. Placeholders are written as {name}.
+
+const en = {
+  common: {
+    notAvailable: 'N/A',
+    close: 'Close',
+    unexpectedError: 'An unexpected error occurred.',
+    notInPack: {
+      strip: '{drug} does not come in strips.',
+      box: '{drug} does not come in boxes.',
+      carton: '{drug} does not come in cartons.',
+    },
+  },
+  language: {
+    label: 'Language',
+    title: 'Change the language of the app',
+  },
+  nav: {
+    dispense: 'Dispense Drugs',
+    restock: 'Restock',
+    dashboard: 'Dashboard',
+    manageDrugs: 'Manage Drugs',
+    catalog: 'Drug Catalog',
+    transactions: 'Transactions',
+    patients: 'Patients',
+    camps: 'Camps',
+    transfers: 'Transfers',
+    stockTake: 'Stock Take',
+    users: 'Users',
+    switchUser: 'Switch user',
+    lock: 'Lock',
+    lockTitle: 'Lock the screen or switch to another user',
+    logOut: 'Log Out',
+    logOutTitle: 'Log out {name}',
+  },
+  frequency: {
+    OD: 'OD - once a day',
+    BD: 'BD - twice a day',
+    TDS: 'TDS - three times a day',
+    QID: 'QID - four times a day',
+    SOS: 'SOS - only when needed',
+    weekly: 'Weekly - once a week',
+    // As written in a prescription, e.g. "1 tablet BD x 15 days"
+    short: {
+      OD: 'OD',
+      BD: 'BD',
+      TDS: 'TDS',
+      QID: 'QID',
+      SOS: 'SOS',
+      weekly: 'weekly',
+    },
+  },
+  regimen: {
+    summary: '{dose} {unit} {frequency} x {days}',
+    day: '{count} day',
+    daysCount: '{count} days',
+  },
+  dispense: {
+    title: 'Dispense Drugs',
+    description: 'Find or register the patient, then add the drugs to dispense. Batches expiring first are used first unless you pick a batch.',
+    lastDispense: 'Last dispense: {patient}, {count} medicine(s)',
+    activeCamp: 'Camp in progress at {village} ({date}). Dispenses are recorded against this camp.',
+    location: 'Dispensing from {location}.',
+    printSlip: 'Print Slip',
+    patient: 'Patient',
+    village: 'Village / Camp Name (Optional)',
+    villagePlaceholder: 'Select village if applicable',
+    noVillages: 'No villages added. Add on Camps page.',
+    drugsHeading: 'Drugs to Dispense',
+    drug: 'Drug',
+    drugPlaceholder: 'Select a drug',
+    noDrugsInStock: 'No drugs in stock',
+    productStock: '{name} (Stock: {stock})',
+    productStockInBatches: '{name} (Stock: {stock} in {batches} batches)',
+    quantity: 'Quantity ({unit})',
+    quantityPlaceholder: 'Quantity',
+    regimenQuantity: '{regimen} = {quantity}',
+    sosQuantity: 'SOS: enter the quantity to give.',
+    manualQuantity: 'Counted in {unit}, so enter the quantity to give by hand.',
+    dose: 'Dose ({unit})',
+    countIn: 'Count In',
+    packQuantity: '{packs} = {quantity}',
+    regimenInPacks: '{regimen} = {quantity}, rounded up to {packs}',
+    frequency: 'Frequency',
+    noRegimen: 'No regimen',
+    days: 'Days',
+    batch: 'Batch',
+    batchPlaceholder: 'Select a batch',
+    automaticBatch: 'Automatic (earliest expiry first)',
+    batchOption: '{name} - Batch: {batch} - Exp: {expiry} (Stock: {stock})',
+    batchOptionExpiring: '{name} - Batch: {batch} - Exp: {expiry} (Stock: {stock}) - Expires in {days} day(s)',
+    willDispense: 'Will dispense {allocations}',
+    allocation: '{quantity} from batch {batch} (Exp: {expiry})',
+    nearExpiry: 'Batch {batches} expires within {days} day(s). You will be asked for a reason.',
+    shortfall: 'Only {available} unexpired available.',
+    removeDrug: 'Remove Drug',
+    addDrug: 'Add Another Drug',
+    submit: 'Dispense All Drugs',
+    validation: {
+      selectDrug: 'Please select a drug.',
+      quantityPositive: 'Quantity must be a positive whole number.',
+      dosePositive: 'Dose must be more than 0.',
+      daysPositive: 'Days must be more than 0.',
+      daysWhole: 'Days must be a whole number.',
+      enterDose: 'Enter the dose.',
+      enterDays: 'Enter the number of days.',
+      selectPatient: 'Select a registered patient or register a new one.',
+      atLeastOneDrug: 'At least one drug must be added to dispense.',
+      patientMissing: 'The selected patient no longer exists.',
+    },
+    toast: {
+      successTitle: 'Dispense Successful',
+      successDescription: '{drugs} dispensed to {patient}.',
+      successDescriptionInVillage: '{drugs} dispensed to {patient} in {village}.',
+      dispensedLine: '{quantity} {drug} (from batch: {batch})',
+      failedTitle: 'Dispense Failed',
+    },
+    issues: {
+      noPermission: 'You do not have permission to dispense drugs.',
+      invalidRegimen: 'Invalid dosing regimen for {drug}.',
+      batchNotFound: 'Batch with ID {id} not found.',
+      wrongProduct: '{batch} does not belong to the selected drug.',
+      expired: '{batch} expired on {expiry} and cannot be dispensed.',
+      zeroQuantity: 'Skipped {drug} due to zero quantity.',
+      noStock: 'No stock found for {batch}.',
+      notEnoughStock: 'Not enough stock for {batch}. Available: {available}, Requested: {requested}. Dispensing available.',
+      noUnexpiredStock: 'No unexpired stock found for {drug}.',
+      notEnoughUnexpiredStock: 'Not enough unexpired stock for {drug}. Available: {available}, Requested: {requested}. Dispensing available.',
+      confirmNearExpiry: '{count} batch(es) expire within {days} day(s). Confirm with a reason to dispense them.',
+      nothingDispensed: 'No drugs were dispensed. Check stock or request details.',
+      failedOrPartial: 'Dispense failed or partially completed.',
+    },
+  },
+  restock: {
+    title: 'Restock Inventory',
+    description: 'Log new stock received. Add to existing batches, add new batches for known drugs, or add entirely new drugs.',
+    location: 'Stock is added to {location}.',
+    source: 'Source of Drugs',
+    sourcePlaceholder: 'e.g., Supplier Name, Donation Program',
+    batchesHeading: 'Drug Batches to Restock',
+    removeBatch: 'Remove Drug Batch',
+    selectBatch: 'Select Existing Batch / Add New',
+    selectBatchPlaceholder: 'Select batch or add new',
+    addNewBatch: 'Add New Batch...',
+    batchOption: '{name} (Batch: {batch}) Exp: {expiry} (Stock: {stock})',
+    quantityAdded: 'Quantity Added / Initial Stock ({unit})',
+    quantityPlaceholder: 'Quantity',
+    costPerUnit: 'Cost per {unit} (INR)',
+    pricePlaceholder: 'Price',
+    newBatchDetails: 'New Batch Details:',
+    product: 'Drug',
+    newProduct: 'New drug (add to catalog)...',
+    category: 'Category (Optional)',
+    categoryPlaceholder: 'e.g., Diabetes',
+    genericName: 'Generic Name',
+    genericNamePlaceholder: 'e.g., Paracetamol',
+    brandName: 'Brand Name (Optional)',
+    brandNamePlaceholder: 'e.g., Calpol',
+    dosage: 'Dosage (e.g., 500mg)',
+    dosagePlaceholder: 'e.g., 500mg, 125mg/5ml',
+    dosageForm: 'Dosage Form',
+    unit: 'Counted In',
+    formFromProduct: "Form and unit come from this drug's catalog entry.",
+    receivedAs: 'Received As',
+    packTotal: '= {quantity}',
+    packSizes: 'Pack Sizes (Optional)',
+    packSize: '{unit} per {pack}',
+    packSizesHint: 'Count every pack in {unit}: a box of 10 strips of 10 tablets holds 100. Leave blank the packs this drug does not come in.',
+    packsFromProduct: "Pack sizes come from this drug's catalog entry. Edit it in the catalog to change them.",
+    batchNumber: 'Batch Number',
+    batchNumberPlaceholder: 'e.g., B12345',
+    manufactureDate: 'Manufacture Date (Optional)',
+    expiryDate: 'Expiry Date',
+    lowStockThreshold: 'Minimum Stock ({unit})',
+    lowStockThresholdPlaceholder: 'e.g., 10',
+    reorderLevel: 'Reorder Level (Optional)',
+    maxStockLevel: 'Maximum Stock (Optional)',
+    stockLevelsHint: 'Stock levels belong to the product and count all its batches. Edit them later in the catalog.',
+    newBatchHint: 'For new batches, choose the drug from the catalog or add a new one, then fill in Batch No., Expiry, Cost and Quantity Added. Brand, Dosage and Form pre-fill if the Generic Name is already in the catalog.',
+    lineTotal: 'Line Total: INR {amount}',
+    addItem: 'Add Another Item',
+    grandTotal: 'Grand Total: INR {amount}',
+    submit: 'Add All Batches to Stock',
+    validation: {
+      genericNameLength: 'Generic name must be at least 2 characters.',
+      batchNumberRequired: 'Batch number is required.',
+      invalidManufactureDate: 'Invalid manufacture date',
+      expiryRequired: 'Expiry date is required.',
+      invalidExpiryDate: 'Invalid expiry date',
+      priceNonNegative: 'Price must be non-negative.',
+      thresholdNonNegative: 'Stock levels must be zero or a positive whole number.',
+      reorderBelowMinimum: 'Reorder level cannot be below the minimum stock.',
+      maxNotAboveLevels: 'Maximum stock must be above the minimum stock and reorder level.',
+      expiryAfterManufacture: 'Expiry date must be after manufacture date.',
+      selectBatch: "Please select an existing batch or 'Add New Batch'.",
+      quantityPositive: 'Quantity must be a positive whole number.',
+      unitForForm: 'This unit does not suit the dosage form.',
+      packSizesNest: 'Each pack must hold at least 2, and a whole number of the next smaller pack.',
+      newBatchRequired: 'New batch details (generic name, batch no., expiry date and valid price) are required.',
+      sourceLength: 'Source must be at least 2 characters.',
+      atLeastOneItem: 'At least one drug item must be added to restock.',
+      batchExists: 'This exact batch (Generic, Brand, Dosage, Batch No.) already exists. Please add stock to the existing entry or use a different batch number.',
+    },
+    toast: {
+      validationTitle: 'Validation Error',
+      batchExistsDescription: 'Batch for "{name} - {batch}" already exists.',
+      successTitle: 'Batches Added to Stock',
+      successDescription: '{drugs} successfully added from {source}. Total cost: INR {total}.',
+      restockedLine: '{quantity} {drug} (Batch: {batch})',
+      failedTitle: 'Restock Failed',
+    },
+    issues: {
+      noPermission: 'You do not have permission to restock inventory.',
+      productMissing: 'The product chosen for {drug} is no longer in the catalog.',
+      invalidProduct: '{drug}: {error}',
+    },
+  },
+  stockCard: {
+    batchesAvailable: '{count} batch(es) available.',
+    earliestBatch: 'Earliest Batch: {batch}',
+    stockLow: 'Below minimum stock of {threshold}',
+    threshold: 'Minimum stock: {threshold}',
+    belowReorder: 'Time to reorder (reorder level: {level})',
+    overstocked: 'Overstocked (maximum: {level})',
+    expired: 'Expired',
+    expiresInDays: 'Expires in {days}d',
+    expiresSoon: 'Expires soon',
+    earliestExpiry: 'Earliest Expiry: {date}',
+    viewBatchDetails: 'View Batch Details',
+    batchDetailsTitle: '{name} - Batch Details',
+    totalStock: 'Total stock: {stock} across {count} batch(es).',
+    packs: 'Packs: {packs}',
+    inPacks: '{stock} ({packs})',
+    byLocation: 'By location',
+    locationStock: '{location}: {count}',
+    batch: 'Batch: {batch}',
+    brand: 'Brand: {brand}',
+    stock: 'Stock:',
+    expiry: 'Exp: {date}',
+    expiredTag: '(Expired)',
+    daysLeftTag: '({days}d left)',
+    expiresSoonTag: '(Expires soon)',
+    manufactured: 'Mfg: {date}',
+    pricePerUnit: 'Price per {unit}: INR {price}',
+    noBatchInfo: 'No specific batch information available.',
+  },
+  dashboard: {
+    stockLevels: 'Stock levels',
+    allProducts: 'All products',
+    stockLevelFilters: {
+      belowMinimum: 'Below minimum',
+      belowReorder: 'Below reorder point',
+      overstocked: 'Overstocked',
+    },
+  },
+  slip: {
+    title: 'Medicine Slip - {name}',
+    age: '{age} yrs',
+    sex: {
+      Male: 'Male',
+      Female: 'Female',
+      Other: 'Other',
+    },
+    batch: 'Batch {batch}, Exp {expiry}',
+    take: 'Take {dose} {frequency}, for {days}.',
+    takeWhenNeeded: 'Take {dose} only when needed, for up to {days}.',
+    day: '{count} day',
+    daysCount: '{count} days',
+    frequency: {
+      OD: 'once a day, in the morning',
+      BD: 'twice a day, morning and night',
+      TDS: 'three times a day, morning, afternoon and night',
+      QID: 'four times a day, morning, afternoon, evening and night',
+      weekly: 'once a week',
+    },
+    times: {
+      morning: 'Morning',
+      noon: 'Noon',
+      evening: 'Evening',
+      night: 'Night',
+    },
+    footer: 'Keep medicines away from children. Bring this slip on your next visit.',
+  },
+  dosageForms: {
+    tablet: 'Tablet',
+    capsule: 'Capsule',
+    syrup: 'Syrup',
+    suspension: 'Suspension',
+    drops: 'Drops',
+    ointment: 'Ointment',
+    cream: 'Cream',
+    injection: 'Injection',
+    sachet: 'Sachet (e.g., ORS)',
+    inhaler: 'Inhaler',
+    other: 'Other',
+  },
+  units: {
+    quantity: '{count} {unit}',
+    tablet: { one: 'tablet', other: 'tablets' },
+    capsule: { one: 'capsule', other: 'capsules' },
+    ml: { one: 'ml', other: 'ml' },
+    bottle: { one: 'bottle', other: 'bottles' },
+    tube: { one: 'tube', other: 'tubes' },
+    vial: { one: 'vial', other: 'vials' },
+    ampoule: { one: 'ampoule', other: 'ampoules' },
+    sachet: { one: 'sachet', other: 'sachets' },
+    inhaler: { one: 'inhaler', other: 'inhalers' },
+    unit: { one: 'unit', other: 'units' },
+  },
+  packs: {
+    strip: { one: 'strip', other: 'strips' },
+    box: { one: 'box', other: 'boxes' },
+    carton: { one: 'carton', other: 'cartons' },
+  },
+};
+
+export default en;
+
+export type Messages = typeof en;
@@ -0,0 +1,319 @@
+// Hindi UI and slip strings. Drug names, batch numbers and prescription
+// shorthand (OD, BD, TDS...) are left in English as printed on the packs.
+
+import type { Messages } from './en';
+
+const hi: Messages = {
+  common: {
+    notAvailable: 'उपलब्ध नहीं',
+    close: 'बंद करें',
+    unexpectedError: 'कोई अनपेक्षित त्रुटि हुई।',
+    notInPack: {
+      strip: '{drug} पत्तों में नहीं आती।',
+      box: '{drug} डिब्बों में नहीं आती।',
+      carton: '{drug} कार्टन में नहीं आती।',
+    },
+  },
+  language: {
+    label: 'भाषा',
+    title: 'ऐप की भाषा बदलें',
+  },
+  nav: {
+    dispense: 'दवा वितरण',
+    restock: 'स्टॉक भरें',
+    dashboard: 'डैशबोर्ड',
+    manageDrugs: 'दवाएँ प्रबंधित करें',
+    catalog: 'दवा सूची',
+    transactions: 'लेन-देन',
+    patients: 'मरीज़',
+    camps: 'कैंप',
+    transfers: 'स्टॉक स्थानांतरण',
+    stockTake: 'स्टॉक गिनती',
+    users: 'उपयोगकर्ता',
+    switchUser: 'उपयोगकर्ता बदलें',
+    lock: 'लॉक',
+    lockTitle: 'स्क्रीन लॉक करें या दूसरे उपयोगकर्ता पर जाएँ',
+    logOut: 'लॉग आउट',
+    logOutTitle: '{name} को लॉग आउट करें',
+  },
+  frequency: {
+    OD: 'OD - दिन में एक बार',
+    BD: 'BD - दिन में दो बार',
+    TDS: 'TDS - दिन में तीन बार',
+    QID: 'QID - दिन में चार बार',
+    SOS: 'SOS - केवल ज़रूरत पड़ने पर',
+    weekly: 'साप्ताहिक - हफ़्ते में एक बार',
+    short: {
+      OD: 'OD',
+      BD: 'BD',
+      TDS: 'TDS',
+      QID: 'QID',
+      SOS: 'SOS',
+      weekly: 'साप्ताहिक',
+    },
+  },
+  regimen: {
+    summary: '{dose} {unit} {frequency} x {days}',
+    day: '{count} दिन',
+    daysCount: '{count} दिन',
+  },
+  dispense: {
+    title: 'दवा वितरण',
+    description: 'मरीज़ को खोजें या पंजीकृत करें, फिर देने वाली दवाएँ जोड़ें। जब तक आप बैच न चुनें, पहले समाप्त होने वाले बैच पहले उपयोग होंगे।',
+    lastDispense: 'पिछला वितरण: {patient}, {count} दवा(एँ)',
+    activeCamp: '{village} में कैंप चल रहा है ({date})। वितरण इसी कैंप में दर्ज होंगे।',
+    location: '{location} से वितरण हो रहा है।',
+    printSlip: 'पर्ची छापें',
+    patient: 'मरीज़',
+    village: 'गाँव / कैंप का नाम (वैकल्पिक)',
+    villagePlaceholder: 'यदि लागू हो तो गाँव चुनें',
+    noVillages: 'कोई गाँव नहीं जोड़ा गया। कैंप पेज पर जोड़ें।',
+    drugsHeading: 'दी जाने वाली दवाएँ',
+    drug: 'दवा',
+    drugPlaceholder: 'दवा चुनें',
+    noDrugsInStock: 'स्टॉक में कोई दवा नहीं',
+    productStock: '{name} (स्टॉक: {stock})',
+    productStockInBatches: '{name} (स्टॉक: {batches} बैच में {stock})',
+    quantity: 'मात्रा ({unit})',
+    quantityPlaceholder: 'मात्रा',
+    regimenQuantity: '{regimen} = {quantity}',
+    sosQuantity: 'SOS: दी जाने वाली मात्रा भरें।',
+    manualQuantity: 'गिनती {unit} में होती है, इसलिए दी जाने वाली मात्रा स्वयं भरें।',
+    dose: 'खुराक ({unit})',
+    countIn: 'गिनती',
+    packQuantity: '{packs} = {quantity}',
+    regimenInPacks: '{regimen} = {quantity}, पूरे {packs}',
+    frequency: 'कितनी बार',
+    noRegimen: 'कोई खुराक-योजना नहीं',
+    days: 'दिन',
+    batch: 'बैच',
+    batchPlaceholder: 'बैच चुनें',
+    automaticBatch: 'स्वचालित (पहले समाप्त होने वाला पहले)',
+    batchOption: '{name} - बैच: {batch} - समाप्ति: {expiry} (स्टॉक: {stock})',
+    batchOptionExpiring: '{name} - बैच: {batch} - समाप्ति: {expiry} (स्टॉक: {stock}) - {days} दिन में समाप्त',
+    willDispense: 'वितरित होगा: {allocations}',
+    allocation: 'बैच {batch} से {quantity} (समाप्ति: {expiry})',
+    nearExpiry: 'बैच {batches} {days} दिन के भीतर समाप्त हो रहा है। आपसे कारण पूछा जाएगा।',
+    shortfall: 'केवल {available} बिना-समाप्त उपलब्ध हैं।',
+    removeDrug: 'दवा हटाएँ',
+    addDrug: 'एक और दवा जोड़ें',
+    submit: 'सभी दवाएँ वितरित करें',
+    validation: {
+      selectDrug: 'कृपया दवा चुनें।',
+      quantityPositive: 'मात्रा धनात्मक पूर्ण संख्या होनी चाहिए।',
+      dosePositive: 'खुराक 0 से अधिक होनी चाहिए।',
+      daysPositive: 'दिन 0 से अधिक होने चाहिए।',
+      daysWhole: 'दिन पूर्ण संख्या में होने चाहिए।',
+      enterDose: 'खुराक भरें।',
+      enterDays: 'दिनों की संख्या भरें।',
+      selectPatient: 'पंजीकृत मरीज़ चुनें या नया मरीज़ पंजीकृत करें।',
+      atLeastOneDrug: 'वितरण के लिए कम से कम एक दवा जोड़नी होगी।',
+      patientMissing: 'चुना गया मरीज़ अब मौजूद नहीं है।',
+    },
+    toast: {
+      successTitle: 'वितरण सफल',
+      successDescription: '{patient} को {drugs} दी गईं।',
+      successDescriptionInVillage: '{village} में {patient} को {drugs} दी गईं।',
+      dispensedLine: '{quantity} {drug} (बैच: {batch})',
+      failedTitle: 'वितरण विफल',
+    },
+    issues: {
+      noPermission: 'आपको दवाएँ वितरित करने की अनुमति नहीं है।',
+      invalidRegimen: '{drug} की खुराक-योजना अमान्य है।',
+      batchNotFound: 'ID {id} वाला बैच नहीं मिला।',
+      wrongProduct: '{batch} चुनी गई दवा का नहीं है।',
+      expired: '{batch} {expiry} को समाप्त हो चुका है और वितरित नहीं किया जा सकता।',
+      zeroQuantity: 'शून्य मात्रा के कारण {drug} छोड़ी गई।',
+      noStock: '{batch} का कोई स्टॉक नहीं मिला।',
+      notEnoughStock: '{batch} का पर्याप्त स्टॉक नहीं है। उपलब्ध: {available}, माँगा गया: {requested}। उपलब्ध मात्रा वितरित की जा रही है।',
+      noUnexpiredStock: '{drug} का कोई बिना-समाप्त स्टॉक नहीं मिला।',
+      notEnoughUnexpiredStock: '{drug} का पर्याप्त बिना-समाप्त स्टॉक नहीं है। उपलब्ध: {available}, माँगा गया: {requested}। उपलब्ध मात्रा वितरित की जा रही है।',
+      confirmNearExpiry: '{count} बैच {days} दिन के भीतर समाप्त हो रहे हैं। इन्हें वितरित करने के लिए कारण के साथ पुष्टि करें।',
+      nothingDispensed: 'कोई दवा वितरित नहीं हुई। स्टॉक या अनुरोध का विवरण जाँचें।',
+      failedOrPartial: 'वितरण विफल रहा या आंशिक रूप से पूरा हुआ।',
+    },
+  },
+  restock: {
+    title: 'स्टॉक भरें',
+    description: 'प्राप्त नया स्टॉक दर्ज करें। मौजूदा बैच में जोड़ें, ज्ञात दवाओं के नए बैच जोड़ें, या बिल्कुल नई दवाएँ जोड़ें।',
+    location: 'स्टॉक {location} में जोड़ा जाएगा।',
+    source: 'दवाओं का स्रोत',
+    sourcePlaceholder: 'जैसे, आपूर्तिकर्ता का नाम, दान कार्यक्रम',
+    batchesHeading: 'स्टॉक में जोड़ने वाले बैच',
+    removeBatch: 'बैच हटाएँ',
+    selectBatch: 'मौजूदा बैच चुनें / नया जोड़ें',
+    selectBatchPlaceholder: 'बैच चुनें या नया जोड़ें',
+    addNewBatch: 'नया बैच जोड़ें...',
+    batchOption: '{name} (बैच: {batch}) समाप्ति: {expiry} (स्टॉक: {stock})',
+    quantityAdded: 'जोड़ी गई मात्रा / प्रारंभिक स्टॉक ({unit})',
+    quantityPlaceholder: 'मात्रा',
+    costPerUnit: 'प्रति {unit} लागत (₹)',
+    pricePlaceholder: 'मूल्य',
+    newBatchDetails: 'नए बैच का विवरण:',
+    product: 'दवा',
+    newProduct: 'नई दवा (सूची में जोड़ें)...',
+    category: 'श्रेणी (वैकल्पिक)',
+    categoryPlaceholder: 'जैसे, Diabetes',
+    genericName: 'जेनेरिक नाम',
+    genericNamePlaceholder: 'जैसे, Paracetamol',
+    brandName: 'ब्रांड नाम (वैकल्पिक)',
+    brandNamePlaceholder: 'जैसे, Calpol',
+    dosage: 'मात्रा (जैसे, 500mg)',
+    dosagePlaceholder: 'जैसे, 500mg, 125mg/5ml',
+    dosageForm: 'दवा का रूप',
+    unit: 'गिनती की इकाई',
+    formFromProduct: 'रूप और इकाई इस दवा की सूची प्रविष्टि से हैं।',
+    receivedAs: 'किस रूप में मिला',
+    packTotal: '= {quantity}',
+    packSizes: 'पैक का आकार (वैकल्पिक)',
+    packSize: 'प्रति {pack} {unit}',
+    packSizesHint: 'हर पैक को {unit} में गिनें: 10 गोलियों के 10 पत्तों वाले डिब्बे में 100 होती हैं। जिन पैक में यह दवा नहीं आती उन्हें खाली छोड़ें।',
+    packsFromProduct: 'पैक के आकार इस दवा की सूची प्रविष्टि से हैं। बदलने के लिए दवा सूची में संपादित करें।',
+    batchNumber: 'बैच नंबर',
+    batchNumberPlaceholder: 'जैसे, B12345',
+    manufactureDate: 'निर्माण तिथि (वैकल्पिक)',
+    expiryDate: 'समाप्ति तिथि',
+    lowStockThreshold: 'न्यूनतम स्टॉक ({unit})',
+    lowStockThresholdPlaceholder: 'जैसे, 10',
+    reorderLevel: 'पुनः ऑर्डर स्तर (वैकल्पिक)',
+    maxStockLevel: 'अधिकतम स्टॉक (वैकल्पिक)',
+    stockLevelsHint: 'स्टॉक स्तर दवा के होते हैं और उसके सभी बैच गिने जाते हैं। इन्हें बाद में सूची में बदलें।',
+    newBatchHint: 'नए बैच के लिए सूची से दवा चुनें या नई जोड़ें, फिर बैच नंबर, समाप्ति, लागत और जोड़ी गई मात्रा भरें। जेनेरिक नाम सूची में पहले से हो तो ब्रांड, मात्रा और रूप अपने आप भर जाएँगे।',
+    lineTotal: 'पंक्ति कुल: ₹ {amount}',
+    addItem: 'एक और आइटम जोड़ें',
+    grandTotal: 'कुल योग: ₹ {amount}',
+    submit: 'सभी बैच स्टॉक में जोड़ें',
+    validation: {
+      genericNameLength: 'जेनेरिक नाम कम से कम 2 अक्षरों का होना चाहिए।',
+      batchNumberRequired: 'बैच नंबर आवश्यक है।',
+      invalidManufactureDate: 'अमान्य निर्माण तिथि',
+      expiryRequired: 'समाप्ति तिथि आवश्यक है।',
+      invalidExpiryDate: 'अमान्य समाप्ति तिथि',
+      priceNonNegative: 'मूल्य ऋणात्मक नहीं हो सकता।',
+      thresholdNonNegative: 'स्टॉक स्तर शून्य या धनात्मक पूर्ण संख्या होना चाहिए।',
+      reorderBelowMinimum: 'पुनः ऑर्डर स्तर न्यूनतम स्टॉक से कम नहीं हो सकता।',
+      maxNotAboveLevels: 'अधिकतम स्टॉक न्यूनतम स्टॉक और पुनः ऑर्डर स्तर से ज़्यादा होना चाहिए।',
+      expiryAfterManufacture: 'समाप्ति तिथि निर्माण तिथि के बाद होनी चाहिए।',
+      selectBatch: "कृपया मौजूदा बैच चुनें या 'नया बैच जोड़ें'।",
+      quantityPositive: 'मात्रा धनात्मक पूर्ण संख्या होनी चाहिए।',
+      unitForForm: 'यह इकाई इस खुराक रूप के लिए सही नहीं है।',
+      packSizesNest: 'हर पैक में कम से कम 2, और अगले छोटे पैक की पूरी संख्या होनी चाहिए।',
+      newBatchRequired: 'नए बैच का विवरण (जेनेरिक नाम, बैच नंबर, समाप्ति तिथि, और सही मूल्य) आवश्यक है।',
+      sourceLength: 'स्रोत कम से कम 2 अक्षरों का होना चाहिए।',
+      atLeastOneItem: 'स्टॉक भरने के लिए कम से कम एक दवा जोड़नी होगी।',
+      batchExists: 'यह बैच (जेनेरिक, ब्रांड, मात्रा, बैच नंबर) पहले से मौजूद है। मौजूदा प्रविष्टि में स्टॉक जोड़ें या अलग बैच नंबर उपयोग करें।',
+    },
+    toast: {
+      validationTitle: 'सत्यापन त्रुटि',
+      batchExistsDescription: '"{name} - {batch}" का बैच पहले से मौजूद है।',
+      successTitle: 'बैच स्टॉक में जोड़े गए',
+      successDescription: '{source} से {drugs} सफलतापूर्वक जोड़ी गईं। कुल लागत: ₹ {total}।',
+      restockedLine: '{quantity} {drug} (बैच: {batch})',
+      failedTitle: 'स्टॉक भरना विफल',
+    },
+    issues: {
+      noPermission: 'आपको स्टॉक भरने की अनुमति नहीं है।',
+      productMissing: '{drug} के लिए चुना गया उत्पाद अब कैटलॉग में नहीं है।',
+      invalidProduct: '{drug}: {error}',
+    },
+  },
+  stockCard: {
+    batchesAvailable: '{count} बैच उपलब्ध।',
+    earliestBatch: 'सबसे पहला बैच: {batch}',
+    stockLow: 'न्यूनतम स्टॉक {threshold} से कम',
+    threshold: 'न्यूनतम स्टॉक: {threshold}',
+    belowReorder: 'फिर से मँगाने का समय (पुनः ऑर्डर स्तर: {level})',
+    overstocked: 'ज़रूरत से ज़्यादा स्टॉक (अधिकतम: {level})',
+    expired: 'समाप्त',
+    expiresInDays: '{days} दिन में समाप्त',
+    expiresSoon: 'जल्द समाप्त',
+    earliestExpiry: 'सबसे पहली समाप्ति: {date}',
+    viewBatchDetails: 'बैच विवरण देखें',
+    batchDetailsTitle: '{name} - बैच विवरण',
+    totalStock: 'कुल स्टॉक: {count} बैच में {stock}।',
+    packs: 'पैक: {packs}',
+    inPacks: '{stock} ({packs})',
+    byLocation: 'स्थान के अनुसार',
+    locationStock: '{location}: {count}',
+    batch: 'बैच: {batch}',
+    brand: 'ब्रांड: {brand}',
+    stock: 'स्टॉक:',
+    expiry: 'समाप्ति: {date}',
+    expiredTag: '(समाप्त)',
+    daysLeftTag: '({days} दिन बाकी)',
+    expiresSoonTag: '(जल्द समाप्त)',
+    manufactured: 'निर्माण: {date}',
+    pricePerUnit: 'प्रति {unit} मूल्य: ₹ {price}',
+    noBatchInfo: 'बैच की कोई विशेष जानकारी उपलब्ध नहीं।',
+  },
+  dashboard: {
+    stockLevels: 'स्टॉक स्तर',
+    allProducts: 'सभी दवाएँ',
+    stockLevelFilters: {
+      belowMinimum: 'न्यूनतम से कम',
+      belowReorder: 'पुनः ऑर्डर स्तर से कम',
+      overstocked: 'ज़रूरत से ज़्यादा स्टॉक',
+    },
+  },
+  slip: {
+    title: 'दवा पर्ची - {name}',
+    age: '{age} वर्ष',
+    sex: {
+      Male: 'पुरुष',
+      Female: 'महिला',
+      Other: 'अन्य',
+    },
+    batch: 'बैच {batch}, समाप्ति {expiry}',
+    take: '{dose} {frequency}, {days} तक लें।',
+    takeWhenNeeded: '{dose} केवल ज़रूरत पड़ने पर, अधिकतम {days} तक लें।',
+    day: '{count} दिन',
+    daysCount: '{count} दिन',
+    frequency: {
+      OD: 'दिन में एक बार, सुबह',
+      BD: 'दिन में दो बार, सुबह और रात',
+      TDS: 'दिन में तीन बार, सुबह, दोपहर और रात',
+      QID: 'दिन में चार बार, सुबह, दोपहर, शाम और रात',
+      weekly: 'हफ़्ते में एक बार',
+    },
+    times: {
+      morning: 'सुबह',
+      noon: 'दोपहर',
+      evening: 'शाम',
+      night: 'रात',
+    },
+    footer: 'दवाइयाँ बच्चों की पहुँच से दूर रखें। अगली बार आते समय यह पर्ची साथ लाएँ।',
+  },
+  dosageForms: {
+    tablet: 'टैबलेट',
+    capsule: 'कैप्सूल',
+    syrup: 'सिरप',
+    suspension: 'सस्पेंशन',
+    drops: 'ड्रॉप्स',
+    ointment: 'मलहम',
+    cream: 'क्रीम',
+    injection: 'इंजेक्शन',
+    sachet: 'पाउच (जैसे, ORS)',
+    inhaler: 'इनहेलर',
+    other: 'अन्य',
+  },
+  units: {
+    quantity: '{count} {unit}',
+    tablet: { one: 'गोली', other: 'गोलियाँ' },
+    capsule: { one: 'कैप्सूल', other: 'कैप्सूल' },
+    ml: { one: 'मि.ली.', other: 'मि.ली.' },
+    bottle: { one: 'बोतल', other: 'बोतलें' },
+    tube: { one: 'ट्यूब', other: 'ट्यूब' },
+    vial: { one: 'वायल', other: 'वायल' },
+    ampoule: { one: 'एम्प्यूल', other: 'एम्प्यूल' },
+    sachet: { one: 'पाउच', other: 'पाउच' },
+    inhaler: { one: 'इनहेलर', other: 'इनहेलर' },
+    unit: { one: 'नग', other: 'नग' },
+  },
+  packs: {
+    strip: { one: 'पत्ता', other: 'पत्ते' },
+    box: { one: 'डिब्बा', other: 'डिब्बे' },
+    carton: { one: 'कार्टन', other: 'कार्टन' },
+  },
+};
+
+export default hi;
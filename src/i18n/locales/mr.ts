@@ -0,0 +1,319 @@
+// Marathi UI and slip strings. Drug names, batch numbers and prescription
+// shorthand (OD, BD, TDS...) are left in English as printed on the packs.
+
+import type { Messages } from './en';
+
+const mr: Messages = {
+  common: {
+    notAvailable: 'उपलब्ध नाही',
+    close: 'बंद करा',
+    unexpectedError: 'अनपेक्षित त्रुटी आली.',
+    notInPack: {
+      strip: '{drug} पट्ट्यांमध्ये येत नाही.',
+      box: '{drug} खोक्यांमध्ये येत नाही.',
+      carton: '{drug} कार्टनमध्ये येत नाही.',
+    },
+  },
+  language: {
+    label: 'भाषा',
+    title: 'ॲपची भाषा बदला',
+  },
+  nav: {
+    dispense: 'औषध वाटप',
+    restock: 'साठा भरा',
+    dashboard: 'डॅशबोर्ड',
+    manageDrugs: 'औषधे व्यवस्थापित करा',
+    catalog: 'औषध सूची',
+    transactions: 'व्यवहार',
+    patients: 'रुग्ण',
+    camps: 'शिबिरे',
+    transfers: 'साठा हस्तांतरण',
+    stockTake: 'साठा मोजणी',
+    users: 'वापरकर्ते',
+    switchUser: 'वापरकर्ता बदला',
+    lock: 'लॉक',
+    lockTitle: 'स्क्रीन लॉक करा किंवा दुसऱ्या वापरकर्त्यावर जा',
+    logOut: 'लॉग आउट',
+    logOutTitle: '{name} यांना लॉग आउट करा',
+  },
+  frequency: {
+    OD: 'OD - दिवसातून एकदा',
+    BD: 'BD - दिवसातून दोनदा',
+    TDS: 'TDS - दिवसातून तीन वेळा',
+    QID: 'QID - दिवसातून चार वेळा',
+    SOS: 'SOS - फक्त गरज असेल तेव्हा',
+    weekly: 'साप्ताहिक - आठवड्यातून एकदा',
+    short: {
+      OD: 'OD',
+      BD: 'BD',
+      TDS: 'TDS',
+      QID: 'QID',
+      SOS: 'SOS',
+      weekly: 'साप्ताहिक',
+    },
+  },
+  regimen: {
+    summary: '{dose} {unit} {frequency} x {days}',
+    day: '{count} दिवस',
+    daysCount: '{count} दिवस',
+  },
+  dispense: {
+    title: 'औषध वाटप',
+    description: 'रुग्ण शोधा किंवा नोंदवा, मग द्यायची औषधे जोडा. तुम्ही बॅच निवडली नाही तर आधी संपणाऱ्या बॅच आधी वापरल्या जातात.',
+    lastDispense: 'मागील वाटप: {patient}, {count} औषध(े)',
+    activeCamp: '{village} येथे कॅम्प सुरू आहे ({date})। वाटप याच कॅम्पमध्ये नोंदवले जाईल।',
+    location: '{location} मधून वाटप होत आहे.',
+    printSlip: 'चिठ्ठी छापा',
+    patient: 'रुग्ण',
+    village: 'गाव / शिबिराचे नाव (ऐच्छिक)',
+    villagePlaceholder: 'लागू असल्यास गाव निवडा',
+    noVillages: 'एकही गाव जोडलेले नाही. शिबिरे पानावर जोडा.',
+    drugsHeading: 'द्यायची औषधे',
+    drug: 'औषध',
+    drugPlaceholder: 'औषध निवडा',
+    noDrugsInStock: 'साठ्यात एकही औषध नाही',
+    productStock: '{name} (साठा: {stock})',
+    productStockInBatches: '{name} (साठा: {batches} बॅचमध्ये {stock})',
+    quantity: 'प्रमाण ({unit})',
+    quantityPlaceholder: 'प्रमाण',
+    regimenQuantity: '{regimen} = {quantity}',
+    sosQuantity: 'SOS: द्यायचे प्रमाण भरा.',
+    manualQuantity: 'मोजणी {unit} मध्ये होते, म्हणून द्यायचे प्रमाण स्वतः भरा.',
+    dose: 'डोस ({unit})',
+    countIn: 'मोजणी',
+    packQuantity: '{packs} = {quantity}',
+    regimenInPacks: '{regimen} = {quantity}, पूर्ण {packs}',
+    frequency: 'किती वेळा',
+    noRegimen: 'डोस योजना नाही',
+    days: 'दिवस',
+    batch: 'बॅच',
+    batchPlaceholder: 'बॅच निवडा',
+    automaticBatch: 'आपोआप (आधी संपणारी आधी)',
+    batchOption: '{name} - बॅच: {batch} - मुदत: {expiry} (साठा: {stock})',
+    batchOptionExpiring: '{name} - बॅच: {batch} - मुदत: {expiry} (साठा: {stock}) - {days} दिवसांत मुदत संपते',
+    willDispense: 'वाटप होईल: {allocations}',
+    allocation: 'बॅच {batch} मधून {quantity} (मुदत: {expiry})',
+    nearExpiry: 'बॅच {batches} ची मुदत {days} दिवसांत संपते. तुम्हाला कारण विचारले जाईल.',
+    shortfall: 'मुदत न संपलेले फक्त {available} उपलब्ध आहेत.',
+    removeDrug: 'औषध काढा',
+    addDrug: 'आणखी एक औषध जोडा',
+    submit: 'सर्व औषधे वाटप करा',
+    validation: {
+      selectDrug: 'कृपया औषध निवडा.',
+      quantityPositive: 'प्रमाण धन पूर्ण संख्या असली पाहिजे.',
+      dosePositive: 'डोस 0 पेक्षा जास्त असला पाहिजे.',
+      daysPositive: 'दिवस 0 पेक्षा जास्त असले पाहिजेत.',
+      daysWhole: 'दिवस पूर्ण संख्येत असले पाहिजेत.',
+      enterDose: 'डोस भरा.',
+      enterDays: 'दिवसांची संख्या भरा.',
+      selectPatient: 'नोंदणीकृत रुग्ण निवडा किंवा नवीन रुग्ण नोंदवा.',
+      atLeastOneDrug: 'वाटपासाठी किमान एक औषध जोडले पाहिजे.',
+      patientMissing: 'निवडलेला रुग्ण आता अस्तित्वात नाही.',
+    },
+    toast: {
+      successTitle: 'वाटप यशस्वी',
+      successDescription: '{patient} यांना {drugs} दिली.',
+      successDescriptionInVillage: '{village} येथे {patient} यांना {drugs} दिली.',
+      dispensedLine: '{quantity} {drug} (बॅच: {batch})',
+      failedTitle: 'वाटप अयशस्वी',
+    },
+    issues: {
+      noPermission: 'तुम्हाला औषधे वाटण्याची परवानगी नाही.',
+      invalidRegimen: '{drug} ची डोस-योजना अवैध आहे.',
+      batchNotFound: 'ID {id} असलेली बॅच सापडली नाही.',
+      wrongProduct: '{batch} निवडलेल्या औषधाची नाही.',
+      expired: '{batch} ची मुदत {expiry} रोजी संपली आहे, ती वाटता येणार नाही.',
+      zeroQuantity: 'शून्य प्रमाणामुळे {drug} वगळले.',
+      noStock: '{batch} चा साठा सापडला नाही.',
+      notEnoughStock: '{batch} चा पुरेसा साठा नाही. उपलब्ध: {available}, मागितले: {requested}. उपलब्ध प्रमाण वाटले जात आहे.',
+      noUnexpiredStock: '{drug} चा मुदत न संपलेला साठा सापडला नाही.',
+      notEnoughUnexpiredStock: '{drug} चा मुदत न संपलेला पुरेसा साठा नाही. उपलब्ध: {available}, मागितले: {requested}. उपलब्ध प्रमाण वाटले जात आहे.',
+      confirmNearExpiry: '{count} बॅचची मुदत {days} दिवसांत संपते. त्या वाटण्यासाठी कारणासह पुष्टी करा.',
+      nothingDispensed: 'कोणतेही औषध वाटले गेले नाही. साठा किंवा विनंतीचा तपशील तपासा.',
+      failedOrPartial: 'वाटप अयशस्वी झाले किंवा अर्धवट पूर्ण झाले.',
+    },
+  },
+  restock: {
+    title: 'साठा भरा',
+    description: 'मिळालेला नवीन साठा नोंदवा. असलेल्या बॅचमध्ये जोडा, माहीत असलेल्या औषधांच्या नवीन बॅच जोडा, किंवा पूर्णपणे नवीन औषधे जोडा.',
+    location: 'साठा {location} मध्ये जोडला जाईल.',
+    source: 'औषधांचा स्रोत',
+    sourcePlaceholder: 'उदा., पुरवठादाराचे नाव, देणगी कार्यक्रम',
+    batchesHeading: 'साठ्यात जोडायच्या बॅच',
+    removeBatch: 'बॅच काढा',
+    selectBatch: 'असलेली बॅच निवडा / नवीन जोडा',
+    selectBatchPlaceholder: 'बॅच निवडा किंवा नवीन जोडा',
+    addNewBatch: 'नवीन बॅच जोडा...',
+    batchOption: '{name} (बॅच: {batch}) मुदत: {expiry} (साठा: {stock})',
+    quantityAdded: 'जोडलेले प्रमाण / सुरुवातीचा साठा ({unit})',
+    quantityPlaceholder: 'प्रमाण',
+    costPerUnit: 'प्रति {unit} किंमत (₹)',
+    pricePlaceholder: 'किंमत',
+    newBatchDetails: 'नवीन बॅचचा तपशील:',
+    product: 'औषध',
+    newProduct: 'नवीन औषध (सूचीत जोडा)...',
+    category: 'वर्ग (ऐच्छिक)',
+    categoryPlaceholder: 'उदा., Diabetes',
+    genericName: 'जेनेरिक नाव',
+    genericNamePlaceholder: 'उदा., Paracetamol',
+    brandName: 'ब्रँड नाव (ऐच्छिक)',
+    brandNamePlaceholder: 'उदा., Calpol',
+    dosage: 'मात्रा (उदा., 500mg)',
+    dosagePlaceholder: 'उदा., 500mg, 125mg/5ml',
+    dosageForm: 'औषधाचा प्रकार',
+    unit: 'मोजणीचे एकक',
+    formFromProduct: 'प्रकार आणि एकक या औषधाच्या सूचीतील नोंदीप्रमाणे आहेत.',
+    receivedAs: 'कशा स्वरूपात मिळाले',
+    packTotal: '= {quantity}',
+    packSizes: 'पॅकचा आकार (पर्यायी)',
+    packSize: 'प्रति {pack} {unit}',
+    packSizesHint: 'प्रत्येक पॅक {unit} मध्ये मोजा: 10 गोळ्यांच्या 10 पट्ट्यांच्या खोक्यात 100 असतात. ज्या पॅकमध्ये हे औषध येत नाही ते रिकामे ठेवा.',
+    packsFromProduct: 'पॅकचे आकार या औषधाच्या सूचीतील नोंदीप्रमाणे आहेत. बदलण्यासाठी औषध सूचीत संपादित करा.',
+    batchNumber: 'बॅच क्रमांक',
+    batchNumberPlaceholder: 'उदा., B12345',
+    manufactureDate: 'उत्पादन तारीख (ऐच्छिक)',
+    expiryDate: 'मुदत संपण्याची तारीख',
+    lowStockThreshold: 'किमान साठा ({unit})',
+    lowStockThresholdPlaceholder: 'उदा., 10',
+    reorderLevel: 'पुनर्मागणी पातळी (ऐच्छिक)',
+    maxStockLevel: 'कमाल साठा (ऐच्छिक)',
+    stockLevelsHint: 'साठ्याच्या पातळ्या औषधाच्या असतात आणि त्याच्या सर्व बॅच मोजल्या जातात. त्या नंतर सूचीत बदला.',
+    newBatchHint: 'नवीन बॅचसाठी सूचीतून औषध निवडा किंवा नवीन जोडा, मग बॅच क्रमांक, मुदत, किंमत आणि जोडलेले प्रमाण भरा. जेनेरिक नाव सूचीत आधीपासून असल्यास ब्रँड, मात्रा आणि प्रकार आपोआप भरले जातील.',
+    lineTotal: 'ओळीची एकूण: ₹ {amount}',
+    addItem: 'आणखी एक वस्तू जोडा',
+    grandTotal: 'एकूण बेरीज: ₹ {amount}',
+    submit: 'सर्व बॅच साठ्यात जोडा',
+    validation: {
+      genericNameLength: 'जेनेरिक नाव किमान 2 अक्षरांचे असले पाहिजे.',
+      batchNumberRequired: 'बॅच क्रमांक आवश्यक आहे.',
+      invalidManufactureDate: 'अवैध उत्पादन तारीख',
+      expiryRequired: 'मुदत संपण्याची तारीख आवश्यक आहे.',
+      invalidExpiryDate: 'अवैध मुदत तारीख',
+      priceNonNegative: 'किंमत ऋण असू शकत नाही.',
+      thresholdNonNegative: 'साठ्याची पातळी शून्य किंवा धन पूर्ण संख्या असली पाहिजे.',
+      reorderBelowMinimum: 'पुनर्मागणी पातळी किमान साठ्यापेक्षा कमी असू शकत नाही.',
+      maxNotAboveLevels: 'कमाल साठा किमान साठा आणि पुनर्मागणी पातळीपेक्षा जास्त असला पाहिजे.',
+      expiryAfterManufacture: 'मुदतीची तारीख उत्पादन तारखेनंतरची असली पाहिजे.',
+      selectBatch: "कृपया असलेली बॅच निवडा किंवा 'नवीन बॅच जोडा'.",
+      quantityPositive: 'प्रमाण धन पूर्ण संख्या असली पाहिजे.',
+      unitForForm: 'हे एकक या डोस प्रकारासाठी योग्य नाही.',
+      packSizesNest: 'प्रत्येक पॅकमध्ये किमान 2, आणि पुढील लहान पॅकची पूर्ण संख्या असली पाहिजे.',
+      newBatchRequired: 'नवीन बॅचचा तपशील (जेनेरिक नाव, बॅच क्रमांक, मुदत तारीख, आणि योग्य किंमत) आवश्यक आहे.',
+      sourceLength: 'स्रोत किमान 2 अक्षरांचा असला पाहिजे.',
+      atLeastOneItem: 'साठा भरण्यासाठी किमान एक औषध जोडले पाहिजे.',
+      batchExists: 'ही बॅच (जेनेरिक, ब्रँड, मात्रा, बॅच क्रमांक) आधीपासून आहे. असलेल्या नोंदीत साठा जोडा किंवा वेगळा बॅच क्रमांक वापरा.',
+    },
+    toast: {
+      validationTitle: 'पडताळणी त्रुटी',
+      batchExistsDescription: '"{name} - {batch}" ची बॅच आधीपासून आहे.',
+      successTitle: 'बॅच साठ्यात जोडल्या',
+      successDescription: '{source} कडून {drugs} यशस्वीपणे जोडली. एकूण किंमत: ₹ {total}.',
+      restockedLine: '{quantity} {drug} (बॅच: {batch})',
+      failedTitle: 'साठा भरणे अयशस्वी',
+    },
+    issues: {
+      noPermission: 'तुम्हाला साठा भरण्याची परवानगी नाही.',
+      productMissing: '{drug} साठी निवडलेले उत्पादन आता कॅटलॉगमध्ये नाही.',
+      invalidProduct: '{drug}: {error}',
+    },
+  },
+  stockCard: {
+    batchesAvailable: '{count} बॅच उपलब्ध.',
+    earliestBatch: 'सर्वात आधीची बॅच: {batch}',
+    stockLow: 'किमान साठा {threshold} पेक्षा कमी',
+    threshold: 'किमान साठा: {threshold}',
+    belowReorder: 'पुन्हा मागवण्याची वेळ (पुनर्मागणी पातळी: {level})',
+    overstocked: 'गरजेपेक्षा जास्त साठा (कमाल: {level})',
+    expired: 'मुदत संपली',
+    expiresInDays: '{days} दिवसांत मुदत संपते',
+    expiresSoon: 'लवकरच मुदत संपते',
+    earliestExpiry: 'सर्वात आधीची मुदत: {date}',
+    viewBatchDetails: 'बॅचचा तपशील पहा',
+    batchDetailsTitle: '{name} - बॅचचा तपशील',
+    totalStock: 'एकूण साठा: {count} बॅचमध्ये {stock}.',
+    packs: 'पॅक: {packs}',
+    inPacks: '{stock} ({packs})',
+    byLocation: 'ठिकाणानुसार',
+    locationStock: '{location}: {count}',
+    batch: 'बॅच: {batch}',
+    brand: 'ब्रँड: {brand}',
+    stock: 'साठा:',
+    expiry: 'मुदत: {date}',
+    expiredTag: '(मुदत संपली)',
+    daysLeftTag: '({days} दिवस बाकी)',
+    expiresSoonTag: '(लवकरच मुदत संपते)',
+    manufactured: 'उत्पादन: {date}',
+    pricePerUnit: 'प्रति {unit} किंमत: ₹ {price}',
+    noBatchInfo: 'बॅचची विशेष माहिती उपलब्ध नाही.',
+  },
+  dashboard: {
+    stockLevels: 'साठा पातळी',
+    allProducts: 'सर्व औषधे',
+    stockLevelFilters: {
+      belowMinimum: 'किमान पातळीपेक्षा कमी',
+      belowReorder: 'पुनर्मागणी पातळीपेक्षा कमी',
+      overstocked: 'गरजेपेक्षा जास्त साठा',
+    },
+  },
+  slip: {
+    title: 'औषधाची चिठ्ठी - {name}',
+    age: '{age} वर्षे',
+    sex: {
+      Male: 'पुरुष',
+      Female: 'स्त्री',
+      Other: 'इतर',
+    },
+    batch: 'बॅच {batch}, मुदत {expiry}',
+    take: '{dose} {frequency}, {days} घ्या.',
+    takeWhenNeeded: '{dose} फक्त गरज असेल तेव्हा, जास्तीत जास्त {days} घ्या.',
+    day: '{count} दिवस',
+    daysCount: '{count} दिवस',
+    frequency: {
+      OD: 'दिवसातून एकदा, सकाळी',
+      BD: 'दिवसातून दोनदा, सकाळी आणि रात्री',
+      TDS: 'दिवसातून तीन वेळा, सकाळी, दुपारी आणि रात्री',
+      QID: 'दिवसातून चार वेळा, सकाळी, दुपारी, संध्याकाळी आणि रात्री',
+      weekly: 'आठवड्यातून एकदा',
+    },
+    times: {
+      morning: 'सकाळ',
+      noon: 'दुपार',
+      evening: 'संध्याकाळ',
+      night: 'रात्र',
+    },
+    footer: 'औषधे मुलांपासून दूर ठेवा. पुढच्या भेटीला ही चिठ्ठी सोबत आणा.',
+  },
+  dosageForms: {
+    tablet: 'टॅब्लेट',
+    capsule: 'कॅप्सूल',
+    syrup: 'सिरप',
+    suspension: 'सस्पेन्शन',
+    drops: 'थेंब',
+    ointment: 'मलम',
+    cream: 'क्रीम',
+    injection: 'इंजेक्शन',
+    sachet: 'पाकीट (उदा., ORS)',
+    inhaler: 'इनहेलर',
+    other: 'इतर',
+  },
+  units: {
+    quantity: '{count} {unit}',
+    tablet: { one: 'गोळी', other: 'गोळ्या' },
+    capsule: { one: 'कॅप्सूल', other: 'कॅप्सूल' },
+    ml: { one: 'मि.ली.', other: 'मि.ली.' },
+    bottle: { one: 'बाटली', other: 'बाटल्या' },
+    tube: { one: 'ट्यूब', other: 'ट्यूब' },
+    vial: { one: 'व्हायल', other: 'व्हायल' },
+    ampoule: { one: 'अँप्यूल', other: 'अँप्यूल' },
+    sachet: { one: 'पाकीट', other: 'पाकिटे' },
+    inhaler: { one: 'इनहेलर', other: 'इनहेलर' },
+    unit: { one: 'नग', other: 'नग' },
+  },
+  packs: {
+    strip: { one: 'पट्टी', other: 'पट्ट्या' },
+    box: { one: 'खोका', other: 'खोके' },
+    carton: { one: 'कार्टन', other: 'कार्टन' },
+  },
+};
+
+export default mr;
@@ -0,0 +1,54 @@
+// PIN hashing for local user accounts.
+// PINs are never stored; each user keeps a random salt and a PBKDF2-SHA256
+// hash of the PIN so the IndexedDB contents don't reveal them.
+
+import type { Permission, User } from '@/types';
+import { ROLE_PERMISSIONS } from '@/types';
+
+const PBKDF2_ITERATIONS = 100000;
+const HASH_LENGTH_BITS = 256;
+export const MIN_PIN_LENGTH = 4;
+
+const toHex = (buffer: ArrayBuffer | Uint8Array) =>
+  Array.from(buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/.{2}/g) || []).map(byte => parseInt(byte, 16)));
+
+const getSubtleCrypto = () => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('Secure hashing is not available in this environment.');
+  }
+  return crypto.subtle;
+};
+
+export const generateSalt = () => toHex(crypto.getRandomValues(new Uint8Array(16)));
+
+export const hashPin = async (pin: string, saltHex: string): Promise<string> => {
+  const subtle = getSubtleCrypto();
+  const keyMaterial = await subtle.importKey('raw', new TextEncoder().encode(pin), 'PBKDF2', false, ['deriveBits']);
+  const bits = await subtle.deriveBits(
+    { name: 'PBKDF2', salt: fromHex(saltHex), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    keyMaterial,
+    HASH_LENGTH_BITS
+  );
+  return toHex(bits);
+};
+
+export const verifyPin = async (user: Pick<User, 'pinHash' | 'pinSalt'>, pin: string): Promise<boolean> => {
+  const candidate = await hashPin(pin, user.pinSalt);
+  // Compare every character so timing doesn't reveal how much of the hash matched
+  let mismatch = candidate.length ^ user.pinHash.length;
+  for (let i = 0; i < candidate.length; i++) {
+    mismatch |= candidate.charCodeAt(i) ^ (user.pinHash.charCodeAt(i) || 0);
+  }
+  return mismatch === 0;
+};
+
+export const validatePin = (pin: string): string | null => {
+  if (!/^\d+$/.test(pin)) return 'PIN must contain digits only.';
+  if (pin.length < MIN_PIN_LENGTH) return `PIN must be at least ${MIN_PIN_LENGTH} digits.`;
+  return null;
+};
+
+export const roleHasPermission = (user: Pick<User, 'role'> | null | undefined, permission: Permission) =>
+  !!user && ROLE_PERMISSIONS[user.role].includes(permission);
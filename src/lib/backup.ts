@@ -0,0 +1,139 @@
+// Full-database backup files.
+// A backup is a single JSON document holding every product, drug batch, transaction,
+// village, patient, camp, stock location and stock take plus metadata, with a SHA-256 checksum over the data section so that
+// truncated or hand-edited files are rejected on restore.
+
+import { parseISO, isValid, compareAsc } from 'date-fns';
+import * as z from 'zod';
+import type { BackupFile, BackupSummary } from '@/types';
+import { CURRENT_SCHEMA_VERSION, upgradeDataSet } from '@/lib/migrations';
+import type { DataSet, RawDataSet, PendingQuarantine } from '@/lib/migrations';
+
+export const BACKUP_FORMAT = 'forrads-mmu-backup';
+export const BACKUP_FORMAT_VERSION = 1;
+export const BACKUP_FILE_EXTENSION = '.forradsbackup.json';
+
+// The envelope of a backup file. The records in `data` are checked one by one by upgradeDataSet.
+const backupHeaderSchema = z.object({
+  format: z.literal(BACKUP_FORMAT),
+  formatVersion: z.number(),
+  schemaVersion: z.number(),
+  createdAt: z.string(),
+  checksum: z.string(),
+  data: z.unknown(),
+});
+
+const backupDataSchema = z.object({
+  drugs: z.array(z.unknown()),
+  transactions: z.array(z.unknown()),
+  villages: z.array(z.unknown()),
+  patients: z.array(z.unknown()).optional(),
+  camps: z.array(z.unknown()).optional(),
+  locations: z.array(z.unknown()).optional(),
+  products: z.array(z.unknown()).optional(),
+  stockTakes: z.array(z.unknown()).optional(),
+});
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+export const computeChecksum = async (data: unknown): Promise<string> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('Secure hashing is not available in this environment.');
+  }
+  const encoded = new TextEncoder().encode(JSON.stringify(data));
+  return `sha256:${toHex(await crypto.subtle.digest('SHA-256', encoded))}`;
+};
+
+export const summarizeDataSet = (data: DataSet | RawDataSet): BackupSummary => {
+  const timestamps = (data.transactions as Array<{ timestamp?: string }>)
+    .map(txn => (txn?.timestamp ? parseISO(txn.timestamp) : null))
+    .filter((date): date is Date => !!date && isValid(date))
+    .sort(compareAsc);
+  return {
+    drugCount: data.drugs.length,
+    transactionCount: data.transactions.length,
+    villageCount: data.villages.length,
+    patientCount: (data.patients || []).length,
+    campCount: (data.camps || []).length,
+    locationCount: (data.locations || []).length,
+    productCount: (data.products || []).length,
+    stockTakeCount: (data.stockTakes || []).length,
+    firstTransactionAt: timestamps.length > 0 ? timestamps[0].toISOString() : undefined,
+    lastTransactionAt: timestamps.length > 0 ? timestamps[timestamps.length - 1].toISOString() : undefined,
+  };
+};
+
+export const createBackup = async (data: DataSet): Promise<BackupFile> => ({
+  format: BACKUP_FORMAT,
+  formatVersion: BACKUP_FORMAT_VERSION,
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  createdAt: new Date().toISOString(),
+  summary: summarizeDataSet(data),
+  checksum: await computeChecksum(data),
+  data,
+});
+
+/**
+ * Parses and verifies a backup file's text. On success the data has already
+ * been upgraded to the current schema; records that failed validation are
+ * listed in `invalidRecords` and are not part of `data`.
+ */
+export const readBackup = async (text: string): Promise<
+  | { success: true; backup: BackupFile; data: DataSet; invalidRecords: PendingQuarantine[] }
+  | { success: false; message: string }
+> => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return { success: false, message: 'The file is not valid JSON.' };
+  }
+
+  const header = backupHeaderSchema.safeParse(parsed);
+  if (!header.success) {
+    return { success: false, message: 'This is not a FORRADS MMU backup file.' };
+  }
+  if (header.data.formatVersion > BACKUP_FORMAT_VERSION) {
+    return { success: false, message: `Backup format version ${header.data.formatVersion} is newer than this app supports. Please update the app.` };
+  }
+  const dataSection = backupDataSchema.safeParse(header.data.data);
+  if (!dataSection.success) {
+    return { success: false, message: 'The backup file is missing its data section.' };
+  }
+  const raw: RawDataSet = dataSection.data;
+
+  try {
+    // Over the data exactly as stored, including any sections this version does not know
+    const checksum = await computeChecksum(header.data.data);
+    if (checksum !== header.data.checksum) {
+      return { success: false, message: 'Checksum mismatch. The backup file is damaged or has been modified.' };
+    }
+  } catch (error) {
+    return { success: false, message: error instanceof Error ? error.message : 'Could not verify the backup checksum.' };
+  }
+
+  const { data, quarantined } = upgradeDataSet(raw, header.data.schemaVersion);
+  if (data.drugs.length === 0 && data.transactions.length === 0 && data.villages.length === 0 && data.patients.length === 0 && data.camps.length === 0 && data.locations.length === 0 && data.products.length === 0 && data.stockTakes.length === 0 && quarantined.length > 0) {
+    return { success: false, message: quarantined[0].reason };
+  }
+
+  const backup: BackupFile = {
+    ...header.data,
+    // Summarised from the file's contents rather than trusting the summary stored in it
+    summary: summarizeDataSet(raw),
+    // As read from the file; `data` below holds the validated, upgraded records
+    data: raw as BackupFile['data'],
+  };
+  return { success: true, backup, data, invalidRecords: quarantined };
+};
+
+export const downloadTextFile = (content: string, fileName: string, mimeType = 'application/json') => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
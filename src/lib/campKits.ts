@@ -0,0 +1,312 @@
+// Camp kit planning: what to load into the van for a camp, and accounting for
+// it afterwards.
+// Quantities are proposed from past dispenses in the camp's village (or, for a
+// first visit, in villages of a similar population or number of registered patients), and
+// batches are reserved earliest expiry first. Packed units are not moved out
+// of stock: camp dispenses already deduct them from their batch, so on return
+// only the units that are neither dispensed nor counted back are written off.
+
+import { parseISO, format, isValid } from 'date-fns';
+import type { Camp, CampKit, CampKitBasis, CampKitItem, Drug, Patient, Product, Transaction, Village } from '@/types';
+import { allocateFefo, compareByExpiry, getDrugGroupKey } from '@/lib/fefo';
+import { createLineProductResolver, getProductDisplayName } from '@/lib/products';
+import { getVoidStatusMap } from '@/lib/voids';
+import { isActivePatient } from '@/lib/patients';
+import { escapeHtml } from '@/lib/printing';
+import { buildVillageIdsByName } from '@/lib/villages';
+
+// Extra packed on top of the average, for a busier day than usual
+export const KIT_SAFETY_MARGIN = 0.2;
+// Villages averaged when the camp's own village has no history
+const SIMILAR_VILLAGE_COUNT = 3;
+
+interface ProductConsumption {
+  displayName: string;
+  quantity: number;
+}
+
+export interface VillageConsumption {
+  visitCount: number;
+  // Keyed by Product.id; lines no catalog product matches are keyed by their names (see getDrugGroupKey)
+  products: Map<string, ProductConsumption>;
+}
+
+/**
+ * Base units dispensed per village, excluding voided lines. A visit is a camp, or
+ * for dispenses recorded before camps existed, a day's dispenses in that village.
+ */
+export const getConsumptionByVillage = (
+  villages: Village[],
+  camps: Camp[],
+  transactions: Transaction[],
+  catalog: { products: Product[]; drugs: Drug[] }
+): Map<string, VillageConsumption> => {
+  const villageIdsByName = buildVillageIdsByName(villages);
+  const resolveProductId = createLineProductResolver(catalog.products, catalog.drugs);
+  const productsById = new Map(catalog.products.map(product => [product.id, product]));
+  const campsById = new Map(camps.map(camp => [camp.id, camp]));
+  const voidStatusMap = getVoidStatusMap(transactions);
+  const visits = new Map<string, Set<string>>();
+  const consumption = new Map<string, VillageConsumption>();
+
+  transactions.forEach(txn => {
+    if (txn.type !== 'dispense') return;
+    const voidStatus = voidStatusMap.get(txn.id);
+    if (voidStatus?.fullyVoided) return;
+    const camp = txn.campId ? campsById.get(txn.campId) : undefined;
+    const villageId = camp?.villageId || (txn.villageName ? villageIdsByName.get(txn.villageName.toLowerCase()) : undefined);
+    const timestamp = parseISO(txn.timestamp);
+    if (!villageId || !isValid(timestamp)) return;
+
+    const visitKey = camp ? `camp:${camp.id}` : `day:${format(timestamp, 'yyyy-MM-dd')}`;
+    const villageVisits = visits.get(villageId) || new Set<string>();
+    villageVisits.add(visitKey);
+    visits.set(villageId, villageVisits);
+
+    const entry = consumption.get(villageId) || { visitCount: 0, products: new Map<string, ProductConsumption>() };
+    txn.drugs.forEach((line, index) => {
+      if (voidStatus?.voidedLineIndexes.has(index)) return;
+      const productId = resolveProductId(line);
+      const groupKey = productId || getDrugGroupKey({ name: line.drugName, brandName: line.brandName, dosage: line.dosage });
+      const catalogProduct = productId ? productsById.get(productId) : undefined;
+      const product = entry.products.get(groupKey) || {
+        displayName: getProductDisplayName(catalogProduct || { name: line.drugName, brandName: line.brandName, dosage: line.dosage }),
+        quantity: 0,
+      };
+      product.quantity += Math.abs(line.quantity);
+      entry.products.set(groupKey, product);
+    });
+    entry.visitCount = villageVisits.size;
+    consumption.set(villageId, entry);
+  });
+
+  return consumption;
+};
+
+/** Registered patients living in each village, used to find villages of a similar size. */
+export const getVillageSizes = (patients: Patient[]): Map<string, number> => {
+  const sizes = new Map<string, number>();
+  patients.filter(isActivePatient).forEach(patient => {
+    if (patient.villageId) sizes.set(patient.villageId, (sizes.get(patient.villageId) || 0) + 1);
+  });
+  return sizes;
+};
+
+/** Recorded population of each village that has one. */
+export const getVillagePopulations = (villages: Village[]): Map<string, number> =>
+  new Map(villages.filter(v => typeof v.population === 'number').map(v => [v.id, v.population!]));
+
+export interface CampKitProposalItem {
+  groupKey: string;
+  displayName: string;
+  averagePerVisit: number;
+  proposedQuantity: number;
+}
+
+export interface CampKitProposal {
+  basis: CampKitBasis;
+  basisVillageIds: string[];
+  basisVisitCount: number;
+  items: CampKitProposalItem[]; // Alphabetical
+}
+
+export const proposeCampKit = (
+  camp: Camp,
+  data: { villages: Village[]; camps: Camp[]; patients: Patient[]; transactions: Transaction[]; products: Product[]; drugs: Drug[] },
+  safetyMargin: number = KIT_SAFETY_MARGIN
+): CampKitProposal => {
+  const consumption = getConsumptionByVillage(data.villages, data.camps, data.transactions, data);
+  let basis: CampKitBasis = 'village';
+  let basisVillageIds = consumption.has(camp.villageId) ? [camp.villageId] : [];
+
+  if (basisVillageIds.length === 0) {
+    // Recorded populations are compared when the camp's village and some villages with history have one
+    const populations = getVillagePopulations(data.villages);
+    const villagesWithHistory = Array.from(consumption.keys());
+    const byPopulation = populations.has(camp.villageId) && villagesWithHistory.some(villageId => populations.has(villageId));
+    const sizes = byPopulation ? populations : getVillageSizes(data.patients);
+    const targetSize = sizes.get(camp.villageId) || 0;
+    basis = 'similarVillages';
+    basisVillageIds = villagesWithHistory
+      .filter(villageId => !byPopulation || sizes.has(villageId))
+      .sort((a, b) => Math.abs((sizes.get(a) || 0) - targetSize) - Math.abs((sizes.get(b) || 0) - targetSize))
+      .slice(0, SIMILAR_VILLAGE_COUNT);
+  }
+  if (basisVillageIds.length === 0) {
+    return { basis: 'none', basisVillageIds: [], basisVisitCount: 0, items: [] };
+  }
+
+  let visitCount = 0;
+  const totals = new Map<string, ProductConsumption>();
+  basisVillageIds.forEach(villageId => {
+    const village = consumption.get(villageId)!;
+    visitCount += village.visitCount;
+    village.products.forEach((product, groupKey) => {
+      const total = totals.get(groupKey) || { displayName: product.displayName, quantity: 0 };
+      total.quantity += product.quantity;
+      totals.set(groupKey, total);
+    });
+  });
+
+  const items = Array.from(totals.entries())
+    .map(([groupKey, total]) => {
+      const averagePerVisit = total.quantity / visitCount;
+      return {
+        groupKey,
+        displayName: total.displayName,
+        averagePerVisit: Math.round(averagePerVisit * 10) / 10,
+        proposedQuantity: Math.ceil(averagePerVisit * (1 + safetyMargin)),
+      };
+    })
+    .filter(item => item.proposedQuantity > 0)
+    .sort((a, b) => a.displayName.localeCompare(b.displayName));
+
+  return { basis, basisVillageIds, basisVisitCount: visitCount, items };
+};
+
+// A kit holds its batches from planning until it is reconciled
+const isKitHoldingStock = (kit?: CampKit) => !!kit && !kit.reconciledAt;
+
+/** Base units of each batch held by other camps' kits. */
+export const getReservedQuantities = (camps: Camp[], excludeCampId?: string): Map<string, number> => {
+  const reserved = new Map<string, number>();
+  camps.forEach(camp => {
+    if (camp.id === excludeCampId || !isKitHoldingStock(camp.kit)) return;
+    camp.kit!.items.forEach(item => item.batches.forEach(batch => {
+      reserved.set(batch.drugId, (reserved.get(batch.drugId) || 0) + batch.quantity);
+    }));
+  });
+  return reserved;
+};
+
+/**
+ * Reserves batches for each item, earliest expiry first, skipping stock other
+ * kits hold and batches that will have expired by the camp date.
+ */
+export const reserveCampKitBatches = (
+  drugs: Drug[],
+  items: Array<Omit<CampKitItem, 'batches'>>,
+  reserved: Map<string, number>,
+  campDate: string
+): CampKitItem[] => {
+  const available = drugs.map(batch => ({ ...batch, stock: Math.max(0, batch.stock - (reserved.get(batch.id) || 0)) }));
+  const at = isValid(parseISO(campDate)) ? parseISO(campDate) : new Date();
+  return items.map(item => {
+    const { allocations } = allocateFefo(available, item.groupKey, item.quantity, at);
+    return {
+      ...item,
+      batches: allocations.map(({ batch, quantity }) => ({
+        drugId: batch.id,
+        batchNumber: batch.batchNumber,
+        dateOfExpiry: batch.dateOfExpiry,
+        quantity,
+      })),
+    };
+  });
+};
+
+/** Kit items of one product moved onto another, as when the two products are merged. */
+export const moveKitItemsToProduct = (kit: CampKit, fromProductId: string, toProductId: string, displayName: string): CampKit => {
+  const moving = kit.items.find(item => item.groupKey === fromProductId);
+  if (!moving) return kit;
+  const existing = kit.items.find(item => item.groupKey === toProductId);
+  const merged: CampKitItem = existing
+    ? {
+        ...existing,
+        averagePerVisit: existing.averagePerVisit + moving.averagePerVisit,
+        quantity: existing.quantity + moving.quantity,
+        batches: [...existing.batches, ...moving.batches].sort(compareByExpiry),
+      }
+    : { ...moving, groupKey: toProductId, displayName };
+  return {
+    ...kit,
+    items: [...kit.items.filter(item => item.groupKey !== fromProductId && item.groupKey !== toProductId), merged]
+      .sort((a, b) => a.displayName.localeCompare(b.displayName)),
+  };
+};
+
+export const getKitItemShortfall = (item: CampKitItem) =>
+  Math.max(0, item.quantity - item.batches.reduce((sum, batch) => sum + batch.quantity, 0));
+
+/** Base units of each batch dispensed during the camp, excluding voided lines. */
+export const getCampBatchUsage = (camp: Camp, transactions: Transaction[]): Map<string, number> => {
+  const voidStatusMap = getVoidStatusMap(transactions);
+  const usage = new Map<string, number>();
+  transactions.forEach(txn => {
+    if (txn.type !== 'dispense' || txn.campId !== camp.id) return;
+    const voidStatus = voidStatusMap.get(txn.id);
+    txn.drugs.forEach((line, index) => {
+      if (voidStatus?.voidedLineIndexes.has(index)) return;
+      usage.set(line.drugId, (usage.get(line.drugId) || 0) + Math.abs(line.quantity));
+    });
+  });
+  return usage;
+};
+
+export interface KitBatchReconciliation {
+  drugId: string;
+  packed: number;
+  used: number;
+  expectedBack: number;
+  returned: number;
+  missing: number; // Written off from stock; negative when more came back than expected
+}
+
+export const reconcileKitBatch = (packed: number, used: number, returned: number): Omit<KitBatchReconciliation, 'drugId'> => {
+  // Usage is what left the kit; a negative amount would write stock off twice
+  if (used < 0) throw new RangeError('Used quantity cannot be negative.');
+  const expectedBack = Math.max(0, packed - used);
+  return { packed, used, expectedBack, returned, missing: expectedBack - returned };
+};
+
+export const describeKitBasis = (kit: Pick<CampKit, 'basis' | 'basisVillageIds' | 'basisVisitCount'>, villages: Village[]) => {
+  const names = kit.basisVillageIds.map(id => villages.find(v => v.id === id)?.name || 'Unknown village').join(', ');
+  if (kit.basis === 'village') return `Average of ${kit.basisVisitCount} past visit(s) to this village.`;
+  if (kit.basis === 'similarVillages') return `No history for this village; average of ${kit.basisVisitCount} visit(s) to villages of a similar size (${names}).`;
+  return 'No dispensing history to base quantities on. Add items by hand.';
+};
+
+/** Printable A5 packing checklist, with a column to count the returns in. */
+export const renderPackingChecklistHtml = (camp: Camp, villageName: string, kit: CampKit) => {
+  const rows = kit.items.flatMap(item => {
+    if (item.batches.length === 0) {
+      return [`<tr><td class="box"></td><td>${escapeHtml(item.displayName)}</td><td colspan="2" class="short">No stock reserved</td><td class="num">0</td><td></td></tr>`];
+    }
+    return item.batches.map((batch, index) => `<tr><td class="box">&#9744;</td><td>${index === 0 ? escapeHtml(item.displayName) : ''}</td><td>${escapeHtml(batch.batchNumber || 'N/A')}</td><td>${batch.dateOfExpiry && isValid(parseISO(batch.dateOfExpiry)) ? format(parseISO(batch.dateOfExpiry), 'MM/yyyy') : 'N/A'}</td><td class="num">${batch.quantity}</td><td></td></tr>`);
+  }).join('');
+  const shortItems = kit.items.filter(item => getKitItemShortfall(item) > 0);
+  const shortNote = shortItems.length > 0
+    ? `<p class="short">Short: ${escapeHtml(shortItems.map(item => `${item.displayName} (${getKitItemShortfall(item)})`).join(', '))}</p>`
+    : '';
+  const title = `Packing list - ${villageName}, ${format(parseISO(camp.date), 'dd MMM yyyy')}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+@page { size: A5; margin: 10mm; }
+body { font-family: 'PT Sans', Arial, sans-serif; font-size: 12px; color: #000; margin: 0; }
+h1 { font-size: 1.3em; margin: 0 0 4px; }
+table { width: 100%; border-collapse: collapse; margin-top: 8px; }
+th, td { border: 1px solid #000; padding: 3px 4px; text-align: left; }
+th { background: #eee; }
+.box { width: 18px; text-align: center; font-size: 1.2em; }
+.num { text-align: right; }
+.short { color: #b00; }
+.signature { margin-top: 16px; display: flex; justify-content: space-between; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${camp.teamMembers.length > 0 ? `<div>Team: ${escapeHtml(camp.teamMembers.join(', '))}</div>` : ''}
+<table>
+<thead><tr><th></th><th>Drug</th><th>Batch</th><th>Expiry</th><th class="num">Packed</th><th>Returned</th></tr></thead>
+<tbody>${rows}</tbody>
+</table>
+${shortNote}
+<div class="signature"><span>Packed by: ____________</span><span>Checked on return: ____________</span></div>
+</body>
+</html>`;
+};
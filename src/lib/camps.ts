@@ -0,0 +1,107 @@
+// Camp session helpers.
+// At most one camp is active at a time; while it is, dispenses and stock
+// adjustments carry its ID (`Transaction.campId`), which is all the per-camp
+// figures below are derived from.
+
+import { parseISO, isValid, compareDesc } from 'date-fns';
+import type { BaseUnit, Camp, Patient, Transaction } from '@/types';
+import { getDrugGroupKey } from '@/lib/fefo';
+import { getVoidStatusMap } from '@/lib/voids';
+import { buildTransactionPatientIndex, normalizePatientName } from '@/lib/patients';
+import { getBaseUnit } from '@/lib/units';
+
+export const isValidCampTime = (value: string) => /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+/** Newest first by camp date, then by start time. */
+export const sortCampsByDate = (list: Camp[]) =>
+  [...list].sort((a, b) => {
+    const byDate = compareDesc(parseISO(a.date), parseISO(b.date));
+    return byDate !== 0 ? byDate : (b.startTime || '').localeCompare(a.startTime || '');
+  });
+
+export const getActiveCamp = (camps: Camp[]) => camps.find(camp => camp.status === 'active');
+
+/** Groups camps for the Camps page. Upcoming camps are soonest first; planned camps whose date has passed are overdue. */
+export const splitCampsByStatus = (camps: Camp[], today: string) => {
+  const planned = camps.filter(camp => camp.status === 'planned');
+  return {
+    active: camps.filter(camp => camp.status === 'active'),
+    upcoming: planned.filter(camp => camp.date >= today).sort((a, b) => a.date.localeCompare(b.date)),
+    overdue: planned.filter(camp => camp.date < today),
+    past: camps.filter(camp => camp.status === 'closed'),
+  };
+};
+
+export const formatCampTimes = (camp: Pick<Camp, 'startTime' | 'endTime'>) => {
+  if (camp.startTime && camp.endTime) return `${camp.startTime} - ${camp.endTime}`;
+  if (camp.startTime) return `from ${camp.startTime}`;
+  if (camp.endTime) return `until ${camp.endTime}`;
+  return undefined;
+};
+
+export interface CampDrugUsage {
+  groupKey: string;
+  displayName: string; // Brand, generic name and dosage, as recorded on the transaction
+  quantity: number;
+  unit: BaseUnit;
+}
+
+export interface CampSummary {
+  patientCount: number;
+  dispenseCount: number;
+  adjustmentCount: number;
+  drugsUsed: CampDrugUsage[]; // Most dispensed first
+}
+
+const isValidTimestamp = (txn: Transaction) => isValid(parseISO(txn.timestamp));
+
+/**
+ * Patient and drug figures for one camp. Voided dispense lines are left out,
+ * and patients are counted once even if they came back to the counter.
+ */
+export const summarizeCamp = (camp: Camp, transactions: Transaction[], patients: Patient[]): CampSummary => {
+  const campTransactions = transactions.filter(txn => txn.campId === camp.id && isValidTimestamp(txn));
+  const voidStatusMap = getVoidStatusMap(transactions);
+  const patientIndex = buildTransactionPatientIndex(patients, campTransactions);
+  const patientKeys = new Set<string>();
+  const usage = new Map<string, CampDrugUsage>();
+  let dispenseCount = 0;
+  let adjustmentCount = 0;
+
+  campTransactions.forEach(txn => {
+    const voidStatus = voidStatusMap.get(txn.id);
+    if (voidStatus?.fullyVoided) return;
+    if (txn.type === 'adjustment') {
+      adjustmentCount += 1;
+      return;
+    }
+    if (txn.type !== 'dispense') return;
+
+    dispenseCount += 1;
+    const patientId = patientIndex.get(txn.id);
+    if (patientId) {
+      patientKeys.add(patientId);
+    } else if (txn.patientName) {
+      patientKeys.add(`name:${normalizePatientName(txn.patientName)}`);
+    }
+    txn.drugs.forEach((line, index) => {
+      if (voidStatus?.voidedLineIndexes.has(index)) return;
+      const groupKey = getDrugGroupKey({ name: line.drugName, brandName: line.brandName, dosage: line.dosage });
+      const entry = usage.get(groupKey) || {
+        groupKey,
+        displayName: [line.brandName, line.drugName, line.dosage].filter(Boolean).join(' '),
+        quantity: 0,
+        unit: getBaseUnit(line),
+      };
+      entry.quantity += Math.abs(line.quantity);
+      usage.set(groupKey, entry);
+    });
+  });
+
+  return {
+    patientCount: patientKeys.size,
+    dispenseCount,
+    adjustmentCount,
+    drugsUsed: Array.from(usage.values()).sort((a, b) => b.quantity - a.quantity || a.displayName.localeCompare(b.displayName)),
+  };
+};
@@ -0,0 +1,301 @@
+// IndexedDB storage engine for offline persistence.
+// Records are written individually (not as one serialized blob) so that a
+// dispense only touches the rows it changed, and the transaction log can grow
+// well beyond the ~5MB localStorage quota.
+
+import type { Drug, Transaction, Village, Patient, Camp, StockLocation, Product, StockTake, QuarantinedRecord, User } from '@/types';
+import { LEGACY_SCHEMA_VERSION } from '@/lib/migrations';
+
+const DB_NAME = 'forradsmmu';
+const DB_VERSION = 8;
+
+// Stores holding inventory data; these are cleared by a reset and covered by backups
+export type InventoryStoreName = 'drugs' | 'transactions' | 'villages' | 'patients' | 'camps' | 'locations' | 'products' | 'stockTakes';
+export type RecordStoreName = InventoryStoreName | 'users';
+
+export interface StoreRecordMap {
+  drugs: Drug;
+  transactions: Transaction;
+  villages: Village;
+  patients: Patient;
+  camps: Camp;
+  locations: StockLocation;
+  products: Product;
+  stockTakes: StockTake;
+  users: User;
+}
+
+const RECORD_STORES: InventoryStoreName[] = ['drugs', 'transactions', 'villages', 'patients', 'camps', 'locations', 'products', 'stockTakes'];
+const META_STORE = 'meta';
+const QUARANTINE_STORE = 'quarantine';
+
+// Stores that existed in the localStorage era
+type LegacyStoreName = 'drugs' | 'transactions' | 'villages';
+const LEGACY_STORES: LegacyStoreName[] = ['drugs', 'transactions', 'villages'];
+
+// Legacy localStorage keys, read once by migrateFromLocalStorage.
+const LEGACY_STORAGE_KEYS: Record<LegacyStoreName, string> = {
+  drugs: 'forradsmmu_drugs_v1',
+  transactions: 'forradsmmu_transactions_v1',
+  villages: 'forradsmmu_villages_v1',
+};
+const LEGACY_MIGRATION_META_KEY = 'legacyLocalStorageMigratedAt';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted.'));
+  });
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this environment.'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      const oldVersion = event.oldVersion;
+
+      if (oldVersion < 1) {
+        db.createObjectStore('drugs', { keyPath: 'id' });
+
+        const txnStore = db.createObjectStore('transactions', { keyPath: 'id' });
+        txnStore.createIndex('timestamp', 'timestamp');
+        txnStore.createIndex('type', 'type');
+        // `drugIds` is derived from `drugs[].drugId` on write (see toStoredRecord)
+        txnStore.createIndex('drugId', 'drugIds', { multiEntry: true });
+        txnStore.createIndex('villageName', 'villageName');
+
+        db.createObjectStore('villages', { keyPath: 'id' });
+        db.createObjectStore(META_STORE);
+      }
+      if (oldVersion < 2) {
+        db.createObjectStore(QUARANTINE_STORE, { keyPath: 'id' });
+      }
+      if (oldVersion < 3) {
+        db.createObjectStore('users', { keyPath: 'id' });
+      }
+      if (oldVersion < 4) {
+        const patientStore = db.createObjectStore('patients', { keyPath: 'id' });
+        patientStore.createIndex('villageId', 'villageId');
+      }
+      if (oldVersion < 5) {
+        const campStore = db.createObjectStore('camps', { keyPath: 'id' });
+        campStore.createIndex('date', 'date');
+        campStore.createIndex('villageId', 'villageId');
+      }
+      if (oldVersion < 6) {
+        db.createObjectStore('locations', { keyPath: 'id' });
+      }
+      if (oldVersion < 7) {
+        db.createObjectStore('products', { keyPath: 'id' });
+      }
+      if (oldVersion < 8) {
+        const stockTakeStore = db.createObjectStore('stockTakes', { keyPath: 'id' });
+        stockTakeStore.createIndex('locationId', 'locationId');
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('IndexedDB upgrade is blocked by another open tab.'));
+  });
+
+  // Allow a retry on the next call if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+const toStoredRecord = <S extends RecordStoreName>(storeName: S, record: StoreRecordMap[S]) => {
+  if (storeName === 'transactions') {
+    const txn = record as Transaction;
+    return { ...txn, drugIds: Array.isArray(txn.drugs) ? txn.drugs.map(d => d.drugId) : [] };
+  }
+  return record;
+};
+
+// Stored transactions carry the drugIds index field on top of the Transaction
+type StoredTransaction = Transaction & { drugIds?: string[] };
+
+const fromStoredRecord = <S extends RecordStoreName>(storeName: S, stored: unknown): StoreRecordMap[S] => {
+  if (storeName === 'transactions') {
+    const { drugIds, ...txn } = stored as StoredTransaction;
+    return txn as StoreRecordMap[S];
+  }
+  return stored as StoreRecordMap[S];
+};
+
+export const getAllRecords = async <S extends RecordStoreName>(storeName: S): Promise<StoreRecordMap[S][]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readonly');
+  const stored = await requestToPromise(tx.objectStore(storeName).getAll());
+  return stored.map(record => fromStoredRecord(storeName, record));
+};
+
+export const getRecordsByIndex = async <S extends RecordStoreName>(
+  storeName: S,
+  indexName: string,
+  query: IDBValidKey | IDBKeyRange
+): Promise<StoreRecordMap[S][]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readonly');
+  const stored = await requestToPromise(tx.objectStore(storeName).index(indexName).getAll(query));
+  return stored.map(record => fromStoredRecord(storeName, record));
+};
+
+// Writes and deletes the given records in a single IndexedDB transaction.
+export const applyRecordChanges = async <S extends RecordStoreName>(
+  storeName: S,
+  toPut: StoreRecordMap[S][],
+  toDelete: string[] = []
+): Promise<void> => {
+  if (toPut.length === 0 && toDelete.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, 'readwrite');
+  const store = tx.objectStore(storeName);
+  toPut.forEach(record => store.put(toStoredRecord(storeName, record)));
+  toDelete.forEach(id => store.delete(id));
+  await transactionDone(tx);
+};
+
+export const clearAllStores = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(RECORD_STORES, 'readwrite');
+  RECORD_STORES.forEach(storeName => tx.objectStore(storeName).clear());
+  await transactionDone(tx);
+};
+
+export const getMeta = async <T>(key: string): Promise<T | undefined> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(META_STORE).get(key)) as Promise<T | undefined>;
+};
+
+export const setMeta = async (key: string, value: unknown): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(META_STORE, 'readwrite');
+  tx.objectStore(META_STORE).put(value, key);
+  await transactionDone(tx);
+};
+
+export const addQuarantinedRecords = async (records: QuarantinedRecord[]): Promise<void> => {
+  if (records.length === 0) return;
+  const db = await openDatabase();
+  const tx = db.transaction(QUARANTINE_STORE, 'readwrite');
+  const store = tx.objectStore(QUARANTINE_STORE);
+  records.forEach(record => store.put(record));
+  await transactionDone(tx);
+};
+
+export const getAllQuarantinedRecords = async (): Promise<QuarantinedRecord[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(QUARANTINE_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(QUARANTINE_STORE).getAll());
+};
+
+export const clearQuarantinedRecords = async (): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(QUARANTINE_STORE, 'readwrite');
+  tx.objectStore(QUARANTINE_STORE).clear();
+  await transactionDone(tx);
+};
+
+/**
+ * Compares the last persisted snapshot of a store with the current in-memory
+ * array and returns only the records that need to be written or removed.
+ * Unchanged object references are skipped without serializing them.
+ */
+export const diffRecords = <T extends { id: string }>(previous: T[], next: T[]): { toPut: T[]; toDelete: string[] } => {
+  const previousById = new Map(previous.map(record => [record.id, record]));
+  const toPut: T[] = [];
+
+  next.forEach(record => {
+    const before = previousById.get(record.id);
+    previousById.delete(record.id);
+    if (before === record) return;
+    if (before && JSON.stringify(before) === JSON.stringify(record)) return;
+    toPut.push(record);
+  });
+
+  return { toPut, toDelete: Array.from(previousById.keys()) };
+};
+
+const hasRecordId = (record: unknown): record is { id: string } =>
+  typeof record === 'object' && record !== null && typeof (record as { id?: unknown }).id === 'string' && !!(record as { id: string }).id;
+
+/**
+ * One-time copy of the old `forradsmmu_*_v1` localStorage blobs into
+ * IndexedDB. All three stores are written in one transaction; the legacy keys
+ * are only removed after that transaction has committed.
+ * Returns true if legacy data was found and migrated.
+ */
+export const migrateFromLocalStorage = async (): Promise<boolean> => {
+  if (typeof localStorage === 'undefined') return false;
+  const alreadyMigrated = await getMeta<string>(LEGACY_MIGRATION_META_KEY);
+  if (alreadyMigrated) return false;
+
+  const legacyData: Partial<Record<LegacyStoreName, unknown[]>> = {};
+  const unreadable: QuarantinedRecord[] = [];
+  LEGACY_STORES.forEach(storeName => {
+    const raw = localStorage.getItem(LEGACY_STORAGE_KEYS[storeName]);
+    if (!raw) return;
+    try {
+      const parsed = JSON.parse(raw);
+      if (!Array.isArray(parsed)) throw new Error('Expected an array.');
+      legacyData[storeName] = parsed;
+    } catch (error) {
+      // Keep the unparseable blob verbatim rather than losing it
+      unreadable.push({
+        id: `quarantine-legacy-${storeName}-${Date.now()}`,
+        store: storeName,
+        reason: `Could not read legacy localStorage key ${LEGACY_STORAGE_KEYS[storeName]}: ${error instanceof Error ? error.message : String(error)}`,
+        schemaVersion: LEGACY_SCHEMA_VERSION,
+        quarantinedAt: new Date().toISOString(),
+        data: raw,
+      });
+    }
+  });
+
+  const foundLegacyData = Object.keys(legacyData).length > 0 || unreadable.length > 0;
+  const db = await openDatabase();
+  const tx = db.transaction([...LEGACY_STORES, META_STORE, QUARANTINE_STORE], 'readwrite');
+  LEGACY_STORES.forEach(storeName => {
+    const store = tx.objectStore(storeName);
+    (legacyData[storeName] || []).forEach((record, index) => {
+      if (hasRecordId(record)) {
+        // Copied as found; the migrations and schema checks on load validate it
+        store.put(toStoredRecord(storeName, record as StoreRecordMap[LegacyStoreName]));
+      } else {
+        // Records without an id cannot be keyed in IndexedDB
+        unreadable.push({
+          id: `quarantine-legacy-${storeName}-${index}-${Date.now()}`,
+          store: storeName,
+          reason: `Legacy ${storeName} record at position ${index} has no id.`,
+          schemaVersion: LEGACY_SCHEMA_VERSION,
+          quarantinedAt: new Date().toISOString(),
+          data: record,
+        });
+      }
+    });
+  });
+  unreadable.forEach(record => tx.objectStore(QUARANTINE_STORE).put(record));
+  tx.objectStore(META_STORE).put(new Date().toISOString(), LEGACY_MIGRATION_META_KEY);
+  await transactionDone(tx);
+
+  LEGACY_STORES.forEach(storeName => localStorage.removeItem(LEGACY_STORAGE_KEYS[storeName]));
+  return foundLegacyData;
+};
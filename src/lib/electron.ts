@@ -0,0 +1,71 @@
+// Typed access to the IPC bridge exposed by electron/preload.js.
+// Everything here is undefined when running in a plain browser.
+
+export interface SnapshotSettings {
+  folder: string | null;
+  enabled: boolean;
+  maxSnapshots: number; // Keep at most this many snapshots
+  maxAgeDays: number; // Delete snapshots older than this (0 = never)
+  lastDailySnapshotAt: string | null; // ISO string
+}
+
+export interface SnapshotInfo {
+  fileName: string;
+  reason: string; // e.g. "daily", "app-close", "before-reset"
+  createdAt: string; // ISO string
+  sizeBytes: number;
+}
+
+export type SnapshotWriteResult =
+  | { success: true; fileName: string; pruned: string[] }
+  | { success: false; message: string };
+
+export interface ElectronBackupsBridge {
+  getSettings: () => Promise<SnapshotSettings>;
+  updateSettings: (settings: Partial<SnapshotSettings>) => Promise<SnapshotSettings>;
+  chooseFolder: () => Promise<SnapshotSettings>;
+  openFolder: () => Promise<void>;
+  write: (content: string, reason: string) => Promise<SnapshotWriteResult>;
+  list: () => Promise<SnapshotInfo[]>;
+  read: (fileName: string) => Promise<string>;
+  onSnapshotRequest: (handler: (reason: string) => Promise<string>) => () => void;
+}
+
+export type SlipPaperSize = 'thermal' | 'A5';
+
+export interface PrintSettings {
+  printerName: string | null; // null = system default printer
+  paperSize: SlipPaperSize;
+}
+
+export interface PrinterInfo {
+  name: string;
+  displayName: string;
+  isDefault: boolean;
+}
+
+export type PrintResult = { success: true } | { success: false; message: string };
+
+export interface ElectronPrintingBridge {
+  getSettings: () => Promise<PrintSettings>;
+  updateSettings: (settings: Partial<PrintSettings>) => Promise<PrintSettings>;
+  listPrinters: () => Promise<PrinterInfo[]>;
+  printHtml: (html: string, paperSize: SlipPaperSize) => Promise<PrintResult>;
+}
+
+export interface ElectronBridge {
+  isElectron: true;
+  backups: ElectronBackupsBridge;
+  printing: ElectronPrintingBridge;
+}
+
+declare global {
+  interface Window {
+    electron?: ElectronBridge;
+  }
+}
+
+export const getElectronBridge = (): ElectronBridge | undefined =>
+  typeof window !== 'undefined' ? window.electron : undefined;
+
+export const isElectron = () => !!getElectronBridge()?.isElectron;
@@ -0,0 +1,78 @@
+// First-expiry-first-out allocation of base units across the batches of a product,
+// and the expiry policy applied when dispensing.
+// A "product" is a catalog entry (see Product); its batches point at it by `productId`.
+
+import { parseISO, isValid, startOfDay, differenceInCalendarDays } from 'date-fns';
+import type { Drug } from '@/types';
+
+// Dispensing a batch with fewer days left than this needs a recorded reason
+export const DEFAULT_NEAR_EXPIRY_WARNING_DAYS = 90;
+
+export interface BatchAllocation {
+  batch: Drug;
+  quantity: number;
+}
+
+/**
+ * Generic name, brand and dosage as one lower-cased key. Products used to be
+ * these groups; the key still matches transaction lines, which only record
+ * names, and finds catalog entries by name.
+ */
+export const getDrugGroupKey = (drug: Pick<Drug, 'name' | 'brandName' | 'dosage'>) =>
+  `${drug.name.toLowerCase()}-DELIMITER-${(drug.brandName || '').toLowerCase()}-DELIMITER-${(drug.dosage || '').toLowerCase()}`;
+
+const getExpiryTime = (batch: Pick<Drug, 'dateOfExpiry'>): number => {
+  if (!batch.dateOfExpiry) return Infinity;
+  const date = parseISO(batch.dateOfExpiry);
+  return isValid(date) ? date.getTime() : Infinity;
+};
+
+// A batch is usable through the whole of its expiry date
+export const isBatchExpired = (batch: Pick<Drug, 'dateOfExpiry'>, now: Date = new Date()) =>
+  getExpiryTime(batch) < startOfDay(now).getTime();
+
+/** Whole days until the expiry date (0 on the day itself, negative once expired), or null if unknown. */
+export const getDaysToExpiry = (batch: Pick<Drug, 'dateOfExpiry'>, now: Date = new Date()): number | null => {
+  const expiryTime = getExpiryTime(batch);
+  return expiryTime === Infinity ? null : differenceInCalendarDays(expiryTime, now);
+};
+
+export const isBatchNearExpiry = (batch: Pick<Drug, 'dateOfExpiry'>, warningDays: number, now: Date = new Date()) => {
+  const daysToExpiry = getDaysToExpiry(batch, now);
+  return daysToExpiry !== null && daysToExpiry >= 0 && daysToExpiry < warningDays;
+};
+
+// Batches without an expiry date go last
+export const compareByExpiry = (a: Pick<Drug, 'dateOfExpiry'>, b: Pick<Drug, 'dateOfExpiry'>) => {
+  const timeA = getExpiryTime(a);
+  const timeB = getExpiryTime(b);
+  if (timeA === timeB) return 0;
+  return timeA < timeB ? -1 : 1;
+};
+
+/** Batches of a product that can be dispensed from, earliest expiry first. */
+export const getDispensableBatches = (drugs: Drug[], productId: string, now: Date = new Date()) =>
+  drugs
+    .filter(batch => batch.productId === productId && batch.stock > 0 && !isBatchExpired(batch, now))
+    .sort(compareByExpiry);
+
+/**
+ * Takes `quantity` tablets from the product's batches in expiry order,
+ * splitting across batches as needed. `shortfall` is what could not be covered.
+ */
+export const allocateFefo = (
+  drugs: Drug[],
+  productId: string,
+  quantity: number,
+  now: Date = new Date()
+): { allocations: BatchAllocation[]; shortfall: number } => {
+  const allocations: BatchAllocation[] = [];
+  let remaining = quantity;
+  for (const batch of getDispensableBatches(drugs, productId, now)) {
+    if (remaining <= 0) break;
+    const take = Math.min(batch.stock, remaining);
+    allocations.push({ batch, quantity: take });
+    remaining -= take;
+  }
+  return { allocations, shortfall: Math.max(0, remaining) };
+};
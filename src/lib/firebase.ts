@@ -1,5 +1,5 @@
 // Firebase is no longer used in this application.
-// Data persistence is handled by browser localStorage for complete offline capability.
+// Data persistence is handled by browser IndexedDB (see src/lib/db.ts) for complete offline capability.
 // This file is kept to prevent build errors from existing imports but can be safely removed
 // if all imports referencing it are updated.
 
@@ -0,0 +1,161 @@
+// Tamper-evident transaction ledger.
+// Every transaction is numbered and carries a SHA-256 hash of its own content
+// plus the hash of the entry before it. Editing, inserting, reordering or
+// removing an entry outside the app breaks the chain from that point on,
+// which verifyLedger() reports entry by entry.
+
+import { parseISO, compareAsc } from 'date-fns';
+import type { Transaction, LedgerIssue, LedgerVerificationResult } from '@/types';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+export interface LedgerHead {
+  sequence: number;
+  hash: string;
+}
+
+export const EMPTY_LEDGER_HEAD: LedgerHead = { sequence: 0, hash: GENESIS_HASH };
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// JSON with object keys sorted and undefined values dropped, so the same
+// content always hashes the same way regardless of how it was stored
+const canonicalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(canonicalize);
+  if (typeof value === 'object' && value !== null) {
+    return Object.keys(value)
+      .sort()
+      .reduce<Record<string, unknown>>((acc, key) => {
+        const child = (value as Record<string, unknown>)[key];
+        if (child !== undefined) acc[key] = canonicalize(child);
+        return acc;
+      }, {});
+  }
+  return value;
+};
+
+export const computeTransactionHash = async (transaction: Transaction): Promise<string> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) {
+    throw new Error('Secure hashing is not available in this environment.');
+  }
+  const { hash: _ignored, ...content } = transaction;
+  const encoded = new TextEncoder().encode(JSON.stringify(canonicalize(content)));
+  return toHex(await crypto.subtle.digest('SHA-256', encoded));
+};
+
+export const sealTransaction = async (transaction: Transaction, head: LedgerHead): Promise<Transaction> => {
+  const { hash: _oldHash, sequence: _oldSequence, previousHash: _oldPreviousHash, ...content } = transaction;
+  const chained: Transaction = { ...content, sequence: head.sequence + 1, previousHash: head.hash };
+  return { ...chained, hash: await computeTransactionHash(chained) };
+};
+
+export const getLedgerHead = (transactions: Transaction[]): LedgerHead =>
+  transactions.reduce<LedgerHead>(
+    (head, txn) => (txn.hash && typeof txn.sequence === 'number' && txn.sequence > head.sequence ? { sequence: txn.sequence, hash: txn.hash } : head),
+    EMPTY_LEDGER_HEAD
+  );
+
+/**
+ * Appends every transaction that has no hash yet (data from before the ledger
+ * existed, or merged in from a backup) to the end of the chain, oldest first.
+ */
+export const sealUnchainedTransactions = async (transactions: Transaction[]): Promise<{ transactions: Transaction[]; sealedCount: number }> => {
+  const unsealed = transactions
+    .filter(txn => !txn.hash)
+    .sort((a, b) => compareAsc(parseISO(a.timestamp), parseISO(b.timestamp)));
+  if (unsealed.length === 0) {
+    return { transactions, sealedCount: 0 };
+  }
+  let head = getLedgerHead(transactions);
+  const sealedById = new Map<string, Transaction>();
+  for (const txn of unsealed) {
+    const sealed = await sealTransaction(txn, head);
+    sealedById.set(txn.id, sealed);
+    head = { sequence: sealed.sequence!, hash: sealed.hash! };
+  }
+  return {
+    transactions: transactions.map(txn => sealedById.get(txn.id) || txn),
+    sealedCount: unsealed.length,
+  };
+};
+
+const describe = (txn: Transaction) => `#${txn.sequence} (${txn.type}, ${txn.timestamp})`;
+
+/**
+ * Walks the chain in sequence order and reports every entry whose content or
+ * link does not check out. The app never removes entries, so every gap in the
+ * sequence is reported.
+ */
+export const verifyLedger = async (transactions: Transaction[]): Promise<LedgerVerificationResult> => {
+  const issues: LedgerIssue[] = [];
+
+  transactions.filter(txn => !txn.hash || typeof txn.sequence !== 'number').forEach(txn => {
+    issues.push({
+      kind: 'unsealed',
+      transactionId: txn.id,
+      timestamp: txn.timestamp,
+      message: `Transaction ${txn.id} (${txn.type}, ${txn.timestamp}) has no ledger hash.`,
+    });
+  });
+
+  const chained = transactions
+    .filter(txn => txn.hash && typeof txn.sequence === 'number')
+    .sort((a, b) => a.sequence! - b.sequence!);
+
+  let expectedSequence = 1;
+  let expectedPreviousHash: string | null = GENESIS_HASH;
+
+  for (const txn of chained) {
+    const sequence = txn.sequence!;
+    if (sequence < expectedSequence) {
+      issues.push({
+        kind: 'duplicate-sequence',
+        sequence,
+        transactionId: txn.id,
+        timestamp: txn.timestamp,
+        message: `Entry ${describe(txn)} reuses a sequence number that already appears in the ledger.`,
+      });
+    }
+    while (expectedSequence < sequence) {
+      issues.push({
+        kind: 'missing-entry',
+        sequence: expectedSequence,
+        message: `Entry #${expectedSequence} is missing.`,
+      });
+      expectedPreviousHash = null;
+      expectedSequence++;
+    }
+
+    if (await computeTransactionHash(txn) !== txn.hash) {
+      issues.push({
+        kind: 'content-altered',
+        sequence,
+        transactionId: txn.id,
+        timestamp: txn.timestamp,
+        message: `Entry ${describe(txn)} was changed after it was recorded.`,
+      });
+    }
+    if (expectedPreviousHash !== null && txn.previousHash !== expectedPreviousHash) {
+      issues.push({
+        kind: 'broken-link',
+        sequence,
+        transactionId: txn.id,
+        timestamp: txn.timestamp,
+        message: `Entry ${describe(txn)} does not link to the entry before it.`,
+      });
+    }
+    expectedPreviousHash = txn.hash!;
+    expectedSequence = Math.max(expectedSequence, sequence + 1);
+  }
+
+  const head = getLedgerHead(transactions);
+  return {
+    valid: issues.length === 0,
+    checkedAt: new Date().toISOString(),
+    entryCount: chained.length,
+    headSequence: head.sequence,
+    headHash: head.hash,
+    issues,
+  };
+};
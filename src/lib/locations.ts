@@ -0,0 +1,57 @@
+// Stock locations: the central store and the vans that carry stock to camps.
+// Each batch records its stock in base units per location in `Drug.stockByLocation`, and
+// `Drug.stock` is kept equal to their total so everything that only cares
+// about how much of a batch exists keeps working unchanged.
+
+import type { Drug, StockLocation } from '@/types';
+import { DEFAULT_LOCATION_ID } from '@/types';
+
+export const LOCATION_KIND_LABELS: Record<StockLocation['kind'], string> = {
+  store: 'Store',
+  van: 'Mobile Van',
+};
+
+/** Base units of a batch at each location. Batches saved before locations existed hold everything at the central store. */
+export const getStockByLocation = (drug: Pick<Drug, 'stock' | 'stockByLocation'>): Record<string, number> =>
+  drug.stockByLocation ? drug.stockByLocation : { [DEFAULT_LOCATION_ID]: drug.stock };
+
+export const getLocationStock = (drug: Pick<Drug, 'stock' | 'stockByLocation'>, locationId: string) =>
+  getStockByLocation(drug)[locationId] || 0;
+
+/** Sets the base units at one location and recomputes the batch total. Locations left empty are dropped. */
+export const withLocationStock = (drug: Drug, locationId: string, quantity: number): Drug => {
+  const stockByLocation = { ...getStockByLocation(drug), [locationId]: quantity };
+  if (quantity === 0) delete stockByLocation[locationId];
+  const stock = Object.values(stockByLocation).reduce((sum, qty) => sum + qty, 0);
+  return { ...drug, stock, stockByLocation };
+};
+
+/**
+ * The batches as seen from one location: `stock` is what that location holds.
+ * Used wherever stock is taken at a single place, such as dispensing.
+ */
+export const viewStockAtLocation = (drugs: Drug[], locationId: string): Drug[] =>
+  drugs.map(drug => ({ ...drug, stock: getLocationStock(drug, locationId) }));
+
+/** Writes stock changed in a location view (see viewStockAtLocation) back onto the batches at that location. */
+export const applyLocationView = (drugs: Drug[], view: Drug[], locationId: string): Drug[] => {
+  const viewedStock = new Map(view.map(drug => [drug.id, drug.stock]));
+  return drugs.map(drug => {
+    const stock = viewedStock.get(drug.id);
+    return stock === undefined || stock === getLocationStock(drug, locationId) ? drug : withLocationStock(drug, locationId, stock);
+  });
+};
+
+/** Base units at each location across several batches, e.g. all batches of a product. */
+export const sumStockByLocation = (drugs: Drug[]): Record<string, number> => {
+  const totals: Record<string, number> = {};
+  drugs.forEach(drug => {
+    Object.entries(getStockByLocation(drug)).forEach(([locationId, quantity]) => {
+      totals[locationId] = (totals[locationId] || 0) + quantity;
+    });
+  });
+  return totals;
+};
+
+export const getLocationName = (locations: StockLocation[], locationId?: string) =>
+  locations.find(location => location.id === (locationId || DEFAULT_LOCATION_ID))?.name || 'Unknown location';
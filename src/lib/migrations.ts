@@ -0,0 +1,352 @@
+// Versioned data schema for persisted inventory data.
+// Every dataset (IndexedDB on load, and later backups) is stamped with a
+// schema version. Older data is upgraded step by step through MIGRATIONS;
+// anything that cannot be upgraded or fails validation is quarantined.
+
+import * as z from 'zod';
+import type { Drug, Transaction, Village, Patient, Camp, StockLocation, Product, StockTake, QuarantinedRecord } from '@/types';
+import { DEFAULT_PURCHASE_PRICE, DEFAULT_DRUG_LOW_STOCK_THRESHOLD, DEFAULT_LOCATION_ID, DEFAULT_STOCK_LOCATION, DEFAULT_DOSAGE_FORM, DEFAULT_BASE_UNIT } from '@/types';
+import { BASE_UNIT_CODES, DOSAGE_FORM_CODES } from '@/lib/units';
+import { getDrugGroupKey } from '@/lib/fefo';
+
+// Data written before versioning existed (the `forradsmmu_*_v1` localStorage keys) is version 1.
+export const LEGACY_SCHEMA_VERSION = 1;
+export const CURRENT_SCHEMA_VERSION = 9;
+
+export type DataStoreName = QuarantinedRecord['store'];
+
+export interface RawDataSet {
+  drugs: unknown[];
+  transactions: unknown[];
+  villages: unknown[];
+  patients?: unknown[]; // Only from schema version 3
+  camps?: unknown[]; // Only from schema version 4
+  locations?: unknown[]; // Only from schema version 5
+  products?: unknown[]; // Only from schema version 7
+  stockTakes?: unknown[]; // Only from schema version 9
+}
+
+export interface DataSet {
+  drugs: Drug[];
+  transactions: Transaction[];
+  villages: Village[];
+  patients: Patient[];
+  camps: Camp[];
+  locations: StockLocation[];
+  products: Product[];
+  stockTakes: StockTake[];
+}
+
+export type PendingQuarantine = Omit<QuarantinedRecord, 'id' | 'quarantinedAt'>;
+
+type Migration = (data: RawDataSet) => RawDataSet;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown) => (typeof value === 'string' ? value : undefined);
+
+// The name key of a raw batch or product (see getDrugGroupKey); callers check that name is a string
+const getRawGroupKey = (record: Record<string, unknown>) =>
+  getDrugGroupKey({ name: String(record.name), brandName: optionalString(record.brandName), dosage: optionalString(record.dosage) });
+
+const toNumberOr = (value: unknown, fallback: number) => {
+  const num = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof num === 'number' && !isNaN(num) ? num : fallback;
+};
+
+/**
+ * Registry of forward migrations, keyed by the version they upgrade FROM.
+ * `MIGRATIONS[n]` turns version n data into version n + 1 data.
+ * Migrations must be idempotent: if the app closes before the new version is
+ * stamped, the same step runs again on the next load.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // v1 -> v2: batches saved before per-batch pricing/thresholds (when the global
+  // threshold lived on the retired Settings page) lack those fields, numbers
+  // were sometimes saved as strings, and early 'update' entries had no drugs array.
+  1: (data) => ({
+    ...data,
+    drugs: data.drugs.map(drug => {
+      if (!isObject(drug)) return drug;
+      return {
+        ...drug,
+        stock: toNumberOr(drug.stock, 0),
+        purchasePricePerTablet: toNumberOr(drug.purchasePricePerTablet, DEFAULT_PURCHASE_PRICE),
+        lowStockThreshold: toNumberOr(drug.lowStockThreshold, DEFAULT_DRUG_LOW_STOCK_THRESHOLD),
+      };
+    }),
+    transactions: data.transactions.map(txn => {
+      if (!isObject(txn)) return txn;
+      return {
+        ...txn,
+        drugs: Array.isArray(txn.drugs) ? txn.drugs : [],
+      };
+    }),
+  }),
+  // v2 -> v3: the patient registry. Existing dispenses are linked to patients
+  // by a matching pass in the app (see src/lib/patients.ts), not here.
+  2: (data) => ({
+    ...data,
+    patients: Array.isArray(data.patients) ? data.patients : [],
+  }),
+  // v3 -> v4: camp sessions. Earlier transactions have no campId and stay untagged.
+  3: (data) => ({
+    ...data,
+    camps: Array.isArray(data.camps) ? data.camps : [],
+  }),
+  // v4 -> v5: stock locations. All existing stock is assigned to the central store.
+  4: (data) => ({
+    ...data,
+    locations: Array.isArray(data.locations) && data.locations.length > 0 ? data.locations : [DEFAULT_STOCK_LOCATION],
+    drugs: data.drugs.map(drug => {
+      if (!isObject(drug) || isObject(drug.stockByLocation)) return drug;
+      return { ...drug, stockByLocation: { [DEFAULT_LOCATION_ID]: toNumberOr(drug.stock, 0) } };
+    }),
+  }),
+  // v5 -> v6: dosage forms and base units. Every existing batch was counted in
+  // tablets, so its price per tablet becomes its price per base unit. Transaction
+  // lines are hashed and stay as they are; a line without a unit means tablets.
+  5: (data) => ({
+    ...data,
+    drugs: data.drugs.map(drug => {
+      if (!isObject(drug)) return drug;
+      const { purchasePricePerTablet, ...rest } = drug;
+      return {
+        ...rest,
+        dosageForm: drug.dosageForm ?? DEFAULT_DOSAGE_FORM,
+        unit: drug.unit ?? DEFAULT_BASE_UNIT,
+        purchasePricePerUnit: drug.purchasePricePerUnit ?? purchasePricePerTablet,
+      };
+    }),
+  }),
+  // v6 -> v7: the product catalog. Batches are grouped into products by generic name,
+  // brand and dosage, as the dashboard grouped them. A product takes the highest
+  // threshold of its batches, so no drug warns later than before, and its form, unit
+  // and packs from the first batch (they were already kept equal across batches).
+  // Camp kit items were keyed by that name key and now hold the product ID.
+  // Product IDs come from the first batch's ID so that a rerun finds the same products.
+  6: (data) => {
+    const createdAt = new Date().toISOString();
+    const products = (Array.isArray(data.products) ? data.products : []).slice();
+    const productIdsByKey = new Map<string, string>();
+    products.forEach(product => {
+      if (isObject(product) && typeof product.name === 'string' && typeof product.id === 'string') productIdsByKey.set(getRawGroupKey(product), product.id);
+    });
+    const created = new Map<string, Record<string, unknown> & { lowStockThreshold: number }>();
+    const drugs = data.drugs.map(drug => {
+      if (!isObject(drug) || typeof drug.name !== 'string' || typeof drug.productId === 'string') return drug;
+      const key = getRawGroupKey(drug);
+      const threshold = toNumberOr(drug.lowStockThreshold, DEFAULT_DRUG_LOW_STOCK_THRESHOLD);
+      let productId = productIdsByKey.get(key);
+      if (!productId) {
+        productId = `product-${drug.id}`;
+        productIdsByKey.set(key, productId);
+        const product = {
+          id: productId,
+          name: drug.name,
+          brandName: drug.brandName,
+          dosage: drug.dosage,
+          dosageForm: drug.dosageForm,
+          unit: drug.unit,
+          packSizes: drug.packSizes,
+          lowStockThreshold: threshold,
+          createdAt,
+        };
+        created.set(productId, product);
+        products.push(product);
+      } else if (created.has(productId)) {
+        const product = created.get(productId)!;
+        product.lowStockThreshold = Math.max(product.lowStockThreshold, threshold);
+      }
+      return { ...drug, productId };
+    });
+    const camps = (data.camps || []).map(camp => {
+      if (!isObject(camp) || !isObject(camp.kit) || !Array.isArray(camp.kit.items)) return camp;
+      return {
+        ...camp,
+        kit: {
+          ...camp.kit,
+          items: camp.kit.items.map((item: unknown) =>
+            isObject(item) && typeof item.groupKey === 'string' && productIdsByKey.has(item.groupKey) ? { ...item, groupKey: productIdsByKey.get(item.groupKey) } : item),
+        },
+      };
+    });
+    return { ...data, drugs, camps, products };
+  },
+  // v7 -> v8: stock levels belong to the product alone. Batches drop their own
+  // threshold, which v6 -> v7 already folded into their product's minimum.
+  7: (data) => ({
+    ...data,
+    drugs: data.drugs.map(drug => {
+      if (!isObject(drug) || !('lowStockThreshold' in drug)) return drug;
+      const { lowStockThreshold, ...rest } = drug;
+      return rest;
+    }),
+  }),
+  // v8 -> v9: stock takes. Earlier adjustments were entered batch by batch and belong to none.
+  8: (data) => ({
+    ...data,
+    stockTakes: Array.isArray(data.stockTakes) ? data.stockTakes : [],
+  }),
+};
+
+// Validation schemas for the current version. Unknown extra fields are kept.
+const drugSchema = z.object({
+  id: z.string().min(1),
+  productId: z.string().min(1),
+  name: z.string(),
+  dosageForm: z.enum(DOSAGE_FORM_CODES as [string, ...string[]]),
+  unit: z.enum(BASE_UNIT_CODES as [string, ...string[]]),
+  purchasePricePerUnit: z.number(),
+  stock: z.number(),
+}).passthrough();
+
+const transactionDrugDetailSchema = z.object({
+  drugId: z.string(),
+  drugName: z.string(),
+  quantity: z.number(),
+  previousStock: z.number(),
+  newStock: z.number(),
+}).passthrough();
+
+const transactionSchema = z.object({
+  id: z.string().min(1),
+  type: z.enum(['dispense', 'restock', 'update', 'adjustment', 'void', 'transfer']),
+  timestamp: z.string().refine(val => !isNaN(Date.parse(val)), { message: "Invalid timestamp" }),
+  drugs: z.array(transactionDrugDetailSchema),
+  sequence: z.number().int().positive().optional(),
+  previousHash: z.string().optional(),
+  hash: z.string().optional(),
+}).passthrough();
+
+const villageSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+}).passthrough();
+
+const patientSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  registeredAt: z.string().refine(val => !isNaN(Date.parse(val)), { message: "Invalid registration date" }),
+  linkedTransactionIds: z.array(z.string()).optional(),
+}).passthrough();
+
+const campSchema = z.object({
+  id: z.string().min(1),
+  date: z.string().refine(val => !isNaN(Date.parse(val)), { message: "Invalid camp date" }),
+  villageId: z.string().min(1),
+  teamMembers: z.array(z.string()),
+  status: z.enum(['planned', 'active', 'closed']),
+}).passthrough();
+
+const locationSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  kind: z.enum(['store', 'van']),
+}).passthrough();
+
+const productSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  dosageForm: z.enum(DOSAGE_FORM_CODES as [string, ...string[]]),
+  unit: z.enum(BASE_UNIT_CODES as [string, ...string[]]),
+  lowStockThreshold: z.number(),
+}).passthrough();
+
+const stockTakeSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  locationId: z.string().min(1),
+  scope: z.object({ kind: z.enum(['all', 'category', 'shelf']) }).passthrough(),
+  status: z.enum(['counting', 'approved', 'cancelled']),
+  lines: z.array(z.object({
+    drugId: z.string().min(1),
+    expectedQuantity: z.number(),
+    purchasePricePerUnit: z.number(),
+    counts: z.array(z.object({ quantity: z.number(), countedBy: z.string() }).passthrough()),
+  }).passthrough()),
+  startedAt: z.string().refine(val => !isNaN(Date.parse(val)), { message: "Invalid start date" }),
+}).passthrough();
+
+const RECORD_SCHEMAS: Record<DataStoreName, z.ZodTypeAny> = {
+  drugs: drugSchema,
+  transactions: transactionSchema,
+  villages: villageSchema,
+  patients: patientSchema,
+  camps: campSchema,
+  locations: locationSchema,
+  products: productSchema,
+  stockTakes: stockTakeSchema,
+};
+
+const DATA_STORES: DataStoreName[] = ['drugs', 'transactions', 'villages', 'patients', 'camps', 'locations', 'products', 'stockTakes'];
+
+const quarantineAll = (data: RawDataSet, schemaVersion: number, reason: string): PendingQuarantine[] =>
+  DATA_STORES.flatMap(store => (data[store] || []).map(record => ({ store, reason, schemaVersion, data: record })));
+
+/**
+ * Upgrades a dataset stamped with `fromVersion` to CURRENT_SCHEMA_VERSION and
+ * validates every record. Records that fail are returned in `quarantined`
+ * instead of `data`; nothing is dropped silently.
+ */
+export const upgradeDataSet = (
+  raw: RawDataSet,
+  fromVersion: number
+): { data: DataSet; quarantined: PendingQuarantine[]; migrated: boolean } => {
+  const empty: DataSet = { drugs: [], transactions: [], villages: [], patients: [], camps: [], locations: [], products: [], stockTakes: [] };
+
+  if (!Number.isInteger(fromVersion) || fromVersion < LEGACY_SCHEMA_VERSION || fromVersion > CURRENT_SCHEMA_VERSION) {
+    return {
+      data: empty,
+      quarantined: quarantineAll(raw, fromVersion, `Unknown schema version ${fromVersion}. This app supports up to version ${CURRENT_SCHEMA_VERSION}.`),
+      migrated: false,
+    };
+  }
+
+  let upgraded = raw;
+  for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+    const migration = MIGRATIONS[version];
+    if (!migration) {
+      return {
+        data: empty,
+        quarantined: quarantineAll(raw, fromVersion, `No migration registered from schema version ${version}.`),
+        migrated: false,
+      };
+    }
+    try {
+      upgraded = migration(upgraded);
+    } catch (error) {
+      console.error(`Schema migration from version ${version} failed:`, error);
+      return {
+        data: empty,
+        quarantined: quarantineAll(raw, fromVersion, `Migration from schema version ${version} failed: ${error instanceof Error ? error.message : String(error)}`),
+        migrated: false,
+      };
+    }
+  }
+
+  const quarantined: PendingQuarantine[] = [];
+  const validated = { ...empty } as Record<DataStoreName, unknown[]>;
+  DATA_STORES.forEach(store => {
+    validated[store] = (upgraded[store] || []).filter(record => {
+      const result = RECORD_SCHEMAS[store].safeParse(record);
+      if (!result.success) {
+        const issue = result.error.issues[0];
+        quarantined.push({
+          store,
+          reason: `Invalid ${store} record: ${issue.path.join('.') || 'record'} - ${issue.message}`,
+          schemaVersion: fromVersion,
+          data: record,
+        });
+      }
+      return result.success;
+    });
+  });
+
+  return {
+    data: validated as unknown as DataSet,
+    quarantined,
+    migrated: fromVersion !== CURRENT_SCHEMA_VERSION,
+  };
+};
@@ -0,0 +1,108 @@
+// Pack hierarchy of a product, e.g. carton -> box -> strip -> tablet.
+// Stock is always kept in base units; packs are only a way of entering and
+// reading quantities. Each level records the base units one pack holds, so a
+// carton of 10 boxes x 10 strips x 10 tablets is { strip: 10, box: 100, carton: 1000 }.
+
+import type { BaseUnit, PackLevel, PackSizes } from '@/types';
+import type { Translate } from '@/i18n';
+import { getUnitLabel, translateUnit } from '@/lib/units';
+
+export const PACK_LEVELS: PackLevel[] = ['strip', 'box', 'carton']; // Smallest first
+
+export const PACK_LEVEL_LABELS: Record<PackLevel, { one: string; other: string }> = {
+  strip: { one: 'strip', other: 'strips' },
+  box: { one: 'box', other: 'boxes' },
+  carton: { one: 'carton', other: 'cartons' },
+};
+
+/** Levels the product comes in, smallest first. */
+export const getPackLevels = (packSizes?: PackSizes): PackLevel[] =>
+  PACK_LEVELS.filter(level => (packSizes?.[level] || 0) > 0);
+
+/** Base units in one pack. A quantity without a pack level is already in base units. */
+export const getPackSize = (packSizes: PackSizes | undefined, level?: PackLevel) =>
+  (level && packSizes?.[level]) || 1;
+
+/** Drops levels left empty; undefined when the product is only handled loose. */
+export const normalizePackSizes = (packSizes?: PackSizes): PackSizes | undefined => {
+  const levels = getPackLevels(packSizes);
+  if (levels.length === 0) return undefined;
+  return Object.fromEntries(levels.map(level => [level, Number(packSizes![level])])) as PackSizes;
+};
+
+export const packSizesEqual = (a?: PackSizes, b?: PackSizes) =>
+  PACK_LEVELS.every(level => (a?.[level] || 0) === (b?.[level] || 0));
+
+/**
+ * Checks that the levels nest: each holds a whole number of at least two base units,
+ * and a whole number (more than one) of the next smaller level. Returns an error message or null.
+ */
+export const validatePackSizes = (packSizes: PackSizes | undefined, unit: BaseUnit): string | null => {
+  let smaller: { level: PackLevel; size: number } | undefined;
+  for (const level of getPackLevels(packSizes)) {
+    const size = Number(packSizes![level]);
+    if (!Number.isInteger(size) || size < 2) {
+      return `A ${level} must hold a whole number of at least 2 ${getUnitLabel(unit, 2)}.`;
+    }
+    if (smaller && (size <= smaller.size || size % smaller.size !== 0)) {
+      return `A ${level} must hold a whole number of ${PACK_LEVEL_LABELS[smaller.level].other}.`;
+    }
+    smaller = { level, size };
+  }
+  return null;
+};
+
+/** Price per base unit from a price per pack, to a hundredth of a paisa. */
+export const toPricePerUnit = (pricePerPack: number, packSize: number) =>
+  Math.round((pricePerPack / packSize) * 10000) / 10000;
+
+export const getPackLabel = (level: PackLevel, quantity: number) =>
+  quantity === 1 ? PACK_LEVEL_LABELS[level].one : PACK_LEVEL_LABELS[level].other;
+
+/** Pack name in the UI language, for the translated forms. */
+export const translatePack = (t: Translate, level: PackLevel, quantity: number) =>
+  t(`packs.${level}.${quantity === 1 ? 'one' : 'other'}`);
+
+/**
+ * How the levels nest, largest first, e.g. "1 carton = 10 boxes, 1 box = 10 strips, 1 strip = 10 tablets".
+ * Pass `t` for the UI language; without it the names are English.
+ */
+export const describePackSizes = (packSizes: PackSizes | undefined, unit: BaseUnit, t?: Translate) => {
+  const packName = (level: PackLevel, quantity: number) => (t ? translatePack(t, level, quantity) : getPackLabel(level, quantity));
+  const unitName = (quantity: number) => (t ? translateUnit(t, unit, quantity) : getUnitLabel(unit, quantity));
+  const levels = getPackLevels(packSizes);
+  return levels
+    .map((level, index) => {
+      const size = packSizes![level]!;
+      const inner = levels[index - 1];
+      const contents = inner
+        ? `${size / packSizes![inner]!} ${packName(inner, size / packSizes![inner]!)}`
+        : `${size} ${unitName(size)}`;
+      return `1 ${packName(level, 1)} = ${contents}`;
+    })
+    .reverse()
+    .join(', ');
+};
+
+/**
+ * A base-unit quantity broken into whole packs, largest first, e.g. "2 boxes, 3 strips, 4 tablets".
+ * Quantities of a product without packs read as plain base units.
+ */
+export const formatInPacks = (quantity: number, unit: BaseUnit, packSizes: PackSizes | undefined, t?: Translate) => {
+  const packName = (level: PackLevel, count: number) => (t ? translatePack(t, level, count) : getPackLabel(level, count));
+  const unitName = (count: number) => (t ? translateUnit(t, unit, count) : getUnitLabel(unit, count));
+  const parts: string[] = [];
+  let remaining = quantity;
+  [...getPackLevels(packSizes)].reverse().forEach(level => {
+    const count = Math.floor(remaining / packSizes![level]!);
+    if (count > 0) {
+      parts.push(`${count} ${packName(level, count)}`);
+      remaining -= count * packSizes![level]!;
+    }
+  });
+  if (remaining > 0 || parts.length === 0) parts.push(`${remaining} ${unitName(remaining)}`);
+  return parts.join(', ');
+};
+
+export const translatePackQuantity = (t: Translate, count: number, level: PackLevel) =>
+  t('units.quantity', { count, unit: translatePack(t, level, count) });
@@ -0,0 +1,201 @@
+// Duplicate patient detection and merging.
+// The same villager is often registered twice with a spelling variant of their
+// name or a differently guessed age. findDuplicatePatients() scores pairs for a
+// person to review; mergePatients() folds one record into the other and keeps
+// enough on the merged record for undoPatientMerge() to reverse it.
+
+import { parseISO, differenceInYears, isValid } from 'date-fns';
+import type { Patient, PatientMergeField, PatientMergeRecord, Transaction, TransactionActor } from '@/types';
+import { isActivePatient, normalizePatientName } from '@/lib/patients';
+
+export const MIN_DUPLICATE_SCORE = 60;
+// Below this name similarity a pair is only considered when the Aadhar digits match
+const MIN_NAME_SIMILARITY = 0.75;
+
+const NAME_WEIGHT = 50;
+const AADHAR_MATCH_SCORE = 30;
+const VILLAGE_MATCH_SCORE = 10;
+const VILLAGE_MISMATCH_PENALTY = 15;
+const CLOSE_AGE_YEARS = 3;
+const CLOSE_AGE_SCORE = 10;
+const FAR_AGE_YEARS = 10;
+const FAR_AGE_PENALTY = 20;
+
+export interface DuplicatePatientCandidate {
+  patients: [Patient, Patient];
+  score: number; // 0-100
+  reasons: string[];
+}
+
+const levenshteinDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+/** 1 for identical names, 0 for nothing in common. Word order is ignored ("Patil Ramesh" = "Ramesh Patil"). */
+export const getNameSimilarity = (a: string, b: string) => {
+  const sortWords = (name: string) => normalizePatientName(name).split(' ').sort().join(' ');
+  const left = normalizePatientName(a);
+  const right = normalizePatientName(b);
+  const longest = Math.max(left.length, right.length);
+  if (longest === 0) return 0;
+  const distance = Math.min(levenshteinDistance(left, right), levenshteinDistance(sortWords(a), sortWords(b)));
+  return 1 - distance / longest;
+};
+
+const getAgeGap = (a: Patient, b: Patient) => {
+  if (!a.dateOfBirth || !b.dateOfBirth) return undefined;
+  const left = parseISO(a.dateOfBirth);
+  const right = parseISO(b.dateOfBirth);
+  return isValid(left) && isValid(right) ? Math.abs(differenceInYears(left, right)) : undefined;
+};
+
+const scorePair = (a: Patient, b: Patient): DuplicatePatientCandidate | null => {
+  // Different Aadhar digits mean different people, however alike the names
+  if (a.aadharLastFour && b.aadharLastFour && a.aadharLastFour !== b.aadharLastFour) return null;
+  if (a.sex && b.sex && a.sex !== b.sex) return null;
+  const aadharMatches = !!a.aadharLastFour && a.aadharLastFour === b.aadharLastFour;
+  const nameSimilarity = getNameSimilarity(a.name, b.name);
+  if (nameSimilarity < MIN_NAME_SIMILARITY && !aadharMatches) return null;
+
+  const reasons: string[] = [];
+  let score = NAME_WEIGHT * nameSimilarity;
+  reasons.push(nameSimilarity === 1 ? 'Same name' : `Names ${Math.round(nameSimilarity * 100)}% alike`);
+  if (aadharMatches) {
+    score += AADHAR_MATCH_SCORE;
+    reasons.push(`Same Aadhar digits (${a.aadharLastFour})`);
+  }
+  if (a.villageId && b.villageId) {
+    if (a.villageId === b.villageId) {
+      score += VILLAGE_MATCH_SCORE;
+      reasons.push('Same village');
+    } else {
+      score -= VILLAGE_MISMATCH_PENALTY;
+      reasons.push('Different villages');
+    }
+  }
+  const ageGap = getAgeGap(a, b);
+  if (ageGap !== undefined) {
+    if (ageGap <= CLOSE_AGE_YEARS) {
+      score += CLOSE_AGE_SCORE;
+      reasons.push(ageGap === 0 ? 'Same age' : `Ages ${ageGap} year(s) apart`);
+    } else if (ageGap >= FAR_AGE_YEARS) {
+      score -= FAR_AGE_PENALTY;
+      reasons.push(`Ages ${ageGap} years apart`);
+    }
+  }
+  return { patients: [a, b], score: Math.max(0, Math.min(100, Math.round(score))), reasons };
+};
+
+/** Pairs of active patients that may be the same person, most likely first. Pairs a reviewer dismissed are skipped. */
+export const findDuplicatePatients = (patients: Patient[], minScore: number = MIN_DUPLICATE_SCORE): DuplicatePatientCandidate[] => {
+  const active = patients.filter(isActivePatient);
+  const candidates: DuplicatePatientCandidate[] = [];
+  for (let i = 0; i < active.length; i++) {
+    for (let j = i + 1; j < active.length; j++) {
+      const [a, b] = [active[i], active[j]];
+      if (a.notDuplicateOf?.includes(b.id) || b.notDuplicateOf?.includes(a.id)) continue;
+      const candidate = scorePair(a, b);
+      if (candidate && candidate.score >= minScore) candidates.push(candidate);
+    }
+  }
+  return candidates.sort((x, y) => y.score - x.score);
+};
+
+const FILLED_FIELDS: PatientMergeField[] = ['sex', 'aadharLastFour', 'phone', 'villageId'];
+
+export interface PatientMergeResult {
+  kept: Patient;
+  merged: Patient;
+}
+
+// Works on a loosely typed copy since the fields involved have different value types
+type PatientFields = Record<PatientMergeField, Patient[PatientMergeField]>;
+
+/**
+ * Folds `duplicate` into `keep`: every dispense of the duplicate is linked to the kept
+ * record and details the kept record lacks are copied over. A known birth date replaces
+ * an estimated one, and the earlier registration date is kept. The duplicate stays
+ * stored, with a `mergedInto` record holding what undoPatientMerge() needs.
+ */
+export const mergePatients = (
+  keep: Patient,
+  duplicate: Patient,
+  transactions: Transaction[],
+  mergedBy?: TransactionActor
+): PatientMergeResult => {
+  const movedTransactionIds = Array.from(new Set([
+    ...(duplicate.linkedTransactionIds || []),
+    ...transactions.filter(txn => txn.patientId === duplicate.id).map(txn => txn.id),
+  ]));
+
+  const updates: Partial<PatientFields> = {};
+  FILLED_FIELDS.forEach(field => {
+    if (keep[field] === undefined && duplicate[field] !== undefined) updates[field] = duplicate[field];
+  });
+  const keepHasKnownBirthDate = !!keep.dateOfBirth && !keep.dateOfBirthEstimated;
+  if (duplicate.dateOfBirth && !keepHasKnownBirthDate && (!keep.dateOfBirth || !duplicate.dateOfBirthEstimated)) {
+    updates.dateOfBirth = duplicate.dateOfBirth;
+    updates.dateOfBirthEstimated = duplicate.dateOfBirthEstimated;
+  }
+  if (duplicate.registeredAt < keep.registeredAt) updates.registeredAt = duplicate.registeredAt;
+
+  const changedFields = (Object.keys(updates) as PatientMergeField[]).filter(field => updates[field] !== keep[field]);
+  const previousValues: Partial<PatientFields> = {};
+  const kept: Patient = { ...keep };
+  const keptFields = kept as unknown as Partial<PatientFields>;
+  changedFields.forEach(field => {
+    if (keep[field] !== undefined) previousValues[field] = keep[field];
+    if (updates[field] === undefined) delete keptFields[field];
+    else keptFields[field] = updates[field];
+  });
+  kept.linkedTransactionIds = Array.from(new Set([...(keep.linkedTransactionIds || []), ...movedTransactionIds]));
+  const dismissed = Array.from(new Set([...(keep.notDuplicateOf || []), ...(duplicate.notDuplicateOf || [])])).filter(id => id !== keep.id);
+  if (dismissed.length > 0) kept.notDuplicateOf = dismissed;
+
+  const mergeRecord: PatientMergeRecord = {
+    patientId: keep.id,
+    mergedAt: new Date().toISOString(),
+    mergedBy,
+    movedTransactionIds,
+    changedFields,
+    previousValues: previousValues as PatientMergeRecord['previousValues'],
+  };
+  // The duplicate keeps its own links; buildTransactionPatientIndex ignores merged records
+  return { kept, merged: { ...duplicate, mergedInto: mergeRecord } };
+};
+
+/**
+ * Reverses mergePatients(). The duplicate becomes active again with its dispenses, and
+ * fields the merge changed on the kept record go back to their old values, unless they
+ * were edited after the merge.
+ */
+export const undoPatientMerge = (kept: Patient, merged: Patient): PatientMergeResult => {
+  const { mergedInto: record, ...restored } = merged;
+  if (!record) return { kept, merged };
+  const moved = new Set(record.movedTransactionIds);
+  const previousValues = record.previousValues as Partial<PatientFields>;
+  const restoredKept: Patient = { ...kept };
+  const restoredFields = restoredKept as unknown as Partial<PatientFields>;
+  record.changedFields.forEach(field => {
+    // Still the value taken from the duplicate, so not edited since the merge
+    if (kept[field] !== merged[field]) return;
+    if (previousValues[field] === undefined) delete restoredFields[field];
+    else restoredFields[field] = previousValues[field];
+  });
+  const linkedTransactionIds = (kept.linkedTransactionIds || []).filter(id => !moved.has(id));
+  if (linkedTransactionIds.length > 0) restoredKept.linkedTransactionIds = linkedTransactionIds;
+  else delete restoredKept.linkedTransactionIds;
+  return { kept: restoredKept, merged: restored };
+};
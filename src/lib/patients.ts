@@ -0,0 +1,192 @@
+// Patient registry helpers.
+// Dispenses recorded since the registry carry `patientId`. Older dispenses only
+// hold free-text patient details, and being sealed ledger entries they cannot
+// be edited, so linkHistoricalDispenses() matches them to patients and records
+// the link on the patient (`linkedTransactionIds`).
+
+import { parseISO, isValid, differenceInYears, subYears, format } from 'date-fns';
+import type { BaseUnit, Patient, Transaction, Village } from '@/types';
+import { getDrugGroupKey } from '@/lib/fefo';
+import type { VoidStatus } from '@/lib/voids';
+import { buildVillageIdsByName } from '@/lib/villages';
+import { getBaseUnit } from '@/lib/units';
+
+export const normalizePatientName = (name: string) =>
+  name.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/** Age in whole years today (or at `at`), or undefined when no date of birth is known. */
+export const getPatientAge = (patient: Pick<Patient, 'dateOfBirth'>, at: Date = new Date()): number | undefined => {
+  if (!patient.dateOfBirth) return undefined;
+  const dateOfBirth = parseISO(patient.dateOfBirth);
+  return isValid(dateOfBirth) ? differenceInYears(at, dateOfBirth) : undefined;
+};
+
+// A stated age only pins the birth date to within a year; the same day `age` years back is used
+export const estimateDateOfBirth = (age: number, at: Date = new Date()) =>
+  format(subYears(at, age), 'yyyy-MM-dd');
+
+export const getPatientVillageName = (patient: Pick<Patient, 'villageId'>, villages: Village[]) =>
+  patient.villageId ? villages.find(v => v.id === patient.villageId)?.name : undefined;
+
+// Patients merged into another record stay stored (for undo) but are not shown or matched
+export const isActivePatient = (patient: Patient) => !patient.mergedInto;
+
+/**
+ * Every transaction ID that belongs to a patient, whether recorded with it or linked afterwards.
+ * Links on the patient win over `patientId`, since a merge moves a dispense to the kept record by linking it.
+ */
+export const buildTransactionPatientIndex = (patients: Patient[], transactions: Transaction[]): Map<string, string> => {
+  const index = new Map<string, string>();
+  transactions.forEach(txn => {
+    if (txn.patientId) index.set(txn.id, txn.patientId);
+  });
+  patients.filter(isActivePatient).forEach(patient => {
+    (patient.linkedTransactionIds || []).forEach(transactionId => index.set(transactionId, patient.id));
+  });
+  return index;
+};
+
+export const getPatientTransactions = (patient: Patient, transactions: Transaction[]) => {
+  if (patient.mergedInto) return [];
+  const linkedIds = new Set(patient.linkedTransactionIds || []);
+  return transactions.filter(txn => txn.patientId === patient.id || linkedIds.has(txn.id));
+};
+
+// Ages recorded at different visits drift and are often guessed
+const AGE_MATCH_TOLERANCE_YEARS = 2;
+
+const ageAgreesWithDispense = (patient: Patient, txn: Transaction) => {
+  if (!patient.dateOfBirth || typeof txn.age !== 'number' || txn.age <= 0) return true;
+  const ageAtDispense = getPatientAge(patient, parseISO(txn.timestamp));
+  return ageAtDispense === undefined || Math.abs(ageAtDispense - txn.age) <= AGE_MATCH_TOLERANCE_YEARS;
+};
+
+export interface PatientLinkResult {
+  patients: Patient[];
+  linkedCount: number;
+  createdCount: number;
+  ambiguousCount: number; // Dispenses matching more than one patient, left unlinked
+}
+
+/**
+ * Links every dispense that has patient details but no patient yet. A dispense
+ * matches a patient with the same name when neither Aadhar digits, village nor
+ * age contradict it; a dispense with no match registers a new patient. Runs oldest
+ * first so each new patient's registration date is their first visit.
+ */
+export const linkHistoricalDispenses = (
+  patients: Patient[],
+  transactions: Transaction[],
+  villages: Village[],
+  generateId: () => string
+): PatientLinkResult => {
+  const alreadyLinked = buildTransactionPatientIndex(patients, transactions);
+  const villageIdsByName = buildVillageIdsByName(villages);
+  // Patients are copied only when they change, so unchanged records are not rewritten
+  const result = [...patients];
+  let linkedCount = 0;
+  let createdCount = 0;
+  let ambiguousCount = 0;
+
+  const unlinkedDispenses = transactions
+    .filter(txn => txn.type === 'dispense' && txn.patientName?.trim() && !alreadyLinked.has(txn.id))
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+  for (const txn of unlinkedDispenses) {
+    const name = normalizePatientName(txn.patientName!);
+    const villageId = txn.villageName ? villageIdsByName.get(txn.villageName.toLowerCase()) : undefined;
+    const candidates = result.filter(patient =>
+      isActivePatient(patient)
+      && normalizePatientName(patient.name) === name
+      && (!patient.aadharLastFour || !txn.aadharLastFour || patient.aadharLastFour === txn.aadharLastFour)
+      && (!patient.villageId || !villageId || patient.villageId === villageId)
+      && ageAgreesWithDispense(patient, txn)
+    );
+
+    if (candidates.length > 1) {
+      ambiguousCount++;
+      continue;
+    }
+
+    if (candidates.length === 1) {
+      const patient = candidates[0];
+      result[result.indexOf(patient)] = {
+        ...patient,
+        linkedTransactionIds: [...(patient.linkedTransactionIds || []), txn.id],
+        // Fill in details the patient record was missing
+        aadharLastFour: patient.aadharLastFour || txn.aadharLastFour,
+        sex: patient.sex || txn.sex,
+        villageId: patient.villageId || villageId,
+      };
+      linkedCount++;
+      continue;
+    }
+
+    const dispensedAt = parseISO(txn.timestamp);
+    result.push({
+      id: generateId(),
+      name: txn.patientName!.trim(),
+      dateOfBirth: typeof txn.age === 'number' && txn.age > 0 ? estimateDateOfBirth(txn.age, dispensedAt) : undefined,
+      dateOfBirthEstimated: typeof txn.age === 'number' && txn.age > 0 ? true : undefined,
+      sex: txn.sex,
+      aadharLastFour: txn.aadharLastFour,
+      villageId,
+      registeredAt: txn.timestamp,
+      linkedTransactionIds: [txn.id],
+    });
+    createdCount++;
+    linkedCount++;
+  }
+
+  return { patients: result, linkedCount, createdCount, ambiguousCount };
+};
+
+// A medicine given at this many separate visits is treated as ongoing (chronic) treatment
+export const CHRONIC_MEDICINE_MIN_VISITS = 2;
+
+export interface PatientDrugSummary {
+  groupKey: string;
+  displayName: string;
+  visitCount: number;
+  totalQuantity: number;
+  unit: BaseUnit;
+  firstDispensedAt: string; // ISO string
+  lastDispensedAt: string; // ISO string
+}
+
+/**
+ * Per-drug totals over a patient's dispenses, most recently given first.
+ * Voided lines are left out; a drug split across batches in one visit counts as one visit.
+ */
+export const summarizePatientDrugs = (
+  dispenses: Transaction[],
+  voidStatusMap: Map<string, VoidStatus>
+): PatientDrugSummary[] => {
+  const summaries = new Map<string, PatientDrugSummary & { visitIds: Set<string> }>();
+  dispenses.forEach(txn => {
+    const voidedLines = voidStatusMap.get(txn.id)?.voidedLineIndexes;
+    txn.drugs.forEach((detail, lineIndex) => {
+      if (voidedLines?.has(lineIndex)) return;
+      const groupKey = getDrugGroupKey({ name: detail.drugName, brandName: detail.brandName, dosage: detail.dosage });
+      const summary = summaries.get(groupKey) || {
+        groupKey,
+        displayName: [detail.brandName, detail.drugName, detail.dosage].filter(Boolean).join(' '),
+        visitCount: 0,
+        totalQuantity: 0,
+        unit: getBaseUnit(detail),
+        firstDispensedAt: txn.timestamp,
+        lastDispensedAt: txn.timestamp,
+        visitIds: new Set<string>(),
+      };
+      summary.visitIds.add(txn.id);
+      summary.visitCount = summary.visitIds.size;
+      summary.totalQuantity += Math.abs(detail.quantity);
+      if (txn.timestamp < summary.firstDispensedAt) summary.firstDispensedAt = txn.timestamp;
+      if (txn.timestamp > summary.lastDispensedAt) summary.lastDispensedAt = txn.timestamp;
+      summaries.set(groupKey, summary);
+    });
+  });
+  return Array.from(summaries.values())
+    .map(({ visitIds: _visitIds, ...summary }) => summary)
+    .sort((a, b) => b.lastDispensedAt.localeCompare(a.lastDispensedAt));
+};
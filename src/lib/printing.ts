@@ -0,0 +1,45 @@
+// Prints a standalone HTML document: silently through Electron when available,
+// otherwise through the browser's print dialog from a hidden iframe.
+
+import { getElectronBridge } from '@/lib/electron';
+import type { PrintResult, SlipPaperSize } from '@/lib/electron';
+
+export const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const printInBrowser = (html: string): Promise<PrintResult> =>
+  new Promise((resolve) => {
+    const iframe = document.createElement('iframe');
+    iframe.style.position = 'fixed';
+    iframe.style.width = '0';
+    iframe.style.height = '0';
+    iframe.style.border = '0';
+    iframe.setAttribute('aria-hidden', 'true');
+    iframe.onload = () => {
+      const frameWindow = iframe.contentWindow;
+      if (!frameWindow) {
+        iframe.remove();
+        resolve({ success: false, message: 'Could not prepare the page for printing.' });
+        return;
+      }
+      // print() blocks until the dialog closes in most browsers; remove the frame afterwards
+      frameWindow.addEventListener('afterprint', () => iframe.remove());
+      frameWindow.focus();
+      frameWindow.print();
+      resolve({ success: true });
+    };
+    iframe.srcdoc = html;
+    document.body.appendChild(iframe);
+  });
+
+export const printHtml = async (html: string, paperSize: SlipPaperSize): Promise<PrintResult> => {
+  const bridge = getElectronBridge();
+  if (bridge?.printing) {
+    try {
+      return await bridge.printing.printHtml(html, paperSize);
+    } catch (error) {
+      return { success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+  }
+  return printInBrowser(html);
+};
@@ -0,0 +1,187 @@
+// Product catalog: the drugs the programme stocks, kept apart from the batches
+// received of them. A batch (`Drug`) points at its product by `productId` and
+// carries a copy of the product's names, form, unit and packs, which
+// withProductFields() brings back in step whenever the product changes.
+// Transaction lines only snapshot names, so a line is matched to its product
+// through its batch, or by those names once the batch has been deleted.
+
+import type { Drug, GroupedDrugDisplay, Product, ProductDetails, TransactionDrugDetail } from '@/types';
+import { DEFAULT_DRUG_LOW_STOCK_THRESHOLD } from '@/types';
+import { getDrugGroupKey } from '@/lib/fefo';
+import { BASE_UNITS, DOSAGE_FORMS, isUnitAllowedForForm } from '@/lib/units';
+import { describePackSizes, normalizePackSizes, packSizesEqual, validatePackSizes } from '@/lib/packs';
+
+/** e.g. "Glycomet Metformin 500mg", brand first as the dashboard shows it. */
+export const getProductDisplayName = (product: Pick<Product, 'name' | 'brandName' | 'dosage'>) =>
+  [product.brandName, product.name, product.dosage].filter(Boolean).join(' ');
+
+export const sortProductsByName = (products: Product[]) =>
+  [...products].sort((a, b) => getProductDisplayName(a).localeCompare(getProductDisplayName(b)));
+
+/** The batch with its copy of the product's fields brought up to date. */
+export const withProductFields = (batch: Drug, product: Product): Drug => ({
+  ...batch,
+  productId: product.id,
+  name: product.name,
+  brandName: product.brandName,
+  dosage: product.dosage,
+  dosageForm: product.dosageForm,
+  unit: product.unit,
+  packSizes: product.packSizes,
+});
+
+export const hasProductFields = (batch: Drug, product: Product) =>
+  batch.productId === product.id &&
+  batch.name === product.name &&
+  (batch.brandName || '') === (product.brandName || '') &&
+  (batch.dosage || '') === (product.dosage || '') &&
+  batch.dosageForm === product.dosageForm &&
+  batch.unit === product.unit &&
+  packSizesEqual(batch.packSizes, product.packSizes);
+
+/** Product IDs keyed by generic name, brand and dosage (see getDrugGroupKey). */
+export const buildProductIdsByName = (products: Product[]): Map<string, string> =>
+  new Map(products.map(product => [getDrugGroupKey(product), product.id]));
+
+/**
+ * Finds the product of a transaction line: that of its batch, or for a batch
+ * since deleted, the product with the names the line recorded.
+ */
+export const createLineProductResolver = (products: Product[], drugs: Drug[]) => {
+  const productIdsByBatch = new Map(drugs.map(drug => [drug.id, drug.productId]));
+  const productIdsByName = buildProductIdsByName(products);
+  return (line: Pick<TransactionDrugDetail, 'drugId' | 'drugName' | 'brandName' | 'dosage'>): string | undefined =>
+    productIdsByBatch.get(line.drugId) ??
+    productIdsByName.get(getDrugGroupKey({ name: line.drugName, brandName: line.brandName, dosage: line.dosage }));
+};
+
+/**
+ * Products for batches whose product is missing, e.g. one quarantined on load.
+ * Each is rebuilt from the first such batch so the batches stay listed and dispensable.
+ */
+export const recoverMissingProducts = (products: Product[], drugs: Drug[]): Product[] => {
+  const known = new Set(products.map(product => product.id));
+  const recovered: Product[] = [];
+  drugs.forEach(drug => {
+    if (known.has(drug.productId)) return;
+    known.add(drug.productId);
+    recovered.push({
+      id: drug.productId,
+      name: drug.name,
+      brandName: drug.brandName,
+      dosage: drug.dosage,
+      dosageForm: drug.dosageForm,
+      unit: drug.unit,
+      packSizes: drug.packSizes,
+      lowStockThreshold: DEFAULT_DRUG_LOW_STOCK_THRESHOLD,
+      createdAt: new Date().toISOString(),
+    });
+  });
+  return recovered;
+};
+
+const trimOrUndefined = (value?: string) => value?.trim() || undefined;
+
+const isLevel = (value: number) => Number.isInteger(value) && value >= 0;
+
+/** Cleans the details typed in; returns an error message or the fields to save. */
+export const validateProductDetails = (details: ProductDetails): { error: string } | { fields: ProductDetails } => {
+  const name = details.name.trim();
+  if (name.length < 2) {
+    return { error: 'Generic name must be at least 2 characters.' };
+  }
+  if (!isUnitAllowedForForm(details.dosageForm, details.unit)) {
+    return { error: `A ${DOSAGE_FORMS[details.dosageForm].label.toLowerCase()} cannot be counted in ${BASE_UNITS[details.unit].other}.` };
+  }
+  const packSizes = normalizePackSizes(details.packSizes);
+  const packError = validatePackSizes(packSizes, details.unit);
+  if (packError) {
+    return { error: packError };
+  }
+  if (!isLevel(details.lowStockThreshold)) {
+    return { error: 'Minimum stock must be zero or a positive whole number.' };
+  }
+  if (details.reorderLevel !== undefined && !isLevel(details.reorderLevel)) {
+    return { error: 'Reorder level must be zero or a positive whole number.' };
+  }
+  if (details.maxStockLevel !== undefined && !isLevel(details.maxStockLevel)) {
+    return { error: 'Maximum stock must be zero or a positive whole number.' };
+  }
+  if (details.reorderLevel !== undefined && details.reorderLevel < details.lowStockThreshold) {
+    return { error: 'Reorder level cannot be below the minimum stock.' };
+  }
+  if (details.maxStockLevel !== undefined && details.maxStockLevel <= Math.max(details.lowStockThreshold, details.reorderLevel ?? 0)) {
+    return { error: 'Maximum stock must be above the minimum stock and reorder level.' };
+  }
+  return {
+    fields: {
+      name,
+      brandName: trimOrUndefined(details.brandName),
+      dosage: trimOrUndefined(details.dosage),
+      dosageForm: details.dosageForm,
+      unit: details.unit,
+      packSizes,
+      category: trimOrUndefined(details.category),
+      shelf: trimOrUndefined(details.shelf),
+      lowStockThreshold: details.lowStockThreshold,
+      reorderLevel: details.reorderLevel,
+      maxStockLevel: details.maxStockLevel,
+    },
+  };
+};
+
+const getDistinctValues = (values: Array<string | undefined>) =>
+  Array.from(new Set(values.filter((value): value is string => !!value))).sort((a, b) => a.localeCompare(b));
+
+/** Categories already in use, for suggestions. */
+export const getProductCategories = (products: Product[]) => getDistinctValues(products.map(product => product.category));
+
+/** Shelves already in use, for suggestions and partial stock takes. */
+export const getProductShelves = (products: Product[]) => getDistinctValues(products.map(product => product.shelf));
+
+const PRODUCT_FIELD_LABELS: Record<keyof ProductDetails, string> = {
+  name: 'Generic name',
+  brandName: 'Brand',
+  dosage: 'Dosage',
+  dosageForm: 'Form',
+  unit: 'Counted in',
+  packSizes: 'Pack sizes',
+  category: 'Category',
+  shelf: 'Shelf',
+  lowStockThreshold: 'Minimum stock',
+  reorderLevel: 'Reorder level',
+  maxStockLevel: 'Maximum stock',
+};
+
+const formatProductField = (product: Product, field: keyof ProductDetails) => {
+  switch (field) {
+    case 'dosageForm': return DOSAGE_FORMS[product.dosageForm].label;
+    case 'unit': return BASE_UNITS[product.unit].other;
+    case 'packSizes': return describePackSizes(product.packSizes, product.unit) || 'none';
+    default: return product[field] === undefined || product[field] === '' ? 'none' : String(product[field]);
+  }
+};
+
+/** What an edit changed, e.g. ["Brand: none -> Glycomet"], for the ledger note. */
+export const describeProductChanges = (before: Product, after: Product): string[] =>
+  (Object.keys(PRODUCT_FIELD_LABELS) as Array<keyof ProductDetails>).flatMap(field => {
+    const previous = formatProductField(before, field);
+    const next = formatProductField(after, field);
+    return previous === next ? [] : [`${PRODUCT_FIELD_LABELS[field]}: ${previous} -> ${next}`];
+  });
+
+export type StockLevelStatus = 'belowMinimum' | 'belowReorder' | 'overstocked' | 'withinLevels';
+
+/**
+ * Where a product's stock across all locations stands against its levels.
+ * Below minimum takes precedence over reaching the reorder level.
+ */
+export const getStockLevelStatus = (
+  group: Pick<GroupedDrugDisplay, 'stockByLocation' | 'lowStockThreshold' | 'reorderLevel' | 'maxStockLevel'>
+): StockLevelStatus => {
+  const stock = Object.values(group.stockByLocation).reduce((sum, quantity) => sum + quantity, 0);
+  if (stock < group.lowStockThreshold) return 'belowMinimum';
+  if (group.reorderLevel !== undefined && stock <= group.reorderLevel) return 'belowReorder';
+  if (group.maxStockLevel !== undefined && stock > group.maxStockLevel) return 'overstocked';
+  return 'withinLevels';
+};
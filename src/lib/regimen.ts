@@ -0,0 +1,73 @@
+// Dosing regimens ("1 tab BD x 15 days") and the quantities they need, in the
+// product's base unit. Only units a single dose is measured in can have the
+// quantity worked out (see isDoseUnit in src/lib/units.ts).
+
+import type { BaseUnit, DosingFrequency, DosingRegimen } from '@/types';
+import { DEFAULT_BASE_UNIT } from '@/types';
+import { BASE_UNITS, translateUnit } from '@/lib/units';
+import type { Translate } from '@/i18n';
+
+// How often each frequency is taken. Its label is the `frequency.*` message in the locale files.
+interface FrequencyInfo {
+  intakesPerDay?: number; // Missing for SOS, which has no fixed schedule
+  everyDays?: number; // Weekly: one intake every 7 days
+}
+
+export const DOSING_FREQUENCIES: Record<DosingFrequency, FrequencyInfo> = {
+  OD: { intakesPerDay: 1 },
+  BD: { intakesPerDay: 2 },
+  TDS: { intakesPerDay: 3 },
+  QID: { intakesPerDay: 4 },
+  SOS: {},
+  weekly: { everyDays: 7 },
+};
+
+export const DOSING_FREQUENCY_CODES = Object.keys(DOSING_FREQUENCIES) as DosingFrequency[];
+
+export const isValidRegimen = (regimen: DosingRegimen) =>
+  regimen.frequency in DOSING_FREQUENCIES
+  && regimen.dosePerIntake > 0
+  && Number.isInteger(regimen.durationDays) && regimen.durationDays > 0;
+
+/** Number of intakes over the whole course, or undefined for SOS. A part week still needs its weekly dose. */
+export const getRegimenIntakeCount = (regimen: Pick<DosingRegimen, 'frequency' | 'durationDays'>): number | undefined => {
+  const info = DOSING_FREQUENCIES[regimen.frequency];
+  if (info.everyDays) return Math.ceil(regimen.durationDays / info.everyDays);
+  return info.intakesPerDay !== undefined ? info.intakesPerDay * regimen.durationDays : undefined;
+};
+
+/**
+ * Base units needed for the full course, rounded up to whole units.
+ * Undefined for SOS or incomplete regimens; the quantity is then entered by hand.
+ */
+export const calculateRegimenQuantity = (regimen: Partial<DosingRegimen>): number | undefined => {
+  const { dosePerIntake, frequency, durationDays } = regimen;
+  if (!frequency || !(typeof dosePerIntake === 'number' && dosePerIntake > 0) || !(typeof durationDays === 'number' && durationDays > 0)) {
+    return undefined;
+  }
+  const intakes = getRegimenIntakeCount({ frequency, durationDays });
+  return intakes === undefined ? undefined : Math.ceil(dosePerIntake * intakes);
+};
+
+const FRACTIONS: Record<number, string> = { 0.25: '1/4', 0.5: '1/2', 0.75: '3/4' };
+
+/** Dose as written on prescriptions: 0.5 -> "1/2", 1.5 -> "1 1/2". */
+export const formatDose = (dose: number) => {
+  const whole = Math.floor(dose);
+  const fraction = FRACTIONS[Math.round((dose - whole) * 100) / 100];
+  if (!fraction) return String(dose);
+  return whole > 0 ? `${whole} ${fraction}` : fraction;
+};
+
+/** Short prescription form in English, e.g. "1 tab BD x 15 days", "1/2 tab SOS x 5 days" or "5 ml TDS x 3 days". Used in exports. */
+export const formatRegimen = (regimen: DosingRegimen, unit: BaseUnit = DEFAULT_BASE_UNIT) =>
+  `${formatDose(regimen.dosePerIntake)} ${BASE_UNITS[unit].short} ${regimen.frequency} x ${regimen.durationDays} day${regimen.durationDays === 1 ? '' : 's'}`;
+
+/** Short prescription form in the UI language, e.g. "1 tablet BD x 15 days". */
+export const translateRegimen = (t: Translate, regimen: DosingRegimen, unit: BaseUnit = DEFAULT_BASE_UNIT) =>
+  t('regimen.summary', {
+    dose: formatDose(regimen.dosePerIntake),
+    unit: translateUnit(t, unit, regimen.dosePerIntake > 1 ? 2 : 1),
+    frequency: t(`frequency.short.${regimen.frequency}`),
+    days: t(regimen.durationDays === 1 ? 'regimen.day' : 'regimen.daysCount', { count: regimen.durationDays }),
+  });
@@ -0,0 +1,199 @@
+// Dispensing slips handed to the patient with their medicines.
+// A slip is built from what dispenseDrugs() actually gave out and rendered as a
+// standalone HTML page, so the same markup prints silently from Electron and
+// through the browser's print dialog. Slips are printed in the patient's
+// language, which may differ from the volunteer's UI language.
+
+import { parseISO } from 'date-fns';
+import type { BaseUnit, DosingFrequency, DosingRegimen } from '@/types';
+import type { SlipPaperSize } from '@/lib/electron';
+import { formatDose } from '@/lib/regimen';
+import { getBaseUnit } from '@/lib/units';
+import { escapeHtml } from '@/lib/printing';
+import { DEFAULT_LOCALE, formatDate, translate } from '@/i18n';
+import type { LocaleCode } from '@/i18n';
+
+export interface DispensedDrugInfo {
+  drugName: string;
+  brandName?: string;
+  dosage?: string;
+  batchNumber?: string;
+  dateOfExpiry?: string;
+  unit?: BaseUnit; // Tablets when absent
+  quantity: number;
+  regimen?: DosingRegimen;
+}
+
+export interface DispensingSlipBatch {
+  batchNumber?: string;
+  dateOfExpiry?: string;
+  quantity: number;
+}
+
+export interface DispensingSlipItem {
+  drugName: string;
+  brandName?: string;
+  dosage?: string;
+  unit: BaseUnit;
+  totalQuantity: number;
+  batches: DispensingSlipBatch[];
+  regimen?: DosingRegimen;
+}
+
+export interface DispensingSlip {
+  patientName: string;
+  age?: number;
+  sex?: 'Male' | 'Female' | 'Other';
+  villageName?: string;
+  dispensedAt: string; // ISO string
+  items: DispensingSlipItem[];
+  language: LocaleCode;
+}
+
+export interface SlipRenderOptions {
+  paperSize: SlipPaperSize;
+  pictograms: boolean; // Sun/moon boxes for patients who cannot read
+}
+
+/** Groups the batch lines of one drug (split first-expiry-first-out) back into a single slip item. */
+export const buildDispensingSlip = (
+  patient: { patientName: string; age?: number; sex?: 'Male' | 'Female' | 'Other'; villageName?: string },
+  dispensed: DispensedDrugInfo[],
+  language: LocaleCode = DEFAULT_LOCALE,
+  dispensedAt: string = new Date().toISOString()
+): DispensingSlip => {
+  const items: DispensingSlipItem[] = [];
+  dispensed.forEach(info => {
+    const existing = items.find(item =>
+      item.drugName === info.drugName && item.brandName === info.brandName && item.dosage === info.dosage
+      && JSON.stringify(item.regimen) === JSON.stringify(info.regimen)
+    );
+    const batch = { batchNumber: info.batchNumber, dateOfExpiry: info.dateOfExpiry, quantity: info.quantity };
+    if (existing) {
+      existing.batches.push(batch);
+      existing.totalQuantity += info.quantity;
+    } else {
+      items.push({
+        drugName: info.drugName,
+        brandName: info.brandName,
+        dosage: info.dosage,
+        unit: getBaseUnit(info),
+        totalQuantity: info.quantity,
+        batches: [batch],
+        regimen: info.regimen,
+      });
+    }
+  });
+  return { ...patient, dispensedAt, items, language };
+};
+
+export type TimeOfDay = 'morning' | 'noon' | 'evening' | 'night';
+
+export const TIMES_OF_DAY: TimeOfDay[] = ['morning', 'noon', 'evening', 'night'];
+
+// When each intake is usually taken; SOS has no fixed time
+const INTAKE_TIMES: Record<DosingFrequency, TimeOfDay[]> = {
+  OD: ['morning'],
+  BD: ['morning', 'night'],
+  TDS: ['morning', 'noon', 'night'],
+  QID: ['morning', 'noon', 'evening', 'night'],
+  SOS: [],
+  weekly: ['morning'],
+};
+
+export const getIntakeTimes = (frequency: DosingFrequency) => INTAKE_TIMES[frequency];
+
+const translateQuantity = (locale: LocaleCode, count: number | string, unit: BaseUnit, plural: boolean) =>
+  translate(locale, 'units.quantity', { count, unit: translate(locale, `units.${unit}.${plural ? 'other' : 'one'}`) });
+
+/** The regimen as a plain sentence, e.g. "Take 1 tablet twice a day, morning and night, for 15 days." */
+export const describeRegimenInWords = (regimen: DosingRegimen, locale: LocaleCode = DEFAULT_LOCALE, unit: BaseUnit = getBaseUnit()) => {
+  const dose = translateQuantity(locale, formatDose(regimen.dosePerIntake), unit, regimen.dosePerIntake > 1);
+  const days = translate(locale, regimen.durationDays === 1 ? 'slip.day' : 'slip.daysCount', { count: regimen.durationDays });
+  return regimen.frequency === 'SOS'
+    ? translate(locale, 'slip.takeWhenNeeded', { dose, days })
+    : translate(locale, 'slip.take', { dose, frequency: translate(locale, `slip.frequency.${regimen.frequency}`), days });
+};
+
+// Plain shapes print clearly on thermal printers, unlike emoji
+const TIME_OF_DAY_ICONS: Record<TimeOfDay, string> = {
+  morning: '<svg viewBox="0 0 24 24" width="28" height="28"><circle cx="12" cy="14" r="5" fill="none" stroke="#000" stroke-width="2"/><path d="M12 3v3M4 14H1M23 14h-3M5.6 7.6l2.1 2.1M18.4 7.6l-2.1 2.1M1 21h22" stroke="#000" stroke-width="2"/></svg>',
+  noon: '<svg viewBox="0 0 24 24" width="28" height="28"><circle cx="12" cy="12" r="5" fill="#000"/><path d="M12 1v4M12 19v4M1 12h4M19 12h4M4.2 4.2l2.8 2.8M17 17l2.8 2.8M4.2 19.8L7 17M17 7l2.8-2.8" stroke="#000" stroke-width="2"/></svg>',
+  evening: '<svg viewBox="0 0 24 24" width="28" height="28"><path d="M7 17a5 5 0 0 1 10 0" fill="none" stroke="#000" stroke-width="2"/><path d="M12 7v3M3 17h2M19 17h2M5.6 11.6l1.4 1.4M18.4 11.6L17 13M1 21h22" stroke="#000" stroke-width="2"/></svg>',
+  night: '<svg viewBox="0 0 24 24" width="28" height="28"><path d="M20 15.5A8.5 8.5 0 1 1 8.5 4a7 7 0 0 0 11.5 11.5z" fill="#000"/></svg>',
+};
+
+const renderPictogram = (regimen: DosingRegimen, locale: LocaleCode) => {
+  const times = getIntakeTimes(regimen.frequency);
+  if (times.length === 0) return '';
+  const cells = TIMES_OF_DAY.map(time => {
+    const taken = times.includes(time);
+    return `<td class="${taken ? 'taken' : 'skipped'}">${TIME_OF_DAY_ICONS[time]}<div>${escapeHtml(translate(locale, `slip.times.${time}`))}</div><div class="dose">${taken ? escapeHtml(formatDose(regimen.dosePerIntake)) : '-'}</div></td>`;
+  }).join('');
+  return `<table class="pictogram"><tr>${cells}</tr></table>`;
+};
+
+const formatExpiry = (dateOfExpiry: string | undefined, locale: LocaleCode) =>
+  (dateOfExpiry ? formatDate(locale, parseISO(dateOfExpiry), 'MM/yyyy') : translate(locale, 'common.notAvailable'));
+
+const SLIP_STYLES: Record<SlipPaperSize, string> = {
+  thermal: '@page { size: 80mm auto; margin: 3mm; } body { width: 74mm; font-size: 11px; }',
+  A5: '@page { size: A5; margin: 10mm; } body { font-size: 13px; }',
+};
+
+/** Complete HTML document for one slip, with its own print styles. */
+export const renderDispensingSlipHtml = (slip: DispensingSlip, options: SlipRenderOptions) => {
+  const locale = slip.language;
+  const patientLine = [
+    slip.age !== undefined ? translate(locale, 'slip.age', { age: slip.age }) : null,
+    slip.sex ? translate(locale, `slip.sex.${slip.sex}`) : null,
+    slip.villageName,
+  ].filter(Boolean).join(' | ');
+
+  const items = slip.items.map(item => {
+    const name = [item.brandName || item.drugName, item.dosage].filter(Boolean).join(' ');
+    const generic = item.brandName && item.brandName !== item.drugName ? `<div class="muted">${escapeHtml(item.drugName)}</div>` : '';
+    const batches = item.batches
+      .map(batch => escapeHtml(translate(locale, 'slip.batch', {
+        batch: batch.batchNumber || translate(locale, 'common.notAvailable'),
+        expiry: formatExpiry(batch.dateOfExpiry, locale),
+      })) + (item.batches.length > 1 ? ` (${batch.quantity})` : ''))
+      .join('; ');
+    const regimen = item.regimen
+      ? `<div class="regimen">${escapeHtml(describeRegimenInWords(item.regimen, locale, item.unit))}</div>${options.pictograms ? renderPictogram(item.regimen, locale) : ''}`
+      : '';
+    return `<div class="item"><div class="drug"><strong>${escapeHtml(name)}</strong><span>${escapeHtml(translateQuantity(locale, item.totalQuantity, item.unit, item.totalQuantity !== 1))}</span></div>${generic}<div class="muted">${batches}</div>${regimen}</div>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(translate(locale, 'slip.title', { name: slip.patientName }))}</title>
+<style>
+${SLIP_STYLES[options.paperSize]}
+body { font-family: 'PT Sans', 'Noto Sans Devanagari', 'Nirmala UI', Mangal, Arial, sans-serif; color: #000; margin: 0; }
+h1 { font-size: 1.3em; margin: 0 0 4px; }
+.header { border-bottom: 1px dashed #000; padding-bottom: 4px; margin-bottom: 6px; }
+.item { border-bottom: 1px dashed #000; padding: 4px 0 6px; page-break-inside: avoid; }
+.drug { display: flex; justify-content: space-between; gap: 8px; font-size: 1.1em; }
+.muted { color: #333; font-size: 0.9em; }
+.regimen { margin-top: 3px; font-weight: bold; }
+.pictogram { width: 100%; border-collapse: collapse; margin-top: 4px; text-align: center; font-size: 0.85em; }
+.pictogram td { border: 1px solid #000; padding: 2px; width: 25%; }
+.pictogram td.skipped svg { opacity: 0.25; }
+.pictogram .dose { font-size: 1.4em; font-weight: bold; }
+.footer { margin-top: 6px; font-size: 0.85em; text-align: center; }
+</style>
+</head>
+<body>
+<div class="header">
+<h1>${escapeHtml(slip.patientName)}</h1>
+${patientLine ? `<div>${escapeHtml(patientLine)}</div>` : ''}
+<div>${escapeHtml(formatDate(locale, parseISO(slip.dispensedAt), 'dd MMM yyyy, hh:mm a'))}</div>
+</div>
+${items}
+<div class="footer">${escapeHtml(translate(locale, 'slip.footer'))}</div>
+</body>
+</html>`;
+};
@@ -0,0 +1,157 @@
+// Stock takes: physical counts of the stock at one location.
+// Expected quantities are frozen when a stock take starts. Counts are then
+// entered over one or more sittings, possibly by different volunteers; when a
+// batch is counted again the latest count is the one used. On approval each
+// counted batch is moved by its variance (counted - expected) from its current
+// stock, so dispenses and transfers made while the count was under way are kept.
+// A batch that moved after the start should be counted again, since its
+// count may or may not include that movement.
+
+import { parseISO, format, isValid } from 'date-fns';
+import type { Drug, Product, StockTake, StockTakeLine, StockTakeScope } from '@/types';
+import { compareByExpiry } from '@/lib/fefo';
+import { getLocationStock } from '@/lib/locations';
+import { getProductDisplayName } from '@/lib/products';
+import { escapeHtml } from '@/lib/printing';
+import { BASE_UNITS } from '@/lib/units';
+
+export const STOCK_TAKE_SCOPE_LABELS: Record<StockTakeScope['kind'], string> = {
+  all: 'All stock',
+  category: 'By category',
+  shelf: 'By shelf',
+};
+
+/** e.g. "Shelf: Rack A, Rack B". */
+export const describeStockTakeScope = (scope: StockTakeScope) => {
+  if (scope.kind === 'all') return STOCK_TAKE_SCOPE_LABELS.all;
+  return `${scope.kind === 'category' ? 'Category' : 'Shelf'}: ${scope.values.join(', ')}`;
+};
+
+/** Products without a category or shelf are only covered by a stock take of all stock. */
+export const isInStockTakeScope = (product: Pick<Product, 'category' | 'shelf'> | undefined, scope: StockTakeScope) => {
+  if (scope.kind === 'all') return true;
+  const value = scope.kind === 'category' ? product?.category : product?.shelf;
+  return !!value && scope.values.includes(value);
+};
+
+/** The batches holding stock at the location, by shelf, then product, then expiry. */
+export const buildStockTakeLines = (products: Product[], drugs: Drug[], locationId: string, scope: StockTakeScope): StockTakeLine[] => {
+  const productsById = new Map(products.map(product => [product.id, product]));
+  return drugs
+    .filter(drug => getLocationStock(drug, locationId) > 0 && isInStockTakeScope(productsById.get(drug.productId), scope))
+    .sort(compareByExpiry)
+    .map(drug => {
+      const product = productsById.get(drug.productId);
+      return {
+        drugId: drug.id,
+        productId: drug.productId,
+        displayName: getProductDisplayName(product || drug),
+        batchNumber: drug.batchNumber,
+        dateOfExpiry: drug.dateOfExpiry,
+        unit: drug.unit,
+        category: product?.category,
+        shelf: product?.shelf,
+        purchasePricePerUnit: drug.purchasePricePerUnit,
+        expectedQuantity: getLocationStock(drug, locationId),
+        counts: [],
+      };
+    })
+    // Batches on no shelf come last; sort() is stable, so expiry order holds within a product
+    .sort((a, b) => (a.shelf || '\uffff').localeCompare(b.shelf || '\uffff') || a.displayName.localeCompare(b.displayName));
+};
+
+/** The latest count of the line, or undefined while it is uncounted. */
+export const getCountedQuantity = (line: StockTakeLine): number | undefined =>
+  line.counts.length > 0 ? line.counts[line.counts.length - 1].quantity : undefined;
+
+/** Counted more than once with different results, so worth a recount before approval. */
+export const hasDifferingCounts = (line: StockTakeLine) =>
+  new Set(line.counts.map(count => count.quantity)).size > 1;
+
+export const getLineVariance = (line: StockTakeLine): number | undefined => {
+  const counted = getCountedQuantity(line);
+  return counted === undefined ? undefined : counted - line.expectedQuantity;
+};
+
+/** INR value of the variance at the batch's purchase price when the stock take started. */
+export const getLineVarianceValue = (line: StockTakeLine) => (getLineVariance(line) ?? 0) * line.purchasePricePerUnit;
+
+export interface StockTakeSummary {
+  lineCount: number;
+  countedCount: number;
+  varianceCount: number; // Counted lines whose count differs from the expected quantity
+  shortageValue: number; // INR, as a positive amount
+  excessValue: number; // INR
+  netValue: number; // INR; negative when stock was lost
+  counters: string[]; // Everyone who counted, in the order they first did
+}
+
+export const summarizeStockTake = (stockTake: StockTake): StockTakeSummary => {
+  const summary: StockTakeSummary = { lineCount: stockTake.lines.length, countedCount: 0, varianceCount: 0, shortageValue: 0, excessValue: 0, netValue: 0, counters: [] };
+  stockTake.lines.forEach(line => {
+    line.counts.forEach(count => {
+      if (!summary.counters.includes(count.countedBy)) summary.counters.push(count.countedBy);
+    });
+    const variance = getLineVariance(line);
+    if (variance === undefined) return;
+    summary.countedCount++;
+    if (variance === 0) return;
+    summary.varianceCount++;
+    const value = getLineVarianceValue(line);
+    if (value < 0) summary.shortageValue -= value;
+    else summary.excessValue += value;
+    summary.netValue += value;
+  });
+  return summary;
+};
+
+const formatExpiry = (dateOfExpiry?: string) =>
+  dateOfExpiry && isValid(parseISO(dateOfExpiry)) ? format(parseISO(dateOfExpiry), 'MM/yyyy') : 'N/A';
+
+/**
+ * Printable A5 count sheet, one section per shelf. Expected quantities are left
+ * off so the count is not steered by what the records say. With `uncountedOnly`
+ * only batches nobody has counted yet are listed, for a later sitting.
+ */
+export const renderCountSheetHtml = (stockTake: StockTake, locationName: string, uncountedOnly = false) => {
+  const lines = uncountedOnly ? stockTake.lines.filter(line => line.counts.length === 0) : stockTake.lines;
+  const shelves = Array.from(new Set(lines.map(line => line.shelf || '')));
+  const sections = shelves.map(shelf => {
+    const rows = lines
+      .filter(line => (line.shelf || '') === shelf)
+      .map(line => `<tr><td>${escapeHtml(line.displayName)}</td><td>${escapeHtml(line.batchNumber || 'N/A')}</td><td>${formatExpiry(line.dateOfExpiry)}</td><td>${escapeHtml(BASE_UNITS[line.unit].other)}</td><td class="count"></td></tr>`)
+      .join('');
+    return `<h2>${escapeHtml(shelf ? `Shelf: ${shelf}` : 'No shelf')}</h2>
+<table>
+<thead><tr><th>Drug</th><th>Batch</th><th>Expiry</th><th>Unit</th><th class="count">Counted</th></tr></thead>
+<tbody>${rows}</tbody>
+</table>`;
+  }).join('');
+  const title = `Count sheet - ${stockTake.name}`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+@page { size: A5; margin: 10mm; }
+body { font-family: 'PT Sans', Arial, sans-serif; font-size: 12px; color: #000; margin: 0; }
+h1 { font-size: 1.3em; margin: 0 0 4px; }
+h2 { font-size: 1.1em; margin: 12px 0 0; }
+table { width: 100%; border-collapse: collapse; margin-top: 4px; }
+th, td { border: 1px solid #000; padding: 4px; text-align: left; }
+th { background: #eee; }
+tr { page-break-inside: avoid; }
+.count { width: 70px; }
+.signature { margin-top: 16px; display: flex; justify-content: space-between; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div>${escapeHtml(locationName)} | ${escapeHtml(describeStockTakeScope(stockTake.scope))} | Started ${format(parseISO(stockTake.startedAt), 'dd MMM yyyy, hh:mm a')}</div>
+${lines.length === 0 ? '<p>Every batch has been counted.</p>' : sections}
+<div class="signature"><span>Counted by: ____________</span><span>Date: ____________</span></div>
+</body>
+</html>`;
+};
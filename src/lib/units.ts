@@ -0,0 +1,84 @@
+// Dosage forms and the base unit each product is counted in.
+// Stock, dispensed and restocked quantities and purchase prices are all per base
+// unit: a tablet, a ml of syrup, a tube of ointment, an ORS sachet, and so on.
+// Batches saved before units existed were all counted in tablets.
+
+import type { BaseUnit, DosageForm, Drug } from '@/types';
+import { DEFAULT_BASE_UNIT, DEFAULT_DOSAGE_FORM } from '@/types';
+import type { Translate } from '@/i18n';
+
+interface DosageFormInfo {
+  label: string;
+  units: BaseUnit[]; // Units this form can be counted in; the first is the default
+}
+
+export const DOSAGE_FORMS: Record<DosageForm, DosageFormInfo> = {
+  tablet: { label: 'Tablet', units: ['tablet'] },
+  capsule: { label: 'Capsule', units: ['capsule'] },
+  syrup: { label: 'Syrup', units: ['bottle', 'ml'] },
+  suspension: { label: 'Suspension', units: ['bottle', 'ml'] },
+  drops: { label: 'Drops', units: ['bottle', 'ml'] },
+  ointment: { label: 'Ointment', units: ['tube'] },
+  cream: { label: 'Cream', units: ['tube'] },
+  injection: { label: 'Injection', units: ['vial', 'ampoule', 'ml'] },
+  sachet: { label: 'Sachet (e.g., ORS)', units: ['sachet'] },
+  inhaler: { label: 'Inhaler', units: ['inhaler'] },
+  other: { label: 'Other', units: ['unit'] },
+};
+
+export const DOSAGE_FORM_CODES = Object.keys(DOSAGE_FORMS) as DosageForm[];
+
+interface UnitInfo {
+  one: string;
+  other: string;
+  short: string; // In regimens, e.g. "1 tab BD x 5 days", "5 ml TDS x 3 days"
+  // Whether a single dose is measured in this unit, so a regimen can work out the quantity to give.
+  // A bottle or tube lasts many doses, so its quantity is always entered by hand.
+  doseUnit: boolean;
+}
+
+export const BASE_UNITS: Record<BaseUnit, UnitInfo> = {
+  tablet: { one: 'tablet', other: 'tablets', short: 'tab', doseUnit: true },
+  capsule: { one: 'capsule', other: 'capsules', short: 'cap', doseUnit: true },
+  ml: { one: 'ml', other: 'ml', short: 'ml', doseUnit: true },
+  bottle: { one: 'bottle', other: 'bottles', short: 'bottle', doseUnit: false },
+  tube: { one: 'tube', other: 'tubes', short: 'tube', doseUnit: false },
+  vial: { one: 'vial', other: 'vials', short: 'vial', doseUnit: true },
+  ampoule: { one: 'ampoule', other: 'ampoules', short: 'amp', doseUnit: true },
+  sachet: { one: 'sachet', other: 'sachets', short: 'sachet', doseUnit: true },
+  inhaler: { one: 'inhaler', other: 'inhalers', short: 'inhaler', doseUnit: false },
+  unit: { one: 'unit', other: 'units', short: 'unit', doseUnit: false },
+};
+
+export const BASE_UNIT_CODES = Object.keys(BASE_UNITS) as BaseUnit[];
+
+export const getDosageForm = (drug?: Pick<Drug, 'dosageForm'>): DosageForm => drug?.dosageForm || DEFAULT_DOSAGE_FORM;
+
+/** Unit a batch is counted in. Also takes transaction lines, which snapshot it. */
+export const getBaseUnit = (item?: { unit?: BaseUnit }): BaseUnit => item?.unit || DEFAULT_BASE_UNIT;
+
+export const isUnitAllowedForForm = (form: DosageForm, unit: BaseUnit) => DOSAGE_FORMS[form].units.includes(unit);
+
+export const isDoseUnit = (unit: BaseUnit) => BASE_UNITS[unit].doseUnit;
+
+/** Unit name for a quantity, e.g. "tablet" for 1 and "tablets" for 10. */
+export const getUnitLabel = (unit: BaseUnit, quantity: number) =>
+  quantity === 1 ? BASE_UNITS[unit].one : BASE_UNITS[unit].other;
+
+/** "10 tablets", "1 bottle", "100 ml". */
+export const formatQuantity = (quantity: number, unit: BaseUnit = DEFAULT_BASE_UNIT) =>
+  `${quantity} ${getUnitLabel(unit, quantity)}`;
+
+/** Unit name in the UI language, for the translated forms. */
+export const translateUnit = (t: Translate, unit: BaseUnit, quantity: number) =>
+  t(`units.${unit}.${quantity === 1 ? 'one' : 'other'}`);
+
+export const translateQuantity = (t: Translate, quantity: number | string, unit: BaseUnit) =>
+  t('units.quantity', { count: quantity, unit: translateUnit(t, unit, Number(quantity)) });
+
+/** Total of several lines that may be in different units, e.g. "120 tablets, 3 bottles". */
+export const formatQuantityTotals = (lines: Array<{ quantity: number; unit?: BaseUnit }>) => {
+  const totals = new Map<BaseUnit, number>();
+  lines.forEach(line => totals.set(getBaseUnit(line), (totals.get(getBaseUnit(line)) || 0) + line.quantity));
+  return Array.from(totals, ([unit, quantity]) => formatQuantity(quantity, unit)).join(', ');
+};
@@ -0,0 +1,195 @@
+// Village master data: details, name matching and CSV import.
+// Dispenses record the village as free text (`Transaction.villageName`) and
+// cannot be edited, so a village keeps the names it was known by in `aliases`
+// and every lookup by name goes through buildVillageIdsByName().
+
+import * as XLSX from 'xlsx';
+import type { Camp, Patient, Transaction, Village, VillageDetails, VisitFrequency } from '@/types';
+
+export const VISIT_FREQUENCY_LABELS: Record<VisitFrequency, string> = {
+  weekly: 'Weekly',
+  fortnightly: 'Fortnightly',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  asNeeded: 'As needed',
+};
+
+const VISIT_FREQUENCIES = Object.keys(VISIT_FREQUENCY_LABELS) as VisitFrequency[];
+
+export const isValidPinCode = (value: string) => /^[1-9]\d{5}$/.test(value);
+
+/** Current name first, then earlier and merged-in names. */
+export const getVillageNames = (village: Pick<Village, 'name' | 'aliases'>) => [village.name, ...(village.aliases || [])];
+
+/** Village IDs keyed by every lower-cased name they are known by. Current names win over aliases. */
+export const buildVillageIdsByName = (villages: Village[]): Map<string, string> => {
+  const idsByName = new Map<string, string>();
+  villages.forEach(village => (village.aliases || []).forEach(alias => idsByName.set(alias.toLowerCase(), village.id)));
+  villages.forEach(village => idsByName.set(village.name.toLowerCase(), village.id));
+  return idsByName;
+};
+
+export interface VillageReferences {
+  transactionCount: number;
+  patientCount: number;
+  campCount: number;
+}
+
+export const getVillageReferences = (
+  village: Village,
+  data: { transactions: Transaction[]; patients: Patient[]; camps: Camp[] }
+): VillageReferences => {
+  const names = new Set(getVillageNames(village).map(name => name.toLowerCase()));
+  return {
+    transactionCount: data.transactions.filter(txn => txn.villageName && names.has(txn.villageName.toLowerCase())).length,
+    patientCount: data.patients.filter(patient => patient.villageId === village.id).length,
+    campCount: data.camps.filter(camp => camp.villageId === village.id).length,
+  };
+};
+
+export const hasVillageReferences = (references: VillageReferences) =>
+  references.transactionCount + references.patientCount + references.campCount > 0;
+
+export const formatVillageLocality = (village: Pick<Village, 'taluka' | 'block' | 'district'>) =>
+  [village.taluka, village.block, village.district].filter(Boolean).join(', ');
+
+const trimOrUndefined = (value?: string) => value?.trim() || undefined;
+
+/** Cleans the details typed in or imported; returns an error message or the fields to save. */
+export const validateVillageDetails = (details: VillageDetails): { error: string } | { fields: VillageDetails } => {
+  const name = details.name.trim();
+  if (name.length < 2) {
+    return { error: 'Village name must be at least 2 characters.' };
+  }
+  const pinCode = trimOrUndefined(details.pinCode);
+  if (pinCode && !isValidPinCode(pinCode)) {
+    return { error: `PIN code "${pinCode}" must be 6 digits.` };
+  }
+  const hasLatitude = details.latitude !== undefined;
+  const hasLongitude = details.longitude !== undefined;
+  if (hasLatitude !== hasLongitude) {
+    return { error: 'Enter both latitude and longitude, or neither.' };
+  }
+  if (hasLatitude && (!(Math.abs(details.latitude!) <= 90) || !(Math.abs(details.longitude!) <= 180))) {
+    return { error: 'Latitude must be between -90 and 90, and longitude between -180 and 180.' };
+  }
+  if (details.population !== undefined && (!Number.isInteger(details.population) || details.population < 0)) {
+    return { error: 'Population must be a whole number.' };
+  }
+  const contactPhone = trimOrUndefined(details.contactPhone);
+  if (contactPhone && !/^\+?[\d\s-]{10,15}$/.test(contactPhone)) {
+    return { error: `Contact phone "${contactPhone}" is not a valid phone number.` };
+  }
+  if (details.visitFrequency && !VISIT_FREQUENCIES.includes(details.visitFrequency)) {
+    return { error: 'Unknown visit frequency.' };
+  }
+  return {
+    fields: {
+      name,
+      district: trimOrUndefined(details.district),
+      block: trimOrUndefined(details.block),
+      taluka: trimOrUndefined(details.taluka),
+      pinCode,
+      latitude: details.latitude,
+      longitude: details.longitude,
+      population: details.population,
+      contactName: trimOrUndefined(details.contactName),
+      contactPhone,
+      visitFrequency: details.visitFrequency,
+    },
+  };
+};
+
+// Column headers accepted for each field, compared without case, spaces or punctuation.
+// Covers the headings of the census and Local Government Directory village lists.
+const CSV_COLUMNS: Record<keyof VillageDetails, string[]> = {
+  name: ['name', 'village', 'villagename', 'villagenameinenglish', 'villagenameenglish'],
+  district: ['district', 'districtname', 'districtnameinenglish'],
+  block: ['block', 'blockname', 'cdblock', 'cdblockname', 'developmentblock'],
+  taluka: ['taluka', 'talukaname', 'taluk', 'tehsil', 'tahsil', 'subdistrict', 'subdistrictname', 'subdistrictnameinenglish'],
+  pinCode: ['pin', 'pincode', 'postalcode'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'long', 'lng', 'lon'],
+  population: ['population', 'totalpopulation', 'totpop', 'populationtotal'],
+  contactName: ['contact', 'contactname', 'contactperson'],
+  contactPhone: ['phone', 'contactphone', 'mobile', 'contactnumber'],
+  visitFrequency: ['visitfrequency', 'frequency'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const parseOptionalNumber = (value: string) => {
+  if (!value) return undefined;
+  const num = Number(value.replace(/,/g, ''));
+  return isNaN(num) ? NaN : num;
+};
+
+const parseVisitFrequency = (value: string): VisitFrequency | undefined => {
+  const normalized = normalizeHeader(value);
+  if (!normalized) return undefined;
+  return VISIT_FREQUENCIES.find(code => normalizeHeader(code) === normalized || normalizeHeader(VISIT_FREQUENCY_LABELS[code]) === normalized);
+};
+
+export interface VillageCsvParseResult {
+  villages: VillageDetails[];
+  errors: string[]; // One per skipped row, with its line number
+}
+
+/** Reads a CSV village list. Only the name column is required; unknown columns are ignored. */
+export const parseVillageCsv = (text: string): VillageCsvParseResult => {
+  const workbook = XLSX.read(text, { type: 'string', raw: true });
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  const rows = sheet ? XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, defval: '' }) : [];
+  if (rows.length === 0) {
+    return { villages: [], errors: ['The file is empty.'] };
+  }
+
+  const headers = rows[0].map(header => normalizeHeader(String(header)));
+  const columnIndex = Object.fromEntries(
+    Object.entries(CSV_COLUMNS).map(([field, names]) => [field, headers.findIndex(header => names.includes(header))])
+  ) as Record<keyof VillageDetails, number>;
+  if (columnIndex.name === -1) {
+    return { villages: [], errors: ['No village name column found. Name the column "Village" or "Village Name".'] };
+  }
+
+  const villages: VillageDetails[] = [];
+  const errors: string[] = [];
+  rows.slice(1).forEach((row, index) => {
+    const lineNumber = index + 2;
+    const cell = (field: keyof VillageDetails) => (columnIndex[field] === -1 ? '' : String(row[columnIndex[field]] ?? '').trim());
+    if (row.every(value => !String(value).trim())) return;
+
+    const visitFrequencyText = cell('visitFrequency');
+    const visitFrequency = parseVisitFrequency(visitFrequencyText);
+    if (visitFrequencyText && !visitFrequency) {
+      errors.push(`Line ${lineNumber}: unknown visit frequency "${visitFrequencyText}".`);
+      return;
+    }
+    const numbers = { latitude: parseOptionalNumber(cell('latitude')), longitude: parseOptionalNumber(cell('longitude')), population: parseOptionalNumber(cell('population')) };
+    const badNumber = (Object.keys(numbers) as Array<keyof typeof numbers>).find(field => Number.isNaN(numbers[field]));
+    if (badNumber) {
+      errors.push(`Line ${lineNumber}: ${badNumber} "${cell(badNumber)}" is not a number.`);
+      return;
+    }
+
+    const validation = validateVillageDetails({
+      name: cell('name'),
+      district: cell('district'),
+      block: cell('block'),
+      taluka: cell('taluka'),
+      pinCode: cell('pinCode'),
+      ...numbers,
+      population: numbers.population === undefined ? undefined : Math.round(numbers.population),
+      contactName: cell('contactName'),
+      contactPhone: cell('contactPhone'),
+      visitFrequency,
+    });
+    if ('error' in validation) {
+      errors.push(`Line ${lineNumber}: ${validation.error}`);
+      return;
+    }
+    villages.push(validation.fields);
+  });
+
+  return { villages, errors };
+};
@@ -0,0 +1,41 @@
+// Voiding keeps the original transaction untouched (it is part of the hash
+// chain) and records a linked 'void' transaction with the opposite quantities.
+// Whether an entry is voided is always derived from those reversals.
+
+import type { Transaction } from '@/types';
+
+export const VOIDABLE_TRANSACTION_TYPES: Transaction['type'][] = ['dispense', 'restock', 'adjustment'];
+
+export interface VoidStatus {
+  reversals: Transaction[]; // Oldest first
+  voidedLineIndexes: Set<number>;
+  fullyVoided: boolean;
+}
+
+export const isVoidable = (transaction: Transaction) =>
+  VOIDABLE_TRANSACTION_TYPES.includes(transaction.type) && transaction.drugs.length > 0;
+
+/** Void status of every transaction that has at least one reversal, keyed by the original's ID. */
+export const getVoidStatusMap = (transactions: Transaction[]): Map<string, VoidStatus> => {
+  const originalsById = new Map(transactions.map(txn => [txn.id, txn]));
+  const statusMap = new Map<string, VoidStatus>();
+
+  transactions
+    .filter(txn => txn.type === 'void' && txn.voidOf)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+    .forEach(reversal => {
+      const originalId = reversal.voidOf!.transactionId;
+      const status = statusMap.get(originalId) || { reversals: [], voidedLineIndexes: new Set<number>(), fullyVoided: false };
+      status.reversals.push(reversal);
+      reversal.voidOf!.lineIndexes.forEach(index => status.voidedLineIndexes.add(index));
+      const original = originalsById.get(originalId);
+      status.fullyVoided = !!original && original.drugs.every((_, index) => status.voidedLineIndexes.has(index));
+      statusMap.set(originalId, status);
+    });
+
+  return statusMap;
+};
+
+/** Unicode combining overlay so struck-through text survives in plain cells (e.g. XLSX exports). */
+export const strikeThroughText = (text: string) =>
+  Array.from(text).map(char => `${char}\u0336`).join('');
@@ -1,86 +1,200 @@
+import type { LocaleCode } from '@/i18n';
+
+
+// How a product is made up, and the base unit its stock is counted in (see src/lib/units.ts)
+export type DosageForm = 'tablet' | 'capsule' | 'syrup' | 'suspension' | 'drops' | 'ointment' | 'cream' | 'injection' | 'sachet' | 'inhaler' | 'other';
+export type BaseUnit = 'tablet' | 'capsule' | 'ml' | 'bottle' | 'tube' | 'vial' | 'ampoule' | 'sachet' | 'inhaler' | 'unit';
+
+// Everything recorded before units existed was counted in tablets
+export const DEFAULT_DOSAGE_FORM: DosageForm = 'tablet';
+export const DEFAULT_BASE_UNIT: BaseUnit = 'tablet';
+
+// Packs a product is bought or handed out in, from the smallest up (see src/lib/packs.ts)
+export type PackLevel = 'strip' | 'box' | 'carton';
+// Base units in one pack of each level the product comes in, e.g. { strip: 10, box: 100, carton: 1000 }
+export type PackSizes = Partial<Record<PackLevel, number>>;
+
+// A drug as it is catalogued, independent of any batch (see src/lib/products.ts)
+export interface Product {
+  id: string;
+  name: string; // Generic Name
+  brandName?: string;
+  dosage?: string; // Strength, e.g., "500mg", "125mg/5ml"
+  dosageForm: DosageForm;
+  unit: BaseUnit; // Stock, prices and levels of every batch are counted in this unit
+  packSizes?: PackSizes; // Absent when it is only handled loose
+  category?: string; // Free text, e.g. "Antidiabetic"
+  shelf?: string; // Where it is kept in the store, e.g. "Rack B2"; free text
+  // Stock levels, in base units across all batches and locations (see getStockLevelStatus)
+  lowStockThreshold: number; // Minimum: stock below this is short
+  reorderLevel?: number; // Reorder once stock falls to this
+  maxStockLevel?: number; // Stock above this is overstock
+  createdAt: string; // ISO string
+}
+
+export type ProductDetails = Omit<Product, 'id' | 'createdAt'>;
 
 export interface Drug {
   id: string; // Unique ID for THIS SPECIFIC BATCH/STOCK ITEM
+  productId: string; // Product.id this batch belongs to
+  // Copied from the product and kept in step with it, so batch lists and ledger snapshots need no lookup
   name: string; // Generic Name
   brandName?: string;
-  dosage?: string; // e.g., "500mg", "10ml"
+  dosage?: string; // e.g., "500mg", "125mg/5ml"
+  dosageForm: DosageForm;
+  unit: BaseUnit; // Stock and price are per this unit
+  packSizes?: PackSizes;
   batchNumber?: string;
   dateOfManufacture?: string; // ISO string
   dateOfExpiry?: string; // ISO string
-  purchasePricePerTablet: number;
-  stock: number; // in tablets for THIS SPECIFIC BATCH
-  lowStockThreshold: number; // Individual threshold for THIS SPECIFIC BATCH
+  purchasePricePerUnit: number; // INR per base unit
+  stock: number; // in base units for THIS SPECIFIC BATCH, always the total of stockByLocation
+  stockByLocation?: Record<string, number>; // Base units at each StockLocation.id; absent means all stock is at DEFAULT_LOCATION_ID
   initialSource?: string; // Source from where the drug batch was first added
 }
 
+export const INITIAL_PRODUCTS: Product[] = [
+  {
+    id: 'product-metformin-500mg-glycomet',
+    name: 'Metformin',
+    brandName: 'Glycomet',
+    dosage: '500mg',
+    dosageForm: 'tablet',
+    unit: 'tablet',
+    lowStockThreshold: 100,
+    reorderLevel: 200,
+    maxStockLevel: 1000,
+    createdAt: '2023-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'product-metformin-500mg-generic',
+    name: 'Metformin',
+    brandName: '',
+    dosage: '500mg',
+    dosageForm: 'tablet',
+    unit: 'tablet',
+    lowStockThreshold: 50,
+    createdAt: '2023-01-01T00:00:00.000Z',
+  },
+  {
+    id: 'product-amlong-5mg',
+    name: 'Amlodipine',
+    brandName: 'Amlong',
+    dosage: '5mg',
+    dosageForm: 'tablet',
+    unit: 'tablet',
+    lowStockThreshold: 100,
+    reorderLevel: 200,
+    maxStockLevel: 1000,
+    createdAt: '2023-01-01T00:00:00.000Z',
+  },
+];
+
 export const INITIAL_DRUGS: Drug[] = [
   // Each object is a distinct batch
   {
     id: 'metformin-500mg-glycomet-batch1',
+    productId: 'product-metformin-500mg-glycomet',
     name: 'Metformin',
     dosage: '500mg',
     brandName: 'Glycomet',
+    dosageForm: 'tablet',
+    unit: 'tablet',
     batchNumber: 'M001',
     dateOfManufacture: '2023-01-01',
     dateOfExpiry: '2025-01-01',
-    purchasePricePerTablet: 0.5,
+    purchasePricePerUnit: 0.5,
     stock: 300,
-    lowStockThreshold: 100,
     initialSource: 'System Setup'
   },
   {
     id: 'metformin-500mg-glycomet-batch2',
+    productId: 'product-metformin-500mg-glycomet',
     name: 'Metformin',
     dosage: '500mg',
     brandName: 'Glycomet',
+    dosageForm: 'tablet',
+    unit: 'tablet',
     batchNumber: 'M002',
     dateOfManufacture: '2023-06-01',
     dateOfExpiry: '2025-06-01',
-    purchasePricePerTablet: 0.55,
+    purchasePricePerUnit: 0.55,
     stock: 200,
-    lowStockThreshold: 100,
     initialSource: 'System Setup'
   },
    {
     id: 'metformin-500mg-generic-batch3',
+    productId: 'product-metformin-500mg-generic',
     name: 'Metformin',
     dosage: '500mg',
     brandName: '', // Or some indicator for generic
+    dosageForm: 'tablet',
+    unit: 'tablet',
     batchNumber: 'MG003',
     dateOfManufacture: '2023-07-01',
     dateOfExpiry: '2024-07-01', // Earlier expiry for testing
-    purchasePricePerTablet: 0.45,
+    purchasePricePerUnit: 0.45,
     stock: 150,
-    lowStockThreshold: 50,
     initialSource: 'System Setup'
   },
   {
     id: 'amlong-5mg-batch1',
+    productId: 'product-amlong-5mg',
     name: 'Amlodipine',
     dosage: '5mg',
     brandName: 'Amlong',
+    dosageForm: 'tablet',
+    unit: 'tablet',
     batchNumber: 'A002',
     dateOfManufacture: '2023-03-01',
     dateOfExpiry: '2025-03-01',
-    purchasePricePerTablet: 1,
+    purchasePricePerUnit: 1,
     stock: 500,
-    lowStockThreshold: 100,
     initialSource: 'System Setup'
   },
 ];
 
+// Where stock is kept: the central store, or a van that carries stock to camps
+export interface StockLocation {
+  id: string;
+  name: string;
+  kind: 'store' | 'van';
+}
+
+// Stock recorded before locations existed is assigned to this location
+export const DEFAULT_LOCATION_ID = 'location-central-store';
+
+export const DEFAULT_STOCK_LOCATION: StockLocation = {
+  id: DEFAULT_LOCATION_ID,
+  name: 'Central Store',
+  kind: 'store',
+};
+
 export const DEFAULT_PURCHASE_PRICE = 0.1;
 export const DEFAULT_DRUG_LOW_STOCK_THRESHOLD = 50;
 
 export interface DrugDispenseEntry {
-  selectedBatchId: string; // ID of the specific batch to dispense from
-  tabletsDispensed: number;
+  productKey: string; // GroupedDrugDisplay.groupKey of the product to dispense
+  selectedBatchId?: string; // Manual override; when absent, stock is allocated first-expiry-first-out (see src/lib/fefo.ts)
+  quantity: number; // In packs of packLevel, or the product's base unit when there is none
+  packLevel?: PackLevel;
+  regimen?: DosingRegimen; // How the patient should take it; quantity is usually calculated from it
+}
+
+// OD once a day, BD twice, TDS three times, QID four times, SOS only when needed, weekly once a week
+export type DosingFrequency = 'OD' | 'BD' | 'TDS' | 'QID' | 'SOS' | 'weekly';
+
+export interface DosingRegimen {
+  dosePerIntake: number; // Base units per intake, e.g. tablets or ml; may be fractional (half a tablet)
+  frequency: DosingFrequency;
+  durationDays: number;
 }
 
 export interface DispenseFormData {
+  patientId?: string; // Registered patient (see Patient); the fields below are snapshotted onto the transaction
   patientName: string;
-  aadharLastFour: string;
-  age: number;
+  aadharLastFour?: string;
+  age?: number; // At the time of dispensing
   sex?: 'Male' | 'Female' | 'Other';
   villageName?: string;
   drugsToDispense: DrugDispenseEntry[];
@@ -88,21 +202,32 @@ export interface DispenseFormData {
 
 // For "Add New Drug" in RestockForm - represents a new batch
 export interface NewDrugDetails {
+  productId?: string; // Catalog product of the batch; name, brand, dosage, form, unit and packs then come from it
   name: string; // Generic Name
   brandName?: string;
   dosage?: string;
+  dosageForm: DosageForm;
+  unit: BaseUnit;
+  packSizes?: PackSizes;
   batchNumber: string; // Batch number is mandatory for a new batch
   dateOfManufacture?: string;
   dateOfExpiry: string; // Expiry date is mandatory for a new batch
-  purchasePricePerTablet: number;
-  lowStockThreshold: number;
+  purchasePricePerUnit: number;
+  // Only used when a new product is created; a catalog product keeps its own
+  category?: string;
+  lowStockThreshold?: number;
+  reorderLevel?: number;
+  maxStockLevel?: number;
 }
 
 export interface DrugRestockEntry {
   drugId: string; // ID of existing batch to restock, or '--add-new--'
-  tabletsAdded: number;
+  // With a pack level, the quantity and the purchase price (new or updated) are per pack of that level;
+  // without one they are per base unit. Stock and prices are saved in base units either way.
+  packLevel?: PackLevel;
+  quantity: number;
   newDrugDetails?: NewDrugDetails; // Only if drugId is '--add-new--'
-  updatedPurchasePricePerTablet?: number; // For existing batch
+  updatedPurchasePricePerUnit?: number; // For existing batch
 }
 
 export interface RestockFormData {
@@ -116,15 +241,25 @@ export interface TransactionDrugDetail {
   brandName?: string; // (snapshot)
   dosage?: string; // (snapshot)
   batchNumber?: string; // (snapshot)
+  unit?: BaseUnit; // (snapshot) Unit of quantity and stock figures; absent on entries from before units, which were tablets
   quantity: number;
   previousStock: number; // Stock of this batch before transaction
   newStock: number; // Stock of this batch after transaction
+  allocation?: 'fefo' | 'manual'; // Dispense lines only: how the batch was chosen
+  regimen?: DosingRegimen; // Dispense lines only; repeated on each batch line when one drug spans batches
 }
 
 export interface Transaction {
   id: string;
-  type: 'dispense' | 'restock' | 'update' | 'adjustment';
+  type: 'dispense' | 'restock' | 'update' | 'adjustment' | 'void' | 'transfer';
   timestamp: string;
+  performedBy?: TransactionActor; // Logged-in user who recorded this transaction
+  patientId?: string; // Registered patient, on dispenses recorded after the patient registry existed
+  campId?: string; // Camp that was active when this dispense or adjustment was recorded
+  // Location whose stock changed. Line stock figures (previousStock/newStock) are for this location;
+  // entries recorded before locations existed have none, and their figures are batch totals.
+  locationId?: string;
+  transfer?: StockTransfer; // Only on 'transfer' transactions; line stock figures are for the source location
   patientName?: string;
   aadharLastFour?: string;
   age?: number;
@@ -148,43 +283,390 @@ export interface Transaction {
     newDateOfManufacture?: string;
     previousDateOfExpiry?: string;
     newDateOfExpiry?: string;
-    previousPrice?: number;
+    previousDosageForm?: DosageForm;
+    newDosageForm?: DosageForm;
+    previousUnit?: BaseUnit;
+    newUnit?: BaseUnit;
+    previousPackSizes?: PackSizes; // Only when the pack sizes changed; an empty object means none were set
+    newPackSizes?: PackSizes;
+    previousPrice?: number; // Per base unit
     newPrice?: number;
     previousThreshold?: number;
     newThreshold?: number;
     previousSource?: string;
     newSource?: string;
   };
+  // Hash chain (see src/lib/ledger.ts). Missing only on entries not yet sealed.
+  sequence?: number; // Position in the ledger, starting at 1
+  previousHash?: string; // `hash` of the entry at sequence - 1
+  hash?: string; // SHA-256 over every other field of this entry, previousHash included
+  // Only on 'void' transactions: the entry being reversed. The original itself is never changed.
+  voidOf?: TransactionVoidLink;
+  voidReason?: string;
+  // Only on dispenses that used batches close to expiry: who confirmed it and why
+  nearExpiryOverride?: NearExpiryOverride;
+  stockTakeId?: string; // Only on the adjustment posted by approving a stock take (StockTake.id)
 }
 
-// For editing a specific batch
-export interface EditDrugFormData {
-  name: string; // Generic Name
+export interface StockTransfer {
+  fromLocationId: string;
+  toLocationId: string;
+}
+
+export interface StockTransferEntry {
+  drugId: string; // Batch to move
+  quantity: number;
+}
+
+export interface NearExpiryBatch {
+  drugId: string;
+  drugName: string;
   brandName?: string;
   dosage?: string;
+  batchNumber?: string;
+  dateOfExpiry: string;
+  daysToExpiry: number;
+}
+
+export interface NearExpiryOverride {
+  reason: string;
+  warningDays: number; // Policy in force when the override was given
+  batches: NearExpiryBatch[];
+}
+
+export interface TransactionVoidLink {
+  transactionId: string;
+  sequence?: number; // Ledger number of the original, for display
+  lineIndexes: number[]; // Indexes into the original's `drugs`, in the same order as this reversal's `drugs`
+}
+
+export type LedgerIssueKind =
+  | 'content-altered' // Stored hash no longer matches the entry's content
+  | 'broken-link' // previousHash does not match the entry before it
+  | 'missing-entry' // A sequence number is absent; entries are voided, never removed
+  | 'duplicate-sequence'
+  | 'unsealed'; // Entry has no hash at all
+
+export interface LedgerIssue {
+  kind: LedgerIssueKind;
+  sequence?: number;
+  transactionId?: string;
+  timestamp?: string;
+  message: string;
+}
+
+export interface LedgerVerificationResult {
+  valid: boolean;
+  checkedAt: string; // ISO string
+  entryCount: number;
+  headSequence: number; // 0 for an empty ledger
+  headHash: string;
+  issues: LedgerIssue[];
+}
+
+// For editing a specific batch. Name, form, unit and packs are the product's (see ProductDetails).
+export interface EditDrugFormData {
+  productId: string; // Moves the batch to another product counted in the same unit
   batchNumber: string;
   dateOfManufacture?: string;
   dateOfExpiry: string;
-  purchasePricePerTablet: number;
-  lowStockThreshold: number;
+  purchasePricePerUnit: number;
   initialSource?: string;
 }
 
+export type VisitFrequency = 'weekly' | 'fortnightly' | 'monthly' | 'quarterly' | 'asNeeded';
+
 export interface Village {
   id: string;
   name: string;
+  district?: string;
+  block?: string;
+  taluka?: string;
+  pinCode?: string; // 6 digits
+  latitude?: number; // Decimal degrees
+  longitude?: number;
+  population?: number; // Approximate, e.g. from the census village list
+  contactName?: string; // Sarpanch, ASHA worker or other local contact
+  contactPhone?: string;
+  visitFrequency?: VisitFrequency;
+  // Earlier names of this village and of villages merged into it. Dispenses record
+  // the village by name and cannot be edited, so these names keep matching it.
+  aliases?: string[];
+}
+
+export type VillageDetails = Omit<Village, 'id' | 'aliases'>;
+
+export interface VillageImportResult {
+  added: number;
+  updated: number; // Existing villages whose blank fields were filled in
+  unchanged: number;
+}
+
+export type CampStatus = 'planned' | 'active' | 'closed';
+
+// One camp day in a village. While a camp is active, dispenses and stock
+// adjustments are tagged with its ID (Transaction.campId).
+export interface Camp {
+  id: string;
+  date: string; // yyyy-MM-dd
+  villageId: string; // Village.id
+  teamMembers: string[]; // Names of the doctors and volunteers on the team
+  startTime?: string; // HH:mm, planned
+  endTime?: string; // HH:mm, planned
+  status: CampStatus;
+  notes?: string;
+  createdAt: string; // ISO string
+  startedAt?: string; // ISO string, when it was made active
+  closedAt?: string; // ISO string
+  kit?: CampKit; // Drugs packed for the camp, once planned
+}
+
+// Where the proposed kit quantities came from
+export type CampKitBasis = 'village' | 'similarVillages' | 'none';
+
+// One batch packed for a camp. Packed stock stays on the batch record; only
+// what goes missing is written off when the kit is reconciled.
+export interface CampKitBatch {
+  drugId: string; // ID of the reserved batch
+  batchNumber?: string; // (snapshot)
+  dateOfExpiry?: string; // (snapshot)
+  quantity: number; // Base units reserved, and packed once the kit is marked packed
+  returned?: number; // Base units counted back in, set on reconciliation
+}
+
+export interface CampKitItem {
+  groupKey: string; // Product.id
+  displayName: string;
+  averagePerVisit: number; // Historic base units dispensed per visit; 0 for items added by hand
+  quantity: number; // Base units wanted; more than the batches hold when stock is short
+  batches: CampKitBatch[]; // Earliest expiry first
+}
+
+export interface CampKit {
+  basis: CampKitBasis;
+  basisVillageIds: string[]; // Villages whose past dispenses the proposal used
+  basisVisitCount: number;
+  items: CampKitItem[];
+  plannedAt: string; // ISO string
+  packedAt?: string; // ISO string
+  reconciledAt?: string; // ISO string
+}
+
+export interface NewCampData {
+  date: string;
+  villageId: string;
+  teamMembers: string[];
+  startTime?: string;
+  endTime?: string;
+  notes?: string;
+}
+
+export interface Patient {
+  id: string;
+  name: string;
+  dateOfBirth?: string; // yyyy-MM-dd
+  dateOfBirthEstimated?: boolean; // Derived from a stated age rather than a known birth date
+  sex?: 'Male' | 'Female' | 'Other';
+  aadharLastFour?: string;
+  phone?: string;
+  villageId?: string; // Home village (Village.id)
+  registeredAt: string; // ISO string; for patients created by the matching pass, their first dispense
+  // Dispenses from before the registry existed. Ledger entries cannot be edited to
+  // carry a patientId, so the link is kept on the patient instead (see src/lib/patients.ts).
+  linkedTransactionIds?: string[];
+  // Set on a duplicate that was merged into another patient. The record is kept, hidden, so the merge can be undone.
+  mergedInto?: PatientMergeRecord;
+  notDuplicateOf?: string[]; // Patient IDs a reviewer confirmed are different people
+  preferredLanguage?: LocaleCode; // Language their slips are printed in; English when unset
+}
+
+// Patient fields a merge may take from the duplicate onto the kept record
+export type PatientMergeField = 'dateOfBirth' | 'dateOfBirthEstimated' | 'sex' | 'aadharLastFour' | 'phone' | 'villageId' | 'registeredAt';
+
+export interface PatientMergeRecord {
+  patientId: string; // The record that was kept
+  mergedAt: string; // ISO string
+  mergedBy?: TransactionActor;
+  movedTransactionIds: string[]; // Transactions re-pointed to the kept record
+  changedFields: PatientMergeField[]; // Fields of the kept record the merge changed
+  previousValues: Partial<Pick<Patient, PatientMergeField>>; // Their values before the merge, put back on undo
+}
+
+export interface NewPatientData {
+  name: string;
+  dateOfBirth?: string;
+  age?: number; // Used to estimate dateOfBirth when it is not known
+  sex?: 'Male' | 'Female' | 'Other';
+  aadharLastFour?: string;
+  phone?: string;
+  villageId?: string;
+  preferredLanguage?: LocaleCode;
+}
+
+export type StockTakeStatus = 'counting' | 'approved' | 'cancelled';
+
+// Which batches a stock take covers: everything at the location, or only some categories or shelves
+export type StockTakeScope =
+  | { kind: 'all' }
+  | { kind: 'category'; values: string[] }
+  | { kind: 'shelf'; values: string[] };
+
+// One count of a batch. A batch may be counted more than once; the latest count is the one used.
+export interface StockTakeCount {
+  quantity: number; // Base units found
+  countedBy: string; // Name of the volunteer who counted, who need not have a login
+  countedAt: string; // ISO string
+  recordedBy?: TransactionActor; // Logged-in user who entered the count
+}
+
+// One batch to count. Everything but `counts` is frozen when the stock take starts.
+export interface StockTakeLine {
+  drugId: string;
+  productId: string;
+  displayName: string; // (snapshot) e.g. "Glycomet Metformin 500mg"
+  batchNumber?: string; // (snapshot)
+  dateOfExpiry?: string; // (snapshot)
+  unit: BaseUnit; // (snapshot)
+  category?: string; // (snapshot)
+  shelf?: string; // (snapshot)
+  purchasePricePerUnit: number; // (snapshot) INR per base unit, used to value the variance
+  expectedQuantity: number; // Stock recorded at the location when the stock take started
+  counts: StockTakeCount[]; // Oldest first
+}
+
+// A physical count of the stock at one location (see src/lib/stockTakes.ts).
+// Approving it posts every variance as one grouped 'adjustment' transaction.
+export interface StockTake {
+  id: string;
+  name: string; // e.g. "March cycle count - Rack A"
+  locationId: string; // StockLocation.id being counted
+  scope: StockTakeScope;
+  status: StockTakeStatus;
+  lines: StockTakeLine[];
+  notes?: string;
+  startedAt: string; // ISO string; expected quantities are as of this moment
+  startedBy?: TransactionActor;
+  approvedAt?: string; // ISO string
+  approvedBy?: TransactionActor;
+  cancelledAt?: string; // ISO string
+  cancelledBy?: TransactionActor;
+}
+
+export interface NewStockTakeData {
+  name: string;
+  locationId: string;
+  scope: StockTakeScope;
+  notes?: string;
 }
 
 // For dashboard display and dispense form selection
 export interface GroupedDrugDisplay {
-  groupKey: string; // e.g., "metformin-glycomet-500mg" or "metformin--500mg"
-  displayName: string; // For UI display, e.g., "Metformin Glycomet 500mg"
+  groupKey: string; // Product.id
+  displayName: string; // For UI display, e.g., "Glycomet Metformin 500mg"
   genericName: string;
   brandName?: string;
   dosage?: string;
+  category?: string;
+  dosageForm: DosageForm;
+  unit: BaseUnit; // totalStock, stockByLocation and the threshold are in this unit
+  packSizes?: PackSizes;
   totalStock: number;
-  // Use the threshold of the first batch in the group for the aggregate warning
+  stockByLocation: Record<string, number>; // Base units of this product at each StockLocation.id
+  // The product's stock levels, for its stock across all batches and locations
   lowStockThreshold: number;
+  reorderLevel?: number;
+  maxStockLevel?: number;
   // Batches belonging to this group, sorted by expiry
   batches: Drug[];
 }
+
+// A persisted record that failed schema validation or migration on load.
+// Kept aside (never silently deleted) so it can be inspected or recovered.
+export interface QuarantinedRecord {
+  id: string;
+  store: 'drugs' | 'transactions' | 'villages' | 'patients' | 'camps' | 'locations' | 'products' | 'stockTakes';
+  reason: string;
+  schemaVersion: number; // Version the data was stamped with when it was quarantined
+  quarantinedAt: string; // ISO string
+  data: unknown; // The raw record exactly as it was read
+}
+
+export interface BackupSummary {
+  drugCount: number;
+  transactionCount: number;
+  villageCount: number;
+  patientCount?: number; // Absent in backups made before the patient registry
+  campCount?: number; // Absent in backups made before camp sessions
+  locationCount?: number; // Absent in backups made before stock locations
+  productCount?: number; // Absent in backups made before the product catalog
+  stockTakeCount?: number; // Absent in backups made before stock takes
+  firstTransactionAt?: string; // ISO string
+  lastTransactionAt?: string; // ISO string
+}
+
+// Single-file export of the whole database (see src/lib/backup.ts)
+export interface BackupFile {
+  format: 'forrads-mmu-backup';
+  formatVersion: number;
+  schemaVersion: number; // Data schema version of `data` (see src/lib/migrations.ts)
+  createdAt: string; // ISO string
+  summary: BackupSummary;
+  checksum: string; // "sha256:<hex>" of JSON.stringify(data)
+  data: {
+    drugs: Drug[];
+    transactions: Transaction[];
+    villages: Village[];
+    patients?: Patient[]; // Absent in backups made before the patient registry
+    camps?: Camp[]; // Absent in backups made before camp sessions
+    locations?: StockLocation[]; // Absent in backups made before stock locations
+    products?: Product[]; // Absent in backups made before the product catalog
+    stockTakes?: StockTake[]; // Absent in backups made before stock takes
+  };
+}
+
+// 'replace' discards current data; 'merge' only adds records whose IDs are not already present
+export type RestoreMode = 'replace' | 'merge';
+
+export type UserRole = 'admin' | 'pharmacist' | 'doctor' | 'volunteer';
+
+export type Permission =
+  | 'dispense'
+  | 'restock'
+  | 'adjust' // Adjust stock counts, edit batch details and merge duplicate patients
+  | 'deleteBatch'
+  | 'voidTransaction'
+  | 'reset' // Reset all data or replace it from a backup
+  | 'manageCamps' // Plan, start and close camps
+  | 'manageUsers';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  pharmacist: 'Pharmacist',
+  doctor: 'Doctor',
+  volunteer: 'Volunteer',
+};
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ['dispense', 'restock', 'adjust', 'deleteBatch', 'voidTransaction', 'reset', 'manageUsers', 'manageCamps'],
+  pharmacist: ['dispense', 'restock', 'adjust', 'deleteBatch', 'voidTransaction', 'manageCamps'],
+  doctor: ['dispense', 'manageCamps'],
+  volunteer: ['dispense', 'restock'],
+};
+
+export interface User {
+  id: string;
+  name: string;
+  role: UserRole;
+  pinHash: string; // PBKDF2-SHA256, hex (see src/lib/auth.ts)
+  pinSalt: string; // Random per-user salt, hex
+  active: boolean; // Deactivated users cannot log in but stay referenced by their transactions
+  createdAt: string; // ISO string
+  language?: LocaleCode; // UI language chosen from the header; English when unset
+}
+
+// Snapshot of the user stored on each transaction, so renames don't rewrite history
+export interface TransactionActor {
+  userId: string;
+  userName: string;
+  role: UserRole;
+}
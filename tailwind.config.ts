@@ -17,8 +17,8 @@ export default {
     },
     extend: {
       fontFamily: {
-        body: ['PT Sans', 'sans-serif'],
-        headline: ['PT Sans', 'sans-serif'],
+        body: ['PT Sans', 'Noto Sans Devanagari', 'sans-serif'],
+        headline: ['PT Sans', 'Noto Sans Devanagari', 'sans-serif'],
         code: ['monospace'],
       },
       colors: {